@@ -62,6 +62,11 @@ export const PDF_TOOLS_BASE_URL = getEnv('PDF_TOOLS_URL', `http://localhost:${PD
 export const SEARXNG_BASE_URL = getEnv('SEARXNG_URL', `http://localhost:${SEARXNG_PORT}`)
 export const OLLAMA_BASE_URL = getEnv('OLLAMA_URL', `http://localhost:${OLLAMA_PORT}`)
 export const VLLM_BASE_URL = getEnv('VLLM_URL', `http://localhost:${VLLM_PORT}`)
+export const SGLANG_BASE_URL = getEnv('SGLANG_URL', `http://localhost:${SGLANG_PORT}`)
+export const LLAMACPP_BASE_URL = getEnv('LLAMACPP_URL', `http://localhost:${LLAMACPP_PORT}`)
+
+// Ecosystem root (service checkouts, their log files, etc.)
+export const ECOSYSTEM_ROOT = getEnv('ECOSYSTEM_ROOT', '/home/sparkone/sdd')
 
 // Types
 export interface ServiceConfig {
@@ -71,66 +76,8 @@ export interface ServiceConfig {
   type?: 'http' | 'tcp'
 }
 
-export interface ServiceLink {
-  name: string
-  url: string
-  port: number
-  description: string
-}
-
-export interface HealthCheckService {
-  name: string
-  port: number
-  healthEndpoint: string
-  type: 'http' | 'tcp'
-}
-
-// Health Check Services
-export const HEALTH_CHECK_SERVICES: HealthCheckService[] = [
-  { name: 'memOS', port: MEMOS_PORT, healthEndpoint: '/api/v1/system/health/aggregate', type: 'http' },
-  { name: 'Gateway', port: GATEWAY_PORT, healthEndpoint: '/health', type: 'http' },
-  { name: 'SearXNG', port: SEARXNG_PORT, healthEndpoint: '/healthz', type: 'http' },
-  { name: 'PDF Tools', port: PDF_TOOLS_PORT, healthEndpoint: '/health', type: 'http' },
-  { name: 'Ollama', port: OLLAMA_PORT, healthEndpoint: '/api/version', type: 'http' },
-  { name: 'Neo4j', port: NEO4J_HTTP_PORT, healthEndpoint: '/', type: 'http' },
-  { name: 'Milvus', port: MILVUS_HEALTH_PORT, healthEndpoint: '/healthz', type: 'http' },
-  { name: 'MinIO', port: MINIO_PORT, healthEndpoint: '/minio/health/live', type: 'http' },
-  // Note: etcd is internal to Docker network (not exposed to host), health implied by Milvus
-  { name: 'PostgreSQL', port: POSTGRES_PORT, healthEndpoint: '', type: 'tcp' },
-  { name: 'Redis', port: REDIS_PORT, healthEndpoint: '', type: 'tcp' },
-]
-
-// Service Links
-export const SERVICE_LINKS: ServiceLink[] = [
-  { name: 'memOS API', url: `http://localhost:${MEMOS_PORT}/docs`, port: MEMOS_PORT, description: 'FastAPI documentation' },
-  { name: 'LLM Gateway', url: `http://localhost:${GATEWAY_PORT}/docs`, port: GATEWAY_PORT, description: 'LLM routing' },
-  { name: 'PDF Tools API', url: `http://localhost:${PDF_TOOLS_PORT}/docs`, port: PDF_TOOLS_PORT, description: 'PDF extraction' },
-  { name: 'SearXNG', url: `http://localhost:${SEARXNG_PORT}`, port: SEARXNG_PORT, description: 'Metasearch' },
-  { name: 'Neo4j Browser', url: `http://localhost:${NEO4J_HTTP_PORT}`, port: NEO4J_HTTP_PORT, description: 'Graph DB' },
-]
-
-// Helper functions
-export function getPort(service: string): number {
-  const portMap: Record<string, number> = {
-    memos: MEMOS_PORT,
-    gateway: GATEWAY_PORT,
-    pdf_tools: PDF_TOOLS_PORT,
-    searxng: SEARXNG_PORT,
-    ollama: OLLAMA_PORT,
-    neo4j: NEO4J_HTTP_PORT,
-    milvus: MILVUS_PORT,
-  }
-  return portMap[service] ?? 0
-}
-
-export function getUrl(service: string, host = 'localhost'): string {
-  return `http://${host}:${getPort(service)}`
-}
-
-export function getHealthEndpoint(service: string): string {
-  const svc = HEALTH_CHECK_SERVICES.find(s => s.name.toLowerCase() === service.toLowerCase())
-  return svc?.healthEndpoint ?? '/'
-}
+// Per-service ports, health probes, containers, log sources and links live
+// in config/services.json (served at /api/services)
 
 // Legacy alias
 export const MILVUS_GRPC_PORT = MILVUS_HEALTH_PORT
@@ -8,6 +8,7 @@
 #   ./ecosystem.sh start [--parallel]     - Start all services
 #   ./ecosystem.sh stop                   - Stop all services
 #   ./ecosystem.sh restart [--parallel]   - Restart all services
+#   ./ecosystem.sh start|stop|restart <service> - Control a single service
 #   ./ecosystem.sh status                 - Show status of all services
 #   ./ecosystem.sh health                 - Deep health check all services
 #   ./ecosystem.sh logs <service>         - View logs for a service
@@ -976,6 +977,33 @@ cmd_restart() {
     cmd_start "$@"
 }
 
+# Single-service control, used by the dashboard's /api/processes endpoints
+cmd_service() {
+    local action="$1"
+    local service="$2"
+
+    if [[ -z "${SERVICES[$service]}" ]]; then
+        log_error "Unknown service: $service"
+        return 2
+    fi
+
+    local handler="${service//-/_}"
+    if ! declare -F "start_$handler" >/dev/null || ! declare -F "stop_$handler" >/dev/null; then
+        log_error "No start/stop handler for service: $service"
+        return 2
+    fi
+
+    case "$action" in
+        start) "start_$handler" ;;
+        stop) "stop_$handler" ;;
+        restart)
+            "stop_$handler"
+            sleep 3
+            "start_$handler"
+            ;;
+    esac
+}
+
 cmd_status() {
     log_header "RecoveryBot Ecosystem Status"
 
@@ -1586,6 +1614,7 @@ cmd_help() {
     echo "  start [--parallel]     Start all ecosystem services"
     echo "  stop                   Stop all ecosystem services"
     echo "  restart [--parallel]   Restart all ecosystem services"
+    echo "  start|stop|restart <service>  Control a single service"
     echo "  status                 Show status of all services"
     echo "  health                 Deep health check all services"
     echo "  diagnose               Show diagnostic information for troubleshooting"
@@ -1625,6 +1654,7 @@ cmd_help() {
     echo "  $0 health             # Deep health check"
     echo "  $0 logs memos         # View memOS logs"
     echo "  $0 stop               # Stop all services"
+    echo "  $0 restart memos      # Restart a single service"
     echo ""
 }
 
@@ -1635,14 +1665,27 @@ cmd_help() {
 case "${1:-help}" in
     start)
         shift
-        cmd_start "$@"
+        if [[ -n "$1" && "$1" != --* ]]; then
+            cmd_service start "$1"
+        else
+            cmd_start "$@"
+        fi
         ;;
     stop)
-        cmd_stop
+        shift
+        if [[ -n "$1" && "$1" != --* ]]; then
+            cmd_service stop "$1"
+        else
+            cmd_stop "$@"
+        fi
         ;;
     restart)
         shift
-        cmd_restart "$@"
+        if [[ -n "$1" && "$1" != --* ]]; then
+            cmd_service restart "$1"
+        else
+            cmd_restart "$@"
+        fi
         ;;
     status)
         cmd_status
@@ -0,0 +1,27 @@
+import Database from 'better-sqlite3'
+import { mkdirSync } from 'fs'
+import { join } from 'path'
+
+// Local embedded store for data the dashboard collects itself
+// (history, archives, etc). Lives next to the app unless overridden.
+const DATA_DIR = process.env.DASHBOARD_DATA_DIR || join(process.cwd(), 'data')
+const DB_PATH = join(DATA_DIR, 'dashboard.db')
+
+let db: Database.Database | null = null
+
+export function getDb(): Database.Database {
+  if (!db) {
+    mkdirSync(DATA_DIR, { recursive: true })
+    db = new Database(DB_PATH)
+    db.pragma('journal_mode = WAL')
+    db.pragma('synchronous = NORMAL')
+  }
+  return db
+}
+
+export function closeDb() {
+  if (db) {
+    db.close()
+    db = null
+  }
+}
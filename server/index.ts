@@ -1,36 +1,107 @@
 import express from 'express'
 import cors from 'cors'
+import { authRouter } from './routes/auth'
 import { healthRouter } from './routes/health'
 import { logsRouter } from './routes/logs'
 import { docsRouter } from './routes/docs'
 import { gpuRouter } from './routes/gpu'
 import { processesRouter } from './routes/processes'
+import { containersRouter } from './routes/containers'
+import { servicesRouter } from './routes/services'
 import { agentRouter } from './routes/agent'
 import { docgraphRouter } from './routes/docgraph'
-import { DASHBOARD_BACKEND_PORT } from '../config/ports'
+import { alertsRouter } from './routes/alerts'
+import { liveRouter } from './routes/live'
+import { metricsRouter } from './routes/metrics'
+import { auditRouter } from './routes/audit'
+import { modelsRouter } from './routes/models'
+import { benchmarksRouter } from './routes/benchmarks'
+import { startHealthSampler } from './services/healthHistory'
+import { startLogTailers } from './services/logTailer'
+import { startLogArchive } from './services/logArchive'
+import { startAlertEngine } from './services/alertEngine'
+import { startNotifiers } from './services/notifiers'
+import { startGPUSampler } from './services/gpuHistory'
+import { startContainerStatsSampler } from './services/containers'
+import { startLiveCollector } from './services/liveState'
+import { startAgentRunStore } from './services/agentRuns'
+import { loadServiceRegistry, watchServiceRegistry } from './services/serviceRegistry'
+import { bootstrapAdmin, isAuthDisabled } from './services/auth'
+import { authenticate, requireRole } from './middleware/auth'
+import { DASHBOARD_BACKEND_PORT, DASHBOARD_FRONTEND_PORT } from '../config/ports'
 
 const app = express()
 const PORT = DASHBOARD_BACKEND_PORT
 
-app.use(cors())
+// Fail fast on a broken registry; later edits are hot-reloaded
+const registry = loadServiceRegistry()
+
+// The UI is served through the Vite proxy (same origin); other origins must be
+// listed explicitly since requests carry the session cookie
+const CORS_ORIGINS = (process.env.DASHBOARD_CORS_ORIGINS || `http://localhost:${DASHBOARD_FRONTEND_PORT}`)
+  .split(',')
+  .map((origin) => origin.trim())
+
+app.use(cors({ origin: CORS_ORIGINS, credentials: true }))
 app.use(express.json())
+app.use(authenticate)
+
+// Public: sign-in and the liveness check. Everything else needs at least a
+// viewer; routes that change state require operator or admin themselves.
+app.use('/api/auth', authRouter)
+app.get('/api/health-check', (req, res) => {
+  res.json({ status: 'healthy', timestamp: new Date().toISOString() })
+})
+app.use('/api', requireRole('viewer'))
 
 // API routes
+app.use('/api/services', servicesRouter)
 app.use('/api/health', healthRouter)
 app.use('/api/logs', logsRouter)
 app.use('/api/docs', docsRouter)
 app.use('/api/gpu', gpuRouter)
 app.use('/api/processes', processesRouter)
+app.use('/api/containers', containersRouter)
 app.use('/api/agent', agentRouter)
+app.use('/api/models', modelsRouter)
+app.use('/api/benchmarks', benchmarksRouter)
 app.use('/api/docgraph', docgraphRouter)
+app.use('/api/alerts', alertsRouter)
+app.use('/api/live', liveRouter)
+app.use('/api/audit', requireRole('admin'), auditRouter)
 
-// Root health check
-app.get('/api/health-check', (req, res) => {
-  res.json({ status: 'healthy', timestamp: new Date().toISOString() })
-})
+// Prometheus scrape target, outside /api like most exporters (use an API token)
+app.use('/metrics', requireRole('viewer'), metricsRouter)
 
 app.listen(PORT, () => {
   console.log(`Dashboard backend running on port ${PORT}`)
+  if (isAuthDisabled()) {
+    console.warn('Authentication disabled (AUTH_DISABLED=true): every request acts as admin')
+  } else {
+    const admin = bootstrapAdmin()
+    if (admin?.generatedPassword) {
+      console.log(`Created admin user "${admin.username}" with password: ${admin.generatedPassword}`)
+    } else if (admin) {
+      console.log(`Created admin user "${admin.username}" from DASHBOARD_ADMIN_PASSWORD`)
+    }
+  }
+  watchServiceRegistry()
+  console.log(`Service registry loaded (${registry.services.length} services, watching ${registry.path})`)
   console.log(`Health aggregation active`)
+  startHealthSampler()
+  console.log(`Health history sampler started`)
+  startGPUSampler()
+  console.log(`GPU metrics sampler started`)
+  startContainerStatsSampler()
+  console.log(`Container stats sampler started`)
+  startLiveCollector()
+  console.log(`Live state available at /api/live/stream`)
+  startAgentRunStore()
+  console.log(`Agent run store active`)
+  startAlertEngine()
+  startNotifiers()
+  console.log(`Alert rules engine started`)
+  startLogTailers()
+  startLogArchive()
   console.log(`Log streaming available at /api/logs/stream`)
 })
@@ -0,0 +1,61 @@
+import type { NextFunction, Request, Response } from 'express'
+import { diffValues, recordAudit } from '../services/audit'
+
+export interface AuditOptions {
+  // What was touched, e.g. a service or container id
+  target?: (req: Request) => string | undefined
+  // Request fields worth keeping; never pass secrets through here
+  details?: (req: Request) => Record<string, unknown> | undefined
+  // State read before the handler runs and again after it succeeds; the
+  // difference is stored as the entry's changes
+  snapshot?: (req: Request) => Promise<unknown>
+}
+
+// Records the call in the audit log once the response has been sent.
+// Mount after requireRole so rejected callers don't reach the handler or the log.
+export function audit(action: string | ((req: Request) => string), options: AuditOptions = {}) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const before = options.snapshot ? await options.snapshot(req).catch(() => undefined) : undefined
+
+    // Keep the error message of failed calls
+    let responseBody: unknown
+    const json = res.json.bind(res)
+    res.json = (body: unknown) => {
+      responseBody = body
+      return json(body)
+    }
+
+    res.on('finish', async () => {
+      const success = res.statusCode < 400
+      let changes = null
+      if (options.snapshot && success && before !== undefined) {
+        const after = await options.snapshot(req).catch(() => undefined)
+        if (after !== undefined) changes = diffValues(before, after)
+      }
+
+      const error = !success && typeof (responseBody as { error?: unknown })?.error === 'string'
+        ? (responseBody as { error: string }).error
+        : null
+
+      try {
+        recordAudit({
+          actor: req.user?.username ?? 'anonymous',
+          actorRole: req.user?.role ?? null,
+          via: req.user?.via ?? null,
+          action: typeof action === 'function' ? action(req) : action,
+          target: options.target?.(req) ?? null,
+          method: req.method,
+          path: req.originalUrl.split('?')[0]!,
+          status: res.statusCode,
+          error,
+          details: options.details?.(req) ?? null,
+          changes,
+        })
+      } catch (err) {
+        console.error('Failed to write audit record:', err)
+      }
+    })
+
+    next()
+  }
+}
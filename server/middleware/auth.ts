@@ -0,0 +1,60 @@
+import type { NextFunction, Request, Response } from 'express'
+import {
+  getApiTokenUser,
+  getSessionUser,
+  hasRole,
+  isAuthDisabled,
+  SESSION_COOKIE,
+  type AuthUser,
+  type Role,
+} from '../services/auth'
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser
+    }
+  }
+}
+
+// With AUTH_DISABLED=true every request acts as this local admin
+const LOCAL_ADMIN: AuthUser = { id: 0, username: 'local', role: 'admin', createdAt: new Date(0).toISOString(), via: 'disabled' }
+
+export function readCookie(req: Request, name: string): string | null {
+  for (const part of (req.headers.cookie ?? '').split(';')) {
+    const [key, ...value] = part.trim().split('=')
+    if (key === name) return decodeURIComponent(value.join('='))
+  }
+  return null
+}
+
+// Resolves the caller from a session cookie or `Authorization: Bearer <api token>`;
+// never rejects, so public routes can still see who is asking
+export function authenticate(req: Request, res: Response, next: NextFunction) {
+  if (isAuthDisabled()) {
+    req.user = LOCAL_ADMIN
+    return next()
+  }
+
+  try {
+    const bearer = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '')?.[1]
+    const session = readCookie(req, SESSION_COOKIE)
+    req.user = (bearer ? getApiTokenUser(bearer) : null) ?? (session ? getSessionUser(session) : null) ?? undefined
+  } catch (error) {
+    console.error('Authentication lookup failed:', error)
+  }
+  next()
+}
+
+// 401 without a user, 403 when the user's role is below `role`
+export function requireRole(role: Role) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+    if (!hasRole(req.user, role)) {
+      return res.status(403).json({ error: `Requires the ${role} role` })
+    }
+    next()
+  }
+}
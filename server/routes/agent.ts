@@ -1,11 +1,85 @@
 import { Router, Request, Response } from 'express'
 import { randomUUID } from 'crypto'
 import { MEMOS_BASE_URL } from '../../config/ports'
+import { fetchMemosRunHistory, type AgentRunRecord } from '../services/agentHistory'
+import {
+  appendRunEvent,
+  claimAgentRun,
+  createAgentRun,
+  deriveObservability,
+  expireAgentRun,
+  finishAgentRun,
+  getAgentRun,
+  getObservabilitySnapshot,
+  getRunEvents,
+  isRunStreaming,
+  listAgentRuns,
+  onRunEvent,
+  PENDING_TTL_MS,
+  saveObservabilitySnapshot,
+  type AgentRunSource,
+  type StoredAgentRun,
+} from '../services/agentRuns'
+import { createSSEParser } from '../services/memosSearch'
+import {
+  claimComparisonRun,
+  ComparisonError,
+  createComparison,
+  deleteComparison,
+  expireComparisonRun,
+  finishComparisonRun,
+  getComparisonReport,
+  isComparisonRun,
+  listComparisons,
+  recordRunEvent,
+  validateComparisonPresets,
+} from '../services/agentComparisons'
+import { requireRole } from '../middleware/auth'
+import { audit, type AuditOptions } from '../middleware/audit'
+import {
+  fetchLLMConfig,
+  fetchRawLLMConfig,
+  MemosApiError,
+  putRawLLMConfig,
+  saveLLMConfigFile,
+} from '../services/llmConfig'
+import {
+  captureBaseline,
+  diffLines,
+  getConfigVersion,
+  listConfigVersions,
+  recordConfigVersion,
+} from '../services/llmConfigHistory'
+import { getLLMConfigSchema, validateLLMConfigYaml } from '../services/llmConfigValidation'
+import {
+  applyCustomPreset,
+  createCustomPreset,
+  deleteCustomPreset,
+  exportPresetsYaml,
+  getCustomPreset,
+  importPresetsYaml,
+  listCustomPresets,
+  PresetError,
+  resolvePresetAssignments,
+  updateCustomPreset,
+} from '../services/llmPresets'
 
 export const agentRouter = Router()
 
-// Store active search requests
-const activeSearches = new Map<string, { query: string; preset: string; startTime: number }>()
+function sendMemosError(res: Response, error: unknown, context: string) {
+  if (error instanceof MemosApiError) {
+    return res.status(error.statusCode).json({ error: error.message })
+  }
+  if (error instanceof PresetError || error instanceof ComparisonError) {
+    return res.status(error.status).json({ error: error.message })
+  }
+  res.status(500).json({ error: `${context}: ${(error as Error).message}` })
+}
+
+// Config writes are audited with a diff of the config memOS holds before and after
+function auditLLMConfig(action: string, options: AuditOptions = {}) {
+  return audit(`llm-config.${action}`, { snapshot: () => fetchLLMConfig(), ...options })
+}
 
 // GET /api/agent/stream/global - SSE stream for ALL active agent events from memOS
 // This connects to memOS's chat-gateway SSE endpoint to capture live events
@@ -56,25 +130,46 @@ agentRouter.get('/stream/global', async (req: Request, res: Response) => {
   })
 })
 
+// Searches are stored as pending runs; opening the events stream starts them
+function registerSearch(query: string, preset: string, source: AgentRunSource, startedBy: string): string {
+  const requestId = randomUUID()
+  createAgentRun({ requestId, query, preset, source, startedBy })
+
+  // Give up on searches nobody streamed
+  setTimeout(() => {
+    expireAgentRun(requestId)
+    expireComparisonRun(requestId).catch((err) => console.error('Failed to expire comparison run:', err))
+  }, PENDING_TTL_MS)
+
+  return requestId
+}
+
 // POST /api/agent/search - Start a new agentic search
-agentRouter.post('/search', async (req: Request, res: Response) => {
-  const { query, preset = 'balanced' } = req.body
+// With presets: [...] instead of preset, starts one run per preset as an A/B comparison
+agentRouter.post('/search', requireRole('operator'), async (req: Request, res: Response) => {
+  const { query, preset = 'balanced', presets } = req.body
+  const startedBy = req.user?.username ?? 'anonymous'
 
   if (!query) {
     return res.status(400).json({ error: 'Query is required' })
   }
 
-  const requestId = randomUUID()
-  activeSearches.set(requestId, {
-    query,
-    preset,
-    startTime: Date.now(),
-  })
+  if (presets !== undefined) {
+    try {
+      const names = validateComparisonPresets(presets)
+      const runs = names.map((name) => ({ preset: name, requestId: registerSearch(query, name, 'comparison', startedBy) }))
+      const comparison = createComparison(query, runs, startedBy)
+      return res.json({
+        comparisonId: comparison.id,
+        query,
+        runs: runs.map((run) => ({ ...run, streamUrl: `/api/agent/events/${run.requestId}` })),
+      })
+    } catch (error) {
+      return sendMemosError(res, error, 'Failed to start comparison')
+    }
+  }
 
-  // Clean up old searches after 30 minutes
-  setTimeout(() => {
-    activeSearches.delete(requestId)
-  }, 30 * 60 * 1000)
+  const requestId = registerSearch(query, preset, 'console', startedBy)
 
   res.json({
     requestId,
@@ -84,10 +179,46 @@ agentRouter.post('/search', async (req: Request, res: Response) => {
   })
 })
 
+// Sends the stored events of a run that was already started, then follows
+// it live while it is still streaming
+function replayRun(req: Request, res: Response, run: StoredAgentRun) {
+  const send = (event: Record<string, unknown>) => res.write(`data: ${JSON.stringify(event)}\n\n`)
+  const complete = () => {
+    send({ type: 'stream_complete', replay: true, timestamp: new Date().toISOString() })
+    res.end()
+  }
+
+  if (run.status === 'pending') {
+    send({ type: 'error', message: 'Search request expired. Start a search again.', timestamp: new Date().toISOString() })
+    res.end()
+    return
+  }
+
+  const stored = getRunEvents(run.requestId)
+  for (const { event } of stored) send(event)
+  if (run.status === 'failed' && !stored.some(({ event }) => ['error', 'search_failed'].includes(event.event_type || event.type))) {
+    send({ type: 'error', message: run.error, timestamp: run.finishedAt })
+  }
+
+  // Events and the finish are emitted synchronously, so nothing is missed
+  // between reading the stored events and subscribing
+  if (!isRunStreaming(run.requestId)) {
+    complete()
+    return
+  }
+  const unsubscribe = onRunEvent(run.requestId, (next) => {
+    if (next) return send(next.event)
+    unsubscribe()
+    complete()
+  })
+  req.on('close', unsubscribe)
+}
+
 // GET /api/agent/events/:requestId - SSE stream for agent events
+// The first stream starts the search; later ones replay the recorded events
 agentRouter.get('/events/:requestId', async (req: Request, res: Response) => {
   const { requestId } = req.params
-  const searchInfo = activeSearches.get(requestId)
+  const run = getAgentRun(requestId)
 
   // Set SSE headers
   res.setHeader('Content-Type', 'text/event-stream')
@@ -96,14 +227,17 @@ agentRouter.get('/events/:requestId', async (req: Request, res: Response) => {
   res.setHeader('X-Accel-Buffering', 'no')
   res.flushHeaders()
 
+  const claimed = run !== null && claimAgentRun(requestId)
+
   // Send initial connection event
   res.write(`data: ${JSON.stringify({
     type: 'connected',
     requestId,
+    replay: run !== null && !claimed,
     timestamp: new Date().toISOString(),
   })}\n\n`)
 
-  if (!searchInfo) {
+  if (!run) {
     res.write(`data: ${JSON.stringify({
       type: 'error',
       message: 'Search request not found. Start a search first.',
@@ -113,6 +247,22 @@ agentRouter.get('/events/:requestId', async (req: Request, res: Response) => {
     return
   }
 
+  if (!claimed) {
+    replayRun(req, res, run)
+    return
+  }
+
+  // Comparison runs are also recorded for the report
+  const comparisonRun = isComparisonRun(requestId) && claimComparisonRun(requestId)
+  let streamError: string | undefined
+
+  // Errors raised here are recorded with the run like the ones memOS sends
+  const sendError = (message: string) => {
+    const event = { type: 'error', message, timestamp: new Date().toISOString() }
+    appendRunEvent(requestId, event)
+    res.write(`data: ${JSON.stringify(event)}\n\n`)
+  }
+
   try {
     // Connect to memOS gateway stream endpoint
     const memosUrl = `${MEMOS_BASE_URL}/api/v1/search/gateway/stream`
@@ -127,30 +277,24 @@ agentRouter.get('/events/:requestId', async (req: Request, res: Response) => {
         'Accept': 'text/event-stream',
       },
       body: JSON.stringify({
-        query: searchInfo.query,
-        preset: searchInfo.preset,
+        query: run.query,
+        preset: run.preset,
         request_id: requestId,
       }),
       signal: controller.signal,
     })
 
     if (!response.ok) {
-      res.write(`data: ${JSON.stringify({
-        type: 'error',
-        message: `memOS returned ${response.status}: ${response.statusText}`,
-        timestamp: new Date().toISOString(),
-      })}\n\n`)
+      streamError = `memOS returned ${response.status}: ${response.statusText}`
+      sendError(streamError)
       clearTimeout(timeout)
       res.end()
       return
     }
 
     if (!response.body) {
-      res.write(`data: ${JSON.stringify({
-        type: 'error',
-        message: 'No response body from memOS',
-        timestamp: new Date().toISOString(),
-      })}\n\n`)
+      streamError = 'No response body from memOS'
+      sendError(streamError)
       clearTimeout(timeout)
       res.end()
       return
@@ -159,6 +303,11 @@ agentRouter.get('/events/:requestId', async (req: Request, res: Response) => {
     // Stream events from memOS to client
     const reader = response.body.getReader()
     const decoder = new TextDecoder()
+    // Every forwarded data line is also recorded
+    const recordChunk = createSSEParser((event) => {
+      appendRunEvent(requestId, event)
+      if (comparisonRun) recordRunEvent(requestId, event)
+    })
 
     const readStream = async () => {
       try {
@@ -176,15 +325,13 @@ agentRouter.get('/events/:requestId', async (req: Request, res: Response) => {
           const chunk = decoder.decode(value, { stream: true })
           // Forward the raw SSE data
           res.write(chunk)
+          recordChunk(chunk)
         }
       } catch (err) {
         const error = err as Error
+        streamError = error.name === 'AbortError' ? 'Stream closed before the search completed' : error.message
         if (error.name !== 'AbortError') {
-          res.write(`data: ${JSON.stringify({
-            type: 'error',
-            message: error.message,
-            timestamp: new Date().toISOString(),
-          })}\n\n`)
+          sendError(error.message)
         }
       } finally {
         clearTimeout(timeout)
@@ -202,110 +349,95 @@ agentRouter.get('/events/:requestId', async (req: Request, res: Response) => {
 
   } catch (err) {
     const error = err as Error
-    res.write(`data: ${JSON.stringify({
-      type: 'error',
-      message: `Failed to connect to memOS: ${error.message}`,
-      timestamp: new Date().toISOString(),
-    })}\n\n`)
+    streamError = `Failed to connect to memOS: ${error.message}`
+    sendError(streamError)
     res.end()
+  } finally {
+    finishAgentRun(requestId, streamError)
+    if (comparisonRun) await finishComparisonRun(requestId, streamError)
   }
 })
 
-// GET /api/agent/history - Get list of recent searches from database
-agentRouter.get('/history', async (req: Request, res: Response) => {
-  const { limit = '50', offset = '0', hours } = req.query
+// GET /api/agent/comparisons - Saved preset comparisons, newest first
+agentRouter.get('/comparisons', (req: Request, res: Response) => {
+  const limit = Math.min(parseInt(String(req.query.limit || '50'), 10) || 50, 200)
+  res.json({ comparisons: listComparisons(limit) })
+})
 
-  // Get local active searches (in progress)
-  const localSearches = Array.from(activeSearches.entries()).map(([id, info]) => ({
-    request_id: id,
-    query: info.query,
-    preset: info.preset,
-    started_at: new Date(info.startTime).toISOString(),
-    status: 'running',
-    duration_ms: Date.now() - info.startTime,
-    confidence: 0,
-    confidence_level: 'unknown',
-    llm_calls: 0,
-    tokens: { input: 0, output: 0 },
-    source: 'local',
-  }))
+// GET /api/agent/comparisons/:id - Comparison report with answer diffs
+agentRouter.get('/comparisons/:id', (req: Request, res: Response) => {
+  try {
+    res.json(getComparisonReport(req.params.id))
+  } catch (error) {
+    sendMemosError(res, error, 'Failed to load comparison')
+  }
+})
 
-  // Get historical runs from memOS database
-  let dbSearches: any[] = []
+// DELETE /api/agent/comparisons/:id - Remove a saved comparison
+agentRouter.delete('/comparisons/:id', requireRole('operator'), audit('agent.comparison.delete', {
+  target: (req) => req.params.id,
+}), (req: Request, res: Response) => {
   try {
-    const params = new URLSearchParams({
-      limit: String(limit),
-      offset: String(offset),
-    })
-    if (hours) params.append('hours', String(hours))
+    deleteComparison(req.params.id)
+    res.json({ success: true })
+  } catch (error) {
+    sendMemosError(res, error, 'Failed to delete comparison')
+  }
+})
 
-    const response = await fetch(`${MEMOS_BASE_URL}/api/v1/observability/history?${params}`, {
-      signal: AbortSignal.timeout(5000),
-    })
+// Stored runs in the shape memOS reports its history in
+function toHistoryRecord(run: StoredAgentRun) {
+  return {
+    request_id: run.requestId,
+    query: run.query,
+    preset: run.preset,
+    started_at: run.startedAt ?? run.createdAt,
+    completed_at: run.finishedAt,
+    status: run.status,
+    duration_ms: run.durationMs ?? (run.startedAt ? Date.now() - Date.parse(run.startedAt) : 0),
+    confidence: run.confidence ?? 0,
+    confidence_level: 'unknown',
+    llm_calls: run.llmCalls ?? 0,
+    tokens: run.tokens ?? { input: 0, output: 0 },
+    error: run.error,
+    event_count: run.eventCount,
+    started_by: run.startedBy,
+    source: 'local',
+  }
+}
 
-    if (response.ok) {
-      const data = await response.json()
-      if (data.success && data.data?.runs) {
-        dbSearches = data.data.runs.map((r: any) => ({
-          ...r,
-          source: 'database',
-        }))
-      }
-    }
-  } catch (e) {
-    console.error('Failed to fetch from database:', e)
-    // Fall back to in-memory observability
-    try {
-      const response = await fetch(`${MEMOS_BASE_URL}/api/v1/observability/recent?limit=${limit}`, {
-        signal: AbortSignal.timeout(3000),
-      })
-      if (response.ok) {
-        const data = await response.json()
-        dbSearches = (data.requests || []).map((r: any) => ({
-          request_id: r.request_id,
-          query: r.query,
-          preset: r.preset,
-          started_at: r.timestamp,
-          status: r.summary?.success ? 'completed' : (r.error_message ? 'failed' : 'running'),
-          confidence: r.summary?.confidence || 0,
-          confidence_level: r.summary?.confidence_level || 'unknown',
-          duration_ms: r.summary?.duration_ms || 0,
-          llm_calls: r.llm_calls?.count || 0,
-          tokens: {
-            input: r.llm_calls?.input_tokens || 0,
-            output: r.llm_calls?.output_tokens || 0,
-          },
-          source: 'memory',
-        }))
-      }
-    } catch (e2) {
-      // memOS not available
-    }
+// GET /api/agent/history - Recent runs from memOS merged with the ones stored locally
+agentRouter.get('/history', async (req: Request, res: Response) => {
+  const { limit = '50', offset = '0', hours } = req.query
+  const options = {
+    limit: parseInt(String(limit), 10) || 50,
+    offset: parseInt(String(offset), 10) || 0,
+    hours: hours ? parseInt(String(hours), 10) || undefined : undefined,
   }
 
-  // Merge: local (running) first, then database (completed)
-  // Deduplicate by request_id
-  const seenIds = new Set<string>()
-  const allSearches: any[] = []
+  // The page can draw on either source, so both are read from the start
+  const firstPages = { limit: options.offset + options.limit, hours: options.hours }
+  const localSearches = listAgentRuns(firstPages).map(toHistoryRecord)
 
-  for (const search of localSearches) {
-    if (!seenIds.has(search.request_id)) {
-      seenIds.add(search.request_id)
-      allSearches.push(search)
-    }
-  }
+  // Get historical runs from memOS database
+  const dbSearches = await fetchMemosRunHistory(firstPages)
 
+  // memOS knows more about a finished run; a running one is only current here
+  const merged = new Map<string, AgentRunRecord | ReturnType<typeof toHistoryRecord>>()
+  for (const search of localSearches) merged.set(search.request_id, search)
   for (const search of dbSearches) {
-    if (!seenIds.has(search.request_id)) {
-      seenIds.add(search.request_id)
-      allSearches.push(search)
-    }
+    if (merged.get(search.request_id)?.status !== 'running') merged.set(search.request_id, search)
   }
 
+  const allSearches = Array.from(merged.values())
+    .sort((a, b) => (Date.parse(b.started_at) || 0) - (Date.parse(a.started_at) || 0))
+
   res.json({
     success: true,
     data: {
-      runs: allSearches,
+      runs: allSearches.slice(options.offset, options.offset + options.limit),
+      // Distinct runs read from both sources for this page; more than
+      // offset + limit means there is a next page
       total: allSearches.length,
     },
     meta: {
@@ -315,9 +447,20 @@ agentRouter.get('/history', async (req: Request, res: Response) => {
 })
 
 // GET /api/agent/history/:requestId/events - Get events for a specific run
+// Runs streamed through the dashboard are served from the local store
 agentRouter.get('/history/:requestId/events', async (req: Request, res: Response) => {
   const { requestId } = req.params
 
+  const stored = getAgentRun(requestId)
+  if (stored && stored.eventCount > 0) {
+    const events = getRunEvents(requestId).map(({ event }) => event)
+    return res.json({
+      success: true,
+      data: { events, count: events.length },
+      meta: { timestamp: new Date().toISOString(), source: 'local' },
+    })
+  }
+
   try {
     const response = await fetch(
       `${MEMOS_BASE_URL}/api/v1/observability/history/${requestId}/events`,
@@ -362,28 +505,42 @@ agentRouter.get('/memos/stats', async (req: Request, res: Response) => {
   }
 })
 
-// GET /api/agent/observability/:requestId - Get observability data for a request
-agentRouter.get('/observability/:requestId', async (req: Request, res: Response) => {
-  const { requestId } = req.params
-
+// Full observability data for a request. What memOS returns for a finished
+// run is kept with the stored run; when memOS can't answer, that copy is
+// served, or failing that a reconstruction from the recorded events.
+async function fetchObservabilityData(requestId: string) {
+  let failure: Error
   try {
     const response = await fetch(
       `${MEMOS_BASE_URL}/api/v1/observability/request/${requestId}`,
-      { method: 'GET' }
+      { signal: AbortSignal.timeout(10000) }
     )
-
-    if (!response.ok) {
-      return res.status(response.status).json({
-        error: `Failed to fetch observability data: ${response.statusText}`,
-      })
+    if (response.ok) {
+      const data = await response.json()
+      const run = getAgentRun(requestId)
+      if (run && (run.status === 'completed' || run.status === 'failed')) saveObservabilitySnapshot(requestId, data)
+      return data
     }
+    failure = new MemosApiError(`memOS returned ${response.status}: ${response.statusText}`, response.status)
+  } catch (err) {
+    failure = new MemosApiError(`memOS not available: ${(err as Error).message}`, 503)
+  }
 
-    const data = await response.json()
-    res.json(data)
+  const stored = getObservabilitySnapshot(requestId) ?? deriveObservability(requestId)
+  if (stored) return stored
+  throw failure
+}
+
+// GET /api/agent/observability/:requestId - Get observability data for a request
+agentRouter.get('/observability/:requestId', async (req: Request, res: Response) => {
+  const { requestId } = req.params
+
+  try {
+    res.json(await fetchObservabilityData(requestId))
   } catch (err) {
     const error = err as Error
-    res.status(500).json({
-      error: `Failed to connect to memOS: ${error.message}`,
+    res.status(error instanceof MemosApiError ? error.statusCode : 500).json({
+      error: `Failed to fetch observability data: ${error.message}`,
     })
   }
 })
@@ -393,17 +550,6 @@ agentRouter.get('/observability/:requestId', async (req: Request, res: Response)
 // Extract specific parts of observability data for the Agent Console tabs
 // ============================================================================
 
-// Helper function to fetch full observability data
-async function fetchObservabilityData(requestId: string) {
-  const response = await fetch(
-    `${MEMOS_BASE_URL}/api/v1/observability/request/${requestId}`,
-    { signal: AbortSignal.timeout(10000) }
-  )
-  if (!response.ok) {
-    throw new Error(`memOS returned ${response.status}: ${response.statusText}`)
-  }
-  return response.json()
-}
 
 // GET /api/agent/observability/:requestId/decisions - Extract decisions for Decision Log Tab
 agentRouter.get('/observability/:requestId/decisions', async (req: Request, res: Response) => {
@@ -699,7 +845,10 @@ agentRouter.get('/config/llm-models', async (req: Request, res: Response) => {
 })
 
 // PUT /api/agent/config/llm-models - Update a single model assignment
-agentRouter.put('/config/llm-models', async (req: Request, res: Response) => {
+agentRouter.put('/config/llm-models', requireRole('admin'), auditLLMConfig('update', {
+  target: (req) => req.body?.path,
+  details: (req) => req.body,
+}), async (req: Request, res: Response) => {
   try {
     const response = await fetch(`${MEMOS_BASE_URL}/api/v1/config/llm-models`, {
       method: 'PUT',
@@ -724,7 +873,7 @@ agentRouter.put('/config/llm-models', async (req: Request, res: Response) => {
 })
 
 // POST /api/agent/config/llm-models/reload - Reload config from YAML file
-agentRouter.post('/config/llm-models/reload', async (req: Request, res: Response) => {
+agentRouter.post('/config/llm-models/reload', requireRole('admin'), auditLLMConfig('reload'), async (req: Request, res: Response) => {
   try {
     const response = await fetch(`${MEMOS_BASE_URL}/api/v1/config/llm-models/reload`, {
       method: 'POST',
@@ -746,24 +895,20 @@ agentRouter.post('/config/llm-models/reload', async (req: Request, res: Response
 })
 
 // POST /api/agent/config/llm-models/save - Save current config to YAML file
-agentRouter.post('/config/llm-models/save', async (req: Request, res: Response) => {
+// { message? } is kept with the resulting config version
+agentRouter.post('/config/llm-models/save', requireRole('admin'), auditLLMConfig('save'), async (req: Request, res: Response) => {
   try {
-    const response = await fetch(`${MEMOS_BASE_URL}/api/v1/config/llm-models/save`, {
-      method: 'POST',
-      signal: AbortSignal.timeout(5000),
+    await captureBaseline().catch((err) => console.warn('Failed to capture LLM config baseline:', err.message))
+    const data = await saveLLMConfigFile()
+    const version = recordConfigVersion({
+      content: await fetchRawLLMConfig(),
+      author: req.user!.username,
+      message: req.body?.message,
+      source: 'save',
     })
-
-    if (response.ok) {
-      const data = await response.json()
-      res.json(data)
-    } else {
-      res.status(response.status).json({
-        error: `memOS returned ${response.status}: ${response.statusText}`,
-      })
-    }
+    res.json({ ...(data as object), version })
   } catch (err) {
-    const error = err as Error
-    res.status(503).json({ error: `memOS not available: ${error.message}` })
+    sendMemosError(res, err, 'Failed to save config')
   }
 })
 
@@ -789,7 +934,7 @@ agentRouter.get('/config/llm-models/presets', async (req: Request, res: Response
 })
 
 // POST /api/agent/config/llm-models/presets/:name - Apply a preset
-agentRouter.post('/config/llm-models/presets/:name', async (req: Request, res: Response) => {
+agentRouter.post('/config/llm-models/presets/:name', requireRole('admin'), auditLLMConfig('preset', { target: (req) => req.params.name }), async (req: Request, res: Response) => {
   const { name } = req.params
 
   try {
@@ -813,6 +958,113 @@ agentRouter.post('/config/llm-models/presets/:name', async (req: Request, res: R
   }
 })
 
+// ----------------------------------------------------------------------------
+// Custom presets (stored by the dashboard, applied stage by stage)
+// ----------------------------------------------------------------------------
+
+// Custom preset writes are audited with a per-stage diff of the stored presets
+function auditCustomPresets(action: string, options: AuditOptions = {}) {
+  const snapshot = async () =>
+    Object.fromEntries(listCustomPresets().map((p) => [p.name, { description: p.description, models: p.models }]))
+  return audit(`llm-preset.${action}`, { snapshot, ...options })
+}
+
+// GET /api/agent/config/llm-models/custom-presets - Every dashboard preset
+agentRouter.get('/config/llm-models/custom-presets', (req: Request, res: Response) => {
+  res.json(listCustomPresets())
+})
+
+// POST /api/agent/config/llm-models/custom-presets - Create { name, description?, models: {stage: model} }
+agentRouter.post('/config/llm-models/custom-presets', requireRole('admin'), auditCustomPresets('create', {
+  target: (req) => req.body?.name,
+}), (req: Request, res: Response) => {
+  try {
+    res.status(201).json(createCustomPreset(req.body, req.user!.username))
+  } catch (err) {
+    sendMemosError(res, err, 'Failed to create preset')
+  }
+})
+
+// POST /api/agent/config/llm-models/custom-presets/preview - What { models } would change in the live config
+agentRouter.post('/config/llm-models/custom-presets/preview', async (req: Request, res: Response) => {
+  const models = req.body?.models
+  if (typeof models !== 'object' || models === null || Array.isArray(models)) {
+    return res.status(400).json({ error: 'models must map stage names to model names' })
+  }
+  try {
+    res.json(await resolvePresetAssignments(models))
+  } catch (err) {
+    sendMemosError(res, err, 'Failed to preview preset')
+  }
+})
+
+// GET /api/agent/config/llm-models/custom-presets/export?names=a,b - YAML download (all presets by default)
+agentRouter.get('/config/llm-models/custom-presets/export', (req: Request, res: Response) => {
+  const names = typeof req.query.names === 'string' && req.query.names
+    ? req.query.names.split(',').map((n) => n.trim())
+    : undefined
+  res.setHeader('Content-Type', 'text/yaml; charset=utf-8')
+  res.setHeader('Content-Disposition', 'attachment; filename="llm-presets.yaml"')
+  res.send(exportPresetsYaml(names))
+})
+
+// POST /api/agent/config/llm-models/custom-presets/import - { yaml, overwrite? }
+agentRouter.post('/config/llm-models/custom-presets/import', requireRole('admin'), auditCustomPresets('import', {
+  details: (req) => ({ overwrite: req.body?.overwrite === true }),
+}), (req: Request, res: Response) => {
+  if (typeof req.body?.yaml !== 'string') {
+    return res.status(400).json({ error: 'yaml (string) is required' })
+  }
+  try {
+    res.json(importPresetsYaml(req.body.yaml, req.user!.username, req.body.overwrite === true))
+  } catch (err) {
+    sendMemosError(res, err, 'Failed to import presets')
+  }
+})
+
+// GET /api/agent/config/llm-models/custom-presets/:name
+agentRouter.get('/config/llm-models/custom-presets/:name', (req: Request, res: Response) => {
+  const preset = getCustomPreset(req.params.name)
+  if (!preset) {
+    return res.status(404).json({ error: `Preset "${req.params.name}" not found` })
+  }
+  res.json(preset)
+})
+
+// PUT /api/agent/config/llm-models/custom-presets/:name - Edit (or rename via name)
+agentRouter.put('/config/llm-models/custom-presets/:name', requireRole('admin'), auditCustomPresets('update', {
+  target: (req) => req.params.name,
+}), (req: Request, res: Response) => {
+  try {
+    res.json(updateCustomPreset(req.params.name, req.body, req.user!.username))
+  } catch (err) {
+    sendMemosError(res, err, 'Failed to update preset')
+  }
+})
+
+// DELETE /api/agent/config/llm-models/custom-presets/:name
+agentRouter.delete('/config/llm-models/custom-presets/:name', requireRole('admin'), auditCustomPresets('delete', {
+  target: (req) => req.params.name,
+}), (req: Request, res: Response) => {
+  try {
+    deleteCustomPreset(req.params.name)
+    res.json({ deleted: req.params.name })
+  } catch (err) {
+    sendMemosError(res, err, 'Failed to delete preset')
+  }
+})
+
+// POST /api/agent/config/llm-models/custom-presets/:name/apply - Set every stage the preset names
+agentRouter.post('/config/llm-models/custom-presets/:name/apply', requireRole('admin'), auditLLMConfig('custom-preset', {
+  target: (req) => req.params.name,
+}), async (req: Request, res: Response) => {
+  try {
+    res.json(await applyCustomPreset(req.params.name))
+  } catch (err) {
+    sendMemosError(res, err, 'Failed to apply preset')
+  }
+})
+
 // GET /api/agent/config/llm-models/raw - Get raw YAML content
 agentRouter.get('/config/llm-models/raw', async (req: Request, res: Response) => {
   try {
@@ -834,33 +1086,131 @@ agentRouter.get('/config/llm-models/raw', async (req: Request, res: Response) =>
   }
 })
 
-// PUT /api/agent/config/llm-models/raw - Save raw YAML content
-agentRouter.put('/config/llm-models/raw', async (req: Request, res: Response) => {
+// GET /api/agent/config/llm-models/schema - JSON schema the raw YAML is validated against
+agentRouter.get('/config/llm-models/schema', (req: Request, res: Response) => {
   try {
-    const yamlContent = typeof req.body === 'string' ? req.body : req.body.yaml
+    res.json(getLLMConfigSchema())
+  } catch (err) {
+    res.status(500).json({ error: `Failed to load config schema: ${(err as Error).message}` })
+  }
+})
 
-    if (!yamlContent) {
-      return res.status(400).json({ error: 'YAML content required in body' })
-    }
+// POST /api/agent/config/llm-models/validate - { yaml }; syntax and schema issues with line/column
+agentRouter.post('/config/llm-models/validate', (req: Request, res: Response) => {
+  const yamlContent = typeof req.body === 'string' ? req.body : req.body?.yaml
+  if (typeof yamlContent !== 'string') {
+    return res.status(400).json({ error: 'YAML content required in body' })
+  }
+  try {
+    res.json(validateLLMConfigYaml(yamlContent))
+  } catch (err) {
+    res.status(500).json({ error: `Failed to validate config: ${(err as Error).message}` })
+  }
+})
 
-    const response = await fetch(`${MEMOS_BASE_URL}/api/v1/config/llm-models/raw`, {
-      method: 'PUT',
-      headers: { 'Content-Type': 'text/yaml' },
-      body: yamlContent,
-      signal: AbortSignal.timeout(5000),
+// PUT /api/agent/config/llm-models/raw - Save raw YAML content
+// { yaml, message? }; rejected with 422 and the issues when validation fails,
+// otherwise forwarded to memOS and recorded as a config version
+agentRouter.put('/config/llm-models/raw', requireRole('admin'), auditLLMConfig('raw'), async (req: Request, res: Response) => {
+  const yamlContent = typeof req.body === 'string' ? req.body : req.body.yaml
+
+  if (!yamlContent) {
+    return res.status(400).json({ error: 'YAML content required in body' })
+  }
+
+  const validation = validateLLMConfigYaml(yamlContent)
+  if (!validation.valid) {
+    const errors = validation.issues.filter((i) => i.severity === 'error')
+    return res.status(422).json({
+      error: `Invalid LLM config:\n${errors.map((i) => `line ${i.line}: ${i.message}`).join('\n')}`,
+      issues: validation.issues,
     })
+  }
 
-    if (response.ok) {
-      const data = await response.json()
-      res.json(data)
+  try {
+    await captureBaseline().catch((err) => console.warn('Failed to capture LLM config baseline:', err.message))
+    const data = await putRawLLMConfig(yamlContent)
+    const version = recordConfigVersion({
+      content: yamlContent,
+      author: req.user!.username,
+      message: req.body?.message,
+      source: 'raw',
+    })
+    res.json({ ...(data as object), version })
+  } catch (err) {
+    sendMemosError(res, err, 'Failed to save YAML')
+  }
+})
+
+// GET /api/agent/config/llm-models/versions - Saved config versions, newest first
+agentRouter.get('/config/llm-models/versions', (req: Request, res: Response) => {
+  res.json(listConfigVersions())
+})
+
+// GET /api/agent/config/llm-models/versions/diff?from=3&to=5 - Line diff between two versions
+// to=current compares against the YAML memOS has now
+agentRouter.get('/config/llm-models/versions/diff', async (req: Request, res: Response) => {
+  const from = getConfigVersion(parseInt(String(req.query.from), 10))
+  if (!from) {
+    return res.status(404).json({ error: `Config version ${req.query.from} not found` })
+  }
+
+  try {
+    let to: { id: number | 'current'; content: string }
+    if (req.query.to === 'current') {
+      to = { id: 'current', content: await fetchRawLLMConfig() }
     } else {
-      const errorText = await response.text()
-      res.status(response.status).json({
-        error: `memOS returned ${response.status}: ${errorText}`,
-      })
+      const version = getConfigVersion(parseInt(String(req.query.to), 10))
+      if (!version) {
+        return res.status(404).json({ error: `Config version ${req.query.to} not found` })
+      }
+      to = version
     }
+
+    const lines = diffLines(from.content, to.content)
+    res.json({
+      from: from.id,
+      to: to.id,
+      added: lines.filter((l) => l.type === 'add').length,
+      removed: lines.filter((l) => l.type === 'remove').length,
+      lines,
+    })
   } catch (err) {
-    const error = err as Error
-    res.status(503).json({ error: `memOS not available: ${error.message}` })
+    sendMemosError(res, err, 'Failed to diff config versions')
   }
 })
+
+// GET /api/agent/config/llm-models/versions/:id - One version with its YAML
+agentRouter.get('/config/llm-models/versions/:id', (req: Request, res: Response) => {
+  const version = getConfigVersion(parseInt(req.params.id, 10))
+  if (!version) {
+    return res.status(404).json({ error: 'Config version not found' })
+  }
+  res.json(version)
+})
+
+// POST /api/agent/config/llm-models/versions/:id/rollback - Push an old version back to memOS
+agentRouter.post(
+  '/config/llm-models/versions/:id/rollback',
+  requireRole('admin'),
+  auditLLMConfig('rollback', { target: (req) => req.params.id }),
+  async (req: Request, res: Response) => {
+    const target = getConfigVersion(parseInt(req.params.id, 10))
+    if (!target) {
+      return res.status(404).json({ error: 'Config version not found' })
+    }
+
+    try {
+      await putRawLLMConfig(target.content)
+      const version = recordConfigVersion({
+        content: target.content,
+        author: req.user!.username,
+        message: req.body?.message || `Rollback to version ${target.id}`,
+        source: 'rollback',
+      })
+      res.json({ rolledBackTo: target.id, version })
+    } catch (err) {
+      sendMemosError(res, err, 'Failed to roll back config')
+    }
+  }
+)
@@ -0,0 +1,121 @@
+import { Router } from 'express'
+import {
+  createSilence,
+  deleteSilence,
+  getActiveAlerts,
+  getAlertHistory,
+  getRules,
+  listSilences,
+  reloadAlertRules,
+} from '../services/alertEngine'
+import { readAlertConfig, validateRules } from '../services/alertRules'
+import { getNotifierStatus, parseNotifierConfig, reloadNotifiers, testNotifier } from '../services/notifiers'
+import { requireRole } from '../middleware/auth'
+import { audit } from '../middleware/audit'
+
+export const alertsRouter = Router()
+
+// GET /api/alerts - Active (pending + firing) alerts
+// ?state=firing|pending, ?silenced=false hides silenced alerts
+alertsRouter.get('/', (req, res) => {
+  const { state, silenced } = req.query
+  let alerts = getActiveAlerts()
+
+  if (state === 'firing' || state === 'pending') {
+    alerts = alerts.filter((a) => a.state === state)
+  }
+  if (silenced === 'false') {
+    alerts = alerts.filter((a) => !a.silenced)
+  }
+
+  res.json({
+    alerts,
+    counts: {
+      firing: alerts.filter((a) => a.state === 'firing' && !a.silenced).length,
+      pending: alerts.filter((a) => a.state === 'pending' && !a.silenced).length,
+      silenced: alerts.filter((a) => a.silenced).length,
+    },
+    timestamp: new Date().toISOString(),
+  })
+})
+
+// GET /api/alerts/history - State transitions, newest first
+alertsRouter.get('/history', (req, res) => {
+  const limit = Math.min(parseInt(String(req.query.limit ?? '100'), 10) || 100, 1000)
+  try {
+    res.json(getAlertHistory(limit))
+  } catch (error) {
+    const err = error as Error
+    res.status(500).json({ error: `Failed to read alert history: ${err.message}` })
+  }
+})
+
+// GET /api/alerts/rules - Loaded rules (plus the last load error, if any)
+alertsRouter.get('/rules', (req, res) => {
+  res.json(getRules())
+})
+
+// POST /api/alerts/rules/reload - Re-read the rules file (rules and channels)
+alertsRouter.post('/rules/reload', requireRole('admin'), audit('alerts.rules-reload', {
+  snapshot: async () => getRules(),
+}), async (req, res) => {
+  try {
+    // Both sections are checked before either is applied, so a bad channel
+    // can't leave the new rules running behind a 400
+    const config = await readAlertConfig()
+    validateRules(config)
+    parseNotifierConfig(config)
+    const rules = await reloadAlertRules(config)
+    const channels = await reloadNotifiers(config)
+    res.json({ rules, count: rules.length, channels })
+  } catch (error) {
+    const err = error as Error
+    res.status(400).json({ error: err.message })
+  }
+})
+
+// GET /api/alerts/silences - Active silences (?all=true includes expired)
+alertsRouter.get('/silences', (req, res) => {
+  res.json(listSilences(req.query.all === 'true'))
+})
+
+// POST /api/alerts/silences - { ruleId?, labels?, duration: "1h", comment? }
+alertsRouter.post('/silences', requireRole('operator'), audit('alerts.silence-create', {
+  details: (req) => req.body,
+}), (req, res) => {
+  try {
+    const { ruleId, labels, duration, comment } = req.body ?? {}
+    res.status(201).json(createSilence({ ruleId, labels, duration, comment }))
+  } catch (error) {
+    const err = error as Error
+    res.status(400).json({ error: err.message })
+  }
+})
+
+// DELETE /api/alerts/silences/:id - Expire a silence early
+alertsRouter.delete('/silences/:id', requireRole('operator'), audit('alerts.silence-delete', {
+  target: (req) => req.params.id,
+}), (req, res) => {
+  if (!deleteSilence(req.params.id)) {
+    return res.status(404).json({ error: 'Silence not found' })
+  }
+  res.json({ success: true })
+})
+
+// GET /api/alerts/notifiers - Notification channels with delivery stats
+alertsRouter.get('/notifiers', (req, res) => {
+  res.json(getNotifierStatus())
+})
+
+// POST /api/alerts/notifiers/:id/test - Send a test notification through one channel
+alertsRouter.post('/notifiers/:id/test', requireRole('operator'), async (req, res) => {
+  try {
+    if (!(await testNotifier(req.params.id))) {
+      return res.status(404).json({ error: 'Channel not found' })
+    }
+    res.json({ success: true })
+  } catch (error) {
+    const err = error as Error
+    res.status(502).json({ success: false, error: err.message })
+  }
+})
@@ -0,0 +1,43 @@
+import { Router } from 'express'
+import { getAuditEntry, queryAudit } from '../services/audit'
+
+export const auditRouter = Router()
+
+function parseTime(value: unknown): number | undefined {
+  if (typeof value !== 'string' || !value) return undefined
+  const ms = /^\d+$/.test(value) ? parseInt(value, 10) : Date.parse(value)
+  return isNaN(ms) ? undefined : ms
+}
+
+function parseString(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined
+}
+
+// GET /api/audit - Audit log, newest first
+// ?actor=alice&action=llm-config&target=balanced&result=success|failure&from=<iso|ms>&to=<iso|ms>&limit=100&offset=0
+auditRouter.get('/', (req, res) => {
+  try {
+    const result = queryAudit({
+      actor: parseString(req.query.actor),
+      action: parseString(req.query.action),
+      target: parseString(req.query.target),
+      success: req.query.result === 'success' ? true : req.query.result === 'failure' ? false : undefined,
+      from: parseTime(req.query.from),
+      to: parseTime(req.query.to),
+      limit: parseInt(String(req.query.limit ?? '100'), 10) || 100,
+      offset: parseInt(String(req.query.offset ?? '0'), 10) || 0,
+    })
+    res.json(result)
+  } catch (error) {
+    res.status(500).json({ error: `Failed to query audit log: ${(error as Error).message}` })
+  }
+})
+
+// GET /api/audit/:id - One audit entry
+auditRouter.get('/:id', (req, res) => {
+  const entry = getAuditEntry(parseInt(req.params.id, 10))
+  if (!entry) {
+    return res.status(404).json({ error: 'Audit entry not found' })
+  }
+  res.json(entry)
+})
@@ -0,0 +1,140 @@
+import { Router, type Response } from 'express'
+import { readCookie, requireRole } from '../middleware/auth'
+import { audit } from '../middleware/audit'
+import {
+  AuthError,
+  createApiToken,
+  createUser,
+  deleteUser,
+  hasRole,
+  isAuthDisabled,
+  listApiTokens,
+  listUsers,
+  login,
+  logout,
+  revokeApiToken,
+  ROLES,
+  SESSION_COOKIE,
+  SESSION_TTL_MS,
+  updateUser,
+} from '../services/auth'
+
+export const authRouter = Router()
+
+// Secure cookies need HTTPS; opt in when the dashboard is served over TLS
+const COOKIE_SECURE = process.env.AUTH_COOKIE_SECURE === 'true'
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof AuthError) {
+    return res.status(error.status).json({ error: error.message })
+  }
+  res.status(500).json({ error: `${fallback}: ${(error as Error).message}` })
+}
+
+// POST /api/auth/login - { username, password }; sets the session cookie
+authRouter.post('/login', (req, res) => {
+  try {
+    const { token, user, expiresAt } = login(req.body?.username, req.body?.password)
+    res.cookie(SESSION_COOKIE, token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: COOKIE_SECURE,
+      path: '/',
+      maxAge: SESSION_TTL_MS,
+    })
+    res.json({ user, expiresAt: new Date(expiresAt).toISOString() })
+  } catch (error) {
+    sendError(res, error, 'Login failed')
+  }
+})
+
+// POST /api/auth/logout - Ends the current session
+authRouter.post('/logout', (req, res) => {
+  const token = readCookie(req, SESSION_COOKIE)
+  if (token) logout(token)
+  res.clearCookie(SESSION_COOKIE, { path: '/' })
+  res.json({ success: true })
+})
+
+// GET /api/auth/me - The signed-in user (401 when signed out)
+authRouter.get('/me', (req, res) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Authentication required', authDisabled: false })
+  }
+  res.json({ user: req.user, roles: ROLES, authDisabled: isAuthDisabled() })
+})
+
+// GET /api/auth/users - All users (admin)
+authRouter.get('/users', requireRole('admin'), (req, res) => {
+  res.json(listUsers())
+})
+
+// POST /api/auth/users - { username, password, role } (admin)
+authRouter.post('/users', requireRole('admin'), audit('auth.user-create', {
+  target: (req) => req.body?.username,
+  details: (req) => ({ role: req.body?.role }),
+}), (req, res) => {
+  try {
+    const { username, password, role } = req.body ?? {}
+    res.status(201).json(createUser({ username, password, role }))
+  } catch (error) {
+    sendError(res, error, 'Failed to create user')
+  }
+})
+
+// PATCH /api/auth/users/:id - { password?, role? } (admin)
+authRouter.patch('/users/:id', requireRole('admin'), audit('auth.user-update', {
+  target: (req) => req.params.id,
+  details: (req) => ({ role: req.body?.role, passwordChanged: req.body?.password !== undefined }),
+}), (req, res) => {
+  try {
+    const { password, role } = req.body ?? {}
+    res.json(updateUser(parseInt(req.params.id, 10), { password, role }))
+  } catch (error) {
+    sendError(res, error, 'Failed to update user')
+  }
+})
+
+// DELETE /api/auth/users/:id - Remove a user with their sessions and tokens (admin)
+authRouter.delete('/users/:id', requireRole('admin'), audit('auth.user-delete', {
+  target: (req) => req.params.id,
+}), (req, res) => {
+  try {
+    deleteUser(parseInt(req.params.id, 10))
+    res.json({ success: true })
+  } catch (error) {
+    sendError(res, error, 'Failed to delete user')
+  }
+})
+
+// GET /api/auth/tokens - The caller's API tokens (?all=true lists everyone's for admins)
+authRouter.get('/tokens', requireRole('viewer'), (req, res) => {
+  const all = req.query.all === 'true' && hasRole(req.user!, 'admin')
+  res.json(listApiTokens(all ? undefined : req.user!.id))
+})
+
+// POST /api/auth/tokens - { name }; the token carries the caller's role and is shown once
+authRouter.post('/tokens', requireRole('viewer'), audit('auth.token-create', {
+  target: (req) => req.body?.name,
+}), (req, res) => {
+  if (req.user!.via === 'disabled') {
+    return res.status(400).json({ error: 'API tokens are not needed while authentication is disabled' })
+  }
+  try {
+    res.status(201).json(createApiToken(req.user!.id, req.body?.name))
+  } catch (error) {
+    sendError(res, error, 'Failed to create token')
+  }
+})
+
+// DELETE /api/auth/tokens/:id - Revoke a token
+authRouter.delete('/tokens/:id', requireRole('viewer'), audit('auth.token-revoke', {
+  target: (req) => req.params.id,
+}), (req, res) => {
+  try {
+    revokeApiToken(parseInt(req.params.id, 10), req.user!)
+    res.json({ success: true })
+  } catch (error) {
+    sendError(res, error, 'Failed to revoke token')
+  }
+})
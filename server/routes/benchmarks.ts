@@ -0,0 +1,127 @@
+import { Router, type Response } from 'express'
+import {
+  BenchmarkError,
+  cancelBenchmark,
+  createBenchmarkSuite,
+  deleteBenchmarkRun,
+  deleteBenchmarkSuite,
+  getBenchmarkRun,
+  getBenchmarkSuite,
+  listBenchmarkRuns,
+  listBenchmarkSuites,
+  startBenchmark,
+  updateBenchmarkSuite,
+} from '../services/benchmarks'
+import { requireRole } from '../middleware/auth'
+import { audit, type AuditOptions } from '../middleware/audit'
+
+export const benchmarksRouter = Router()
+
+function sendError(res: Response, error: unknown, context: string) {
+  if (error instanceof BenchmarkError) {
+    return res.status(error.status).json({ error: error.message })
+  }
+  res.status(500).json({ error: `${context}: ${(error as Error).message}` })
+}
+
+// Suite edits are audited with a diff of the suite before and after
+function auditSuite(action: string, options: AuditOptions = {}) {
+  return audit(`benchmark.suite-${action}`, {
+    target: (req) => req.params.id ?? req.body?.name,
+    snapshot: async (req) => (req.params.id ? getBenchmarkSuite(req.params.id) : null),
+    ...options,
+  })
+}
+
+// GET /api/benchmarks/suites - Every stored query set
+benchmarksRouter.get('/suites', (req, res) => {
+  res.json(listBenchmarkSuites())
+})
+
+// POST /api/benchmarks/suites - Create { name, description?, queries: [{query, expectedKeywords?, expectedSources?}] }
+benchmarksRouter.post('/suites', requireRole('operator'), auditSuite('create'), (req, res) => {
+  try {
+    res.status(201).json(createBenchmarkSuite(req.body, req.user?.username ?? 'anonymous'))
+  } catch (error) {
+    sendError(res, error, 'Failed to create suite')
+  }
+})
+
+// GET /api/benchmarks/suites/:id
+benchmarksRouter.get('/suites/:id', (req, res) => {
+  const suite = getBenchmarkSuite(req.params.id)
+  if (!suite) {
+    return res.status(404).json({ error: `Suite ${req.params.id} not found` })
+  }
+  res.json(suite)
+})
+
+// PUT /api/benchmarks/suites/:id - Replace name, description and queries
+benchmarksRouter.put('/suites/:id', requireRole('operator'), auditSuite('update'), (req, res) => {
+  try {
+    res.json(updateBenchmarkSuite(req.params.id, req.body))
+  } catch (error) {
+    sendError(res, error, 'Failed to update suite')
+  }
+})
+
+// DELETE /api/benchmarks/suites/:id - Past runs of the suite are kept
+benchmarksRouter.delete('/suites/:id', requireRole('operator'), auditSuite('delete'), (req, res) => {
+  try {
+    deleteBenchmarkSuite(req.params.id)
+    res.json({ deleted: req.params.id })
+  } catch (error) {
+    sendError(res, error, 'Failed to delete suite')
+  }
+})
+
+// GET /api/benchmarks/runs - Runs newest first, without per-query results (?suiteId=, ?limit=)
+benchmarksRouter.get('/runs', (req, res) => {
+  const limit = Math.min(parseInt(String(req.query.limit || '100'), 10) || 100, 500)
+  const suiteId = typeof req.query.suiteId === 'string' ? req.query.suiteId : undefined
+  res.json(listBenchmarkRuns({ suiteId, limit }))
+})
+
+// POST /api/benchmarks/runs - Start { suiteId, preset, concurrency? }; one benchmark runs at a time
+benchmarksRouter.post('/runs', requireRole('operator'), audit('benchmark.run', {
+  target: (req) => getBenchmarkSuite(String(req.body?.suiteId))?.name,
+  details: (req) => ({ preset: req.body?.preset, concurrency: req.body?.concurrency }),
+}), async (req, res) => {
+  try {
+    res.status(202).json(await startBenchmark(req.body ?? {}, req.user?.username ?? 'anonymous'))
+  } catch (error) {
+    sendError(res, error, 'Failed to start benchmark')
+  }
+})
+
+// GET /api/benchmarks/runs/:id - One run with every query's result
+benchmarksRouter.get('/runs/:id', (req, res) => {
+  const run = getBenchmarkRun(req.params.id)
+  if (!run) {
+    return res.status(404).json({ error: `Benchmark ${req.params.id} not found` })
+  }
+  res.json(run)
+})
+
+// POST /api/benchmarks/runs/:id/cancel - Stop a running benchmark; finished queries keep their scores
+benchmarksRouter.post('/runs/:id/cancel', requireRole('operator'), audit('benchmark.cancel', {
+  target: (req) => req.params.id,
+}), (req, res) => {
+  try {
+    res.json(cancelBenchmark(req.params.id))
+  } catch (error) {
+    sendError(res, error, 'Failed to cancel benchmark')
+  }
+})
+
+// DELETE /api/benchmarks/runs/:id - Drop a run from the history
+benchmarksRouter.delete('/runs/:id', requireRole('operator'), audit('benchmark.run-delete', {
+  target: (req) => req.params.id,
+}), (req, res) => {
+  try {
+    deleteBenchmarkRun(req.params.id)
+    res.json({ deleted: req.params.id })
+  } catch (error) {
+    sendError(res, error, 'Failed to delete benchmark')
+  }
+})
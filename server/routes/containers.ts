@@ -0,0 +1,94 @@
+import { Router, type Response } from 'express'
+import { DockerApiError } from '../services/dockerEngine'
+import {
+  CONTAINER_ACTIONS,
+  containerAction,
+  getContainerStatsHistory,
+  listContainers,
+  streamContainerLogs,
+  type ContainerAction,
+} from '../services/containers'
+import { parseRange } from '../services/healthHistory'
+import { requireRole } from '../middleware/auth'
+import { audit } from '../middleware/audit'
+
+export const containersRouter = Router()
+
+function sendError(res: Response, error: unknown, context: string) {
+  if (error instanceof DockerApiError) {
+    return res.status(error.statusCode).json({ error: error.message })
+  }
+  res.status(500).json({ error: `${context}: ${(error as Error).message}` })
+}
+
+// GET /api/containers - Every container with status, health, ports, uptime and latest stats
+containersRouter.get('/', async (req, res) => {
+  try {
+    res.json(await listContainers())
+  } catch (error) {
+    sendError(res, error, 'Failed to list containers')
+  }
+})
+
+// GET /api/containers/:id/stats/history?range=15m - Sampled CPU/memory series
+containersRouter.get('/:id/stats/history', (req, res) => {
+  const range = parseRange(req.query.range, '1h')
+  const history = getContainerStatsHistory(req.params.id, range.ms)
+  if (!history) {
+    return res.status(404).json({ error: `No stats recorded for container ${req.params.id}` })
+  }
+  res.json({ range: range.label, ...history })
+})
+
+// GET /api/containers/:id/logs/stream?tail=100 - SSE stream of container logs
+containersRouter.get('/:id/logs/stream', async (req, res) => {
+  const tail = parseInt(String(req.query.tail ?? '100'), 10) || 0
+
+  let stop: () => void
+  try {
+    stop = await streamContainerLogs(
+      req.params.id,
+      { tail },
+      (entry) => res.write(`data: ${JSON.stringify(entry)}\n\n`),
+      () => {
+        res.write(`event: end\ndata: {}\n\n`)
+        res.end()
+      }
+    )
+  } catch (error) {
+    return sendError(res, error, 'Failed to stream container logs')
+  }
+
+  res.setHeader('Content-Type', 'text/event-stream')
+  res.setHeader('Cache-Control', 'no-cache')
+  res.setHeader('Connection', 'keep-alive')
+  res.setHeader('X-Accel-Buffering', 'no')
+  res.flushHeaders()
+
+  // SSE comment keeps proxies from closing an idle stream
+  const keepAlive = setInterval(() => {
+    res.write(': keep-alive\n\n')
+  }, 30000)
+
+  req.on('close', () => {
+    clearInterval(keepAlive)
+    stop()
+  })
+})
+
+// POST /api/containers/:id/:action - start, stop or restart a container
+containersRouter.post('/:id/:action', requireRole('operator'), audit((req) => `container.${req.params.action}`, {
+  target: (req) => req.params.id,
+}), async (req, res) => {
+  const action = req.params.action as ContainerAction
+  if (!CONTAINER_ACTIONS.includes(action)) {
+    return res.status(400).json({ error: `Unknown action "${req.params.action}" (expected ${CONTAINER_ACTIONS.join(', ')})` })
+  }
+
+  try {
+    const changed = await containerAction(req.params.id, action)
+    res.json({ id: req.params.id, action, changed })
+  } catch (error) {
+    sendError(res, error, `Failed to ${action} container`)
+  }
+})
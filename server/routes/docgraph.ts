@@ -1,42 +1,11 @@
 import { Router } from 'express'
-import neo4j, { Driver, Session } from 'neo4j-driver'
-import { NEO4J_HTTP_PORT, NEO4J_BOLT_PORT, GATEWAY_PORT } from '../../config/ports'
+import neo4j from 'neo4j-driver'
+import { NEO4J_HTTP_PORT, GATEWAY_PORT } from '../../config/ports'
+import { getEntityCounts, runQuery, type EntityStats } from '../services/docgraph'
 
 export const docgraphRouter = Router()
 
-// Neo4j connection configuration
-const NEO4J_URI = `bolt://localhost:${NEO4J_BOLT_PORT}`
-const NEO4J_USER = 'neo4j'
-const NEO4J_PASSWORD = process.env.NEO4J_PASSWORD || 'docgraph2026'
-
-let driver: Driver | null = null
-
-function getDriver(): Driver {
-  if (!driver) {
-    driver = neo4j.driver(NEO4J_URI, neo4j.auth.basic(NEO4J_USER, NEO4J_PASSWORD))
-  }
-  return driver
-}
-
-async function runQuery<T>(query: string, params: Record<string, unknown> = {}): Promise<T[]> {
-  const session: Session = getDriver().session()
-  try {
-    const result = await session.run(query, params)
-    return result.records.map(record => record.toObject() as T)
-  } finally {
-    await session.close()
-  }
-}
-
 // Types
-interface EntityStats {
-  functions: number
-  classes: number
-  documents: number
-  files: number
-  projects: number
-}
-
 interface ProjectStats {
   name: string
   functions: number
@@ -71,33 +40,7 @@ interface DocGraphStats {
 // GET /api/docgraph/stats - Get overall statistics
 docgraphRouter.get('/stats', async (req, res) => {
   try {
-    // Get entity counts
-    const countQuery = `
-      MATCH (n)
-      WITH labels(n)[0] as label
-      RETURN label, count(*) as count
-      ORDER BY count DESC
-    `
-    const counts = await runQuery<{ label: string; count: { low: number } }>(countQuery)
-
-    const entities: EntityStats = {
-      functions: 0,
-      classes: 0,
-      documents: 0,
-      files: 0,
-      projects: 0,
-    }
-
-    for (const row of counts) {
-      const count = typeof row.count === 'object' ? row.count.low : row.count
-      switch (row.label) {
-        case 'Function': entities.functions = count; break
-        case 'Class': entities.classes = count; break
-        case 'Document': entities.documents = count; break
-        case 'File': entities.files = count; break
-        case 'Project': entities.projects = count; break
-      }
-    }
+    const entities = await getEntityCounts()
 
     // Get per-project stats
     const projectQuery = `
@@ -1,61 +1,43 @@
 import { Router } from 'express'
-import { MEMOS_BASE_URL } from '../../config/ports'
+import { getGPUStatus, type GPUStatus } from '../services/gpuStatus'
+import { getLiveValue } from '../services/liveState'
+import { getGPUHistory } from '../services/gpuHistory'
+import { getGPUProcesses } from '../services/gpuProcesses'
+import { parseRange } from '../services/healthHistory'
 
 export const gpuRouter = Router()
 
-// GET /api/gpu/status - Proxy to memOS GPU endpoint
+// GET /api/gpu/status - Every GPU, from nvidia-smi and/or memOS
 gpuRouter.get('/status', async (req, res) => {
   try {
-    const response = await fetch(`${MEMOS_BASE_URL}/api/v1/models/gpu/status`)
-
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}`)
-    }
-
-    const data = await response.json()
-
-    // Transform to dashboard format - memOS returns nested structure
-    const gpuData = data.data || data
-    const gpu = gpuData.gpus?.[0] || {}
-
-    const gpuStatus = {
-      name: gpu.name || gpuData.gpu_name || 'Unknown GPU',
-      vramUsed: gpuData.used_vram_gb || gpu.used_memory_gb || 0,
-      vramTotal: gpuData.total_vram_gb || gpu.total_memory_gb || 24,
-      utilization: gpu.utilization_percent || gpuData.gpu_utilization || 0,
-      temperature: gpu.temperature_c || gpuData.temperature || 0,
-      powerDraw: gpu.power_draw_w || gpuData.power_draw || 0,
-      loadedModels: gpuData.loaded_models || [],
-    }
-
-    res.json(gpuStatus)
+    res.json(getLiveValue<GPUStatus>('gpu') ?? (await getGPUStatus()))
   } catch (error) {
-    // Fallback to nvidia-smi if memOS endpoint fails
-    try {
-      const { exec } = await import('child_process')
-      const { promisify } = await import('util')
-      const execAsync = promisify(exec)
+    res.status(503).json({
+      error: 'GPU status unavailable',
+      message: 'Neither memOS nor nvidia-smi available',
+    })
+  }
+})
 
-      const { stdout } = await execAsync(
-        'nvidia-smi --query-gpu=name,memory.used,memory.total,utilization.gpu,temperature.gpu,power.draw --format=csv,noheader,nounits'
-      )
+// GET /api/gpu/history?range=15m&gpu=0 - Sampled VRAM/utilization/temperature/power series
+gpuRouter.get('/history', (req, res) => {
+  const range = parseRange(req.query.range, '1h')
+  const gpu = req.query.gpu !== undefined ? parseInt(String(req.query.gpu), 10) : undefined
 
-      const [name, memUsed, memTotal, util, temp, power] = stdout.trim().split(', ')
+  res.json({
+    range: range.label,
+    ...getGPUHistory({ sinceMs: range.ms, gpu: Number.isNaN(gpu) ? undefined : gpu }),
+  })
+})
 
-      res.json({
-        name: name.trim(),
-        vramUsed: parseFloat(memUsed) / 1024, // MB to GB
-        vramTotal: parseFloat(memTotal) / 1024,
-        utilization: parseInt(util),
-        temperature: parseInt(temp),
-        powerDraw: parseFloat(power),
-        loadedModels: [],
-      })
-    } catch (nvidiaError) {
-      res.status(503).json({
-        error: 'GPU status unavailable',
-        message: 'Neither memOS nor nvidia-smi available',
-      })
-    }
+// GET /api/gpu/processes - Processes holding VRAM, joined with /api/processes
+gpuRouter.get('/processes', async (req, res) => {
+  try {
+    res.json({ processes: await getGPUProcesses(), timestamp: new Date().toISOString() })
+  } catch (error) {
+    res.status(503).json({
+      error: 'GPU process list unavailable',
+      message: `nvidia-smi failed: ${(error as Error).message}`,
+    })
   }
 })
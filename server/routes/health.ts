@@ -1,95 +1,55 @@
 import { Router } from 'express'
-import { createConnection } from 'net'
-import { HEALTH_CHECK_SERVICES, type ServiceConfig } from '../../config/ports'
+import { checkServiceHealth } from '../services/healthChecks'
+import { getHistorySummary, getServiceHistory } from '../services/healthHistory'
+import { getHealthCheckServices } from '../services/serviceRegistry'
+import { getTopology } from '../services/topology'
+import { collectHealth, getLiveValue, type ServiceHealthSnapshot } from '../services/liveState'
 
 export const healthRouter = Router()
 
-const SERVICES = HEALTH_CHECK_SERVICES
+// GET /api/health/aggregate - Served from the live collector while its sample is fresh
+healthRouter.get('/aggregate', async (req, res) => {
+  res.json(getLiveValue<ServiceHealthSnapshot[]>('health') ?? (await collectHealth()))
+})
 
-async function checkHttpHealth(service: ServiceConfig): Promise<{
-  status: 'healthy' | 'unhealthy' | 'unknown'
-  latency?: number
-  message?: string
-}> {
-  const start = Date.now()
-  const controller = new AbortController()
-  const timeout = setTimeout(() => controller.abort(), 5000)
+// GET /api/health/topology - Dependency graph with upstream failures propagated to dependents
+healthRouter.get('/topology', async (req, res) => {
+  try {
+    res.json(await getTopology())
+  } catch (error) {
+    const err = error as Error
+    res.status(500).json({ error: `Failed to build health topology: ${err.message}` })
+  }
+})
 
+// GET /api/health/history/summary?range=24h - Uptime, latency and sparkline per service
+healthRouter.get('/history/summary', (req, res) => {
   try {
-    const url = `http://localhost:${service.port}${service.healthEndpoint}`
-    const response = await fetch(url, { signal: controller.signal })
-    clearTimeout(timeout)
-    const latency = Date.now() - start
+    res.json(getHistorySummary(req.query.range))
+  } catch (error) {
+    const err = error as Error
+    res.status(500).json({ error: `Failed to read health history: ${err.message}` })
+  }
+})
 
-    if (response.ok) {
-      return { status: 'healthy', latency }
-    } else {
-      return { status: 'unhealthy', latency, message: `HTTP ${response.status}` }
+// GET /api/health/history/:service?range=7d - Uptime, latency percentiles and outage windows
+healthRouter.get('/history/:service', (req, res) => {
+  try {
+    const history = getServiceHistory(req.params.service, req.query.range)
+    if (!history) {
+      return res.status(404).json({ error: 'Service not found' })
     }
+    res.json(history)
   } catch (error) {
-    clearTimeout(timeout)
     const err = error as Error
-    return { status: 'unhealthy', message: err.message }
+    res.status(500).json({ error: `Failed to read health history: ${err.message}` })
   }
-}
-
-async function checkTcpHealth(service: ServiceConfig): Promise<{
-  status: 'healthy' | 'unhealthy' | 'unknown'
-  latency?: number
-  message?: string
-}> {
-  const start = Date.now()
-
-  return new Promise((resolve) => {
-    const socket = createConnection({ port: service.port, host: 'localhost' })
-
-    const timeout = setTimeout(() => {
-      socket.destroy()
-      resolve({ status: 'unhealthy', message: 'Connection timeout' })
-    }, 3000)
-
-    socket.on('connect', () => {
-      clearTimeout(timeout)
-      const latency = Date.now() - start
-      socket.destroy()
-      resolve({ status: 'healthy', latency })
-    })
-
-    socket.on('error', (err) => {
-      clearTimeout(timeout)
-      socket.destroy()
-      resolve({ status: 'unhealthy', message: err.message })
-    })
-  })
-}
-
-// GET /api/health/aggregate
-healthRouter.get('/aggregate', async (req, res) => {
-  const results = await Promise.all(
-    SERVICES.map(async (service) => {
-      const check =
-        service.type === 'http'
-          ? await checkHttpHealth(service)
-          : await checkTcpHealth(service)
-
-      return {
-        name: service.name,
-        port: service.port,
-        status: check.status,
-        latency: check.latency,
-        message: check.message,
-        lastCheck: new Date().toISOString(),
-      }
-    })
-  )
-
-  res.json(results)
 })
 
 // GET /api/health/:service
 healthRouter.get('/:service', async (req, res) => {
   const serviceName = req.params.service
-  const service = SERVICES.find(
+  const service = getHealthCheckServices().find(
     (s) => s.name.toLowerCase() === serviceName.toLowerCase()
   )
 
@@ -97,10 +57,12 @@ healthRouter.get('/:service', async (req, res) => {
     return res.status(404).json({ error: 'Service not found' })
   }
 
-  const check =
-    service.type === 'http'
-      ? await checkHttpHealth(service)
-      : await checkTcpHealth(service)
+  const live = getLiveValue<ServiceHealthSnapshot[]>('health')?.find((s) => s.name === service.name)
+  if (live) {
+    return res.json(live)
+  }
+
+  const check = await checkServiceHealth(service)
 
   res.json({
     name: service.name,
@@ -0,0 +1,43 @@
+import { Router } from 'express'
+import { getLiveSnapshot, isLiveTopic, LIVE_TOPICS, onLiveMessage, type LiveTopic } from '../services/liveState'
+
+export const liveRouter = Router()
+
+// GET /api/live/stream?topics=health,gpu - One SSE channel for every live topic;
+// a snapshot per subscribed topic first, then deltas as samples change
+liveRouter.get('/stream', (req, res) => {
+  const requested = typeof req.query.topics === 'string' && req.query.topics
+    ? req.query.topics.split(',').map((t) => t.trim())
+    : [...LIVE_TOPICS]
+  const unknown = requested.filter((t) => !isLiveTopic(t))
+  if (unknown.length > 0) {
+    return res.status(400).json({ error: `Unknown topic(s): ${unknown.join(', ')} (expected ${LIVE_TOPICS.join(', ')})` })
+  }
+  const subscribed = new Set(requested as LiveTopic[])
+
+  res.setHeader('Content-Type', 'text/event-stream')
+  res.setHeader('Cache-Control', 'no-cache')
+  res.setHeader('Connection', 'keep-alive')
+  res.setHeader('X-Accel-Buffering', 'no')
+  res.flushHeaders()
+
+  for (const topic of subscribed) {
+    const snapshot = getLiveSnapshot(topic)
+    if (snapshot) res.write(`data: ${JSON.stringify(snapshot)}\n\n`)
+  }
+
+  const unsubscribe = onLiveMessage((message) => {
+    if (subscribed.has(message.topic)) res.write(`data: ${JSON.stringify(message)}\n\n`)
+  })
+
+  // SSE comment keeps proxies from closing an idle stream
+  const keepAlive = setInterval(() => {
+    res.write(': keep-alive\n\n')
+  }, 30000)
+
+  // Cleanup on client disconnect
+  req.on('close', () => {
+    clearInterval(keepAlive)
+    unsubscribe()
+  })
+})
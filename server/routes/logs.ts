@@ -1,24 +1,46 @@
 import { Router } from 'express'
-import { exec } from 'child_process'
-import { promisify } from 'util'
-
-const execAsync = promisify(exec)
+import { LOG_LEVELS, type LogEntry, type LogLevel } from '../services/logParsers'
+import {
+  getLogSourceStatus,
+  getRecentLogs,
+  subscribeLogs,
+  type LogFilter,
+} from '../services/logTailer'
+import { searchLogs } from '../services/logArchive'
 
 export const logsRouter = Router()
 
-interface LogEntry {
-  timestamp: string
-  level: 'debug' | 'info' | 'warn' | 'error'
-  source: string
-  message: string
+function parseList(value: unknown): string[] {
+  if (typeof value !== 'string' || !value || value === 'all') return []
+  return value.split(',').map((v) => v.trim()).filter(Boolean)
+}
+
+function parseFilter(query: Record<string, unknown>): LogFilter {
+  return {
+    sources: parseList(query.source),
+    levels: parseList(query.level).filter((l): l is LogLevel =>
+      LOG_LEVELS.includes(l as LogLevel)
+    ),
+  }
 }
 
+// GET /api/logs/sources - Configured log sources and their tailer state
+logsRouter.get('/sources', (req, res) => {
+  res.json(getLogSourceStatus())
+})
+
 // SSE endpoint for real-time log streaming
+// ?source=ollama,searxng&level=warn,error filters server-side, ?backlog=N replays buffered entries
 logsRouter.get('/stream', (req, res) => {
   res.setHeader('Content-Type', 'text/event-stream')
   res.setHeader('Cache-Control', 'no-cache')
   res.setHeader('Connection', 'keep-alive')
   res.setHeader('Access-Control-Allow-Origin', '*')
+  res.setHeader('X-Accel-Buffering', 'no')
+  res.flushHeaders()
+
+  const filter = parseFilter(req.query)
+  const backlog = Math.min(parseInt(String(req.query.backlog ?? '0'), 10) || 0, 500)
 
   // Send initial connection message
   res.write(`data: ${JSON.stringify({
@@ -28,86 +50,69 @@ logsRouter.get('/stream', (req, res) => {
     message: 'Connected to log stream'
   })}\n\n`)
 
-  // Demo: Send periodic system status updates
-  const interval = setInterval(() => {
-    const log: LogEntry = {
-      timestamp: new Date().toISOString(),
-      level: 'info',
-      source: 'dashboard',
-      message: `System heartbeat - ${new Date().toLocaleTimeString()}`
+  if (backlog > 0) {
+    for (const entry of getRecentLogs(filter, backlog)) {
+      res.write(`data: ${JSON.stringify(entry)}\n\n`)
     }
-    res.write(`data: ${JSON.stringify(log)}\n\n`)
+  }
+
+  const unsubscribe = subscribeLogs(filter, (entry) => {
+    res.write(`data: ${JSON.stringify(entry)}\n\n`)
+  })
+
+  // SSE comment keeps proxies from closing an idle stream
+  const keepAlive = setInterval(() => {
+    res.write(': keep-alive\n\n')
   }, 30000)
 
   // Cleanup on client disconnect
   req.on('close', () => {
-    clearInterval(interval)
+    clearInterval(keepAlive)
+    unsubscribe()
   })
 })
 
-// GET /api/logs - Get recent logs from various sources
-logsRouter.get('/', async (req, res) => {
-  const { source, level, limit = 100 } = req.query
-  const logs: LogEntry[] = []
-
-  try {
-    // Get journalctl logs for Ollama
-    if (!source || source === 'ollama') {
-      try {
-        const { stdout } = await execAsync(
-          `journalctl -u ollama --no-pager -n 20 --output=json 2>/dev/null || echo "[]"`
-        )
-        const lines = stdout.trim().split('\n').filter(Boolean)
-        for (const line of lines) {
-          try {
-            const entry = JSON.parse(line)
-            logs.push({
-              timestamp: new Date(parseInt(entry.__REALTIME_TIMESTAMP) / 1000).toISOString(),
-              level: 'info',
-              source: 'ollama',
-              message: entry.MESSAGE || ''
-            })
-          } catch {
-            // Skip invalid JSON
-          }
-        }
-      } catch {
-        // journalctl not available
-      }
-    }
+function parseTime(value: unknown): number | undefined {
+  if (typeof value !== 'string' || !value) return undefined
+  const ms = /^\d+$/.test(value) ? parseInt(value, 10) : Date.parse(value)
+  return isNaN(ms) ? undefined : ms
+}
 
-    // Get Docker logs for SearXNG
-    if (!source || source === 'searxng') {
-      try {
-        const { stdout } = await execAsync(
-          `docker logs searxng --tail 20 2>&1 || echo ""`
-        )
-        const lines = stdout.trim().split('\n').filter(Boolean)
-        for (const line of lines) {
-          logs.push({
-            timestamp: new Date().toISOString(),
-            level: 'info',
-            source: 'searxng',
-            message: line
-          })
-        }
-      } catch {
-        // Docker not available
-      }
-    }
+// GET /api/logs/search - Full-text search over the log archive
+// ?q=timeout&source=ollama&level=error&from=<iso|ms>&to=<iso|ms>&limit=100&offset=0
+logsRouter.get('/search', (req, res) => {
+  const filter = parseFilter(req.query)
 
-    // Filter by level if specified
-    let filteredLogs = logs
-    if (level && level !== 'all') {
-      filteredLogs = logs.filter(log => log.level === level)
-    }
+  try {
+    const result = searchLogs({
+      q: typeof req.query.q === 'string' ? req.query.q : undefined,
+      from: parseTime(req.query.from),
+      to: parseTime(req.query.to),
+      sources: filter.sources,
+      levels: filter.levels,
+      limit: parseInt(String(req.query.limit ?? '100'), 10) || 100,
+      offset: parseInt(String(req.query.offset ?? '0'), 10) || 0,
+    })
+    res.json(result)
+  } catch (error) {
+    const err = error as Error
+    res.status(500).json({ error: `Failed to search logs: ${err.message}` })
+  }
+})
 
-    // Sort by timestamp and limit
-    filteredLogs.sort((a, b) =>
-      new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-    )
+// GET /api/logs - Get recent logs from the archive
+logsRouter.get('/', (req, res) => {
+  const filter = parseFilter(req.query)
 
-    res.json(filteredLogs.slice(0, Number(limit)))
+  try {
+    // searchLogs caps the page size
+    const { entries } = searchLogs({
+      sources: filter.sources,
+      levels: filter.levels,
+      limit: parseInt(String(req.query.limit ?? '100'), 10) || 100,
+    })
+    const logs: LogEntry[] = entries.map(({ id, ...entry }) => entry)
+    res.json(logs)
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch logs' })
   }
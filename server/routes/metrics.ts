@@ -0,0 +1,14 @@
+import { Router } from 'express'
+import { renderMetrics } from '../services/metrics'
+
+export const metricsRouter = Router()
+
+// GET /metrics - Prometheus scrape target (text exposition format)
+metricsRouter.get('/', async (req, res) => {
+  try {
+    res.type('text/plain; version=0.0.4; charset=utf-8').send(await renderMetrics())
+  } catch (error) {
+    const err = error as Error
+    res.status(500).json({ error: `Failed to render metrics: ${err.message}` })
+  }
+})
@@ -0,0 +1,162 @@
+import { Router, type Response } from 'express'
+import { getModelCatalog } from '../services/modelCatalog'
+import {
+  cancelPull,
+  deleteModel,
+  getModelDiskUsage,
+  getPull,
+  listPulls,
+  loadModel,
+  OllamaApiError,
+  onPullUpdate,
+  startPull,
+  unloadModel,
+} from '../services/ollamaModels'
+import { requireRole } from '../middleware/auth'
+import { audit } from '../middleware/audit'
+
+export const modelsRouter = Router()
+
+function sendError(res: Response, error: unknown, context: string) {
+  if (error instanceof OllamaApiError) {
+    return res.status(error.statusCode).json({ error: error.message })
+  }
+  res.status(500).json({ error: `${context}: ${(error as Error).message}` })
+}
+
+// GET /api/models - Models on every LLM backend (Ollama, vLLM, SGLang, llama.cpp)
+// ?refresh=true skips the short-lived cache
+modelsRouter.get('/', async (req, res) => {
+  try {
+    res.json(await getModelCatalog(req.query.refresh === 'true'))
+  } catch (error) {
+    res.status(500).json({ error: `Failed to build model catalog: ${(error as Error).message}` })
+  }
+})
+
+// GET /api/models/disk - Space taken by Ollama models and left on their filesystem
+modelsRouter.get('/disk', async (req, res) => {
+  try {
+    res.json(await getModelDiskUsage())
+  } catch (error) {
+    sendError(res, error, 'Failed to read model disk usage')
+  }
+})
+
+// GET /api/models/pulls - Running and recent pulls, newest first
+modelsRouter.get('/pulls', (req, res) => {
+  res.json(listPulls())
+})
+
+// POST /api/models/pulls - Start pulling a model ({"model": "qwen3:8b"})
+modelsRouter.post('/pulls', requireRole('operator'), audit('model.pull', {
+  target: (req) => req.body?.model,
+}), (req, res) => {
+  const model = typeof req.body?.model === 'string' ? req.body.model.trim() : ''
+  if (!model) {
+    return res.status(400).json({ error: 'model is required' })
+  }
+  try {
+    res.status(202).json(startPull(model, req.user?.username ?? 'anonymous'))
+  } catch (error) {
+    sendError(res, error, `Failed to pull ${model}`)
+  }
+})
+
+// GET /api/models/pulls/:id - One pull with its latest progress
+modelsRouter.get('/pulls/:id', (req, res) => {
+  const pull = getPull(req.params.id)
+  if (!pull) {
+    return res.status(404).json({ error: `Pull ${req.params.id} not found` })
+  }
+  res.json(pull)
+})
+
+// GET /api/models/pulls/:id/stream - SSE progress; the current state first,
+// then every update until the pull finishes
+modelsRouter.get('/pulls/:id/stream', (req, res) => {
+  const pull = getPull(req.params.id)
+  if (!pull) {
+    return res.status(404).json({ error: `Pull ${req.params.id} not found` })
+  }
+
+  res.setHeader('Content-Type', 'text/event-stream')
+  res.setHeader('Cache-Control', 'no-cache')
+  res.setHeader('Connection', 'keep-alive')
+  res.setHeader('X-Accel-Buffering', 'no')
+  res.flushHeaders()
+
+  res.write(`data: ${JSON.stringify(pull)}\n\n`)
+  if (pull.status !== 'running') return res.end()
+
+  // Progress lines arrive many times a second; one update per interval is plenty
+  let pending: typeof pull | null = null
+  const flush = setInterval(() => {
+    if (!pending) return
+    res.write(`data: ${JSON.stringify(pending)}\n\n`)
+    pending = null
+  }, 250)
+
+  const unsubscribe = onPullUpdate(pull.id, (update) => {
+    pending = update
+    if (update.status !== 'running') {
+      cleanup()
+      res.write(`data: ${JSON.stringify(update)}\n\n`)
+      res.end()
+    }
+  })
+
+  function cleanup() {
+    clearInterval(flush)
+    unsubscribe()
+  }
+  req.on('close', cleanup)
+})
+
+// DELETE /api/models/pulls/:id - Cancel a running pull
+modelsRouter.delete('/pulls/:id', requireRole('operator'), audit('model.pull-cancel', {
+  target: (req) => getPull(req.params.id)?.model,
+}), (req, res) => {
+  try {
+    res.json(cancelPull(req.params.id))
+  } catch (error) {
+    sendError(res, error, 'Failed to cancel pull')
+  }
+})
+
+// POST /api/models/:name/load - Load into memory ({"keepAlive": "30m"}, default until unloaded)
+modelsRouter.post('/:name/load', requireRole('operator'), audit('model.load', {
+  target: (req) => req.params.name,
+}), async (req, res) => {
+  const keepAlive = req.body?.keepAlive
+  try {
+    await loadModel(req.params.name, typeof keepAlive === 'string' || typeof keepAlive === 'number' ? keepAlive : undefined)
+    res.json({ model: req.params.name, loaded: true })
+  } catch (error) {
+    sendError(res, error, `Failed to load ${req.params.name}`)
+  }
+})
+
+// POST /api/models/:name/unload - Free its memory now (keep_alive=0)
+modelsRouter.post('/:name/unload', requireRole('operator'), audit('model.unload', {
+  target: (req) => req.params.name,
+}), async (req, res) => {
+  try {
+    await unloadModel(req.params.name)
+    res.json({ model: req.params.name, loaded: false })
+  } catch (error) {
+    sendError(res, error, `Failed to unload ${req.params.name}`)
+  }
+})
+
+// DELETE /api/models/:name - Remove an Ollama model from disk
+modelsRouter.delete('/:name', requireRole('operator'), audit('model.delete', {
+  target: (req) => req.params.name,
+}), async (req, res) => {
+  try {
+    await deleteModel(req.params.name)
+    res.json({ model: req.params.name, deleted: true })
+  } catch (error) {
+    sendError(res, error, `Failed to delete ${req.params.name}`)
+  }
+})
@@ -1,113 +1,69 @@
 import { Router } from 'express'
-import { exec } from 'child_process'
-import { promisify } from 'util'
-
-const execAsync = promisify(exec)
+import { getProcesses, type ProcessInfo } from '../services/processInfo'
+import { getLiveValue } from '../services/liveState'
+import {
+  ECOSYSTEM_ACTIONS,
+  getOperation,
+  isDryRunForced,
+  listOperations,
+  ProcessControlError,
+  runServiceAction,
+  type EcosystemAction,
+} from '../services/processControl'
+import { getEcosystemServices } from '../services/serviceRegistry'
+import { requireRole } from '../middleware/auth'
+import { audit } from '../middleware/audit'
 
 export const processesRouter = Router()
 
-interface ProcessInfo {
-  pid: number
-  name: string
-  cpu: number
-  memory: number
-  uptime: string
-  type: 'native' | 'docker'
-}
-
-// Process patterns to monitor
-const PROCESS_PATTERNS = [
-  { pattern: 'uvicorn', name: 'memOS Server' },
-  { pattern: 'ollama serve', name: 'Ollama' },
-  { pattern: 'python.*aiohttp', name: 'Pipeline Launcher' },
-  { pattern: 'node.*vite', name: 'Dashboard Dev' },
-  { pattern: 'postgres', name: 'PostgreSQL' },
-  { pattern: 'redis-server', name: 'Redis' },
-]
-
-// Docker containers to monitor
-const DOCKER_CONTAINERS = [
-  'searxng',
-  'milvus-standalone',
-  'milvus-minio',
-  'milvus-etcd',
-  'qdrant',
-  'meilisearch',
-]
-
-async function getNativeProcesses(): Promise<ProcessInfo[]> {
-  const processes: ProcessInfo[] = []
-
-  for (const { pattern, name } of PROCESS_PATTERNS) {
-    try {
-      const { stdout } = await execAsync(
-        `ps aux | grep -E "${pattern}" | grep -v grep | head -1`
-      )
-
-      if (stdout.trim()) {
-        const parts = stdout.trim().split(/\s+/)
-        if (parts.length >= 11) {
-          processes.push({
-            pid: parseInt(parts[1] || '0'),
-            name,
-            cpu: parseFloat(parts[2] || '0'),
-            memory: parseFloat(parts[3] || '0'),
-            uptime: parts[9] || '0:00',
-            type: 'native',
-          })
-        }
-      }
-    } catch {
-      // Process not running
-    }
+// GET /api/processes
+processesRouter.get('/', async (req, res) => {
+  try {
+    res.json(getLiveValue<ProcessInfo[]>('processes') ?? (await getProcesses()))
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch processes' })
   }
+})
 
-  return processes
-}
-
-async function getDockerProcesses(): Promise<ProcessInfo[]> {
-  const processes: ProcessInfo[] = []
+// GET /api/processes/services - ecosystem.sh services that can be started/stopped
+processesRouter.get('/services', (req, res) => {
+  res.json({ services: getEcosystemServices(), dryRunForced: isDryRunForced() })
+})
 
-  try {
-    const { stdout } = await execAsync(
-      'docker stats --no-stream --format "{{.Name}},{{.PIDs}},{{.CPUPerc}},{{.MemPerc}}"'
-    )
+// GET /api/processes/operations?service= - Recent start/stop/restart operations, newest first
+processesRouter.get('/operations', (req, res) => {
+  const service = typeof req.query.service === 'string' ? req.query.service : undefined
+  res.json(listOperations(service))
+})
 
-    for (const line of stdout.trim().split('\n')) {
-      if (!line) continue
-      const [name, pids, cpu, mem] = line.split(',')
+// GET /api/processes/operations/:id - One operation with captured stdout/stderr
+processesRouter.get('/operations/:id', (req, res) => {
+  const operation = getOperation(req.params.id)
+  if (!operation) {
+    return res.status(404).json({ error: `Operation ${req.params.id} not found` })
+  }
+  res.json(operation)
+})
 
-      if (DOCKER_CONTAINERS.includes(name)) {
-        processes.push({
-          pid: parseInt(pids || '0'),
-          name: `${name} (docker)`,
-          cpu: parseFloat(cpu?.replace('%', '') || '0'),
-          memory: parseFloat(mem?.replace('%', '') || '0'),
-          uptime: 'docker',
-          type: 'docker',
-        })
-      }
-    }
-  } catch {
-    // Docker not available
+// POST /api/processes/:service/:action - Run ecosystem.sh <action> <service>
+// Pass ?dryRun=true (or {"dryRun": true}) to record the command without running it
+processesRouter.post('/:service/:action', requireRole('operator'), audit((req) => `process.${req.params.action}`, {
+  target: (req) => req.params.service,
+  details: (req) => ({ dryRun: req.query.dryRun === 'true' || req.body?.dryRun === true }),
+}), (req, res) => {
+  const action = req.params.action as EcosystemAction
+  if (!ECOSYSTEM_ACTIONS.includes(action)) {
+    return res.status(400).json({ error: `Unknown action "${req.params.action}" (expected ${ECOSYSTEM_ACTIONS.join(', ')})` })
   }
 
-  return processes
-}
+  const dryRun = req.query.dryRun === 'true' || req.body?.dryRun === true
 
-// GET /api/processes
-processesRouter.get('/', async (req, res) => {
   try {
-    const [nativeProcesses, dockerProcesses] = await Promise.all([
-      getNativeProcesses(),
-      getDockerProcesses(),
-    ])
-
-    const allProcesses = [...nativeProcesses, ...dockerProcesses]
-      .sort((a, b) => b.cpu - a.cpu) // Sort by CPU usage
-
-    res.json(allProcesses)
+    res.status(202).json(runServiceAction(req.params.service, action, { dryRun }))
   } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch processes' })
+    if (error instanceof ProcessControlError) {
+      return res.status(error.status).json({ error: error.message })
+    }
+    res.status(500).json({ error: `Failed to ${action} ${req.params.service}: ${(error as Error).message}` })
   }
 })
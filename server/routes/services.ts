@@ -0,0 +1,39 @@
+import { Router } from 'express'
+import {
+  getRegistryError,
+  getService,
+  getServiceRegistry,
+  reloadServiceRegistry,
+} from '../services/serviceRegistry'
+import { requireRole } from '../middleware/auth'
+import { audit } from '../middleware/audit'
+
+export const servicesRouter = Router()
+
+// GET /api/services - The service registry (config/services.json)
+// `error` is set when the last reload failed and the previous version is still in use
+servicesRouter.get('/', (req, res) => {
+  const registry = getServiceRegistry()
+  res.json({ ...registry, error: getRegistryError() })
+})
+
+// POST /api/services/reload - Re-read the registry file now instead of waiting for the watcher
+servicesRouter.post('/reload', requireRole('admin'), audit('services.reload', {
+  snapshot: async () => getServiceRegistry(),
+}), (req, res) => {
+  try {
+    const registry = reloadServiceRegistry()
+    res.json({ success: true, services: registry.services.length, version: registry.version })
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message })
+  }
+})
+
+// GET /api/services/:id - One service definition
+servicesRouter.get('/:id', (req, res) => {
+  const service = getService(req.params.id)
+  if (!service) {
+    return res.status(404).json({ error: `Service ${req.params.id} not found` })
+  }
+  res.json(service)
+})
@@ -0,0 +1,327 @@
+import { randomUUID } from 'crypto'
+import { getDb } from '../db'
+import { fetchMemosRunHistory } from './agentHistory'
+import { diffLines, type DiffLine } from './llmConfigHistory'
+import { readSearchEvent } from './memosSearch'
+
+// A/B runs of one query under several presets. Each run is an ordinary
+// search streamed through /api/agent/events; the proxy hands every event it
+// forwards to recordRunEvent, so the report comes from what memOS sent
+// rather than from what the browser happened to render. Finished
+// comparisons are stored so they can be reopened later.
+
+export const MAX_COMPARISON_PRESETS = 4
+
+export type ComparisonRunStatus = 'pending' | 'running' | 'completed' | 'failed'
+
+export interface ComparisonRun {
+  preset: string
+  requestId: string
+  status: ComparisonRunStatus
+  startedAt: string | null
+  finishedAt: string | null
+  durationMs: number | null
+  llmCalls: number | null
+  tokens: { input: number; output: number } | null
+  confidence: number | null
+  answer: string | null
+  error?: string
+}
+
+export interface AgentComparison {
+  id: string
+  query: string
+  presets: string[]
+  status: 'running' | 'completed'
+  createdBy: string
+  createdAt: string
+  completedAt: string | null
+  runs: ComparisonRun[]
+}
+
+// Answers are diffed sentence by sentence against the first preset's
+export interface AnswerDiff {
+  baseline: string
+  preset: string
+  lines: DiffLine[]
+  added: number
+  removed: number
+}
+
+export interface ComparisonReport extends AgentComparison {
+  answerDiffs: AnswerDiff[]
+}
+
+export class ComparisonError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'ComparisonError'
+  }
+}
+
+let initialized = false
+
+function ensureSchema() {
+  if (initialized) return
+  getDb().exec(`
+    CREATE TABLE IF NOT EXISTS agent_comparisons (
+      id TEXT PRIMARY KEY,
+      query TEXT NOT NULL,
+      presets TEXT NOT NULL,
+      status TEXT NOT NULL,
+      runs TEXT NOT NULL,
+      created_by TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      completed_at INTEGER
+    );
+    CREATE INDEX IF NOT EXISTS idx_agent_comparisons_created ON agent_comparisons(created_at);
+  `)
+  initialized = true
+  closeInterrupted()
+}
+
+interface ComparisonRow {
+  id: string
+  query: string
+  presets: string
+  status: AgentComparison['status']
+  runs: string
+  created_by: string
+  created_at: number
+  completed_at: number | null
+}
+
+function toComparison(row: ComparisonRow): AgentComparison {
+  return {
+    id: row.id,
+    query: row.query,
+    presets: JSON.parse(row.presets),
+    status: row.status,
+    createdBy: row.created_by,
+    createdAt: new Date(row.created_at).toISOString(),
+    completedAt: row.completed_at ? new Date(row.completed_at).toISOString() : null,
+    runs: JSON.parse(row.runs),
+  }
+}
+
+function persist(comparison: AgentComparison) {
+  ensureSchema()
+  getDb()
+    .prepare(
+      `INSERT INTO agent_comparisons (id, query, presets, status, runs, created_by, created_at, completed_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET status = excluded.status, runs = excluded.runs, completed_at = excluded.completed_at`
+    )
+    .run(
+      comparison.id,
+      comparison.query,
+      JSON.stringify(comparison.presets),
+      comparison.status,
+      JSON.stringify(comparison.runs),
+      comparison.createdBy,
+      Date.parse(comparison.createdAt),
+      comparison.completedAt ? Date.parse(comparison.completedAt) : null
+    )
+}
+
+// Comparisons with runs still streaming, keyed by id and by run request id
+const running = new Map<string, AgentComparison>()
+const byRequestId = new Map<string, { comparison: AgentComparison; run: ComparisonRun; claimed: boolean }>()
+
+// Runs are only tracked in memory; whatever was streaming when the
+// dashboard stopped can't finish any more
+function closeInterrupted() {
+  const rows = getDb().prepare("SELECT * FROM agent_comparisons WHERE status = 'running'").all() as ComparisonRow[]
+  for (const row of rows) {
+    const comparison = toComparison(row)
+    const now = new Date().toISOString()
+    for (const run of comparison.runs.filter((r) => !r.finishedAt)) {
+      run.status = 'failed'
+      run.finishedAt = now
+      run.error = 'Dashboard restarted before the run finished'
+    }
+    comparison.status = 'completed'
+    comparison.completedAt = now
+    persist(comparison)
+  }
+}
+
+export function validateComparisonPresets(presets: unknown): string[] {
+  if (!Array.isArray(presets) || presets.some((p) => typeof p !== 'string' || !p.trim())) {
+    throw new ComparisonError('presets: must be a list of preset names', 400)
+  }
+  const unique = [...new Set(presets.map((p: string) => p.trim()))]
+  if (unique.length < 2) throw new ComparisonError('presets: at least two different presets are required', 400)
+  if (unique.length > MAX_COMPARISON_PRESETS) {
+    throw new ComparisonError(`presets: at most ${MAX_COMPARISON_PRESETS} presets can be compared at once`, 400)
+  }
+  return unique
+}
+
+export function createComparison(
+  query: string,
+  runs: { preset: string; requestId: string }[],
+  createdBy: string
+): AgentComparison {
+  const comparison: AgentComparison = {
+    id: randomUUID(),
+    query,
+    presets: runs.map((r) => r.preset),
+    status: 'running',
+    createdBy,
+    createdAt: new Date().toISOString(),
+    completedAt: null,
+    runs: runs.map((r) => ({
+      preset: r.preset,
+      requestId: r.requestId,
+      status: 'pending',
+      startedAt: null,
+      finishedAt: null,
+      durationMs: null,
+      llmCalls: null,
+      tokens: null,
+      confidence: null,
+      answer: null,
+    })),
+  }
+  running.set(comparison.id, comparison)
+  comparison.runs.forEach((run) => byRequestId.set(run.requestId, { comparison, run, claimed: false }))
+  persist(comparison)
+  return comparison
+}
+
+export function isComparisonRun(requestId: string): boolean {
+  return byRequestId.has(requestId)
+}
+
+// Opening the events stream starts the search in memOS, so each run may be
+// streamed once; a reconnecting EventSource must not start it again
+export function claimComparisonRun(requestId: string): boolean {
+  const entry = byRequestId.get(requestId)
+  if (!entry || entry.claimed) return false
+  entry.claimed = true
+  entry.run.status = 'running'
+  entry.run.startedAt = new Date().toISOString()
+  persist(entry.comparison)
+  return true
+}
+
+// Called with each parsed SSE event the proxy forwards for a comparison run
+export function recordRunEvent(requestId: string, raw: Record<string, any>) {
+  const entry = byRequestId.get(requestId)
+  if (!entry || entry.run.finishedAt) return
+  const { run } = entry
+  const event = readSearchEvent(raw)
+
+  const { result } = event
+  run.answer = result.answer ?? run.answer
+  run.durationMs = result.durationMs ?? run.durationMs
+  run.llmCalls = result.llmCalls ?? run.llmCalls
+  run.tokens = result.tokens ?? run.tokens
+  run.confidence = result.confidence ?? run.confidence
+  if (event.kind === 'completed') {
+    run.status = 'completed'
+  } else if (event.kind === 'failed') {
+    run.status = 'failed'
+    run.error = event.error
+  }
+}
+
+// Metrics the stream didn't carry are taken from memOS's run history
+async function backfillFromHistory(runs: ComparisonRun[]) {
+  const missing = runs.filter((r) => r.status === 'completed' && (r.llmCalls === null || r.tokens === null || r.confidence === null))
+  if (missing.length === 0) return
+  const history = await fetchMemosRunHistory({ limit: 100 })
+  for (const run of missing) {
+    const record = history.find((h) => h.request_id === run.requestId)
+    if (!record) continue
+    run.durationMs ??= record.duration_ms
+    run.llmCalls ??= record.llm_calls
+    run.tokens ??= record.tokens
+    run.confidence ??= record.confidence
+  }
+}
+
+// Called once the proxied stream for a run has ended, however it ended
+export async function finishComparisonRun(requestId: string, error?: string) {
+  const entry = byRequestId.get(requestId)
+  if (!entry || entry.run.finishedAt) return
+  const { comparison, run } = entry
+
+  run.finishedAt = new Date().toISOString()
+  if (run.status !== 'completed' && run.status !== 'failed') {
+    run.status = 'failed'
+    run.error = error || 'Stream ended before the search completed'
+  }
+  if (run.durationMs === null && run.startedAt) {
+    run.durationMs = Date.parse(run.finishedAt) - Date.parse(run.startedAt)
+  }
+
+  if (comparison.runs.some((r) => !r.finishedAt)) {
+    persist(comparison)
+    return
+  }
+  await backfillFromHistory(comparison.runs).catch(() => {})
+  comparison.status = 'completed'
+  comparison.completedAt = new Date().toISOString()
+  running.delete(comparison.id)
+  persist(comparison)
+}
+
+// Runs stay claimed until their search expires; streaming a finished run
+// again would start a new search in memOS
+export async function expireComparisonRun(requestId: string) {
+  await finishComparisonRun(requestId, 'Run was never streamed')
+  byRequestId.delete(requestId)
+}
+
+export function listComparisons(limit = 50): AgentComparison[] {
+  ensureSchema()
+  const rows = getDb()
+    .prepare('SELECT * FROM agent_comparisons ORDER BY created_at DESC LIMIT ?')
+    .all(limit) as ComparisonRow[]
+  return rows.map((row) => running.get(row.id) ?? toComparison(row))
+}
+
+// One sentence per line, so a reworded sentence shows as a single change
+function splitSentences(text: string): string {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .join('\n')
+}
+
+export function getComparisonReport(id: string): ComparisonReport {
+  let comparison = running.get(id)
+  if (!comparison) {
+    ensureSchema()
+    const row = getDb().prepare('SELECT * FROM agent_comparisons WHERE id = ?').get(id) as ComparisonRow | undefined
+    if (!row) throw new ComparisonError(`Comparison ${id} not found`, 404)
+    comparison = toComparison(row)
+  }
+
+  const [baseline, ...others] = comparison.runs
+  const answerDiffs = baseline?.answer
+    ? others
+        .filter((run) => run.answer)
+        .map((run) => {
+          const lines = diffLines(splitSentences(baseline.answer!), splitSentences(run.answer!))
+          return {
+            baseline: baseline.preset,
+            preset: run.preset,
+            lines,
+            added: lines.filter((l) => l.type === 'add').length,
+            removed: lines.filter((l) => l.type === 'remove').length,
+          }
+        })
+    : []
+  return { ...comparison, answerDiffs }
+}
+
+export function deleteComparison(id: string) {
+  if (running.has(id)) throw new ComparisonError(`Comparison ${id} is still running`, 409)
+  ensureSchema()
+  const { changes } = getDb().prepare('DELETE FROM agent_comparisons WHERE id = ?').run(id)
+  if (changes === 0) throw new ComparisonError(`Comparison ${id} not found`, 404)
+}
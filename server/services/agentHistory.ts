@@ -0,0 +1,79 @@
+import { MEMOS_BASE_URL } from '../../config/ports'
+
+// Completed agent runs as memOS records them: its observability database
+// first, falling back to the in-memory recent list when the database
+// endpoint is unreachable. An unreachable memOS yields an empty list.
+
+export interface AgentRunRecord {
+  request_id: string
+  query: string
+  preset: string
+  started_at: string
+  status: string
+  confidence: number
+  confidence_level: string
+  duration_ms: number
+  llm_calls: number
+  tokens: { input: number; output: number }
+  source: 'database' | 'memory'
+  [key: string]: unknown
+}
+
+export async function fetchMemosRunHistory(
+  options: { limit?: number; offset?: number; hours?: number } = {}
+): Promise<AgentRunRecord[]> {
+  const limit = options.limit ?? 50
+
+  try {
+    const params = new URLSearchParams({
+      limit: String(limit),
+      offset: String(options.offset ?? 0),
+    })
+    if (options.hours) params.append('hours', String(options.hours))
+
+    const response = await fetch(`${MEMOS_BASE_URL}/api/v1/observability/history?${params}`, {
+      signal: AbortSignal.timeout(5000),
+    })
+
+    if (response.ok) {
+      const data = await response.json()
+      if (data.success && data.data?.runs) {
+        return data.data.runs.map((r: any) => ({
+          ...r,
+          source: 'database',
+        }))
+      }
+    }
+    return []
+  } catch (e) {
+    console.error('Failed to fetch from database:', e)
+  }
+
+  // Fall back to in-memory observability
+  try {
+    const response = await fetch(`${MEMOS_BASE_URL}/api/v1/observability/recent?limit=${limit}`, {
+      signal: AbortSignal.timeout(3000),
+    })
+    if (!response.ok) return []
+    const data = await response.json()
+    return (data.requests || []).map((r: any) => ({
+      request_id: r.request_id,
+      query: r.query,
+      preset: r.preset,
+      started_at: r.timestamp,
+      status: r.summary?.success ? 'completed' : (r.error_message ? 'failed' : 'running'),
+      confidence: r.summary?.confidence || 0,
+      confidence_level: r.summary?.confidence_level || 'unknown',
+      duration_ms: r.summary?.duration_ms || 0,
+      llm_calls: r.llm_calls?.count || 0,
+      tokens: {
+        input: r.llm_calls?.input_tokens || 0,
+        output: r.llm_calls?.output_tokens || 0,
+      },
+      source: 'memory',
+    }))
+  } catch {
+    // memOS not available
+    return []
+  }
+}
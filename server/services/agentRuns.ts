@@ -0,0 +1,366 @@
+import { EventEmitter } from 'events'
+import { getDb } from '../db'
+import { emptySearchResult, readSearchEvent, type SearchResult } from './memosSearch'
+
+// Every agent run started through the dashboard, with the full event stream
+// memOS sent for it. memOS keeps its own history, but it is gone while memOS
+// is down or restarting; this copy lets history, event replay and the
+// observability tabs fall back to what the dashboard saw.
+
+const RETENTION_DAYS = parseInt(process.env.AGENT_RUN_RETENTION_DAYS || '30', 10)
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000
+// A run that was registered but never streamed can't be started after this
+export const PENDING_TTL_MS = 30 * 60 * 1000
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type AgentRunStatus = 'pending' | 'running' | 'completed' | 'failed'
+export type AgentRunSource = 'console' | 'comparison'
+
+export interface StoredAgentRun {
+  requestId: string
+  query: string
+  preset: string
+  source: AgentRunSource
+  status: AgentRunStatus
+  startedBy: string
+  createdAt: string
+  startedAt: string | null
+  finishedAt: string | null
+  durationMs: number | null
+  llmCalls: number | null
+  tokens: { input: number; output: number } | null
+  confidence: number | null
+  answer: string | null
+  error: string | null
+  eventCount: number
+}
+
+export interface StoredRunEvent {
+  seq: number
+  receivedAt: string
+  event: Record<string, any>
+}
+
+let initialized = false
+
+function ensureSchema() {
+  if (initialized) return
+  getDb().exec(`
+    CREATE TABLE IF NOT EXISTS agent_runs (
+      request_id TEXT PRIMARY KEY,
+      query TEXT NOT NULL,
+      preset TEXT NOT NULL,
+      source TEXT NOT NULL,
+      status TEXT NOT NULL,
+      started_by TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      started_at INTEGER,
+      finished_at INTEGER,
+      duration_ms INTEGER,
+      llm_calls INTEGER,
+      tokens_in INTEGER,
+      tokens_out INTEGER,
+      confidence REAL,
+      answer TEXT,
+      error TEXT,
+      event_count INTEGER NOT NULL DEFAULT 0,
+      observability TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_agent_runs_created ON agent_runs(created_at);
+    CREATE TABLE IF NOT EXISTS agent_run_events (
+      request_id TEXT NOT NULL,
+      seq INTEGER NOT NULL,
+      received_at INTEGER NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (request_id, seq)
+    );
+  `)
+  initialized = true
+}
+
+interface RunRow {
+  request_id: string
+  query: string
+  preset: string
+  source: AgentRunSource
+  status: AgentRunStatus
+  started_by: string
+  created_at: number
+  started_at: number | null
+  finished_at: number | null
+  duration_ms: number | null
+  llm_calls: number | null
+  tokens_in: number | null
+  tokens_out: number | null
+  confidence: number | null
+  answer: string | null
+  error: string | null
+  event_count: number
+}
+
+const iso = (ms: number | null) => (ms !== null ? new Date(ms).toISOString() : null)
+
+function toRun(row: RunRow): StoredAgentRun {
+  return {
+    requestId: row.request_id,
+    query: row.query,
+    preset: row.preset,
+    source: row.source,
+    status: row.status,
+    startedBy: row.started_by,
+    createdAt: new Date(row.created_at).toISOString(),
+    startedAt: iso(row.started_at),
+    finishedAt: iso(row.finished_at),
+    durationMs: row.duration_ms,
+    llmCalls: row.llm_calls,
+    tokens: row.tokens_in !== null || row.tokens_out !== null ? { input: row.tokens_in ?? 0, output: row.tokens_out ?? 0 } : null,
+    confidence: row.confidence,
+    answer: row.answer,
+    error: row.error,
+    eventCount: row.event_count,
+  }
+}
+
+// Streamed runs, with what their events have reported so far
+const streaming = new Map<string, { seq: number; result: SearchResult; status: AgentRunStatus; error: string | null }>()
+// Followers of a streaming run, keyed by request id
+const runEvents = new EventEmitter()
+runEvents.setMaxListeners(0)
+
+export function createAgentRun(run: { requestId: string; query: string; preset: string; source: AgentRunSource; startedBy: string }) {
+  ensureSchema()
+  getDb()
+    .prepare(
+      `INSERT INTO agent_runs (request_id, query, preset, source, status, started_by, created_at)
+       VALUES (?, ?, ?, ?, 'pending', ?, ?)`
+    )
+    .run(run.requestId, run.query, run.preset, run.source, run.startedBy, Date.now())
+}
+
+export function getAgentRun(requestId: string): StoredAgentRun | null {
+  ensureSchema()
+  const row = getDb().prepare('SELECT * FROM agent_runs WHERE request_id = ?').get(requestId) as RunRow | undefined
+  return row ? toRun(row) : null
+}
+
+// Moves a pending run to running; false when it was already started, so
+// the search behind a request id only ever runs once
+export function claimAgentRun(requestId: string): boolean {
+  ensureSchema()
+  const { changes } = getDb()
+    .prepare("UPDATE agent_runs SET status = 'running', started_at = ? WHERE request_id = ? AND status = 'pending' AND created_at > ?")
+    .run(Date.now(), requestId, Date.now() - PENDING_TTL_MS)
+  if (changes === 0) return false
+  streaming.set(requestId, { seq: 0, result: emptySearchResult(), status: 'running', error: null })
+  return true
+}
+
+// Called with every event memOS sends for a claimed run
+export function appendRunEvent(requestId: string, event: Record<string, any>) {
+  const state = streaming.get(requestId)
+  if (!state) return
+
+  const { kind, result, error } = readSearchEvent(event)
+  Object.assign(state.result, result)
+  if (kind === 'completed') state.status = 'completed'
+  if (kind === 'failed') {
+    state.status = 'failed'
+    state.error = error ?? null
+  }
+
+  const receivedAt = Date.now()
+  const seq = state.seq++
+  const db = getDb()
+  db.transaction(() => {
+    db.prepare('INSERT INTO agent_run_events (request_id, seq, received_at, data) VALUES (?, ?, ?, ?)')
+      .run(requestId, seq, receivedAt, JSON.stringify(event))
+    db.prepare('UPDATE agent_runs SET event_count = ? WHERE request_id = ?').run(state.seq, requestId)
+  })()
+  runEvents.emit(requestId, { seq, receivedAt: new Date(receivedAt).toISOString(), event } satisfies StoredRunEvent)
+}
+
+// Called once the stream for a claimed run has ended, however it ended
+export function finishAgentRun(requestId: string, error?: string) {
+  const state = streaming.get(requestId)
+  if (!state) return
+  streaming.delete(requestId)
+
+  if (state.status === 'running') {
+    state.status = 'failed'
+    state.error = error || 'Stream ended before the search completed'
+  }
+  const { result } = state
+  const finishedAt = Date.now()
+  const run = getAgentRun(requestId)
+  const durationMs = result.durationMs ?? (run?.startedAt ? finishedAt - Date.parse(run.startedAt) : null)
+
+  getDb()
+    .prepare(
+      `UPDATE agent_runs SET status = ?, finished_at = ?, duration_ms = ?, llm_calls = ?, tokens_in = ?, tokens_out = ?,
+         confidence = ?, answer = ?, error = ? WHERE request_id = ?`
+    )
+    .run(
+      state.status,
+      finishedAt,
+      durationMs,
+      result.llmCalls,
+      result.tokens?.input ?? null,
+      result.tokens?.output ?? null,
+      result.confidence,
+      result.answer,
+      state.error,
+      requestId
+    )
+  runEvents.emit(requestId, null)
+}
+
+// A run nobody streamed within PENDING_TTL_MS can no longer be started
+export function expireAgentRun(requestId: string) {
+  ensureSchema()
+  getDb()
+    .prepare("UPDATE agent_runs SET status = 'failed', finished_at = ?, error = 'Run was never streamed' WHERE request_id = ? AND status = 'pending'")
+    .run(Date.now(), requestId)
+}
+
+// Listener gets each new event, then null once the run has finished
+export function onRunEvent(requestId: string, listener: (event: StoredRunEvent | null) => void): () => void {
+  runEvents.on(requestId, listener)
+  return () => runEvents.off(requestId, listener)
+}
+
+export function isRunStreaming(requestId: string): boolean {
+  return streaming.has(requestId)
+}
+
+export function getRunEvents(requestId: string, afterSeq = -1): StoredRunEvent[] {
+  ensureSchema()
+  const rows = getDb()
+    .prepare('SELECT seq, received_at, data FROM agent_run_events WHERE request_id = ? AND seq > ? ORDER BY seq')
+    .all(requestId, afterSeq) as { seq: number; received_at: number; data: string }[]
+  return rows.map((row) => ({ seq: row.seq, receivedAt: new Date(row.received_at).toISOString(), event: JSON.parse(row.data) }))
+}
+
+// Runs that were started, newest first. Pending ones have nothing to show yet.
+export function listAgentRuns(options: { limit?: number; offset?: number; hours?: number } = {}): StoredAgentRun[] {
+  ensureSchema()
+  const since = options.hours ? Date.now() - options.hours * 60 * 60 * 1000 : 0
+  const rows = getDb()
+    .prepare(
+      `SELECT * FROM agent_runs WHERE status != 'pending' AND COALESCE(started_at, created_at) >= ?
+       ORDER BY COALESCE(started_at, created_at) DESC LIMIT ? OFFSET ?`
+    )
+    .all(since, options.limit ?? 50, options.offset ?? 0) as RunRow[]
+  return rows.map(toRun)
+}
+
+// ============================================================================
+// Observability
+// ============================================================================
+
+// The last detail memOS returned for a run, served when it can't be asked
+export function saveObservabilitySnapshot(requestId: string, data: unknown) {
+  ensureSchema()
+  getDb().prepare('UPDATE agent_runs SET observability = ? WHERE request_id = ?').run(JSON.stringify(data), requestId)
+}
+
+export function getObservabilitySnapshot(requestId: string): unknown | null {
+  ensureSchema()
+  const row = getDb().prepare('SELECT observability FROM agent_runs WHERE request_id = ?').get(requestId) as
+    | { observability: string | null }
+    | undefined
+  return row?.observability ? JSON.parse(row.observability) : null
+}
+
+// Rebuilds memOS's request detail from the streamed events, for runs whose
+// detail was never fetched while memOS was up. Only what the stream carried
+// is there: decisions, context transfers, LLM calls, scratchpad changes and
+// confidence scores.
+export function deriveObservability(requestId: string): Record<string, unknown> | null {
+  const run = getAgentRun(requestId)
+  if (!run) return null
+
+  const decisions: unknown[] = []
+  const contextTransfers: unknown[] = []
+  const llmCalls: unknown[] = []
+  const scratchpadChanges: unknown[] = []
+  const confidenceHistory: unknown[] = []
+  let confidenceBreakdown: Record<string, unknown> = {}
+
+  for (const { event, receivedAt } of getRunEvents(requestId)) {
+    const type = event.event_type || event.type
+    const payload = { timestamp: event.timestamp ?? receivedAt, agent: event.agent ?? event.agent_name, ...(event.data ?? event) }
+    if (type === 'decision_made') decisions.push(payload)
+    else if (type === 'context_updated' || type === 'context_transfer') contextTransfers.push(payload)
+    else if (type === 'llm_call_complete') llmCalls.push(payload)
+    else if (type === 'scratchpad_updated' || type === 'scratchpad_change') scratchpadChanges.push(payload)
+    else if (type === 'confidence_scored') {
+      confidenceHistory.push(payload)
+      const breakdown = payload.breakdown ?? payload.signals
+      if (breakdown && typeof breakdown === 'object') confidenceBreakdown = breakdown
+    }
+  }
+
+  return {
+    data: {
+      request_id: requestId,
+      query: run.query,
+      preset: run.preset,
+      decisions,
+      context_transfers: contextTransfers,
+      llm_calls: llmCalls,
+      scratchpad_changes: scratchpadChanges,
+      confidence_breakdown: confidenceBreakdown,
+      confidence_history: confidenceHistory,
+      source: 'local',
+    },
+  }
+}
+
+// ============================================================================
+// Lifecycle
+// ============================================================================
+
+export function pruneAgentRuns() {
+  ensureSchema()
+  const cutoff = Date.now() - RETENTION_DAYS * DAY_MS
+  const db = getDb()
+  db.transaction(() => {
+    db.prepare('DELETE FROM agent_run_events WHERE request_id IN (SELECT request_id FROM agent_runs WHERE created_at < ?)').run(cutoff)
+    db.prepare('DELETE FROM agent_runs WHERE created_at < ?').run(cutoff)
+  })()
+}
+
+// Streams end with the process; runs left open by the last one can't finish,
+// and pending runs past their time can't be started any more
+function closeStaleRuns() {
+  getDb()
+    .prepare(
+      `UPDATE agent_runs SET status = 'failed', finished_at = ?, error = CASE status
+         WHEN 'running' THEN 'Dashboard restarted before the run finished'
+         ELSE 'Run was never streamed' END
+       WHERE status = 'running' OR (status = 'pending' AND created_at <= ?)`
+    )
+    .run(Date.now(), Date.now() - PENDING_TTL_MS)
+}
+
+let pruneTimer: NodeJS.Timeout | null = null
+
+export function startAgentRunStore() {
+  if (pruneTimer) return
+  ensureSchema()
+  closeStaleRuns()
+  pruneAgentRuns()
+  pruneTimer = setInterval(() => {
+    pruneAgentRuns()
+    // Only pending runs are touched here; running ones are all in this process
+    getDb()
+      .prepare("UPDATE agent_runs SET status = 'failed', finished_at = ?, error = 'Run was never streamed' WHERE status = 'pending' AND created_at <= ?")
+      .run(Date.now(), Date.now() - PENDING_TTL_MS)
+  }, PRUNE_INTERVAL_MS)
+}
+
+export function stopAgentRunStore() {
+  if (pruneTimer) clearInterval(pruneTimer)
+  pruneTimer = null
+}
@@ -0,0 +1,486 @@
+import { randomUUID } from 'crypto'
+import { getDb } from '../db'
+import { onHealthSamples, type HealthSample } from './healthHistory'
+import { getGPUStatus, type GPUDevice, type GPUStatus } from './gpuStatus'
+import { getLatestGPUStatus } from './gpuHistory'
+import { getProcesses, type ProcessInfo } from './processInfo'
+import { getLiveValue } from './liveState'
+import {
+  compare,
+  loadRules,
+  parseDuration,
+  validateRules,
+  type AlertRule,
+  type AlertSeverity,
+  type GPUMetric,
+} from './alertRules'
+
+// Evaluates alert rules against health samples (pushed by the sampler) and
+// GPU/process metrics (polled here). Alerts move pending -> firing -> resolved;
+// one instance per rule + label set, so repeated evaluations never duplicate.
+
+const EVALUATION_INTERVAL_MS = parseInt(process.env.ALERT_EVALUATION_INTERVAL_MS || '15000', 10)
+
+export type AlertState = 'pending' | 'firing' | 'resolved'
+
+export interface Alert {
+  id: string
+  ruleId: string
+  ruleName: string
+  severity: AlertSeverity
+  state: AlertState
+  labels: Record<string, string>
+  summary: string
+  value: number | null
+  activeSince: string
+  firedAt: string | null
+  resolvedAt: string | null
+  silenced: boolean
+  silenceId: string | null
+}
+
+export interface AlertSilence {
+  id: string
+  ruleId: string | null
+  labels: Record<string, string>
+  comment: string
+  createdAt: string
+  endsAt: string
+}
+
+export interface AlertEvent {
+  id: string
+  ruleId: string
+  ruleName: string
+  severity: AlertSeverity
+  state: AlertState
+  labels: Record<string, string>
+  summary: string
+  value: number | null
+  timestamp: string
+}
+
+export interface AlertTransition {
+  alert: Alert
+  from: AlertState | null
+  to: AlertState
+}
+
+interface AlertInstance {
+  rule: AlertRule
+  labels: Record<string, string>
+  state: 'pending' | 'firing'
+  activeSince: number
+  firedAt: number | null
+  summary: string
+  value: number | null
+}
+
+let rules: AlertRule[] = []
+let rulesError: string | null = null
+const active = new Map<string, AlertInstance>()
+const unhealthyStreaks = new Map<string, number>()
+const transitionListeners = new Set<(transition: AlertTransition) => void>()
+
+let initialized = false
+
+function ensureSchema() {
+  if (initialized) return
+  getDb().exec(`
+    CREATE TABLE IF NOT EXISTS alert_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      ts INTEGER NOT NULL,
+      fingerprint TEXT NOT NULL,
+      rule_id TEXT NOT NULL,
+      rule_name TEXT NOT NULL,
+      severity TEXT NOT NULL,
+      state TEXT NOT NULL,
+      labels TEXT NOT NULL,
+      summary TEXT NOT NULL,
+      value REAL
+    );
+    CREATE INDEX IF NOT EXISTS idx_alert_events_ts ON alert_events (ts);
+
+    CREATE TABLE IF NOT EXISTS alert_silences (
+      id TEXT PRIMARY KEY,
+      rule_id TEXT,
+      labels TEXT NOT NULL,
+      comment TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      ends_at INTEGER NOT NULL
+    );
+  `)
+  initialized = true
+}
+
+function fingerprintOf(ruleId: string, labels: Record<string, string>): string {
+  const parts = Object.keys(labels).sort().map((key) => `${key}=${labels[key]}`)
+  return [ruleId, ...parts].join('|')
+}
+
+// ============================================================================
+// Silences
+// ============================================================================
+
+export function listSilences(includeExpired = false): AlertSilence[] {
+  ensureSchema()
+  const rows = getDb()
+    .prepare(
+      includeExpired
+        ? 'SELECT * FROM alert_silences ORDER BY created_at DESC'
+        : 'SELECT * FROM alert_silences WHERE ends_at > ? ORDER BY created_at DESC'
+    )
+    .all(...(includeExpired ? [] : [Date.now()])) as {
+      id: string
+      rule_id: string | null
+      labels: string
+      comment: string
+      created_at: number
+      ends_at: number
+    }[]
+
+  return rows.map((r) => ({
+    id: r.id,
+    ruleId: r.rule_id,
+    labels: JSON.parse(r.labels),
+    comment: r.comment,
+    createdAt: new Date(r.created_at).toISOString(),
+    endsAt: new Date(r.ends_at).toISOString(),
+  }))
+}
+
+export function createSilence(input: {
+  ruleId?: string | null
+  labels?: Record<string, string>
+  comment?: string
+  duration?: string
+}): AlertSilence {
+  ensureSchema()
+  if (!input.ruleId && (!input.labels || Object.keys(input.labels).length === 0)) {
+    throw new Error('A silence needs a ruleId or at least one label matcher')
+  }
+
+  const now = Date.now()
+  const silence: AlertSilence = {
+    id: randomUUID(),
+    ruleId: input.ruleId ?? null,
+    labels: input.labels ?? {},
+    comment: input.comment ?? '',
+    createdAt: new Date(now).toISOString(),
+    endsAt: new Date(now + parseDuration(input.duration || '1h')).toISOString(),
+  }
+
+  getDb()
+    .prepare('INSERT INTO alert_silences (id, rule_id, labels, comment, created_at, ends_at) VALUES (?, ?, ?, ?, ?, ?)')
+    .run(silence.id, silence.ruleId, JSON.stringify(silence.labels), silence.comment, now, Date.parse(silence.endsAt))
+
+  return silence
+}
+
+export function deleteSilence(id: string): boolean {
+  ensureSchema()
+  return getDb().prepare('DELETE FROM alert_silences WHERE id = ?').run(id).changes > 0
+}
+
+function findSilence(ruleId: string, labels: Record<string, string>, silences: AlertSilence[]): AlertSilence | null {
+  return (
+    silences.find(
+      (s) =>
+        (!s.ruleId || s.ruleId === ruleId) &&
+        Object.entries(s.labels).every(([key, value]) => labels[key] === value)
+    ) ?? null
+  )
+}
+
+// ============================================================================
+// State transitions
+// ============================================================================
+
+function toAlert(fingerprint: string, instance: AlertInstance, state: AlertState, silences: AlertSilence[], resolvedAt?: number): Alert {
+  const silence = findSilence(instance.rule.id, instance.labels, silences)
+  return {
+    id: fingerprint,
+    ruleId: instance.rule.id,
+    ruleName: instance.rule.name,
+    severity: instance.rule.severity,
+    state,
+    labels: instance.labels,
+    summary: instance.summary,
+    value: instance.value,
+    activeSince: new Date(instance.activeSince).toISOString(),
+    firedAt: instance.firedAt ? new Date(instance.firedAt).toISOString() : null,
+    resolvedAt: resolvedAt ? new Date(resolvedAt).toISOString() : null,
+    silenced: silence !== null,
+    silenceId: silence?.id ?? null,
+  }
+}
+
+function recordTransition(fingerprint: string, instance: AlertInstance, from: AlertState | null, to: AlertState, now: number) {
+  ensureSchema()
+  getDb()
+    .prepare(
+      `INSERT INTO alert_events (ts, fingerprint, rule_id, rule_name, severity, state, labels, summary, value)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      now,
+      fingerprint,
+      instance.rule.id,
+      instance.rule.name,
+      instance.rule.severity,
+      to,
+      JSON.stringify(instance.labels),
+      instance.summary,
+      instance.value
+    )
+
+  const alert = toAlert(fingerprint, instance, to, listSilences(), to === 'resolved' ? now : undefined)
+  for (const listener of transitionListeners) {
+    try {
+      listener({ alert, from, to })
+    } catch (err) {
+      console.error('Alert transition listener failed:', err)
+    }
+  }
+}
+
+// Returns an unsubscribe function
+export function onAlertTransition(listener: (transition: AlertTransition) => void): () => void {
+  transitionListeners.add(listener)
+  return () => {
+    transitionListeners.delete(listener)
+  }
+}
+
+// Condition holds: create/advance the instance. readyToFire decides pending vs firing.
+function markActive(rule: AlertRule, labels: Record<string, string>, summary: string, value: number | null, readyToFire: (instance: AlertInstance, now: number) => boolean) {
+  const now = Date.now()
+  const fingerprint = fingerprintOf(rule.id, labels)
+  let instance = active.get(fingerprint)
+
+  if (!instance) {
+    instance = { rule, labels, state: 'pending', activeSince: now, firedAt: null, summary, value }
+    active.set(fingerprint, instance)
+  } else {
+    instance.rule = rule
+    instance.summary = summary
+    instance.value = value
+  }
+
+  if (instance.state === 'pending' && readyToFire(instance, now)) {
+    instance.state = 'firing'
+    instance.firedAt = now
+    recordTransition(fingerprint, instance, 'pending', 'firing', now)
+  }
+}
+
+// Condition cleared: firing alerts resolve, pending ones are simply dropped
+function markInactive(fingerprint: string) {
+  const instance = active.get(fingerprint)
+  if (!instance) return
+  active.delete(fingerprint)
+  if (instance.state === 'firing') {
+    recordTransition(fingerprint, instance, 'firing', 'resolved', Date.now())
+  }
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+function evaluateHealthSamples(samples: HealthSample[]) {
+  for (const rule of rules) {
+    if (!rule.enabled || rule.condition.type !== 'service_unhealthy') continue
+    const condition = rule.condition
+
+    for (const sample of samples) {
+      if (condition.service !== '*' && condition.service.toLowerCase() !== sample.service.toLowerCase()) continue
+
+      const labels = { service: sample.service }
+      const fingerprint = fingerprintOf(rule.id, labels)
+
+      if (sample.status === 'unhealthy') {
+        const streak = (unhealthyStreaks.get(fingerprint) ?? 0) + 1
+        unhealthyStreaks.set(fingerprint, streak)
+        markActive(
+          rule,
+          labels,
+          `${sample.service} unhealthy for ${streak} consecutive check${streak === 1 ? '' : 's'}${sample.message ? `: ${sample.message}` : ''}`,
+          streak,
+          () => streak >= condition.consecutiveChecks
+        )
+      } else {
+        unhealthyStreaks.delete(fingerprint)
+        markInactive(fingerprint)
+      }
+    }
+  }
+}
+
+function gpuMetricValue(gpu: GPUDevice, metric: GPUMetric): number {
+  if (metric === 'vramPercent') {
+    return gpu.vramTotal > 0 ? Math.round((gpu.vramUsed / gpu.vramTotal) * 1000) / 10 : 0
+  }
+  return gpu[metric]
+}
+
+function evaluateMetricRule(rule: AlertRule, gpu: GPUStatus | null, processes: ProcessInfo[] | null) {
+  const forMs = parseDuration(rule.for)
+  const ready = (instance: AlertInstance, now: number) => now - instance.activeSince >= forMs
+  const seen = new Set<string>()
+  const condition = rule.condition
+
+  if (condition.type === 'gpu_metric') {
+    // No data (memOS and nvidia-smi both down) keeps the current state
+    if (!gpu) return
+    for (const device of gpu.gpus) {
+      const value = gpuMetricValue(device, condition.metric)
+      const labels = { gpu: String(device.index), name: device.name }
+      if (compare(value, condition.operator, condition.threshold)) {
+        seen.add(fingerprintOf(rule.id, labels))
+        markActive(rule, labels, `GPU ${device.index} ${condition.metric} ${value} ${condition.operator} ${condition.threshold}`, value, ready)
+      }
+    }
+  } else if (condition.type === 'process_metric') {
+    if (!processes) return
+    for (const proc of processes) {
+      if (condition.process !== '*' && condition.process.toLowerCase() !== proc.name.toLowerCase()) continue
+      const value = proc[condition.metric]
+      const labels = { process: proc.name }
+      if (compare(value, condition.operator, condition.threshold)) {
+        seen.add(fingerprintOf(rule.id, labels))
+        markActive(rule, labels, `${proc.name} ${condition.metric} ${value.toFixed(1)}% ${condition.operator} ${condition.threshold}%`, value, ready)
+      }
+    }
+  } else {
+    return
+  }
+
+  // Anything this rule had active that didn't match this round has cleared
+  for (const [fingerprint, instance] of active) {
+    if (instance.rule.id === rule.id && !seen.has(fingerprint)) {
+      markInactive(fingerprint)
+    }
+  }
+}
+
+// Reuse the GPU sampler's reading when it is fresh instead of polling twice
+async function latestGPUStatus(): Promise<GPUStatus | null> {
+  const latest = getLatestGPUStatus()
+  if (latest && Date.now() - latest.timestamp < EVALUATION_INTERVAL_MS) {
+    return latest.status
+  }
+  return getGPUStatus().catch(() => null)
+}
+
+async function latestProcesses(): Promise<ProcessInfo[] | null> {
+  return getLiveValue<ProcessInfo[]>('processes') ?? getProcesses().catch(() => null)
+}
+
+async function evaluateMetrics() {
+  const enabled = rules.filter((r) => r.enabled)
+  const needsGPU = enabled.some((r) => r.condition.type === 'gpu_metric')
+  const needsProcesses = enabled.some((r) => r.condition.type === 'process_metric')
+
+  const [gpu, processes] = await Promise.all([
+    needsGPU ? latestGPUStatus() : Promise.resolve(null),
+    needsProcesses ? latestProcesses() : Promise.resolve(null),
+  ])
+
+  for (const rule of enabled) {
+    evaluateMetricRule(rule, gpu, processes)
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+// Reads the rules file unless the caller already has it parsed
+export async function reloadAlertRules(config?: Record<string, unknown>): Promise<AlertRule[]> {
+  try {
+    rules = config ? validateRules(config) : await loadRules()
+    rulesError = null
+  } catch (err) {
+    // Keep the previous rules running if the file is broken
+    rulesError = (err as Error).message
+    throw err
+  }
+
+  // Drop alerts whose rule was removed or disabled
+  const enabledIds = new Set(rules.filter((r) => r.enabled).map((r) => r.id))
+  for (const [fingerprint, instance] of active) {
+    if (!enabledIds.has(instance.rule.id)) {
+      unhealthyStreaks.delete(fingerprint)
+      markInactive(fingerprint)
+    }
+  }
+
+  return rules
+}
+
+export function getRules(): { rules: AlertRule[]; error: string | null } {
+  return { rules, error: rulesError }
+}
+
+export function getActiveAlerts(): Alert[] {
+  const silences = listSilences()
+  return Array.from(active.entries())
+    .map(([fingerprint, instance]) => toAlert(fingerprint, instance, instance.state, silences))
+    .sort((a, b) => Date.parse(b.activeSince) - Date.parse(a.activeSince))
+}
+
+export function getAlertHistory(limit = 100): AlertEvent[] {
+  ensureSchema()
+  const rows = getDb()
+    .prepare('SELECT * FROM alert_events ORDER BY ts DESC, id DESC LIMIT ?')
+    .all(limit) as {
+      ts: number
+      fingerprint: string
+      rule_id: string
+      rule_name: string
+      severity: AlertSeverity
+      state: AlertState
+      labels: string
+      summary: string
+      value: number | null
+    }[]
+
+  return rows.map((r) => ({
+    id: r.fingerprint,
+    ruleId: r.rule_id,
+    ruleName: r.rule_name,
+    severity: r.severity,
+    state: r.state,
+    labels: JSON.parse(r.labels),
+    summary: r.summary,
+    value: r.value,
+    timestamp: new Date(r.ts).toISOString(),
+  }))
+}
+
+let evaluationTimer: NodeJS.Timeout | null = null
+let unsubscribeHealth: (() => void) | null = null
+
+export async function startAlertEngine() {
+  if (evaluationTimer) return
+  ensureSchema()
+
+  try {
+    await reloadAlertRules()
+  } catch (err) {
+    console.error('Failed to load alert rules:', (err as Error).message)
+  }
+
+  unsubscribeHealth = onHealthSamples(evaluateHealthSamples)
+  evaluationTimer = setInterval(() => {
+    evaluateMetrics().catch((err) => console.error('Alert evaluation failed:', err))
+  }, EVALUATION_INTERVAL_MS)
+}
+
+export function stopAlertEngine() {
+  unsubscribeHealth?.()
+  unsubscribeHealth = null
+  if (evaluationTimer) clearInterval(evaluationTimer)
+  evaluationTimer = null
+}
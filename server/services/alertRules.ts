@@ -0,0 +1,168 @@
+import { readFile } from 'fs/promises'
+import { join } from 'path'
+
+// Alert rule definitions, loaded from a JSON file so they can be edited
+// without touching code. See config/alert-rules.json for examples.
+
+export const ALERT_RULES_PATH =
+  process.env.ALERT_RULES_PATH || join(process.cwd(), 'config', 'alert-rules.json')
+
+export type AlertSeverity = 'info' | 'warning' | 'critical'
+export type ComparisonOperator = '>' | '>=' | '<' | '<='
+
+export type GPUMetric = 'temperature' | 'utilization' | 'vramPercent' | 'vramUsed' | 'powerDraw'
+export type ProcessMetric = 'cpu' | 'memory'
+
+export interface ServiceUnhealthyCondition {
+  type: 'service_unhealthy'
+  service: string // service name or '*' for every health-checked service
+  consecutiveChecks: number
+}
+
+export interface GPUMetricCondition {
+  type: 'gpu_metric'
+  metric: GPUMetric
+  operator: ComparisonOperator
+  threshold: number
+}
+
+export interface ProcessMetricCondition {
+  type: 'process_metric'
+  process: string // process name from /api/processes or '*'
+  metric: ProcessMetric
+  operator: ComparisonOperator
+  threshold: number
+}
+
+export type AlertCondition = ServiceUnhealthyCondition | GPUMetricCondition | ProcessMetricCondition
+
+export interface AlertRule {
+  id: string
+  name: string
+  description?: string
+  severity: AlertSeverity
+  enabled: boolean
+  condition: AlertCondition
+  for?: string // how long a metric condition must hold before firing, e.g. "2m"
+  notify?: string[] // notification channel ids; falls back to defaultChannels
+}
+
+const SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical']
+const OPERATORS: ComparisonOperator[] = ['>', '>=', '<', '<=']
+const GPU_METRICS: GPUMetric[] = ['temperature', 'utilization', 'vramPercent', 'vramUsed', 'powerDraw']
+const PROCESS_METRICS: ProcessMetric[] = ['cpu', 'memory']
+
+// "30s", "2m", "1h" -> milliseconds
+export function parseDuration(value: string | undefined): number {
+  if (!value) return 0
+  const match = /^(\d+)(s|m|h)$/.exec(value.trim())
+  if (!match) throw new Error(`Invalid duration "${value}" (expected e.g. 30s, 2m, 1h)`)
+  const amount = parseInt(match[1]!, 10)
+  const unit = match[2] === 's' ? 1000 : match[2] === 'm' ? 60 * 1000 : 60 * 60 * 1000
+  return amount * unit
+}
+
+export function compare(value: number, operator: ComparisonOperator, threshold: number): boolean {
+  switch (operator) {
+    case '>': return value > threshold
+    case '>=': return value >= threshold
+    case '<': return value < threshold
+    case '<=': return value <= threshold
+  }
+}
+
+function validateCondition(condition: any, where: string, errors: string[]) {
+  if (!condition || typeof condition !== 'object') {
+    errors.push(`${where}: condition is required`)
+    return
+  }
+
+  switch (condition.type) {
+    case 'service_unhealthy':
+      if (typeof condition.service !== 'string') errors.push(`${where}: condition.service must be a string`)
+      if (!Number.isInteger(condition.consecutiveChecks) || condition.consecutiveChecks < 1) {
+        errors.push(`${where}: condition.consecutiveChecks must be a positive integer`)
+      }
+      break
+    case 'gpu_metric':
+      if (!GPU_METRICS.includes(condition.metric)) errors.push(`${where}: unknown GPU metric "${condition.metric}"`)
+      if (!OPERATORS.includes(condition.operator)) errors.push(`${where}: unknown operator "${condition.operator}"`)
+      if (typeof condition.threshold !== 'number') errors.push(`${where}: condition.threshold must be a number`)
+      break
+    case 'process_metric':
+      if (typeof condition.process !== 'string') errors.push(`${where}: condition.process must be a string`)
+      if (!PROCESS_METRICS.includes(condition.metric)) errors.push(`${where}: unknown process metric "${condition.metric}"`)
+      if (!OPERATORS.includes(condition.operator)) errors.push(`${where}: unknown operator "${condition.operator}"`)
+      if (typeof condition.threshold !== 'number') errors.push(`${where}: condition.threshold must be a number`)
+      break
+    default:
+      errors.push(`${where}: unknown condition type "${condition.type}"`)
+  }
+}
+
+// Throws with every problem found rather than stopping at the first one
+export function validateRules(input: unknown): AlertRule[] {
+  const list = Array.isArray(input) ? input : (input as { rules?: unknown })?.rules
+  if (!Array.isArray(list)) {
+    throw new Error('Alert rules must be an array or an object with a "rules" array')
+  }
+
+  const errors: string[] = []
+  const seen = new Set<string>()
+
+  const rules = list.map((raw: any, index: number) => {
+    const where = `rules[${index}]${raw?.id ? ` (${raw.id})` : ''}`
+
+    if (typeof raw?.id !== 'string' || !raw.id) errors.push(`${where}: id is required`)
+    else if (seen.has(raw.id)) errors.push(`${where}: duplicate id`)
+    else seen.add(raw.id)
+
+    if (typeof raw?.name !== 'string' || !raw.name) errors.push(`${where}: name is required`)
+    if (raw?.severity !== undefined && !SEVERITIES.includes(raw.severity)) {
+      errors.push(`${where}: severity must be one of ${SEVERITIES.join(', ')}`)
+    }
+    validateCondition(raw?.condition, where, errors)
+    if (raw?.notify !== undefined && (!Array.isArray(raw.notify) || raw.notify.some((c: unknown) => typeof c !== 'string'))) {
+      errors.push(`${where}: notify must be an array of channel ids`)
+    }
+    try {
+      parseDuration(raw?.for)
+    } catch (err) {
+      errors.push(`${where}: ${(err as Error).message}`)
+    }
+
+    return {
+      id: raw?.id,
+      name: raw?.name,
+      description: raw?.description,
+      severity: raw?.severity ?? 'warning',
+      enabled: raw?.enabled !== false,
+      condition: raw?.condition,
+      for: raw?.for,
+      notify: raw?.notify,
+    } as AlertRule
+  })
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid alert rules:\n${errors.join('\n')}`)
+  }
+
+  return rules
+}
+
+// Raw parsed rules file; a missing file means "no rules"
+export async function readAlertConfig(path = ALERT_RULES_PATH): Promise<Record<string, unknown>> {
+  let content: string
+  try {
+    content = await readFile(path, 'utf-8')
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return { rules: [] }
+    throw err
+  }
+  const parsed = JSON.parse(content)
+  return Array.isArray(parsed) ? { rules: parsed } : parsed
+}
+
+export async function loadRules(path = ALERT_RULES_PATH): Promise<AlertRule[]> {
+  return validateRules(await readAlertConfig(path))
+}
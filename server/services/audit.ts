@@ -0,0 +1,239 @@
+import { getDb } from '../db'
+
+// Append-only record of every mutating dashboard call: who did it, what it
+// touched, how it ended, and what changed. Triggers reject UPDATE and
+// DELETE, so entries can only be added.
+
+const MAX_PAGE_SIZE = 500
+// Diffs of very large documents are cut off rather than bloating the log
+const MAX_DIFF_CHANGES = 200
+
+export interface AuditChange {
+  path: string
+  before?: unknown
+  after?: unknown
+}
+
+export interface AuditEntry {
+  id: number
+  timestamp: string
+  actor: string
+  actorRole: string | null
+  via: string | null
+  action: string
+  target: string | null
+  method: string
+  path: string
+  status: number
+  success: boolean
+  error: string | null
+  details: Record<string, unknown> | null
+  changes: AuditChange[] | null
+}
+
+export type AuditRecord = Omit<AuditEntry, 'id' | 'timestamp' | 'success'>
+
+export interface AuditQuery {
+  actor?: string
+  action?: string
+  target?: string
+  success?: boolean
+  from?: number
+  to?: number
+  limit?: number
+  offset?: number
+}
+
+export interface AuditQueryResult {
+  entries: AuditEntry[]
+  total: number
+  limit: number
+  offset: number
+  actions: string[]
+  actors: string[]
+}
+
+let initialized = false
+
+function ensureSchema() {
+  if (initialized) return
+  getDb().exec(`
+    CREATE TABLE IF NOT EXISTS audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      ts INTEGER NOT NULL,
+      actor TEXT NOT NULL,
+      actor_role TEXT,
+      via TEXT,
+      action TEXT NOT NULL,
+      target TEXT,
+      method TEXT NOT NULL,
+      path TEXT NOT NULL,
+      status INTEGER NOT NULL,
+      error TEXT,
+      details TEXT,
+      changes TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_audit_log_ts ON audit_log (ts);
+    CREATE INDEX IF NOT EXISTS idx_audit_log_action_ts ON audit_log (action, ts);
+
+    CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log BEGIN
+      SELECT RAISE(ABORT, 'audit_log is append-only');
+    END;
+    CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log BEGIN
+      SELECT RAISE(ABORT, 'audit_log is append-only');
+    END;
+  `)
+  initialized = true
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Leaf-level differences between two JSON documents; arrays compare as a whole
+export function diffValues(before: unknown, after: unknown, path = ''): AuditChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+    return [...keys].sort().flatMap((key) => {
+      const childPath = path ? `${path}.${key}` : key
+      if (!(key in before)) return [{ path: childPath, after: after[key] }]
+      if (!(key in after)) return [{ path: childPath, before: before[key] }]
+      return diffValues(before[key], after[key], childPath)
+    })
+  }
+  if (JSON.stringify(before) === JSON.stringify(after)) return []
+  return [{ path: path || '(root)', before, after }]
+}
+
+export function recordAudit(record: AuditRecord) {
+  ensureSchema()
+  const changes = record.changes ? record.changes.slice(0, MAX_DIFF_CHANGES) : null
+  if (record.changes && record.changes.length > MAX_DIFF_CHANGES) {
+    changes!.push({ path: `(${record.changes.length - MAX_DIFF_CHANGES} more changes omitted)` })
+  }
+  getDb()
+    .prepare(
+      `INSERT INTO audit_log (ts, actor, actor_role, via, action, target, method, path, status, error, details, changes)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      Date.now(),
+      record.actor,
+      record.actorRole,
+      record.via,
+      record.action,
+      record.target,
+      record.method,
+      record.path,
+      record.status,
+      record.error,
+      record.details ? JSON.stringify(record.details) : null,
+      changes ? JSON.stringify(changes) : null
+    )
+}
+
+interface AuditRow {
+  id: number
+  ts: number
+  actor: string
+  actor_role: string | null
+  via: string | null
+  action: string
+  target: string | null
+  method: string
+  path: string
+  status: number
+  error: string | null
+  details: string | null
+  changes: string | null
+}
+
+function toEntry(row: AuditRow): AuditEntry {
+  return {
+    id: row.id,
+    timestamp: new Date(row.ts).toISOString(),
+    actor: row.actor,
+    actorRole: row.actor_role,
+    via: row.via,
+    action: row.action,
+    target: row.target,
+    method: row.method,
+    path: row.path,
+    status: row.status,
+    success: row.status < 400,
+    error: row.error,
+    details: row.details ? JSON.parse(row.details) : null,
+    changes: row.changes ? JSON.parse(row.changes) : null,
+  }
+}
+
+function buildWhere(query: AuditQuery) {
+  const clauses: string[] = []
+  const values: (string | number)[] = []
+
+  if (query.actor) {
+    clauses.push('actor = ? COLLATE NOCASE')
+    values.push(query.actor)
+  }
+  // "llm-config" matches every llm-config.* action
+  if (query.action) {
+    clauses.push('(action = ? OR action LIKE ?)')
+    values.push(query.action, `${query.action.replace(/[%_]/g, '')}.%`)
+  }
+  if (query.target) {
+    clauses.push('target = ?')
+    values.push(query.target)
+  }
+  if (query.success !== undefined) {
+    clauses.push(query.success ? 'status < 400' : 'status >= 400')
+  }
+  if (query.from !== undefined) {
+    clauses.push('ts >= ?')
+    values.push(query.from)
+  }
+  if (query.to !== undefined) {
+    clauses.push('ts <= ?')
+    values.push(query.to)
+  }
+
+  return {
+    sql: clauses.length ? `WHERE ${clauses.join(' AND ')}` : '',
+    values,
+  }
+}
+
+export function queryAudit(query: AuditQuery): AuditQueryResult {
+  ensureSchema()
+  const db = getDb()
+  const limit = Math.min(Math.max(query.limit ?? 100, 1), MAX_PAGE_SIZE)
+  const offset = Math.max(query.offset ?? 0, 0)
+  const where = buildWhere(query)
+
+  const rows = db
+    .prepare(`SELECT * FROM audit_log ${where.sql} ORDER BY ts DESC, id DESC LIMIT ? OFFSET ?`)
+    .all(...where.values, limit, offset) as AuditRow[]
+
+  const { total } = db
+    .prepare(`SELECT COUNT(*) AS total FROM audit_log ${where.sql}`)
+    .get(...where.values) as { total: number }
+
+  const distinct = (column: 'action' | 'actor') =>
+    (db.prepare(`SELECT DISTINCT ${column} AS value FROM audit_log ORDER BY ${column}`).all() as { value: string }[]).map(
+      (r) => r.value
+    )
+
+  return {
+    entries: rows.map(toEntry),
+    total,
+    limit,
+    offset,
+    actions: distinct('action'),
+    actors: distinct('actor'),
+  }
+}
+
+export function getAuditEntry(id: number): AuditEntry | null {
+  ensureSchema()
+  const row = getDb().prepare('SELECT * FROM audit_log WHERE id = ?').get(id) as AuditRow | undefined
+  return row ? toEntry(row) : null
+}
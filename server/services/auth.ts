@@ -0,0 +1,325 @@
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from 'crypto'
+import { getDb } from '../db'
+
+// Local users with scrypt-hashed passwords, cookie sessions and API tokens
+// (for scripts and Prometheus). Session and API tokens are stored hashed, so
+// a copy of the database doesn't hand out live credentials.
+
+export const ROLES = ['viewer', 'operator', 'admin'] as const
+export type Role = (typeof ROLES)[number]
+
+export const SESSION_COOKIE = 'dashboard_session'
+export const SESSION_TTL_MS = parseInt(process.env.AUTH_SESSION_TTL_HOURS || '168', 10) * 60 * 60 * 1000
+const API_TOKEN_PREFIX = 'dbt_'
+
+// Login attempts per username before further tries are refused for a while
+const MAX_FAILED_LOGINS = 10
+const FAILED_LOGIN_WINDOW_MS = 15 * 60 * 1000
+
+export class AuthError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'AuthError'
+  }
+}
+
+export interface AuthUser {
+  id: number
+  username: string
+  role: Role
+  createdAt: string
+  via: 'session' | 'token' | 'disabled'
+}
+
+export interface ApiTokenInfo {
+  id: number
+  userId: number
+  username: string
+  name: string
+  createdAt: string
+  lastUsedAt: string | null
+}
+
+export function isAuthDisabled(): boolean {
+  return process.env.AUTH_DISABLED === 'true'
+}
+
+export function hasRole(user: Pick<AuthUser, 'role'>, required: Role): boolean {
+  return ROLES.indexOf(user.role) >= ROLES.indexOf(required)
+}
+
+let initialized = false
+
+function ensureSchema() {
+  if (initialized) return
+  getDb().exec(`
+    CREATE TABLE IF NOT EXISTS users (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      password_hash TEXT NOT NULL,
+      role TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS sessions (
+      token_hash TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+      created_at INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_sessions_expires ON sessions (expires_at);
+    CREATE TABLE IF NOT EXISTS api_tokens (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      created_at INTEGER NOT NULL,
+      last_used_at INTEGER
+    );
+  `)
+  getDb().pragma('foreign_keys = ON')
+  initialized = true
+}
+
+// Passwords ------------------------------------------------------------------
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16)
+  const hash = scryptSync(password, salt, 64)
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = stored.split('$')
+  if (scheme !== 'scrypt' || !salt || !hash) return false
+  const expected = Buffer.from(hash, 'base64')
+  const actual = scryptSync(password, Buffer.from(salt, 'base64'), expected.length)
+  return timingSafeEqual(actual, expected)
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+// Users ----------------------------------------------------------------------
+
+interface UserRow {
+  id: number
+  username: string
+  password_hash: string
+  role: Role
+  created_at: number
+}
+
+function toUser(row: UserRow, via: AuthUser['via']): AuthUser {
+  return {
+    id: row.id,
+    username: row.username,
+    role: row.role,
+    createdAt: new Date(row.created_at).toISOString(),
+    via,
+  }
+}
+
+function validateUserInput(input: { username?: unknown; password?: unknown; role?: unknown }, creating: boolean) {
+  const errors: string[] = []
+  if (creating || input.username !== undefined) {
+    if (typeof input.username !== 'string' || !/^[A-Za-z0-9_.-]{2,64}$/.test(input.username)) {
+      errors.push('username must be 2-64 letters, digits, ".", "_" or "-"')
+    }
+  }
+  if (creating || input.password !== undefined) {
+    if (typeof input.password !== 'string' || input.password.length < 8) {
+      errors.push('password must be at least 8 characters')
+    }
+  }
+  if (creating || input.role !== undefined) {
+    if (!ROLES.includes(input.role as Role)) errors.push(`role must be one of ${ROLES.join(', ')}`)
+  }
+  if (errors.length > 0) throw new AuthError(`Invalid user:\n${errors.join('\n')}`, 400)
+}
+
+export function listUsers(): Omit<AuthUser, 'via'>[] {
+  ensureSchema()
+  const rows = getDb().prepare('SELECT * FROM users ORDER BY username').all() as UserRow[]
+  return rows.map((row) => {
+    const { via: _via, ...user } = toUser(row, 'session')
+    return user
+  })
+}
+
+export function countUsers(): number {
+  ensureSchema()
+  return (getDb().prepare('SELECT COUNT(*) AS count FROM users').get() as { count: number }).count
+}
+
+export function createUser(input: { username: unknown; password: unknown; role: unknown }): Omit<AuthUser, 'via'> {
+  ensureSchema()
+  validateUserInput(input, true)
+  const username = input.username as string
+  if (getDb().prepare('SELECT 1 FROM users WHERE username = ?').get(username)) {
+    throw new AuthError(`User "${username}" already exists`, 409)
+  }
+  const now = Date.now()
+  const { lastInsertRowid } = getDb()
+    .prepare('INSERT INTO users (username, password_hash, role, created_at) VALUES (?, ?, ?, ?)')
+    .run(username, hashPassword(input.password as string), input.role, now)
+  return { id: Number(lastInsertRowid), username, role: input.role as Role, createdAt: new Date(now).toISOString() }
+}
+
+function adminCount(): number {
+  return (getDb().prepare("SELECT COUNT(*) AS count FROM users WHERE role = 'admin'").get() as { count: number }).count
+}
+
+export function updateUser(id: number, input: { password?: unknown; role?: unknown }): Omit<AuthUser, 'via'> {
+  ensureSchema()
+  validateUserInput(input, false)
+  const row = getDb().prepare('SELECT * FROM users WHERE id = ?').get(id) as UserRow | undefined
+  if (!row) throw new AuthError('User not found', 404)
+  if (input.role !== undefined && input.role !== 'admin' && row.role === 'admin' && adminCount() === 1) {
+    throw new AuthError('Cannot demote the last admin', 409)
+  }
+
+  if (input.role !== undefined) getDb().prepare('UPDATE users SET role = ? WHERE id = ?').run(input.role, id)
+  if (input.password !== undefined) {
+    getDb().prepare('UPDATE users SET password_hash = ? WHERE id = ?').run(hashPassword(input.password as string), id)
+    // A new password signs the user out everywhere else
+    getDb().prepare('DELETE FROM sessions WHERE user_id = ?').run(id)
+  }
+  const { via: _via, ...user } = toUser(getDb().prepare('SELECT * FROM users WHERE id = ?').get(id) as UserRow, 'session')
+  return user
+}
+
+export function deleteUser(id: number) {
+  ensureSchema()
+  const row = getDb().prepare('SELECT * FROM users WHERE id = ?').get(id) as UserRow | undefined
+  if (!row) throw new AuthError('User not found', 404)
+  if (row.role === 'admin' && adminCount() === 1) throw new AuthError('Cannot delete the last admin', 409)
+  getDb().prepare('DELETE FROM users WHERE id = ?').run(id)
+}
+
+// Creates the first admin when the store is empty. The password comes from
+// DASHBOARD_ADMIN_PASSWORD, or is generated and printed once.
+export function bootstrapAdmin(): { username: string; generatedPassword: string | null } | null {
+  if (countUsers() > 0) return null
+  const username = process.env.DASHBOARD_ADMIN_USER || 'admin'
+  const generated = process.env.DASHBOARD_ADMIN_PASSWORD ? null : randomBytes(12).toString('base64url')
+  createUser({ username, password: process.env.DASHBOARD_ADMIN_PASSWORD ?? generated, role: 'admin' })
+  return { username, generatedPassword: generated }
+}
+
+// Sessions -------------------------------------------------------------------
+
+const failedLogins = new Map<string, { count: number; since: number }>()
+
+export function login(username: unknown, password: unknown): { token: string; user: AuthUser; expiresAt: number } {
+  ensureSchema()
+  if (typeof username !== 'string' || typeof password !== 'string') {
+    throw new AuthError('username and password are required', 400)
+  }
+
+  const key = username.toLowerCase()
+  const failures = failedLogins.get(key)
+  if (failures && Date.now() - failures.since < FAILED_LOGIN_WINDOW_MS && failures.count >= MAX_FAILED_LOGINS) {
+    throw new AuthError('Too many failed logins, try again later', 429)
+  }
+
+  const row = getDb().prepare('SELECT * FROM users WHERE username = ?').get(username) as UserRow | undefined
+  if (!row || !verifyPassword(password, row.password_hash)) {
+    const fresh = !failures || Date.now() - failures.since >= FAILED_LOGIN_WINDOW_MS
+    failedLogins.set(key, fresh ? { count: 1, since: Date.now() } : { ...failures, count: failures.count + 1 })
+    throw new AuthError('Invalid username or password', 401)
+  }
+  failedLogins.delete(key)
+
+  const token = randomBytes(32).toString('base64url')
+  const now = Date.now()
+  const expiresAt = now + SESSION_TTL_MS
+  getDb().prepare('DELETE FROM sessions WHERE expires_at < ?').run(now)
+  getDb()
+    .prepare('INSERT INTO sessions (token_hash, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)')
+    .run(hashToken(token), row.id, now, expiresAt)
+  return { token, user: toUser(row, 'session'), expiresAt }
+}
+
+export function logout(token: string) {
+  ensureSchema()
+  getDb().prepare('DELETE FROM sessions WHERE token_hash = ?').run(hashToken(token))
+}
+
+export function getSessionUser(token: string): AuthUser | null {
+  ensureSchema()
+  const row = getDb()
+    .prepare(
+      `SELECT users.* FROM sessions JOIN users ON users.id = sessions.user_id
+       WHERE sessions.token_hash = ? AND sessions.expires_at > ?`
+    )
+    .get(hashToken(token), Date.now()) as UserRow | undefined
+  return row ? toUser(row, 'session') : null
+}
+
+// API tokens -----------------------------------------------------------------
+
+interface TokenRow {
+  id: number
+  user_id: number
+  username: string
+  name: string
+  created_at: number
+  last_used_at: number | null
+}
+
+function toTokenInfo(row: TokenRow): ApiTokenInfo {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    username: row.username,
+    name: row.name,
+    createdAt: new Date(row.created_at).toISOString(),
+    lastUsedAt: row.last_used_at ? new Date(row.last_used_at).toISOString() : null,
+  }
+}
+
+// The plain token is only ever returned here
+export function createApiToken(userId: number, name: unknown): { token: string; info: ApiTokenInfo } {
+  ensureSchema()
+  if (typeof name !== 'string' || !name.trim()) throw new AuthError('Token name is required', 400)
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`
+  const { lastInsertRowid } = getDb()
+    .prepare('INSERT INTO api_tokens (user_id, name, token_hash, created_at) VALUES (?, ?, ?, ?)')
+    .run(userId, name.trim(), hashToken(token), Date.now())
+  return { token, info: listApiTokens().find((t) => t.id === Number(lastInsertRowid))! }
+}
+
+export function listApiTokens(userId?: number): ApiTokenInfo[] {
+  ensureSchema()
+  const rows = getDb()
+    .prepare(
+      `SELECT api_tokens.id, api_tokens.user_id, users.username, api_tokens.name, api_tokens.created_at, api_tokens.last_used_at
+       FROM api_tokens JOIN users ON users.id = api_tokens.user_id
+       ${userId !== undefined ? 'WHERE api_tokens.user_id = ?' : ''}
+       ORDER BY api_tokens.created_at DESC`
+    )
+    .all(...(userId !== undefined ? [userId] : [])) as TokenRow[]
+  return rows.map(toTokenInfo)
+}
+
+// Owners can revoke their own tokens; admins can revoke anyone's
+export function revokeApiToken(id: number, requester: AuthUser) {
+  ensureSchema()
+  const row = getDb().prepare('SELECT user_id FROM api_tokens WHERE id = ?').get(id) as { user_id: number } | undefined
+  if (!row) throw new AuthError('Token not found', 404)
+  if (row.user_id !== requester.id && !hasRole(requester, 'admin')) throw new AuthError('Token not found', 404)
+  getDb().prepare('DELETE FROM api_tokens WHERE id = ?').run(id)
+}
+
+export function getApiTokenUser(token: string): AuthUser | null {
+  ensureSchema()
+  if (!token.startsWith(API_TOKEN_PREFIX)) return null
+  const hash = hashToken(token)
+  const row = getDb()
+    .prepare('SELECT users.* FROM api_tokens JOIN users ON users.id = api_tokens.user_id WHERE api_tokens.token_hash = ?')
+    .get(hash) as UserRow | undefined
+  if (!row) return null
+  getDb().prepare('UPDATE api_tokens SET last_used_at = ? WHERE token_hash = ?').run(Date.now(), hash)
+  return toUser(row, 'token')
+}
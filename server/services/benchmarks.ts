@@ -0,0 +1,543 @@
+import { randomUUID } from 'crypto'
+import { getDb } from '../db'
+import { fetchRawLLMConfig } from './llmConfig'
+import { hashContent, listConfigVersions } from './llmConfigHistory'
+import { runMemosSearch, type SearchOutcome } from './memosSearch'
+
+// Regression runs of the memOS pipeline. A suite is a stored list of
+// queries, each optionally with keywords the answer should contain and
+// sources it should cite. A run sends every query through one preset,
+// a few at a time, and scores the answers; runs are kept so results can
+// be charted against the LLM config that was live at the time.
+
+const NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 _.-]{0,63}$/
+const MAX_QUERIES = 200
+export const MAX_CONCURRENCY = 8
+
+export interface BenchmarkQuery {
+  query: string
+  expectedKeywords: string[]
+  expectedSources: string[]
+}
+
+export interface BenchmarkSuite {
+  id: string
+  name: string
+  description: string | null
+  queries: BenchmarkQuery[]
+  createdBy: string
+  createdAt: string
+  updatedAt: string
+}
+
+export type BenchmarkQueryStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled'
+
+export interface BenchmarkQueryResult {
+  query: string
+  status: BenchmarkQueryStatus
+  requestId: string | null
+  durationMs: number | null
+  llmCalls: number | null
+  tokens: { input: number; output: number } | null
+  confidence: number | null
+  // Share of expected keywords / sources found; null when none are expected
+  keywordRecall: number | null
+  sourceRecall: number | null
+  missingKeywords: string[]
+  missingSources: string[]
+  answer: string | null
+  error?: string
+}
+
+export interface BenchmarkSummary {
+  total: number
+  completed: number
+  failed: number
+  failureRate: number
+  // Over completed queries only
+  latencyMs: { mean: number; p50: number; p95: number } | null
+  meanConfidence: number | null
+  keywordRecall: number | null
+  sourceRecall: number | null
+  tokens: { input: number; output: number }
+}
+
+export type BenchmarkRunStatus = 'running' | 'completed' | 'cancelled' | 'failed'
+
+export interface BenchmarkRunInfo {
+  id: string
+  suiteId: string
+  suiteName: string
+  preset: string
+  concurrency: number
+  status: BenchmarkRunStatus
+  // Hash of the LLM config YAML when the run started, and the saved
+  // version with that content if there is one
+  configHash: string | null
+  configVersionId: number | null
+  startedBy: string
+  startedAt: string
+  finishedAt: string | null
+  summary: BenchmarkSummary
+  error?: string
+}
+
+export interface BenchmarkRun extends BenchmarkRunInfo {
+  results: BenchmarkQueryResult[]
+}
+
+export class BenchmarkError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'BenchmarkError'
+  }
+}
+
+let initialized = false
+
+function ensureSchema() {
+  if (initialized) return
+  getDb().exec(`
+    CREATE TABLE IF NOT EXISTS benchmark_suites (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL UNIQUE,
+      description TEXT,
+      queries TEXT NOT NULL,
+      created_by TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS benchmark_runs (
+      id TEXT PRIMARY KEY,
+      suite_id TEXT NOT NULL,
+      suite_name TEXT NOT NULL,
+      preset TEXT NOT NULL,
+      concurrency INTEGER NOT NULL,
+      status TEXT NOT NULL,
+      config_hash TEXT,
+      config_version_id INTEGER,
+      started_by TEXT NOT NULL,
+      started_at INTEGER NOT NULL,
+      finished_at INTEGER,
+      summary TEXT NOT NULL,
+      results TEXT NOT NULL,
+      error TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_benchmark_runs_suite ON benchmark_runs(suite_id, started_at);
+  `)
+  initialized = true
+  closeInterrupted()
+}
+
+// ============================================================================
+// Suites
+// ============================================================================
+
+interface SuiteRow {
+  id: string
+  name: string
+  description: string | null
+  queries: string
+  created_by: string
+  created_at: number
+  updated_at: number
+}
+
+function toSuite(row: SuiteRow): BenchmarkSuite {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    queries: JSON.parse(row.queries),
+    createdBy: row.created_by,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+  }
+}
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((v) => typeof v === 'string')
+
+const cleanList = (value: unknown): string[] => (isStringList(value) ? value.map((v) => v.trim()).filter(Boolean) : [])
+
+// Queries may be given as plain strings when nothing is expected of them
+function validateSuiteInput(input: unknown): { name: string; description: string | null; queries: BenchmarkQuery[] } {
+  const errors: string[] = []
+  const value = (input ?? {}) as { name?: unknown; description?: unknown; queries?: unknown }
+
+  if (typeof value.name !== 'string' || !NAME_PATTERN.test(value.name.trim())) {
+    errors.push('name: letters, digits, spaces, ".", "_" and "-" only (max 64 characters)')
+  }
+  if (value.description != null && typeof value.description !== 'string') {
+    errors.push('description: must be a string')
+  }
+
+  const queries: BenchmarkQuery[] = []
+  if (!Array.isArray(value.queries) || value.queries.length === 0) {
+    errors.push('queries: at least one query is required')
+  } else if (value.queries.length > MAX_QUERIES) {
+    errors.push(`queries: at most ${MAX_QUERIES} queries per suite`)
+  } else {
+    value.queries.forEach((entry: any, i: number) => {
+      const item = typeof entry === 'string' ? { query: entry } : entry ?? {}
+      if (typeof item.query !== 'string' || !item.query.trim()) {
+        errors.push(`queries[${i}].query: must be a non-empty string`)
+        return
+      }
+      for (const key of ['expectedKeywords', 'expectedSources']) {
+        if (item[key] !== undefined && !isStringList(item[key])) errors.push(`queries[${i}].${key}: must be a list of strings`)
+      }
+      queries.push({
+        query: item.query.trim(),
+        expectedKeywords: cleanList(item.expectedKeywords),
+        expectedSources: cleanList(item.expectedSources),
+      })
+    })
+  }
+
+  if (errors.length > 0) {
+    throw new BenchmarkError(`Invalid benchmark suite:\n${errors.join('\n')}`, 400)
+  }
+  return {
+    name: (value.name as string).trim(),
+    description: (value.description as string | undefined)?.trim() || null,
+    queries,
+  }
+}
+
+export function listBenchmarkSuites(): BenchmarkSuite[] {
+  ensureSchema()
+  const rows = getDb().prepare('SELECT * FROM benchmark_suites ORDER BY name').all() as SuiteRow[]
+  return rows.map(toSuite)
+}
+
+export function getBenchmarkSuite(id: string): BenchmarkSuite | null {
+  ensureSchema()
+  const row = getDb().prepare('SELECT * FROM benchmark_suites WHERE id = ?').get(id) as SuiteRow | undefined
+  return row ? toSuite(row) : null
+}
+
+function nameTaken(name: string, exceptId?: string): boolean {
+  const row = getDb().prepare('SELECT id FROM benchmark_suites WHERE name = ?').get(name) as { id: string } | undefined
+  return Boolean(row && row.id !== exceptId)
+}
+
+export function createBenchmarkSuite(input: unknown, author: string): BenchmarkSuite {
+  const suite = validateSuiteInput(input)
+  ensureSchema()
+  if (nameTaken(suite.name)) throw new BenchmarkError(`Suite "${suite.name}" already exists`, 409)
+
+  const id = randomUUID()
+  const now = Date.now()
+  getDb()
+    .prepare(
+      `INSERT INTO benchmark_suites (id, name, description, queries, created_by, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(id, suite.name, suite.description, JSON.stringify(suite.queries), author, now, now)
+  return getBenchmarkSuite(id)!
+}
+
+export function updateBenchmarkSuite(id: string, input: unknown): BenchmarkSuite {
+  if (!getBenchmarkSuite(id)) throw new BenchmarkError(`Suite ${id} not found`, 404)
+  const suite = validateSuiteInput(input)
+  if (nameTaken(suite.name, id)) throw new BenchmarkError(`Suite "${suite.name}" already exists`, 409)
+
+  getDb()
+    .prepare('UPDATE benchmark_suites SET name = ?, description = ?, queries = ?, updated_at = ? WHERE id = ?')
+    .run(suite.name, suite.description, JSON.stringify(suite.queries), Date.now(), id)
+  return getBenchmarkSuite(id)!
+}
+
+// Past runs stay; they carry the suite name they ran under
+export function deleteBenchmarkSuite(id: string) {
+  ensureSchema()
+  if (active?.run.suiteId === id) throw new BenchmarkError('The suite has a benchmark running', 409)
+  const { changes } = getDb().prepare('DELETE FROM benchmark_suites WHERE id = ?').run(id)
+  if (changes === 0) throw new BenchmarkError(`Suite ${id} not found`, 404)
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+function recall(expected: string[], found: (item: string) => boolean): { recall: number | null; missing: string[] } {
+  if (expected.length === 0) return { recall: null, missing: [] }
+  const missing = expected.filter((item) => !found(item))
+  return { recall: (expected.length - missing.length) / expected.length, missing }
+}
+
+// Keywords are matched case-insensitively in the answer; an expected source
+// counts when any cited source (or the answer itself) mentions it, so a
+// domain is enough
+function scoreResult(result: BenchmarkQueryResult, expected: BenchmarkQuery, outcome: SearchOutcome) {
+  const answer = (outcome.answer ?? '').toLowerCase()
+  const sources = outcome.sources.map((s) => s.toLowerCase())
+
+  const keywords = recall(expected.expectedKeywords, (k) => answer.includes(k.toLowerCase()))
+  const cited = recall(expected.expectedSources, (s) => {
+    const needle = s.toLowerCase()
+    return sources.some((source) => source.includes(needle)) || answer.includes(needle)
+  })
+
+  result.keywordRecall = keywords.recall
+  result.missingKeywords = keywords.missing
+  result.sourceRecall = cited.recall
+  result.missingSources = cited.missing
+}
+
+function percentile(sorted: number[], p: number): number {
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)
+  return sorted[Math.max(0, index)]!
+}
+
+const mean = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null
+
+function summarize(results: BenchmarkQueryResult[]): BenchmarkSummary {
+  const completed = results.filter((r) => r.status === 'completed')
+  const failed = results.filter((r) => r.status === 'failed')
+  const latencies = completed.map((r) => r.durationMs).filter((d): d is number => d !== null).sort((a, b) => a - b)
+  const finished = completed.length + failed.length
+
+  return {
+    total: results.length,
+    completed: completed.length,
+    failed: failed.length,
+    failureRate: finished > 0 ? failed.length / finished : 0,
+    latencyMs: latencies.length > 0
+      ? { mean: mean(latencies)!, p50: percentile(latencies, 50), p95: percentile(latencies, 95) }
+      : null,
+    meanConfidence: mean(completed.map((r) => r.confidence).filter((c): c is number => c !== null)),
+    keywordRecall: mean(completed.map((r) => r.keywordRecall).filter((k): k is number => k !== null)),
+    sourceRecall: mean(completed.map((r) => r.sourceRecall).filter((s): s is number => s !== null)),
+    tokens: {
+      input: completed.reduce((sum, r) => sum + (r.tokens?.input ?? 0), 0),
+      output: completed.reduce((sum, r) => sum + (r.tokens?.output ?? 0), 0),
+    },
+  }
+}
+
+// ============================================================================
+// Runs
+// ============================================================================
+
+interface RunRow {
+  id: string
+  suite_id: string
+  suite_name: string
+  preset: string
+  concurrency: number
+  status: BenchmarkRunStatus
+  config_hash: string | null
+  config_version_id: number | null
+  started_by: string
+  started_at: number
+  finished_at: number | null
+  summary: string
+  results: string
+  error: string | null
+}
+
+function toRunInfo(row: RunRow): BenchmarkRunInfo {
+  return {
+    id: row.id,
+    suiteId: row.suite_id,
+    suiteName: row.suite_name,
+    preset: row.preset,
+    concurrency: row.concurrency,
+    status: row.status,
+    configHash: row.config_hash,
+    configVersionId: row.config_version_id,
+    startedBy: row.started_by,
+    startedAt: new Date(row.started_at).toISOString(),
+    finishedAt: row.finished_at ? new Date(row.finished_at).toISOString() : null,
+    summary: JSON.parse(row.summary),
+    ...(row.error ? { error: row.error } : {}),
+  }
+}
+
+function persistRun(run: BenchmarkRun) {
+  getDb()
+    .prepare(
+      `INSERT INTO benchmark_runs (id, suite_id, suite_name, preset, concurrency, status, config_hash, config_version_id,
+         started_by, started_at, finished_at, summary, results, error)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET status = excluded.status, finished_at = excluded.finished_at,
+         summary = excluded.summary, results = excluded.results, error = excluded.error`
+    )
+    .run(
+      run.id,
+      run.suiteId,
+      run.suiteName,
+      run.preset,
+      run.concurrency,
+      run.status,
+      run.configHash,
+      run.configVersionId,
+      run.startedBy,
+      Date.parse(run.startedAt),
+      run.finishedAt ? Date.parse(run.finishedAt) : null,
+      JSON.stringify(run.summary),
+      JSON.stringify(run.results),
+      run.error ?? null
+    )
+}
+
+// Only one benchmark runs at a time; parallel suites would skew each other's latency
+let active: { run: BenchmarkRun; controller: AbortController } | null = null
+
+// Runs only live in memory while they execute
+function closeInterrupted() {
+  const rows = getDb().prepare("SELECT * FROM benchmark_runs WHERE status = 'running'").all() as RunRow[]
+  for (const row of rows) {
+    const run: BenchmarkRun = { ...toRunInfo(row), results: JSON.parse(row.results) }
+    for (const result of run.results.filter((r) => r.status === 'pending' || r.status === 'running')) {
+      result.status = 'cancelled'
+    }
+    run.status = 'failed'
+    run.error = 'Dashboard restarted before the benchmark finished'
+    run.finishedAt = new Date().toISOString()
+    run.summary = summarize(run.results)
+    persistRun(run)
+  }
+}
+
+async function currentConfig(): Promise<{ hash: string | null; versionId: number | null }> {
+  try {
+    const hash = hashContent(await fetchRawLLMConfig())
+    return { hash, versionId: listConfigVersions().find((v) => v.hash === hash)?.id ?? null }
+  } catch {
+    return { hash: null, versionId: null }
+  }
+}
+
+export async function startBenchmark(
+  input: { suiteId?: unknown; preset?: unknown; concurrency?: unknown },
+  startedBy: string
+): Promise<BenchmarkRun> {
+  if (typeof input.suiteId !== 'string') throw new BenchmarkError('suiteId is required', 400)
+  if (typeof input.preset !== 'string' || !input.preset.trim()) throw new BenchmarkError('preset is required', 400)
+  const concurrency = input.concurrency === undefined ? 2 : Number(input.concurrency)
+  if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY) {
+    throw new BenchmarkError(`concurrency: must be between 1 and ${MAX_CONCURRENCY}`, 400)
+  }
+  const suite = getBenchmarkSuite(input.suiteId)
+  if (!suite) throw new BenchmarkError(`Suite ${input.suiteId} not found`, 404)
+
+  const config = await currentConfig()
+  // Checked after the await so two starts can't both get through
+  if (active) throw new BenchmarkError(`Benchmark ${active.run.id} (${active.run.suiteName}) is still running`, 409)
+
+  const results: BenchmarkQueryResult[] = suite.queries.map((q) => ({
+    query: q.query,
+    status: 'pending',
+    requestId: null,
+    durationMs: null,
+    llmCalls: null,
+    tokens: null,
+    confidence: null,
+    keywordRecall: null,
+    sourceRecall: null,
+    missingKeywords: [],
+    missingSources: [],
+    answer: null,
+  }))
+  const run: BenchmarkRun = {
+    id: randomUUID(),
+    suiteId: suite.id,
+    suiteName: suite.name,
+    preset: input.preset.trim(),
+    concurrency,
+    status: 'running',
+    configHash: config.hash,
+    configVersionId: config.versionId,
+    startedBy,
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+    summary: summarize(results),
+    results,
+  }
+  const controller = new AbortController()
+  active = { run, controller }
+  persistRun(run)
+
+  const runQuery = async (index: number) => {
+    const result = results[index]!
+    result.status = 'running'
+    result.requestId = randomUUID()
+    const outcome = await runMemosSearch(result.query, run.preset, result.requestId, controller.signal)
+
+    result.status = outcome.status === 'completed' ? 'completed' : controller.signal.aborted ? 'cancelled' : 'failed'
+    result.durationMs = outcome.durationMs
+    result.llmCalls = outcome.llmCalls
+    result.tokens = outcome.tokens
+    result.confidence = outcome.confidence
+    result.answer = outcome.answer
+    if (outcome.error && result.status !== 'completed') result.error = outcome.error
+    if (result.status === 'completed') scoreResult(result, suite.queries[index]!, outcome)
+
+    run.summary = summarize(results)
+    persistRun(run)
+  }
+
+  // Each worker takes the next pending query until none are left
+  let next = 0
+  const worker = async () => {
+    while (next < results.length && !controller.signal.aborted) {
+      await runQuery(next++)
+    }
+  }
+
+  Promise.all(Array.from({ length: Math.min(concurrency, results.length) }, worker))
+    .catch((err: Error) => {
+      run.error = err.message
+    })
+    .finally(() => {
+      // Cleared first, so a failed write can't block later runs
+      active = null
+      for (const result of results.filter((r) => r.status === 'pending')) result.status = 'cancelled'
+      run.status = run.error ? 'failed' : controller.signal.aborted ? 'cancelled' : 'completed'
+      run.finishedAt = new Date().toISOString()
+      run.summary = summarize(results)
+      persistRun(run)
+    })
+    .catch((err) => console.error('Failed to record benchmark run:', err))
+
+  return run
+}
+
+export function cancelBenchmark(id: string): BenchmarkRun {
+  if (!active || active.run.id !== id) {
+    if (getBenchmarkRun(id)) throw new BenchmarkError(`Benchmark ${id} is not running`, 409)
+    throw new BenchmarkError(`Benchmark ${id} not found`, 404)
+  }
+  active.controller.abort()
+  return active.run
+}
+
+export function listBenchmarkRuns(options: { suiteId?: string; limit?: number } = {}): BenchmarkRunInfo[] {
+  ensureSchema()
+  const limit = options.limit ?? 100
+  const rows = (
+    options.suiteId
+      ? getDb().prepare('SELECT * FROM benchmark_runs WHERE suite_id = ? ORDER BY started_at DESC LIMIT ?').all(options.suiteId, limit)
+      : getDb().prepare('SELECT * FROM benchmark_runs ORDER BY started_at DESC LIMIT ?').all(limit)
+  ) as RunRow[]
+  // The running benchmark is written after every query, so rows are current
+  return rows.map(toRunInfo)
+}
+
+export function getBenchmarkRun(id: string): BenchmarkRun | null {
+  if (active?.run.id === id) return active.run
+  ensureSchema()
+  const row = getDb().prepare('SELECT * FROM benchmark_runs WHERE id = ?').get(id) as RunRow | undefined
+  return row ? { ...toRunInfo(row), results: JSON.parse(row.results) } : null
+}
+
+export function deleteBenchmarkRun(id: string) {
+  if (active?.run.id === id) throw new BenchmarkError(`Benchmark ${id} is still running`, 409)
+  ensureSchema()
+  const { changes } = getDb().prepare('DELETE FROM benchmark_runs WHERE id = ?').run(id)
+  if (changes === 0) throw new BenchmarkError(`Benchmark ${id} not found`, 404)
+}
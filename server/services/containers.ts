@@ -0,0 +1,296 @@
+import { createDemuxer, dockerCommand, dockerJson, dockerStream } from './dockerEngine'
+import { parseDockerLine, type LogEntry } from './logParsers'
+import { RingBuffer } from './ringBuffer'
+import { getMonitoredContainers } from './serviceRegistry'
+
+// Container inventory, lifecycle, logs and resource history via the Docker
+// Engine API (see dockerEngine.ts)
+
+const STATS_INTERVAL_MS = parseInt(process.env.CONTAINER_STATS_INTERVAL_MS || '10000', 10)
+const HISTORY_SIZE = parseInt(process.env.CONTAINER_HISTORY_SIZE || '360', 10)
+const STOP_TIMEOUT_S = 10
+
+export type ContainerAction = 'start' | 'stop' | 'restart'
+export const CONTAINER_ACTIONS: ContainerAction[] = ['start', 'stop', 'restart']
+
+export type ContainerHealth = 'healthy' | 'unhealthy' | 'starting' | null
+
+export interface ContainerPort {
+  privatePort: number
+  publicPort: number | null
+  type: string
+  ip: string | null
+}
+
+export interface ContainerStatsSample {
+  timestamp: number
+  cpu: number // % of one core, summed across cores (docker stats semantics)
+  memoryBytes: number
+  memoryLimit: number
+  memoryPercent: number
+}
+
+export interface ContainerInfo {
+  id: string
+  name: string
+  image: string
+  state: string // running, exited, restarting, paused, created, dead
+  status: string // docker's human summary, e.g. "Up 3 hours (healthy)"
+  health: ContainerHealth
+  restartCount: number
+  ports: ContainerPort[]
+  createdAt: string
+  startedAt: string | null
+  uptimeSeconds: number | null
+  pid: number | null
+  monitored: boolean // claimed by a service in the registry
+  stats: (Omit<ContainerStatsSample, 'timestamp'> & { timestamp: string }) | null
+}
+
+// Subsets of the Engine API payloads that we read
+interface DockerContainerSummary {
+  Id: string
+  Names: string[]
+  Image: string
+  State: string
+  Status: string
+  Created: number
+  Ports: { IP?: string; PrivatePort: number; PublicPort?: number; Type: string }[]
+}
+
+interface DockerContainerInspect {
+  Id: string
+  Name: string
+  RestartCount: number
+  State: {
+    Status: string
+    Running: boolean
+    Pid: number
+    StartedAt: string
+    Health?: { Status: string }
+  }
+  Config: { Tty: boolean }
+}
+
+interface DockerStats {
+  cpu_stats: { cpu_usage: { total_usage: number }; system_cpu_usage?: number; online_cpus?: number }
+  memory_stats: { usage?: number; limit?: number; stats?: Record<string, number> }
+}
+
+function stripName(name: string): string {
+  return name.replace(/^\//, '')
+}
+
+function toHealth(status: string | undefined): ContainerHealth {
+  return status === 'healthy' || status === 'unhealthy' || status === 'starting' ? status : null
+}
+
+function withTimestamp(sample: ContainerStatsSample | undefined) {
+  return sample ? { ...sample, timestamp: new Date(sample.timestamp).toISOString() } : null
+}
+
+// Docker reports a zero-value time for containers that never started
+function parseStartedAt(value: string | undefined): number | null {
+  if (!value || value.startsWith('0001-')) return null
+  const ms = Date.parse(value)
+  return isNaN(ms) ? null : ms
+}
+
+export async function inspectContainer(id: string): Promise<DockerContainerInspect> {
+  return dockerJson<DockerContainerInspect>('GET', `/containers/${encodeURIComponent(id)}/json`)
+}
+
+export async function listContainers(): Promise<ContainerInfo[]> {
+  const summaries = await dockerJson<DockerContainerSummary[]>('GET', '/containers/json?all=1')
+  const now = Date.now()
+  const monitored = new Set(getMonitoredContainers())
+
+  return Promise.all(
+    summaries.map(async (summary) => {
+      // Health, restart count and start time are only in the inspect payload
+      const details = await inspectContainer(summary.Id).catch(() => null)
+      const name = stripName(summary.Names[0] ?? summary.Id.slice(0, 12))
+      const running = details?.State.Running ?? summary.State === 'running'
+      const startedAt = running ? parseStartedAt(details?.State.StartedAt) : null
+
+      return {
+        id: summary.Id.slice(0, 12),
+        name,
+        image: summary.Image,
+        state: details?.State.Status ?? summary.State,
+        status: summary.Status,
+        health: toHealth(details?.State.Health?.Status),
+        restartCount: details?.RestartCount ?? 0,
+        ports: summary.Ports.map((p) => ({
+          privatePort: p.PrivatePort,
+          publicPort: p.PublicPort ?? null,
+          type: p.Type,
+          ip: p.IP ?? null,
+        })),
+        createdAt: new Date(summary.Created * 1000).toISOString(),
+        startedAt: startedAt ? new Date(startedAt).toISOString() : null,
+        uptimeSeconds: startedAt ? Math.max(0, Math.floor((now - startedAt) / 1000)) : null,
+        pid: running && details?.State.Pid ? details.State.Pid : null,
+        monitored: monitored.has(name),
+        stats: withTimestamp(history.get(summary.Id.slice(0, 12))?.buffer.last()),
+      }
+    })
+  )
+}
+
+// Returns false when the container was already in the requested state
+export async function containerAction(id: string, action: ContainerAction): Promise<boolean> {
+  const query = action === 'start' ? '' : `?t=${STOP_TIMEOUT_S}`
+  const status = await dockerCommand(
+    'POST',
+    `/containers/${encodeURIComponent(id)}/${action}${query}`,
+    (STOP_TIMEOUT_S + 20) * 1000
+  )
+  return status !== 304
+}
+
+// Follows a container's log; returns a function that ends the stream
+export async function streamContainerLogs(
+  id: string,
+  options: { tail?: number },
+  onEntry: (entry: LogEntry & { stream: 'stdout' | 'stderr' }) => void,
+  onEnd: () => void
+): Promise<() => void> {
+  const details = await inspectContainer(id)
+  const name = stripName(details.Name)
+  const tail = Math.max(0, Math.min(options.tail ?? 100, 5000))
+  const res = await dockerStream(
+    `/containers/${encodeURIComponent(id)}/logs?follow=1&stdout=1&stderr=1&timestamps=1&tail=${tail}`
+  )
+
+  // Payloads aren't line-aligned; carry partial lines per stream
+  const partial = { stdout: '', stderr: '' }
+  const emit = (stream: 'stdout' | 'stderr', payload: Buffer) => {
+    const lines = (partial[stream] + payload.toString()).split('\n')
+    partial[stream] = lines.pop() ?? ''
+    for (const line of lines) {
+      const entry = parseDockerLine(line.replace(/\r$/, ''), name)
+      if (entry) onEntry({ ...entry, stream })
+    }
+  }
+
+  const demux = createDemuxer((stream, payload) => emit(stream === 'stderr' ? 'stderr' : 'stdout', payload))
+  res.on('data', (chunk: Buffer) => (details.Config.Tty ? emit('stdout', chunk) : demux(chunk)))
+  res.on('end', onEnd)
+  res.on('error', onEnd)
+
+  return () => res.destroy()
+}
+
+// Resource history --------------------------------------------------------
+
+interface ContainerHistory {
+  name: string
+  buffer: RingBuffer<ContainerStatsSample>
+  previous: { cpuTotal: number; systemTotal: number } | null
+}
+
+// Keyed by short container id
+const history = new Map<string, ContainerHistory>()
+
+// cgroup v1 reports page cache as "cache", v2 as "inactive_file"; docker
+// stats subtracts it, so do the same
+export function memoryUsage(stats: DockerStats): number {
+  const usage = stats.memory_stats.usage ?? 0
+  const cache = stats.memory_stats.stats?.inactive_file ?? stats.memory_stats.stats?.cache ?? 0
+  return Math.max(0, usage - cache)
+}
+
+export function recordContainerStats(id: string, name: string, stats: DockerStats, timestamp = Date.now()) {
+  let entry = history.get(id)
+  if (!entry) {
+    entry = { name, buffer: new RingBuffer(HISTORY_SIZE), previous: null }
+    history.set(id, entry)
+  }
+  entry.name = name
+
+  const cpuTotal = stats.cpu_stats.cpu_usage.total_usage
+  const systemTotal = stats.cpu_stats.system_cpu_usage ?? 0
+  const cpus = stats.cpu_stats.online_cpus ?? 1
+
+  // One-shot stats carry no usable precpu_stats; diff against our last sample
+  let cpu = 0
+  if (entry.previous) {
+    const cpuDelta = cpuTotal - entry.previous.cpuTotal
+    const systemDelta = systemTotal - entry.previous.systemTotal
+    if (cpuDelta > 0 && systemDelta > 0) {
+      cpu = Math.round((cpuDelta / systemDelta) * cpus * 1000) / 10
+    }
+  }
+  entry.previous = { cpuTotal, systemTotal }
+
+  const memoryBytes = memoryUsage(stats)
+  const memoryLimit = stats.memory_stats.limit ?? 0
+  entry.buffer.push({
+    timestamp,
+    cpu,
+    memoryBytes,
+    memoryLimit,
+    memoryPercent: memoryLimit > 0 ? Math.round((memoryBytes / memoryLimit) * 1000) / 10 : 0,
+  })
+}
+
+export function getContainerStatsHistory(id: string, sinceMs?: number) {
+  const entry = history.get(id.slice(0, 12))
+  if (!entry) return null
+  const since = sinceMs ? Date.now() - sinceMs : 0
+  return {
+    id: id.slice(0, 12),
+    name: entry.name,
+    intervalMs: STATS_INTERVAL_MS,
+    samples: entry.buffer
+      .toArray()
+      .filter((s) => s.timestamp >= since)
+      .map((s) => ({ ...s, timestamp: new Date(s.timestamp).toISOString() })),
+  }
+}
+
+async function sampleStats() {
+  const containers = await dockerJson<DockerContainerSummary[]>('GET', '/containers/json?all=1')
+
+  await Promise.all(
+    containers
+      .filter((c) => c.State === 'running')
+      .map(async (container) => {
+        const id = container.Id.slice(0, 12)
+        try {
+          const stats = await dockerJson<DockerStats>(
+            'GET',
+            `/containers/${container.Id}/stats?stream=false&one-shot=true`
+          )
+          recordContainerStats(id, stripName(container.Names[0] ?? id), stats)
+        } catch {
+          // Container stopped between list and stats
+        }
+      })
+  )
+
+  // Stopped containers keep their history; removed ones are forgotten
+  const existing = new Set(containers.map((c) => c.Id.slice(0, 12)))
+  for (const id of history.keys()) {
+    if (!existing.has(id)) history.delete(id)
+  }
+}
+
+let statsTimer: NodeJS.Timeout | null = null
+
+export function startContainerStatsSampler() {
+  if (statsTimer) return
+  const tick = () => {
+    sampleStats().catch(() => {
+      // Docker unavailable; try again next interval
+    })
+  }
+  tick()
+  statsTimer = setInterval(tick, STATS_INTERVAL_MS)
+}
+
+export function stopContainerStatsSampler() {
+  if (statsTimer) clearInterval(statsTimer)
+  statsTimer = null
+}
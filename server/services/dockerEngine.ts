@@ -0,0 +1,97 @@
+import http from 'http'
+
+// Minimal Docker Engine API client over the unix socket. DOCKER_SOCKET can
+// point at any socket speaking the same HTTP API (rootless docker, podman,
+// or a fake server).
+
+export const DOCKER_SOCKET = process.env.DOCKER_SOCKET || '/var/run/docker.sock'
+const REQUEST_TIMEOUT_MS = 10000
+
+export class DockerApiError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message)
+    this.name = 'DockerApiError'
+  }
+}
+
+function request(method: string, path: string, timeoutMs = REQUEST_TIMEOUT_MS): Promise<http.IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(
+      { socketPath: DOCKER_SOCKET, method, path, headers: { Host: 'docker' } },
+      resolve
+    )
+    if (timeoutMs > 0) {
+      req.setTimeout(timeoutMs, () => req.destroy(new Error(`Docker API ${method} ${path} timed out`)))
+    }
+    req.on('error', (err: NodeJS.ErrnoException) => {
+      // A missing or unreadable socket means Docker isn't usable from here
+      if (err.code === 'ENOENT' || err.code === 'ECONNREFUSED' || err.code === 'EACCES') {
+        reject(new DockerApiError(`Docker socket unavailable at ${DOCKER_SOCKET} (${err.code})`, 503))
+      } else {
+        reject(err)
+      }
+    })
+    req.end()
+  })
+}
+
+async function readBody(res: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of res) chunks.push(chunk as Buffer)
+  return Buffer.concat(chunks).toString()
+}
+
+async function raiseForStatus(res: http.IncomingMessage, method: string, path: string) {
+  const status = res.statusCode ?? 500
+  if (status < 400) return
+  const body = await readBody(res)
+  let message = body.trim()
+  try {
+    message = JSON.parse(body).message ?? message
+  } catch {
+    // Plain-text error body
+  }
+  throw new DockerApiError(`Docker API ${method} ${path} failed: ${message || `HTTP ${status}`}`, status)
+}
+
+export async function dockerJson<T>(method: string, path: string): Promise<T> {
+  const res = await request(method, path)
+  await raiseForStatus(res, method, path)
+  const body = await readBody(res)
+  return (body ? JSON.parse(body) : null) as T
+}
+
+// For endpoints that answer 204/304 with no body (start, stop, restart)
+export async function dockerCommand(method: string, path: string, timeoutMs?: number): Promise<number> {
+  const res = await request(method, path, timeoutMs)
+  await raiseForStatus(res, method, path)
+  res.resume()
+  return res.statusCode ?? 204
+}
+
+// Long-lived responses (logs?follow=1); the caller owns and must destroy it
+export async function dockerStream(path: string): Promise<http.IncomingMessage> {
+  const res = await request('GET', path, 0)
+  await raiseForStatus(res, 'GET', path)
+  return res
+}
+
+export type DockerStreamType = 'stdin' | 'stdout' | 'stderr'
+
+// Non-TTY containers multiplex stdout/stderr: each frame is an 8-byte header
+// (stream type, 3 padding bytes, big-endian uint32 length) followed by the
+// payload. Frames may be split across chunks, so buffer until complete.
+export function createDemuxer(onFrame: (stream: DockerStreamType, payload: Buffer) => void) {
+  let pending = Buffer.alloc(0)
+  const types: DockerStreamType[] = ['stdin', 'stdout', 'stderr']
+
+  return (chunk: Buffer) => {
+    pending = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk
+    while (pending.length >= 8) {
+      const length = pending.readUInt32BE(4)
+      if (pending.length < 8 + length) break
+      onFrame(types[pending[0]!] ?? 'stdout', pending.subarray(8, 8 + length))
+      pending = pending.subarray(8 + length)
+    }
+  }
+}
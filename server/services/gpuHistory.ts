@@ -0,0 +1,125 @@
+import { getGPUStatus, type GPUDevice, type GPUStatus } from './gpuStatus'
+import { RingBuffer } from './ringBuffer'
+
+// In-memory GPU time series: one fixed-size ring buffer per device, filled by
+// a background sampler. Defaults keep one hour at a 5s resolution.
+
+export const GPU_SAMPLE_INTERVAL_MS = parseInt(process.env.GPU_SAMPLE_INTERVAL_MS || '5000', 10)
+const HISTORY_SIZE = parseInt(process.env.GPU_HISTORY_SIZE || '720', 10)
+
+export interface GPUSample {
+  timestamp: number
+  vramUsed: number
+  vramTotal: number
+  utilization: number
+  temperature: number
+  powerDraw: number
+}
+
+export interface GPUHistorySeries {
+  index: number
+  uuid: string | null
+  name: string
+  samples: (Omit<GPUSample, 'timestamp'> & { timestamp: string })[]
+}
+
+export interface GPUHistory {
+  intervalMs: number
+  capacity: number
+  gpus: GPUHistorySeries[]
+}
+
+interface DeviceHistory {
+  device: Pick<GPUDevice, 'index' | 'uuid' | 'name'>
+  buffer: RingBuffer<GPUSample>
+}
+
+// Keyed by UUID when known so a device keeps its history if indices shift
+const devices = new Map<string, DeviceHistory>()
+let latest: GPUStatus | null = null
+let latestAt: number | null = null
+
+const statusListeners = new Set<(status: GPUStatus, timestamp: number) => void>()
+
+export function onGPUStatus(listener: (status: GPUStatus, timestamp: number) => void): () => void {
+  statusListeners.add(listener)
+  return () => statusListeners.delete(listener)
+}
+
+function deviceKey(gpu: GPUDevice): string {
+  return gpu.uuid ?? `index-${gpu.index}`
+}
+
+export function recordGPUStatus(status: GPUStatus, timestamp = Date.now()) {
+  latest = status
+  latestAt = timestamp
+
+  for (const gpu of status.gpus) {
+    const key = deviceKey(gpu)
+    let history = devices.get(key)
+    if (!history) {
+      history = { device: { index: gpu.index, uuid: gpu.uuid, name: gpu.name }, buffer: new RingBuffer(HISTORY_SIZE) }
+      devices.set(key, history)
+    }
+    history.device = { index: gpu.index, uuid: gpu.uuid, name: gpu.name }
+    history.buffer.push({
+      timestamp,
+      vramUsed: gpu.vramUsed,
+      vramTotal: gpu.vramTotal,
+      utilization: gpu.utilization,
+      temperature: gpu.temperature,
+      powerDraw: gpu.powerDraw,
+    })
+  }
+
+  for (const listener of statusListeners) {
+    try {
+      listener(status, timestamp)
+    } catch (err) {
+      console.error('GPU status listener failed:', err)
+    }
+  }
+}
+
+export function getLatestGPUStatus(): { status: GPUStatus; timestamp: number } | null {
+  return latest && latestAt ? { status: latest, timestamp: latestAt } : null
+}
+
+export function getGPUHistory(options: { sinceMs?: number; gpu?: number } = {}): GPUHistory {
+  const since = options.sinceMs ? Date.now() - options.sinceMs : 0
+
+  const gpus = Array.from(devices.values())
+    .filter((h) => options.gpu === undefined || h.device.index === options.gpu)
+    .sort((a, b) => a.device.index - b.device.index)
+    .map((h) => ({
+      ...h.device,
+      samples: h.buffer
+        .toArray()
+        .filter((s) => s.timestamp >= since)
+        .map((s) => ({ ...s, timestamp: new Date(s.timestamp).toISOString() })),
+    }))
+
+  return { intervalMs: GPU_SAMPLE_INTERVAL_MS, capacity: HISTORY_SIZE, gpus }
+}
+
+let sampleTimer: NodeJS.Timeout | null = null
+
+export function startGPUSampler() {
+  if (sampleTimer) return
+
+  const tick = () => {
+    getGPUStatus()
+      .then((status) => recordGPUStatus(status))
+      .catch(() => {
+        // No GPU source available right now; leave a gap in the series
+      })
+  }
+
+  tick()
+  sampleTimer = setInterval(tick, GPU_SAMPLE_INTERVAL_MS)
+}
+
+export function stopGPUSampler() {
+  if (sampleTimer) clearInterval(sampleTimer)
+  sampleTimer = null
+}
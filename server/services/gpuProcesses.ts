@@ -0,0 +1,113 @@
+import { exec } from 'child_process'
+import { basename } from 'path'
+import { promisify } from 'util'
+import { getGPUStatus, type GPUStatus } from './gpuStatus'
+import { getLatestGPUStatus } from './gpuHistory'
+import { getProcesses, type ProcessInfo } from './processInfo'
+
+const execAsync = promisify(exec)
+
+// Which processes hold VRAM, joined with the monitored process list so known
+// services show up under their dashboard name
+
+export interface GPUComputeApp {
+  pid: number
+  gpuUuid: string | null
+  processName: string
+  vramUsed: number // GB
+}
+
+export interface GPUConsumer {
+  pid: number
+  name: string // dashboard process name when monitored, otherwise the binary name
+  processName: string // full path as reported by nvidia-smi
+  gpuIndex: number | null
+  gpuName: string | null
+  vramUsed: number // GB
+  cpu: number | null
+  memory: number | null
+  monitored: boolean
+  models: string[] // Ollama models resident on the GPU, attributed to the Ollama runner
+}
+
+const COMPUTE_APPS_QUERY =
+  'nvidia-smi --query-compute-apps=pid,gpu_uuid,process_name,used_memory --format=csv,noheader,nounits'
+
+// One CSV line per process; process_name may itself contain commas, so the
+// memory column is taken from the end
+export function parseNvidiaSmiComputeApps(stdout: string): GPUComputeApp[] {
+  return stdout
+    .trim()
+    .split('\n')
+    .filter((line) => line.trim() && !line.includes('No running processes'))
+    .map((line) => {
+      const parts = line.split(',')
+      const pid = parseInt(parts[0]?.trim() || '0', 10)
+      const gpuUuid = parts[1]?.trim() || null
+      const memory = parseFloat(parts[parts.length - 1]?.trim() || '')
+      // Rejoin untrimmed so spacing inside the name survives
+      const processName = parts.slice(2, -1).join(',').trim() || 'unknown'
+      return {
+        pid,
+        gpuUuid,
+        processName,
+        vramUsed: isNaN(memory) ? 0 : memory / 1024, // MiB to GB
+      }
+    })
+    .filter((app) => app.pid > 0)
+}
+
+function modelName(model: unknown): string | null {
+  if (typeof model === 'string') return model
+  if (model && typeof model === 'object' && typeof (model as { name?: unknown }).name === 'string') {
+    return (model as { name: string }).name
+  }
+  return null
+}
+
+function isOllama(app: GPUComputeApp, process: ProcessInfo | undefined): boolean {
+  return process?.name === 'Ollama' || /ollama/i.test(app.processName)
+}
+
+export function joinGPUConsumers(
+  apps: GPUComputeApp[],
+  status: GPUStatus | null,
+  processes: ProcessInfo[]
+): GPUConsumer[] {
+  // Any pid in a service's process tree (CUDA work often runs in a child worker)
+  const byPid = new Map(
+    processes.filter((p) => p.type === 'native').flatMap((p) => p.pids.map((pid) => [pid, p] as const))
+  )
+  const models = (status?.loadedModels ?? []).map(modelName).filter((m): m is string => !!m)
+
+  return apps
+    .map((app) => {
+      const process = byPid.get(app.pid)
+      const gpu = status?.gpus.find((g) => g.uuid && g.uuid === app.gpuUuid)
+      return {
+        pid: app.pid,
+        name: process?.name ?? basename(app.processName.split(' ')[0] || app.processName),
+        processName: app.processName,
+        gpuIndex: gpu?.index ?? null,
+        gpuName: gpu?.name ?? null,
+        vramUsed: Math.round(app.vramUsed * 100) / 100,
+        cpu: process?.cpu ?? null,
+        memory: process?.memory ?? null,
+        monitored: !!process,
+        models: isOllama(app, process) ? models : [],
+      }
+    })
+    .sort((a, b) => b.vramUsed - a.vramUsed)
+}
+
+export async function getGPUProcesses(): Promise<GPUConsumer[]> {
+  const { stdout } = await execAsync(COMPUTE_APPS_QUERY, { timeout: 5000 })
+
+  const latest = getLatestGPUStatus()
+  const [status, processes] = await Promise.all([
+    latest ? Promise.resolve(latest.status) : getGPUStatus().catch(() => null),
+    getProcesses().catch(() => [] as ProcessInfo[]),
+  ])
+
+  return joinGPUConsumers(parseNvidiaSmiComputeApps(stdout), status, processes)
+}
@@ -0,0 +1,124 @@
+import { exec } from 'child_process'
+import { promisify } from 'util'
+import { MEMOS_BASE_URL } from '../../config/ports'
+
+const execAsync = promisify(exec)
+
+export interface GPUDevice {
+  index: number
+  uuid: string | null
+  name: string
+  vramUsed: number // GB
+  vramTotal: number // GB
+  utilization: number
+  temperature: number
+  powerDraw: number
+}
+
+// Top-level fields describe the first GPU (kept for existing consumers);
+// `gpus` lists every device
+export interface GPUStatus {
+  name: string
+  vramUsed: number
+  vramTotal: number
+  utilization: number
+  temperature: number
+  powerDraw: number
+  loadedModels: unknown[]
+  gpus: GPUDevice[]
+}
+
+const NVIDIA_SMI_QUERY =
+  'nvidia-smi --query-gpu=index,uuid,name,memory.used,memory.total,utilization.gpu,temperature.gpu,power.draw --format=csv,noheader,nounits'
+
+function toNumber(value: unknown): number {
+  const n = typeof value === 'number' ? value : parseFloat(String(value ?? ''))
+  return isNaN(n) ? 0 : n // nvidia-smi prints "[N/A]" for unsupported fields
+}
+
+// One CSV line per GPU, in the column order of NVIDIA_SMI_QUERY
+export function parseNvidiaSmiGpus(stdout: string): GPUDevice[] {
+  return stdout
+    .trim()
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => {
+      const [index, uuid, name, memUsed, memTotal, util, temp, power] = line.split(',').map((p) => p.trim())
+      return {
+        index: parseInt(index || '0', 10),
+        uuid: uuid || null,
+        name: name || 'Unknown GPU',
+        vramUsed: toNumber(memUsed) / 1024, // MB to GB
+        vramTotal: toNumber(memTotal) / 1024,
+        utilization: toNumber(util),
+        temperature: toNumber(temp),
+        powerDraw: toNumber(power),
+      }
+    })
+}
+
+function summarize(gpus: GPUDevice[], loadedModels: unknown[]): GPUStatus {
+  const first = gpus[0]
+  return {
+    name: first?.name ?? 'Unknown GPU',
+    vramUsed: first?.vramUsed ?? 0,
+    vramTotal: first?.vramTotal ?? 0,
+    utilization: first?.utilization ?? 0,
+    temperature: first?.temperature ?? 0,
+    powerDraw: first?.powerDraw ?? 0,
+    loadedModels,
+    gpus,
+  }
+}
+
+async function fetchFromMemos(): Promise<{ gpus: GPUDevice[]; loadedModels: unknown[] }> {
+  const response = await fetch(`${MEMOS_BASE_URL}/api/v1/models/gpu/status`, {
+    signal: AbortSignal.timeout(5000),
+  })
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`)
+  }
+
+  const data = await response.json()
+
+  // Transform to dashboard format - memOS returns nested structure
+  const gpuData = data.data || data
+  const rawGpus: any[] = Array.isArray(gpuData.gpus) && gpuData.gpus.length > 0 ? gpuData.gpus : [{}]
+
+  const gpus: GPUDevice[] = rawGpus.map((gpu, i) => ({
+    index: gpu.index ?? gpu.id ?? i,
+    uuid: gpu.uuid ?? null,
+    name: gpu.name || (i === 0 && gpuData.gpu_name) || 'Unknown GPU',
+    // Single-GPU memOS responses only carry totals at the top level
+    vramUsed: toNumber(gpu.used_memory_gb ?? (i === 0 ? gpuData.used_vram_gb : 0)),
+    vramTotal: toNumber(gpu.total_memory_gb ?? (i === 0 ? gpuData.total_vram_gb : 0)) || 24,
+    utilization: toNumber(gpu.utilization_percent ?? (i === 0 ? gpuData.gpu_utilization : 0)),
+    temperature: toNumber(gpu.temperature_c ?? (i === 0 ? gpuData.temperature : 0)),
+    powerDraw: toNumber(gpu.power_draw_w ?? (i === 0 ? gpuData.power_draw : 0)),
+  }))
+
+  return { gpus, loadedModels: gpuData.loaded_models || [] }
+}
+
+async function fetchFromNvidiaSmi(): Promise<GPUDevice[]> {
+  const { stdout } = await execAsync(NVIDIA_SMI_QUERY, { timeout: 5000 })
+  const gpus = parseNvidiaSmiGpus(stdout)
+  if (gpus.length === 0) throw new Error('nvidia-smi reported no GPUs')
+  return gpus
+}
+
+// nvidia-smi sees every device, so it wins for per-GPU metrics; memOS adds
+// the loaded models and covers hosts where nvidia-smi isn't reachable.
+// Throws when neither is available.
+export async function getGPUStatus(): Promise<GPUStatus> {
+  const [memos, smi] = await Promise.allSettled([fetchFromMemos(), fetchFromNvidiaSmi()])
+
+  if (smi.status === 'fulfilled') {
+    return summarize(smi.value, memos.status === 'fulfilled' ? memos.value.loadedModels : [])
+  }
+  if (memos.status === 'fulfilled') {
+    return summarize(memos.value.gpus, memos.value.loadedModels)
+  }
+  throw new Error('Neither memOS nor nvidia-smi available')
+}
@@ -0,0 +1,238 @@
+import http from 'http'
+import https from 'https'
+import { createConnection } from 'net'
+import {
+  substitute,
+  type HealthCheckService,
+  type JsonAssertion,
+  type ProbeChildren,
+} from './serviceRegistry'
+
+export type HealthStatus = 'healthy' | 'unhealthy' | 'unknown'
+export type ComponentStatus = HealthStatus | 'degraded'
+
+// A sub-component reported by the service itself
+export interface HealthComponent {
+  name: string
+  status: ComponentStatus
+  message?: string
+  latency?: number
+}
+
+export interface HealthCheckResult {
+  status: HealthStatus
+  latency?: number
+  message?: string
+  children?: HealthComponent[]
+}
+
+const DEFAULT_HTTP_TIMEOUT_MS = 5000
+const DEFAULT_TCP_TIMEOUT_MS = 3000
+const MAX_BODY_BYTES = 1024 * 1024
+
+// `a.b[0].c` -> value, or undefined when any step is missing
+export function getJsonPath(value: unknown, path: string): unknown {
+  let current = value
+  for (const step of path.match(/[^.[\]]+/g) ?? []) {
+    if (current === null || typeof current !== 'object') return undefined
+    current = (current as Record<string, unknown>)[step]
+  }
+  return current
+}
+
+// Returns a failure message, or null when the assertion holds
+export function evaluateJsonAssertion(body: unknown, assertion: JsonAssertion): string | null {
+  const actual = getJsonPath(body, assertion.path)
+  if (actual === undefined) return `${assertion.path} is missing`
+
+  const expected = assertion.value
+  let ok: boolean
+  switch (assertion.op) {
+    case 'exists':
+      return null
+    case '==':
+      ok = JSON.stringify(actual) === JSON.stringify(expected)
+      break
+    case '!=':
+      ok = JSON.stringify(actual) !== JSON.stringify(expected)
+      break
+    default: {
+      if (typeof actual !== 'number') return `${assertion.path} is not a number`
+      const limit = expected as number
+      ok =
+        assertion.op === '<' ? actual < limit
+        : assertion.op === '<=' ? actual <= limit
+        : assertion.op === '>' ? actual > limit
+        : actual >= limit
+    }
+  }
+  return ok ? null : `expected ${assertion.expression}, got ${JSON.stringify(actual)}`
+}
+
+const HEALTHY_WORDS = new Set(['ok', 'healthy', 'up', 'pass', 'passing', 'ready', 'running', 'true'])
+const DEGRADED_WORDS = new Set(['degraded', 'warn', 'warning', 'partial'])
+
+function componentStatus(value: unknown): ComponentStatus {
+  if (value === undefined || value === null) return 'unknown'
+  if (typeof value === 'boolean') return value ? 'healthy' : 'unhealthy'
+  const word = String(value).toLowerCase()
+  if (HEALTHY_WORDS.has(word)) return 'healthy'
+  if (DEGRADED_WORDS.has(word)) return 'degraded'
+  return word === 'unknown' ? 'unknown' : 'unhealthy'
+}
+
+function toComponent(name: string, raw: unknown, spec: ProbeChildren): HealthComponent {
+  // Some services report a bare status per component instead of an object
+  if (raw === null || typeof raw !== 'object') return { name, status: componentStatus(raw) }
+  const message = getJsonPath(raw, spec.message)
+  const latency = getJsonPath(raw, spec.latency)
+  return {
+    name,
+    status: componentStatus(getJsonPath(raw, spec.status)),
+    message: typeof message === 'string' ? message : undefined,
+    latency: typeof latency === 'number' ? Math.round(latency) : undefined,
+  }
+}
+
+export function extractChildren(body: unknown, spec: ProbeChildren): HealthComponent[] {
+  const list = getJsonPath(body, spec.path)
+  if (Array.isArray(list)) {
+    return list.map((item, i) => {
+      const name = getJsonPath(item, spec.name)
+      return toComponent(typeof name === 'string' ? name : `#${i}`, item, spec)
+    })
+  }
+  if (list && typeof list === 'object') {
+    return Object.entries(list).map(([name, item]) => toComponent(name, item, spec))
+  }
+  return []
+}
+
+interface HttpResponse {
+  status: number
+  body: string
+}
+
+function httpGet(service: HealthCheckService, timeoutMs: number): Promise<HttpResponse> {
+  const probe = service.probe.type === 'http' ? service.probe : null
+  const headers = Object.fromEntries(
+    Object.entries(probe?.headers ?? {}).map(([name, value]) => [name, substitute(value)])
+  )
+  const client = probe?.tls ? https : http
+
+  return new Promise((resolve, reject) => {
+    const req = client.request(
+      {
+        host: 'localhost',
+        port: service.port,
+        path: service.healthEndpoint,
+        method: 'GET',
+        headers,
+        rejectUnauthorized: !probe?.insecure,
+      },
+      (res) => {
+        const chunks: Buffer[] = []
+        let size = 0
+        res.on('data', (chunk: Buffer) => {
+          // Only the head of oversized bodies is kept for assertions
+          if (size < MAX_BODY_BYTES) chunks.push(chunk)
+          size += chunk.length
+        })
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, body: Buffer.concat(chunks).toString() }))
+        res.on('error', reject)
+      }
+    )
+    req.setTimeout(timeoutMs, () => req.destroy(new Error('Request timeout')))
+    req.on('error', reject)
+    req.end()
+  })
+}
+
+export async function checkHttpHealth(service: HealthCheckService): Promise<HealthCheckResult> {
+  const probe = service.probe.type === 'http' ? service.probe : null
+  const expect = probe?.expect
+  const start = Date.now()
+
+  let response: HttpResponse
+  try {
+    response = await httpGet(service, probe?.timeoutMs ?? DEFAULT_HTTP_TIMEOUT_MS)
+  } catch (error) {
+    const err = error as Error
+    return { status: 'unhealthy', message: err.message }
+  }
+  const latency = Date.now() - start
+
+  let json: unknown
+  let jsonError: string | null = null
+  if (expect?.json?.length || probe?.children) {
+    try {
+      json = JSON.parse(response.body)
+    } catch {
+      jsonError = 'Response is not valid JSON'
+    }
+  }
+  const children = probe?.children && json !== undefined ? extractChildren(json, probe.children) : undefined
+  const result = (status: HealthStatus, message?: string): HealthCheckResult => ({
+    status,
+    latency,
+    message,
+    ...(children ? { children } : {}),
+  })
+
+  const statusOk = expect?.status
+    ? expect.status.includes(response.status)
+    : response.status >= 200 && response.status < 300
+  if (!statusOk) return result('unhealthy', `HTTP ${response.status}`)
+
+  if (expect?.json?.length) {
+    if (jsonError) return result('unhealthy', jsonError)
+    for (const assertion of expect.json) {
+      const failure = evaluateJsonAssertion(json, assertion)
+      if (failure) return result('unhealthy', failure)
+    }
+  }
+  if (expect?.bodyRegex && !new RegExp(expect.bodyRegex).test(response.body)) {
+    return result('unhealthy', `Body does not match /${expect.bodyRegex}/`)
+  }
+  if (expect?.maxLatencyMs && latency > expect.maxLatencyMs) {
+    return result('unhealthy', `Latency ${latency}ms exceeds ${expect.maxLatencyMs}ms`)
+  }
+
+  const failing = children?.filter((c) => c.status === 'unhealthy' || c.status === 'degraded') ?? []
+  return result('healthy', failing.length > 0 ? `${failing.map((c) => c.name).join(', ')} not healthy` : undefined)
+}
+
+export async function checkTcpHealth(service: HealthCheckService): Promise<HealthCheckResult> {
+  const start = Date.now()
+  const maxLatencyMs = service.probe.expect?.maxLatencyMs
+
+  return new Promise((resolve) => {
+    const socket = createConnection({ port: service.port, host: 'localhost' })
+
+    const timeout = setTimeout(() => {
+      socket.destroy()
+      resolve({ status: 'unhealthy', message: 'Connection timeout' })
+    }, service.probe.timeoutMs ?? DEFAULT_TCP_TIMEOUT_MS)
+
+    socket.on('connect', () => {
+      clearTimeout(timeout)
+      const latency = Date.now() - start
+      socket.destroy()
+      if (maxLatencyMs && latency > maxLatencyMs) {
+        resolve({ status: 'unhealthy', latency, message: `Latency ${latency}ms exceeds ${maxLatencyMs}ms` })
+      } else {
+        resolve({ status: 'healthy', latency })
+      }
+    })
+
+    socket.on('error', (err) => {
+      clearTimeout(timeout)
+      socket.destroy()
+      resolve({ status: 'unhealthy', message: err.message })
+    })
+  })
+}
+
+export function checkServiceHealth(service: HealthCheckService): Promise<HealthCheckResult> {
+  return service.type === 'http' ? checkHttpHealth(service) : checkTcpHealth(service)
+}
@@ -0,0 +1,316 @@
+import { getDb } from '../db'
+import type { HealthStatus } from './healthChecks'
+import { LIVE_INTERVALS, onHealthSample, type ServiceHealthSnapshot } from './liveState'
+import { getHealthCheckServices } from './serviceRegistry'
+
+// Health history recorded from the live collector's probes + uptime/SLA
+// queries over the stored samples
+
+const SAMPLE_INTERVAL_MS = parseInt(process.env.HEALTH_SAMPLE_INTERVAL_MS || '30000', 10)
+const RETENTION_DAYS = parseInt(process.env.HEALTH_HISTORY_RETENTION_DAYS || '30', 10)
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+export interface HealthSample {
+  service: string
+  timestamp: number
+  status: HealthStatus
+  latency: number | null
+  message: string | null
+}
+
+export interface LatencyStats {
+  avg: number | null
+  p50: number | null
+  p95: number | null
+  p99: number | null
+}
+
+export interface OutageWindow {
+  start: string
+  end: string | null // null while the outage is still ongoing
+  durationMs: number
+  samples: number
+  message: string | null
+}
+
+export interface ServiceHistorySummary {
+  name: string
+  range: string
+  samples: number
+  uptime: number | null
+  latency: LatencyStats
+  outageCount: number
+  uptime24h: number | null
+  uptime7d: number | null
+  sparkline: (number | null)[]
+}
+
+export interface ServiceHistoryDetail {
+  name: string
+  range: string
+  from: string
+  to: string
+  samples: number
+  uptime: number | null
+  latency: LatencyStats
+  outages: OutageWindow[]
+  series: { timestamp: string; uptime: number | null; avgLatency: number | null }[]
+}
+
+let initialized = false
+
+const sampleListeners = new Set<(samples: HealthSample[]) => void>()
+
+// Called with every round written to history; returns an unsubscribe function
+export function onHealthSamples(listener: (samples: HealthSample[]) => void): () => void {
+  sampleListeners.add(listener)
+  return () => {
+    sampleListeners.delete(listener)
+  }
+}
+
+function ensureSchema() {
+  if (initialized) return
+  getDb().exec(`
+    CREATE TABLE IF NOT EXISTS health_samples (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      service TEXT NOT NULL,
+      ts INTEGER NOT NULL,
+      status TEXT NOT NULL,
+      latency INTEGER,
+      message TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_health_samples_service_ts ON health_samples (service, ts);
+  `)
+  initialized = true
+}
+
+// Accepts "30m", "24h", "7d" etc. Falls back to 24h and caps at the retention window.
+export function parseRange(range: unknown, fallback = '24h'): { label: string; ms: number } {
+  const value = typeof range === 'string' ? range : fallback
+  const match = /^(\d+)([mhd])$/.exec(value)
+  if (!match) return parseRange(fallback, '24h')
+
+  const amount = parseInt(match[1]!, 10)
+  const unit = match[2] === 'm' ? 60 * 1000 : match[2] === 'h' ? HOUR_MS : DAY_MS
+  const ms = Math.min(amount * unit, RETENTION_DAYS * DAY_MS)
+  return { label: value, ms }
+}
+
+export function recordSamples(samples: HealthSample[]) {
+  ensureSchema()
+  const insert = getDb().prepare(
+    'INSERT INTO health_samples (service, ts, status, latency, message) VALUES (?, ?, ?, ?, ?)'
+  )
+  const insertAll = getDb().transaction((rows: HealthSample[]) => {
+    for (const s of rows) {
+      insert.run(s.service, s.timestamp, s.status, s.latency, s.message)
+    }
+  })
+  insertAll(samples)
+}
+
+function getSamples(service: string, since: number): HealthSample[] {
+  ensureSchema()
+  const rows = getDb()
+    .prepare(
+      'SELECT service, ts, status, latency, message FROM health_samples WHERE service = ? AND ts >= ? ORDER BY ts ASC'
+    )
+    .all(service, since) as { service: string; ts: number; status: HealthStatus; latency: number | null; message: string | null }[]
+
+  return rows.map((r) => ({
+    service: r.service,
+    timestamp: r.ts,
+    status: r.status,
+    latency: r.latency,
+    message: r.message,
+  }))
+}
+
+function uptimeOf(samples: HealthSample[]): number | null {
+  if (samples.length === 0) return null
+  const healthy = samples.filter((s) => s.status === 'healthy').length
+  return Math.round((healthy / samples.length) * 10000) / 100
+}
+
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null
+  const rank = Math.ceil((p / 100) * sorted.length) - 1
+  return sorted[Math.max(0, Math.min(rank, sorted.length - 1))] ?? null
+}
+
+function latencyOf(samples: HealthSample[]): LatencyStats {
+  const values = samples
+    .filter((s) => s.status === 'healthy' && s.latency !== null)
+    .map((s) => s.latency as number)
+    .sort((a, b) => a - b)
+
+  if (values.length === 0) {
+    return { avg: null, p50: null, p95: null, p99: null }
+  }
+
+  return {
+    avg: Math.round(values.reduce((sum, v) => sum + v, 0) / values.length),
+    p50: percentile(values, 50),
+    p95: percentile(values, 95),
+    p99: percentile(values, 99),
+  }
+}
+
+function outagesOf(samples: HealthSample[]): OutageWindow[] {
+  const outages: OutageWindow[] = []
+  let current: { start: number; samples: number; message: string | null } | null = null
+
+  for (const sample of samples) {
+    if (sample.status === 'unhealthy') {
+      if (!current) {
+        current = { start: sample.timestamp, samples: 0, message: sample.message }
+      }
+      current.samples++
+    } else if (current) {
+      // Outage ends at the first healthy sample after it
+      outages.push({
+        start: new Date(current.start).toISOString(),
+        end: new Date(sample.timestamp).toISOString(),
+        durationMs: sample.timestamp - current.start,
+        samples: current.samples,
+        message: current.message,
+      })
+      current = null
+    }
+  }
+
+  if (current) {
+    outages.push({
+      start: new Date(current.start).toISOString(),
+      end: null,
+      durationMs: Date.now() - current.start,
+      samples: current.samples,
+      message: current.message,
+    })
+  }
+
+  return outages
+}
+
+function bucketize(samples: HealthSample[], from: number, to: number, buckets: number) {
+  const width = (to - from) / buckets
+  const groups: HealthSample[][] = Array.from({ length: buckets }, () => [])
+
+  for (const sample of samples) {
+    const index = Math.min(Math.floor((sample.timestamp - from) / width), buckets - 1)
+    if (index >= 0) groups[index]!.push(sample)
+  }
+
+  return groups.map((group, i) => ({
+    timestamp: new Date(from + i * width).toISOString(),
+    uptime: uptimeOf(group),
+    avgLatency: latencyOf(group).avg,
+  }))
+}
+
+export function getHistorySummary(rangeParam: unknown): ServiceHistorySummary[] {
+  const range = parseRange(rangeParam)
+  const now = Date.now()
+  const since7d = now - 7 * DAY_MS
+  const since24h = now - DAY_MS
+  const sinceRange = now - range.ms
+
+  return getHealthCheckServices().map((service) => {
+    // One read covers the widest window we need; narrower windows are filtered in memory
+    const samples = getSamples(service.name, Math.min(since7d, sinceRange))
+    const inRange = samples.filter((s) => s.timestamp >= sinceRange)
+    const last24h = samples.filter((s) => s.timestamp >= since24h)
+
+    return {
+      name: service.name,
+      range: range.label,
+      samples: inRange.length,
+      uptime: uptimeOf(inRange),
+      latency: latencyOf(inRange),
+      outageCount: outagesOf(inRange).length,
+      uptime24h: uptimeOf(last24h),
+      uptime7d: uptimeOf(samples.filter((s) => s.timestamp >= since7d)),
+      sparkline: bucketize(last24h, since24h, now, 24).map((b) => b.uptime),
+    }
+  })
+}
+
+export function getServiceHistory(serviceName: string, rangeParam: unknown, buckets = 48): ServiceHistoryDetail | null {
+  const service = getHealthCheckServices().find(
+    (s) => s.name.toLowerCase() === serviceName.toLowerCase()
+  )
+  if (!service) return null
+
+  const range = parseRange(rangeParam)
+  const to = Date.now()
+  const from = to - range.ms
+  const samples = getSamples(service.name, from)
+
+  return {
+    name: service.name,
+    range: range.label,
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+    samples: samples.length,
+    uptime: uptimeOf(samples),
+    latency: latencyOf(samples),
+    outages: outagesOf(samples),
+    series: bucketize(samples, from, to, buckets),
+  }
+}
+
+export function pruneHistory() {
+  ensureSchema()
+  const cutoff = Date.now() - RETENTION_DAYS * DAY_MS
+  getDb().prepare('DELETE FROM health_samples WHERE ts < ?').run(cutoff)
+}
+
+// The live collector probes more often than history needs, so only every
+// SAMPLE_INTERVAL_MS is kept. Half a live interval of slack stops timer drift
+// from skipping a whole interval.
+let lastRecordedAt = 0
+
+function recordHealthSample(services: ServiceHealthSnapshot[], timestamp: number) {
+  if (timestamp - lastRecordedAt < SAMPLE_INTERVAL_MS - LIVE_INTERVALS.health / 2) return
+  lastRecordedAt = timestamp
+
+  const samples = services.map((service) => ({
+    service: service.name,
+    timestamp,
+    status: service.status,
+    latency: service.latency ?? null,
+    message: service.message ?? null,
+  }))
+  recordSamples(samples)
+
+  for (const listener of sampleListeners) {
+    try {
+      listener(samples)
+    } catch (err) {
+      console.error('Health history listener failed:', err)
+    }
+  }
+}
+
+let unsubscribeHealth: (() => void) | null = null
+let pruneTimer: NodeJS.Timeout | null = null
+
+export function startHealthSampler() {
+  if (unsubscribeHealth) return
+  ensureSchema()
+
+  unsubscribeHealth = onHealthSample(recordHealthSample)
+  pruneHistory()
+  pruneTimer = setInterval(pruneHistory, PRUNE_INTERVAL_MS)
+}
+
+export function stopHealthSampler() {
+  unsubscribeHealth?.()
+  unsubscribeHealth = null
+  if (pruneTimer) clearInterval(pruneTimer)
+  pruneTimer = null
+}
@@ -0,0 +1,199 @@
+import { checkServiceHealth, type HealthCheckResult } from './healthChecks'
+import { GPU_SAMPLE_INTERVAL_MS, onGPUStatus } from './gpuHistory'
+import { getProcesses } from './processInfo'
+import { getHealthCheckServices } from './serviceRegistry'
+
+// Samples health and processes once on a schedule (GPU rides on the GPU
+// history sampler) and fans the results out to every live subscriber, so
+// adding browser tabs doesn't multiply probes. Health history records from
+// the same health samples. Keyed topics publish deltas:
+// only the entries whose JSON changed since the previous sample, plus the
+// keys that disappeared.
+
+const HEALTH_INTERVAL_MS = parseInt(process.env.LIVE_HEALTH_INTERVAL_MS || '5000', 10)
+const PROCESSES_INTERVAL_MS = parseInt(process.env.LIVE_PROCESSES_INTERVAL_MS || '10000', 10)
+
+export const LIVE_TOPICS = ['health', 'gpu', 'processes'] as const
+export type LiveTopic = (typeof LIVE_TOPICS)[number]
+
+export const LIVE_INTERVALS: Record<LiveTopic, number> = {
+  health: HEALTH_INTERVAL_MS,
+  gpu: GPU_SAMPLE_INTERVAL_MS,
+  processes: PROCESSES_INTERVAL_MS,
+}
+
+export interface ServiceHealthSnapshot extends HealthCheckResult {
+  name: string
+  port: number
+  lastCheck: string
+}
+
+export type LiveMessage =
+  | { topic: LiveTopic; type: 'snapshot'; version: number; timestamp: string; data: unknown }
+  | { topic: LiveTopic; type: 'delta'; version: number; timestamp: string; upserts: unknown[]; removed: string[] }
+
+interface TopicState {
+  version: number
+  value: unknown
+  updatedAt: number
+  items: Map<string, string> | null // key -> fingerprint, for keyed topics
+}
+
+// List topics are keyed by name; GPU status is one object and always replaced
+const topicKeys: Record<LiveTopic, ((item: any) => string) | null> = {
+  health: (service: ServiceHealthSnapshot) => service.name,
+  gpu: null,
+  processes: (process: { name: string }) => process.name,
+}
+
+// Fields that change on every sample and would otherwise turn each tick into a delta
+const ignoredFields: Partial<Record<LiveTopic, string[]>> = {
+  health: ['lastCheck'],
+}
+
+function fingerprint(topic: LiveTopic, item: unknown): string {
+  const ignored = ignoredFields[topic]
+  return JSON.stringify(item, ignored ? (key, value) => (ignored.includes(key) ? undefined : value) : undefined)
+}
+
+const topics = new Map<LiveTopic, TopicState>()
+const listeners = new Set<(message: LiveMessage) => void>()
+const healthListeners = new Set<(services: ServiceHealthSnapshot[], timestamp: number) => void>()
+
+export function isLiveTopic(value: string): value is LiveTopic {
+  return (LIVE_TOPICS as readonly string[]).includes(value)
+}
+
+export function onLiveMessage(listener: (message: LiveMessage) => void): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+// Called with every scheduled health sample; returns an unsubscribe function
+export function onHealthSample(
+  listener: (services: ServiceHealthSnapshot[], timestamp: number) => void
+): () => void {
+  healthListeners.add(listener)
+  return () => healthListeners.delete(listener)
+}
+
+export function getLiveSnapshot(topic: LiveTopic): LiveMessage | null {
+  const state = topics.get(topic)
+  if (!state) return null
+  return {
+    topic,
+    type: 'snapshot',
+    version: state.version,
+    timestamp: new Date(state.updatedAt).toISOString(),
+    data: state.value,
+  }
+}
+
+// The latest sample unless it missed a couple of intervals, for endpoints
+// that would otherwise re-run the same probes per request
+export function getLiveValue<T>(topic: LiveTopic): T | null {
+  const state = topics.get(topic)
+  return state && Date.now() - state.updatedAt < 2 * LIVE_INTERVALS[topic] ? (state.value as T) : null
+}
+
+export function publishLive(topic: LiveTopic, value: unknown, now = Date.now()) {
+  const previous = topics.get(topic)
+  const keyOf = topicKeys[topic]
+  let message: LiveMessage | null = null
+  let items: Map<string, string> | null = null
+
+  if (keyOf && Array.isArray(value)) {
+    items = new Map(value.map((item) => [keyOf(item), fingerprint(topic, item)]))
+    const upserts = value.filter((item) => previous?.items?.get(keyOf(item)) !== items!.get(keyOf(item)))
+    const removed = Array.from(previous?.items?.keys() ?? []).filter((key) => !items!.has(key))
+    if (!previous || upserts.length > 0 || removed.length > 0) {
+      const version = (previous?.version ?? 0) + 1
+      const timestamp = new Date(now).toISOString()
+      message = previous
+        ? { topic, type: 'delta', version, timestamp, upserts, removed }
+        : { topic, type: 'snapshot', version, timestamp, data: value }
+    }
+  } else if (!previous || fingerprint(topic, previous.value) !== fingerprint(topic, value)) {
+    const version = (previous?.version ?? 0) + 1
+    message = { topic, type: 'snapshot', version, timestamp: new Date(now).toISOString(), data: value }
+  }
+
+  topics.set(topic, {
+    version: message?.version ?? previous!.version,
+    value,
+    updatedAt: now,
+    items,
+  })
+  if (!message) return
+
+  for (const listener of listeners) {
+    try {
+      listener(message)
+    } catch (err) {
+      console.error('Live state listener failed:', err)
+    }
+  }
+}
+
+export async function collectHealth(): Promise<ServiceHealthSnapshot[]> {
+  return Promise.all(
+    getHealthCheckServices().map(async (service) => {
+      const check = await checkServiceHealth(service)
+      return {
+        name: service.name,
+        port: service.port,
+        ...check,
+        lastCheck: new Date().toISOString(),
+      }
+    })
+  )
+}
+
+async function sampleHealth(): Promise<ServiceHealthSnapshot[]> {
+  const timestamp = Date.now()
+  const services = await collectHealth()
+  for (const listener of healthListeners) {
+    try {
+      listener(services, timestamp)
+    } catch (err) {
+      console.error('Health sample listener failed:', err)
+    }
+  }
+  return services
+}
+
+// Skips a tick while the previous one is still running (slow probes)
+function schedule(topic: LiveTopic, collect: () => Promise<unknown>, intervalMs: number): NodeJS.Timeout {
+  let running = false
+  const tick = () => {
+    if (running) return
+    running = true
+    collect()
+      .then((value) => publishLive(topic, value))
+      .catch((err) => console.error(`Live ${topic} sample failed:`, err))
+      .finally(() => {
+        running = false
+      })
+  }
+  tick()
+  return setInterval(tick, intervalMs)
+}
+
+let timers: NodeJS.Timeout[] = []
+let unsubscribeGPU: (() => void) | null = null
+
+export function startLiveCollector() {
+  if (timers.length > 0) return
+  timers = [
+    schedule('health', sampleHealth, LIVE_INTERVALS.health),
+    schedule('processes', getProcesses, LIVE_INTERVALS.processes),
+  ]
+  unsubscribeGPU = onGPUStatus((status, timestamp) => publishLive('gpu', status, timestamp))
+}
+
+export function stopLiveCollector() {
+  timers.forEach(clearInterval)
+  timers = []
+  unsubscribeGPU?.()
+  unsubscribeGPU = null
+}
@@ -0,0 +1,68 @@
+import { MEMOS_BASE_URL } from '../../config/ports'
+
+// memOS owns the LLM model configuration; the dashboard only proxies it.
+
+export class MemosApiError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message)
+    this.name = 'MemosApiError'
+  }
+}
+
+async function memosRequest(path: string, init: RequestInit = {}): Promise<Response> {
+  let response: Response
+  try {
+    response = await fetch(`${MEMOS_BASE_URL}${path}`, { signal: AbortSignal.timeout(5000), ...init })
+  } catch (err) {
+    throw new MemosApiError(`memOS not available: ${(err as Error).message}`, 503)
+  }
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => response.statusText)
+    throw new MemosApiError(`memOS returned ${response.status}: ${errorText}`, response.status)
+  }
+  return response
+}
+
+// The full config as memOS currently holds it in memory
+export async function fetchLLMConfig(): Promise<unknown> {
+  const response = await memosRequest('/api/v1/config/llm-models')
+  return response.json()
+}
+
+// The YAML file; memOS may wrap it as {success, data: {content}}
+export async function fetchRawLLMConfig(): Promise<string> {
+  const text = await (await memosRequest('/api/v1/config/llm-models/raw')).text()
+  try {
+    const json = JSON.parse(text)
+    if (typeof json?.data?.content === 'string') return json.data.content
+    if (typeof json?.content === 'string') return json.content
+  } catch {
+    // Plain YAML
+  }
+  return text
+}
+
+// Changes one stage's settings, e.g. path "pipeline.analyzer" with {model}
+export async function updateLLMModel(path: string, changes: Record<string, unknown>): Promise<unknown> {
+  const response = await memosRequest('/api/v1/config/llm-models', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ path, ...changes }),
+  })
+  return response.json()
+}
+
+export async function putRawLLMConfig(yaml: string): Promise<unknown> {
+  const response = await memosRequest('/api/v1/config/llm-models/raw', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'text/yaml' },
+    body: yaml,
+  })
+  return response.json()
+}
+
+// Writes the in-memory config back to the YAML file
+export async function saveLLMConfigFile(): Promise<unknown> {
+  const response = await memosRequest('/api/v1/config/llm-models/save', { method: 'POST' })
+  return response.json()
+}
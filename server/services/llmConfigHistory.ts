@@ -0,0 +1,173 @@
+import { createHash } from 'crypto'
+import { getDb } from '../db'
+import { fetchRawLLMConfig } from './llmConfig'
+
+// Every LLM config YAML the dashboard writes to memOS, so any earlier
+// version can be compared or pushed back. Consecutive identical contents
+// are stored once.
+
+// Above this many line pairs the diff gives up on alignment and shows a full replace
+const MAX_DIFF_CELLS = 4_000_000
+
+export type ConfigVersionSource = 'baseline' | 'save' | 'raw' | 'rollback'
+
+export interface ConfigVersion {
+  id: number
+  hash: string
+  author: string
+  message: string | null
+  source: ConfigVersionSource
+  createdAt: string
+  lines: number
+}
+
+export interface ConfigVersionWithContent extends ConfigVersion {
+  content: string
+}
+
+export interface DiffLine {
+  type: 'same' | 'add' | 'remove'
+  text: string
+  oldLine: number | null
+  newLine: number | null
+}
+
+let initialized = false
+
+function ensureSchema() {
+  if (initialized) return
+  getDb().exec(`
+    CREATE TABLE IF NOT EXISTS llm_config_versions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      hash TEXT NOT NULL,
+      content TEXT NOT NULL,
+      author TEXT NOT NULL,
+      message TEXT,
+      source TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+  `)
+  initialized = true
+}
+
+interface VersionRow {
+  id: number
+  hash: string
+  content: string
+  author: string
+  message: string | null
+  source: ConfigVersionSource
+  created_at: number
+}
+
+function toVersion(row: VersionRow): ConfigVersion {
+  return {
+    id: row.id,
+    hash: row.hash,
+    author: row.author,
+    message: row.message,
+    source: row.source,
+    createdAt: new Date(row.created_at).toISOString(),
+    lines: row.content.split('\n').length,
+  }
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+export function listConfigVersions(): ConfigVersion[] {
+  ensureSchema()
+  const rows = getDb().prepare('SELECT * FROM llm_config_versions ORDER BY id DESC').all() as VersionRow[]
+  return rows.map(toVersion)
+}
+
+export function getConfigVersion(id: number): ConfigVersionWithContent | null {
+  ensureSchema()
+  const row = getDb().prepare('SELECT * FROM llm_config_versions WHERE id = ?').get(id) as VersionRow | undefined
+  return row ? { ...toVersion(row), content: row.content } : null
+}
+
+// Returns the latest version instead of adding a row when the content is unchanged
+export function recordConfigVersion(input: {
+  content: string
+  author: string
+  message?: string | null
+  source: ConfigVersionSource
+}): ConfigVersion {
+  ensureSchema()
+  const db = getDb()
+  const hash = hashContent(input.content)
+  const latest = db.prepare('SELECT * FROM llm_config_versions ORDER BY id DESC LIMIT 1').get() as VersionRow | undefined
+  if (latest?.hash === hash) return toVersion(latest)
+
+  const { lastInsertRowid } = db
+    .prepare(
+      'INSERT INTO llm_config_versions (hash, content, author, message, source, created_at) VALUES (?, ?, ?, ?, ?, ?)'
+    )
+    .run(hash, input.content, input.author, input.message?.trim() || null, input.source, Date.now())
+  return toVersion(db.prepare('SELECT * FROM llm_config_versions WHERE id = ?').get(lastInsertRowid) as VersionRow)
+}
+
+// Keeps the file as it was before the dashboard first changed it, so the
+// very first write can be rolled back too
+export async function captureBaseline() {
+  ensureSchema()
+  const { count } = getDb().prepare('SELECT COUNT(*) AS count FROM llm_config_versions').get() as { count: number }
+  if (count > 0) return
+  recordConfigVersion({
+    content: await fetchRawLLMConfig(),
+    author: 'system',
+    message: 'Config before the first change made through the dashboard',
+    source: 'baseline',
+  })
+}
+
+// Line diff via longest common subsequence, trimming the shared head and tail first
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n')
+  const b = after.split('\n')
+
+  let head = 0
+  while (head < a.length && head < b.length && a[head] === b[head]) head++
+  let tail = 0
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++
+
+  const midA = a.slice(head, a.length - tail)
+  const midB = b.slice(head, b.length - tail)
+  const result: DiffLine[] = []
+  const same = (i: number, j: number) => result.push({ type: 'same', text: a[i]!, oldLine: i + 1, newLine: j + 1 })
+
+  for (let i = 0; i < head; i++) same(i, i)
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    midA.forEach((text, i) => result.push({ type: 'remove', text, oldLine: head + i + 1, newLine: null }))
+    midB.forEach((text, j) => result.push({ type: 'add', text, oldLine: null, newLine: head + j + 1 }))
+  } else {
+    // lcs[i][j] = common subsequence length of midA[i..] and midB[j..]
+    const cols = midB.length + 1
+    const lcs = new Uint32Array((midA.length + 1) * cols)
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * cols + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * cols + j + 1]! + 1
+          : Math.max(lcs[(i + 1) * cols + j]!, lcs[i * cols + j + 1]!)
+      }
+    }
+
+    let i = 0
+    let j = 0
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        same(head + i++, head + j++)
+      } else if (i < midA.length && (j === midB.length || lcs[(i + 1) * cols + j]! >= lcs[i * cols + j + 1]!)) {
+        result.push({ type: 'remove', text: midA[i]!, oldLine: head + i++ + 1, newLine: null })
+      } else {
+        result.push({ type: 'add', text: midB[j]!, oldLine: null, newLine: head + j++ + 1 })
+      }
+    }
+  }
+
+  for (let k = tail; k > 0; k--) same(a.length - k, b.length - k)
+  return result
+}
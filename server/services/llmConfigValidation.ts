@@ -0,0 +1,185 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import Ajv, { type ErrorObject, type ValidateFunction } from 'ajv'
+import { isMap, isScalar, LineCounter, parseDocument, type Document, type Node, type Pair } from 'yaml'
+
+// Checks llm_models.yaml before it is forwarded to memOS: YAML syntax first,
+// then config/llm-models.schema.json, then rules a JSON schema can't express.
+// Every issue carries the line/column range of the offending node.
+
+export const LLM_CONFIG_SCHEMA_PATH =
+  process.env.LLM_CONFIG_SCHEMA_PATH || join(process.cwd(), 'config', 'llm-models.schema.json')
+
+// Sections whose keys are stage/task names mapped to a model config
+const STAGE_SECTIONS = ['pipeline', 'utility', 'corpus'] as const
+
+export interface ConfigIssue {
+  severity: 'error' | 'warning'
+  message: string
+  path: string | null
+  line: number
+  column: number
+  endLine: number
+  endColumn: number
+}
+
+export interface ConfigValidationResult {
+  valid: boolean
+  issues: ConfigIssue[]
+}
+
+interface SchemaNode {
+  properties?: Record<string, SchemaNode>
+  [key: string]: unknown
+}
+
+let schema: SchemaNode | null = null
+let validator: ValidateFunction | null = null
+
+export function getLLMConfigSchema(): SchemaNode {
+  if (!schema) schema = JSON.parse(readFileSync(LLM_CONFIG_SCHEMA_PATH, 'utf-8')) as SchemaNode
+  return schema
+}
+
+function getValidator(): ValidateFunction {
+  if (!validator) validator = new Ajv({ allErrors: true, strict: false }).compile(getLLMConfigSchema())
+  return validator
+}
+
+// Stage names the schema lists for each section
+export function getKnownStages(): Record<string, string[]> {
+  const properties = getLLMConfigSchema().properties ?? {}
+  return Object.fromEntries(STAGE_SECTIONS.map((section) => [section, Object.keys(properties[section]?.properties ?? {})]))
+}
+
+type Range = [number, number]
+
+function findPair(node: unknown, key: string): Pair<Node, Node> | undefined {
+  if (!isMap(node)) return undefined
+  return node.items.find((pair) => isScalar(pair.key) && String(pair.key.value) === key) as Pair<Node, Node> | undefined
+}
+
+// Source range of the value at `path`, or of its key with `keyOnly`. Falls
+// back to the deepest node that exists so the marker still lands nearby.
+function locate(doc: Document, path: string[], keyOnly = false): Range {
+  let node: unknown = doc.contents
+  let range: Range = [0, 0]
+  const rangeOf = (n: unknown): Range | null => {
+    const r = (n as Node | null)?.range
+    return r ? [r[0], r[1]] : null
+  }
+  range = rangeOf(node) ?? range
+
+  for (let i = 0; i < path.length; i++) {
+    const pair = findPair(node, path[i]!)
+    if (!pair) break
+    const last = i === path.length - 1
+    range = (last && keyOnly ? rangeOf(pair.key) : rangeOf(pair.value) ?? rangeOf(pair.key)) ?? range
+    node = pair.value
+  }
+  return range
+}
+
+function toIssue(
+  lineCounter: LineCounter,
+  severity: ConfigIssue['severity'],
+  message: string,
+  path: string | null,
+  [start, end]: Range
+): ConfigIssue {
+  const from = lineCounter.linePos(start)
+  const to = lineCounter.linePos(Math.max(end, start))
+  return { severity, message, path, line: from.line, column: from.col, endLine: to.line, endColumn: to.col }
+}
+
+function splitPointer(pointer: string): string[] {
+  return pointer
+    .split('/')
+    .slice(1)
+    .map((s) => s.replace(/~1/g, '/').replace(/~0/g, '~'))
+}
+
+function describeSchemaError(error: ErrorObject): string {
+  switch (error.keyword) {
+    case 'required':
+      return `missing required key "${error.params.missingProperty}"`
+    case 'pattern':
+      return 'is not a valid model name (expected something like qwen3:8b)'
+    case 'type':
+      return `must be ${Array.isArray(error.params.type) ? error.params.type.join(' or ') : error.params.type}`
+    default:
+      return error.message ?? 'is invalid'
+  }
+}
+
+function semanticIssues(
+  config: Record<string, unknown>,
+  issue: (severity: ConfigIssue['severity'], message: string, path: string[], keyOnly?: boolean) => void
+) {
+  const known = getKnownStages()
+
+  for (const section of STAGE_SECTIONS) {
+    const stages = config[section]
+    if (typeof stages !== 'object' || stages === null) continue
+
+    for (const [stage, value] of Object.entries(stages as Record<string, unknown>)) {
+      if (known[section]!.length > 0 && !known[section]!.includes(stage)) {
+        issue('warning', `"${stage}" is not a ${section} stage the dashboard knows`, [section, stage], true)
+      }
+      const { max_tokens, context_window } = (value ?? {}) as { max_tokens?: unknown; context_window?: unknown }
+      if (typeof max_tokens === 'number' && typeof context_window === 'number' && max_tokens > context_window) {
+        issue('error', `max_tokens (${max_tokens}) exceeds context_window (${context_window})`, [section, stage, 'max_tokens'])
+      }
+    }
+  }
+
+  // Preset entries should name stages defined in this file
+  const presets = config.presets
+  if (typeof presets === 'object' && presets !== null) {
+    const defined = new Set(
+      STAGE_SECTIONS.flatMap((section) => Object.keys((config[section] as Record<string, unknown> | undefined) ?? {}))
+    )
+    for (const [preset, assignments] of Object.entries(presets as Record<string, unknown>)) {
+      if (typeof assignments !== 'object' || assignments === null) continue
+      for (const stage of Object.keys(assignments)) {
+        if (!defined.has(stage)) {
+          issue('warning', `preset "${preset}" sets "${stage}", which no section defines`, ['presets', preset, stage], true)
+        }
+      }
+    }
+  }
+}
+
+export function validateLLMConfigYaml(text: string): ConfigValidationResult {
+  const lineCounter = new LineCounter()
+  const doc = parseDocument(text, { lineCounter, prettyErrors: false, uniqueKeys: true })
+  const issues: ConfigIssue[] = []
+
+  for (const error of doc.errors) {
+    issues.push(toIssue(lineCounter, 'error', error.message, null, error.pos))
+  }
+  for (const warning of doc.warnings) {
+    issues.push(toIssue(lineCounter, 'warning', warning.message, null, warning.pos))
+  }
+
+  if (doc.errors.length === 0) {
+    const config = doc.toJS() as unknown
+    const issue = (severity: ConfigIssue['severity'], message: string, path: string[], keyOnly = false) => {
+      const dotted = path.join('.')
+      issues.push(toIssue(lineCounter, severity, `${dotted || 'config'}: ${message}`, dotted || null, locate(doc, path, keyOnly)))
+    }
+
+    const validate = getValidator()
+    if (!validate(config)) {
+      for (const error of validate.errors ?? []) {
+        issue('error', describeSchemaError(error), splitPointer(error.instancePath))
+      }
+    }
+    if (typeof config === 'object' && config !== null && !Array.isArray(config)) {
+      semanticIssues(config as Record<string, unknown>, issue)
+    }
+  }
+
+  issues.sort((a, b) => a.line - b.line || a.column - b.column)
+  return { valid: !issues.some((i) => i.severity === 'error'), issues }
+}
@@ -0,0 +1,306 @@
+import { parseDocument, stringify } from 'yaml'
+import { getDb } from '../db'
+import { fetchLLMConfig, MemosApiError, updateLLMModel } from './llmConfig'
+
+// Presets authored in the dashboard. memOS only knows the presets in its
+// YAML file; these live here and are applied stage by stage through the
+// regular model update call. Both kinds map stage names to model names.
+
+const STAGE_SECTIONS = ['pipeline', 'utility', 'corpus'] as const
+const NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/
+// Same shape as definitions.modelName in config/llm-models.schema.json
+const MODEL_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._/-]*(:[A-Za-z0-9._-]+)?$/
+
+export interface CustomPreset {
+  name: string
+  description: string | null
+  models: Record<string, string>
+  createdBy: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface PresetInput {
+  name: string
+  description?: string | null
+  models: Record<string, string>
+}
+
+// One stage a preset would change, resolved against the live config
+export interface PresetAssignment {
+  stage: string
+  section: string | null
+  path: string | null
+  current: string | null
+  next: string
+  changed: boolean
+}
+
+// Carries the HTTP status the route should answer with
+export class PresetError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'PresetError'
+  }
+}
+
+let initialized = false
+
+function ensureSchema() {
+  if (initialized) return
+  getDb().exec(`
+    CREATE TABLE IF NOT EXISTS llm_custom_presets (
+      name TEXT PRIMARY KEY,
+      description TEXT,
+      models TEXT NOT NULL,
+      created_by TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+  `)
+  initialized = true
+}
+
+interface PresetRow {
+  name: string
+  description: string | null
+  models: string
+  created_by: string
+  created_at: number
+  updated_at: number
+}
+
+function toPreset(row: PresetRow): CustomPreset {
+  return {
+    name: row.name,
+    description: row.description,
+    models: JSON.parse(row.models),
+    createdBy: row.created_by,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+  }
+}
+
+function validatePresetInput(input: unknown): PresetInput {
+  const errors: string[] = []
+  const value = (input ?? {}) as Partial<PresetInput>
+
+  if (typeof value.name !== 'string' || !NAME_PATTERN.test(value.name)) {
+    errors.push('name: letters, digits, "_" and "-" only (max 64 characters)')
+  }
+  if (value.description != null && typeof value.description !== 'string') {
+    errors.push('description: must be a string')
+  }
+  if (typeof value.models !== 'object' || value.models === null || Array.isArray(value.models)) {
+    errors.push('models: must map stage names to model names')
+  } else {
+    const entries = Object.entries(value.models)
+    if (entries.length === 0) errors.push('models: at least one stage is required')
+    for (const [stage, model] of entries) {
+      if (typeof model !== 'string' || !MODEL_PATTERN.test(model)) {
+        errors.push(`models.${stage}: "${String(model)}" is not a valid model name`)
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new PresetError(`Invalid preset:\n${errors.join('\n')}`, 400)
+  }
+  return {
+    name: value.name!,
+    description: value.description?.trim() || null,
+    models: value.models!,
+  }
+}
+
+export function listCustomPresets(): CustomPreset[] {
+  ensureSchema()
+  const rows = getDb().prepare('SELECT * FROM llm_custom_presets ORDER BY name').all() as PresetRow[]
+  return rows.map(toPreset)
+}
+
+export function getCustomPreset(name: string): CustomPreset | null {
+  ensureSchema()
+  const row = getDb().prepare('SELECT * FROM llm_custom_presets WHERE name = ?').get(name) as PresetRow | undefined
+  return row ? toPreset(row) : null
+}
+
+function writePreset(preset: PresetInput, author: string) {
+  const now = Date.now()
+  getDb()
+    .prepare(
+      `INSERT INTO llm_custom_presets (name, description, models, created_by, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(name) DO UPDATE SET description = excluded.description, models = excluded.models, updated_at = excluded.updated_at`
+    )
+    .run(preset.name, preset.description ?? null, JSON.stringify(preset.models), author, now, now)
+}
+
+export function createCustomPreset(input: unknown, author: string): CustomPreset {
+  const preset = validatePresetInput(input)
+  if (getCustomPreset(preset.name)) {
+    throw new PresetError(`Preset "${preset.name}" already exists`, 409)
+  }
+  writePreset(preset, author)
+  return getCustomPreset(preset.name)!
+}
+
+// Renaming is allowed as long as the new name is free
+export function updateCustomPreset(name: string, input: unknown, author: string): CustomPreset {
+  const existing = getCustomPreset(name)
+  if (!existing) throw new PresetError(`Preset "${name}" not found`, 404)
+  const preset = validatePresetInput({ name, ...(input as object) })
+
+  const db = getDb()
+  db.transaction(() => {
+    if (preset.name !== name) {
+      if (getCustomPreset(preset.name)) throw new PresetError(`Preset "${preset.name}" already exists`, 409)
+      db.prepare('UPDATE llm_custom_presets SET name = ? WHERE name = ?').run(preset.name, name)
+    }
+    writePreset(preset, author)
+  })()
+  return getCustomPreset(preset.name)!
+}
+
+export function deleteCustomPreset(name: string) {
+  ensureSchema()
+  const { changes } = getDb().prepare('DELETE FROM llm_custom_presets WHERE name = ?').run(name)
+  if (changes === 0) throw new PresetError(`Preset "${name}" not found`, 404)
+}
+
+// ============================================================================
+// Applying
+// ============================================================================
+
+type ConfigSections = Partial<Record<(typeof STAGE_SECTIONS)[number], Record<string, { model?: string }>>>
+
+async function fetchConfigSections(): Promise<ConfigSections> {
+  const json = (await fetchLLMConfig()) as { data?: ConfigSections } & ConfigSections
+  return json.data ?? json
+}
+
+// A stage name is looked up in pipeline, then utility, then corpus
+export async function resolvePresetAssignments(models: Record<string, string>): Promise<PresetAssignment[]> {
+  const config = await fetchConfigSections()
+  return Object.entries(models).map(([stage, next]) => {
+    const section = STAGE_SECTIONS.find((s) => config[s] && stage in config[s]!) ?? null
+    const current = section ? config[section]![stage]?.model ?? null : null
+    return {
+      stage,
+      section,
+      path: section ? `${section}.${stage}` : null,
+      current,
+      next,
+      changed: current !== next,
+    }
+  })
+}
+
+// Nothing is changed when any stage is unknown to the live config. Stages
+// are set one at a time; if memOS rejects one, the stages already set are
+// put back, and the error names any it could not restore.
+export async function applyCustomPreset(name: string): Promise<{ preset: string; changes: Record<string, string> }> {
+  const preset = getCustomPreset(name)
+  if (!preset) throw new PresetError(`Preset "${name}" not found`, 404)
+
+  const assignments = await resolvePresetAssignments(preset.models)
+  const unknown = assignments.filter((a) => !a.path).map((a) => a.stage)
+  if (unknown.length > 0) {
+    throw new PresetError(`Preset "${name}" sets stages the current config doesn't have: ${unknown.join(', ')}`, 400)
+  }
+
+  const changes: Record<string, string> = {}
+  const applied: PresetAssignment[] = []
+  for (const assignment of assignments.filter((a) => a.changed)) {
+    try {
+      await updateLLMModel(assignment.path!, { model: assignment.next })
+    } catch (err) {
+      const unrestored = await restoreAssignments(applied)
+      const status = err instanceof MemosApiError ? err.statusCode : 502
+      let message = `Failed to set ${assignment.path} for preset "${name}": ${(err as Error).message}`
+      if (unrestored.length > 0) message += `. Still changed: ${unrestored.join(', ')}`
+      else if (applied.length > 0) message += `. Restored ${applied.map((a) => a.path).join(', ')}`
+      throw new PresetError(message, status)
+    }
+    applied.push(assignment)
+    changes[assignment.path!] = assignment.next
+  }
+  return { preset: name, changes }
+}
+
+// Puts back the models stages had before a failed apply; returns the paths
+// that could not be restored
+async function restoreAssignments(applied: PresetAssignment[]): Promise<string[]> {
+  const unrestored: string[] = []
+  for (const assignment of applied.slice().reverse()) {
+    try {
+      if (assignment.current === null) throw new Error('no previous model')
+      await updateLLMModel(assignment.path!, { model: assignment.current })
+    } catch {
+      unrestored.push(assignment.path!)
+    }
+  }
+  return unrestored
+}
+
+// ============================================================================
+// Import / export
+// ============================================================================
+
+// presets: {<name>: {description, models: {<stage>: <model>}}}
+export function exportPresetsYaml(names?: string[]): string {
+  const presets = listCustomPresets().filter((p) => !names || names.includes(p.name))
+  const body = Object.fromEntries(
+    presets.map((p) => [p.name, p.description ? { description: p.description, models: p.models } : { models: p.models }])
+  )
+  return `# LLM presets exported from the dashboard on ${new Date().toISOString()}\n${stringify({ presets: body })}`
+}
+
+export interface ImportResult {
+  imported: string[]
+  skipped: string[]
+}
+
+// Also accepts the memOS layout, where each preset maps stages to models
+// directly, so the presets section of llm_models.yaml can be imported as is
+export function importPresetsYaml(text: string, author: string, overwrite: boolean): ImportResult {
+  const doc = parseDocument(text, { prettyErrors: false })
+  if (doc.errors.length > 0) {
+    throw new PresetError(`Invalid YAML: ${doc.errors[0]!.message}`, 400)
+  }
+  const presets = (doc.toJS() as { presets?: unknown } | null)?.presets
+  if (typeof presets !== 'object' || presets === null || Array.isArray(presets)) {
+    throw new PresetError('Expected a top-level "presets" mapping', 400)
+  }
+
+  const errors: string[] = []
+  const valid: PresetInput[] = []
+  for (const [name, entry] of Object.entries(presets as Record<string, unknown>)) {
+    const value = (entry ?? {}) as { description?: unknown; models?: unknown }
+    const input = typeof value.models === 'object'
+      ? { name, description: value.description, models: value.models }
+      : { name, models: entry }
+    try {
+      valid.push(validatePresetInput(input))
+    } catch (err) {
+      errors.push(`${name}: ${(err as Error).message.replace('Invalid preset:\n', '').split('\n').join('; ')}`)
+    }
+  }
+  if (errors.length > 0) {
+    throw new PresetError(`Invalid presets:\n${errors.join('\n')}`, 400)
+  }
+
+  ensureSchema()
+  const result: ImportResult = { imported: [], skipped: [] }
+  getDb().transaction(() => {
+    for (const preset of valid) {
+      if (!overwrite && getCustomPreset(preset.name)) {
+        result.skipped.push(preset.name)
+        continue
+      }
+      writePreset(preset, author)
+      result.imported.push(preset.name)
+    }
+  })()
+  return result
+}
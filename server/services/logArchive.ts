@@ -0,0 +1,223 @@
+import { getDb } from '../db'
+import type { LogEntry, LogLevel } from './logParsers'
+import { subscribeLogs } from './logTailer'
+
+// On-disk log archive: every tailed line is batched into SQLite with an
+// FTS5 index over the message, pruned by age and row count
+
+const RETENTION_DAYS = parseInt(process.env.LOG_ARCHIVE_RETENTION_DAYS || '14', 10)
+const MAX_ENTRIES = parseInt(process.env.LOG_ARCHIVE_MAX_ENTRIES || '1000000', 10)
+const FLUSH_INTERVAL_MS = 1000
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000
+const MAX_PAGE_SIZE = 500
+
+export interface LogSearchParams {
+  q?: string
+  from?: number
+  to?: number
+  sources?: string[]
+  levels?: LogLevel[]
+  limit?: number
+  offset?: number
+}
+
+export interface ArchivedLogEntry extends LogEntry {
+  id: number
+}
+
+export interface LogSearchResult {
+  entries: ArchivedLogEntry[]
+  total: number
+  limit: number
+  offset: number
+  facets: {
+    sources: Record<string, number>
+    levels: Record<string, number>
+  }
+}
+
+let initialized = false
+
+function ensureSchema() {
+  if (initialized) return
+  getDb().exec(`
+    CREATE TABLE IF NOT EXISTS log_entries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      ts INTEGER NOT NULL,
+      level TEXT NOT NULL,
+      source TEXT NOT NULL,
+      message TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_log_entries_ts ON log_entries (ts);
+    CREATE INDEX IF NOT EXISTS idx_log_entries_source_ts ON log_entries (source, ts);
+
+    CREATE VIRTUAL TABLE IF NOT EXISTS log_entries_fts USING fts5(
+      message,
+      content='log_entries',
+      content_rowid='id'
+    );
+
+    CREATE TRIGGER IF NOT EXISTS log_entries_ai AFTER INSERT ON log_entries BEGIN
+      INSERT INTO log_entries_fts (rowid, message) VALUES (new.id, new.message);
+    END;
+    CREATE TRIGGER IF NOT EXISTS log_entries_ad AFTER DELETE ON log_entries BEGIN
+      INSERT INTO log_entries_fts (log_entries_fts, rowid, message) VALUES ('delete', old.id, old.message);
+    END;
+  `)
+  initialized = true
+}
+
+// Quote every term so user input can't produce FTS syntax errors; a trailing * keeps prefix search
+export function toFtsQuery(q: string): string {
+  return q
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((term) => {
+      const prefix = term.endsWith('*')
+      const bare = (prefix ? term.slice(0, -1) : term).replace(/"/g, '""')
+      return bare ? `"${bare}"${prefix ? '*' : ''}` : ''
+    })
+    .filter(Boolean)
+    .join(' ')
+}
+
+export function archiveLogs(entries: LogEntry[]) {
+  if (entries.length === 0) return
+  ensureSchema()
+  const db = getDb()
+  const insert = db.prepare('INSERT INTO log_entries (ts, level, source, message) VALUES (?, ?, ?, ?)')
+  db.transaction((rows: LogEntry[]) => {
+    for (const entry of rows) {
+      insert.run(new Date(entry.timestamp).getTime(), entry.level, entry.source, entry.message)
+    }
+  })(entries)
+}
+
+function buildWhere(params: LogSearchParams, exclude?: 'sources' | 'levels') {
+  const clauses: string[] = []
+  const values: (string | number)[] = []
+
+  const fts = params.q ? toFtsQuery(params.q) : ''
+  if (fts) {
+    clauses.push('e.id IN (SELECT rowid FROM log_entries_fts WHERE log_entries_fts MATCH ?)')
+    values.push(fts)
+  }
+  if (params.from !== undefined) {
+    clauses.push('e.ts >= ?')
+    values.push(params.from)
+  }
+  if (params.to !== undefined) {
+    clauses.push('e.ts <= ?')
+    values.push(params.to)
+  }
+  if (exclude !== 'sources' && params.sources?.length) {
+    clauses.push(`e.source IN (${params.sources.map(() => '?').join(', ')})`)
+    values.push(...params.sources)
+  }
+  if (exclude !== 'levels' && params.levels?.length) {
+    clauses.push(`e.level IN (${params.levels.map(() => '?').join(', ')})`)
+    values.push(...params.levels)
+  }
+
+  return {
+    sql: clauses.length ? `WHERE ${clauses.join(' AND ')}` : '',
+    values,
+  }
+}
+
+function facetCounts(column: 'source' | 'level', params: LogSearchParams): Record<string, number> {
+  // Each facet ignores its own filter so the UI can show counts for the other options
+  const where = buildWhere(params, column === 'source' ? 'sources' : 'levels')
+  const rows = getDb()
+    .prepare(`SELECT e.${column} AS key, COUNT(*) AS count FROM log_entries e ${where.sql} GROUP BY e.${column}`)
+    .all(...where.values) as { key: string; count: number }[]
+  return Object.fromEntries(rows.map((r) => [r.key, r.count]))
+}
+
+export function searchLogs(params: LogSearchParams): LogSearchResult {
+  ensureSchema()
+  const db = getDb()
+  const limit = Math.min(Math.max(params.limit ?? 100, 1), MAX_PAGE_SIZE)
+  const offset = Math.max(params.offset ?? 0, 0)
+  const where = buildWhere(params)
+
+  const rows = db
+    .prepare(
+      `SELECT e.id, e.ts, e.level, e.source, e.message FROM log_entries e ${where.sql}
+       ORDER BY e.ts DESC, e.id DESC LIMIT ? OFFSET ?`
+    )
+    .all(...where.values, limit, offset) as { id: number; ts: number; level: LogLevel; source: string; message: string }[]
+
+  const { total } = db
+    .prepare(`SELECT COUNT(*) AS total FROM log_entries e ${where.sql}`)
+    .get(...where.values) as { total: number }
+
+  return {
+    entries: rows.map((r) => ({
+      id: r.id,
+      timestamp: new Date(r.ts).toISOString(),
+      level: r.level,
+      source: r.source,
+      message: r.message,
+    })),
+    total,
+    limit,
+    offset,
+    facets: {
+      sources: facetCounts('source', params),
+      levels: facetCounts('level', params),
+    },
+  }
+}
+
+export function pruneLogArchive() {
+  ensureSchema()
+  const db = getDb()
+  const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000
+  db.prepare('DELETE FROM log_entries WHERE ts < ?').run(cutoff)
+
+  const { count } = db.prepare('SELECT COUNT(*) AS count FROM log_entries').get() as { count: number }
+  if (count > MAX_ENTRIES) {
+    db.prepare(
+      'DELETE FROM log_entries WHERE id IN (SELECT id FROM log_entries ORDER BY ts ASC, id ASC LIMIT ?)'
+    ).run(count - MAX_ENTRIES)
+  }
+}
+
+let pending: LogEntry[] = []
+let unsubscribe: (() => void) | null = null
+let flushTimer: NodeJS.Timeout | null = null
+let pruneTimer: NodeJS.Timeout | null = null
+
+function flush() {
+  if (pending.length === 0) return
+  const batch = pending
+  pending = []
+  try {
+    archiveLogs(batch)
+  } catch (err) {
+    console.error('Failed to archive logs:', err)
+  }
+}
+
+export function startLogArchive() {
+  if (unsubscribe) return
+  ensureSchema()
+  pruneLogArchive()
+
+  unsubscribe = subscribeLogs({}, (entry) => {
+    pending.push(entry)
+  })
+  flushTimer = setInterval(flush, FLUSH_INTERVAL_MS)
+  pruneTimer = setInterval(pruneLogArchive, PRUNE_INTERVAL_MS)
+}
+
+export function stopLogArchive() {
+  unsubscribe?.()
+  unsubscribe = null
+  if (flushTimer) clearInterval(flushTimer)
+  if (pruneTimer) clearInterval(pruneTimer)
+  flushTimer = null
+  pruneTimer = null
+  flush()
+}
@@ -0,0 +1,123 @@
+import type { LogSourceType } from './serviceRegistry'
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export interface LogEntry {
+  timestamp: string
+  level: LogLevel
+  source: string
+  message: string
+}
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error']
+
+// Strip ANSI color codes emitted by uvicorn, docker-compose, etc.
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g
+
+// Upper-case level tokens are matched case-sensitively so prose like "no errors" stays info
+const LEVEL_PATTERNS: [RegExp, LogLevel][] = [
+  [/\b(ERROR|CRITICAL|FATAL|PANIC)\b|Traceback \(most recent call last\)/, 'error'],
+  [/level=(error|fatal|panic)\b|"level":\s*"(error|fatal|critical)"/i, 'error'],
+  [/\bWARN(ING)?\b/, 'warn'],
+  [/level=warn(ing)?\b|"level":\s*"warn(ing)?"/i, 'warn'],
+  [/\b(DEBUG|TRACE)\b/, 'debug'],
+  [/level=(debug|trace)\b|"level":\s*"(debug|trace)"/i, 'debug'],
+]
+
+// Leading timestamps seen in Python logging, Go services and ecosystem.sh
+const TIMESTAMP_PATTERNS: RegExp[] = [
+  /^\[?(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?)\]?\s*/,
+  /^time="([^"]+)"\s*/,
+]
+
+export function detectLevel(message: string): LogLevel {
+  for (const [pattern, level] of LEVEL_PATTERNS) {
+    // Only look at the head of the line so payloads mentioning "error" don't flip the level
+    if (pattern.test(message.slice(0, 200))) return level
+  }
+  return 'info'
+}
+
+function normalizeTimestamp(raw: string): string | null {
+  const date = new Date(raw.replace(',', '.').replace(' ', 'T'))
+  return isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+function journaldLevel(priority: unknown): LogLevel {
+  const value = parseInt(String(priority ?? '6'), 10)
+  if (value <= 3) return 'error'
+  if (value === 4) return 'warn'
+  if (value === 7) return 'debug'
+  return 'info'
+}
+
+// journalctl --output=json, one object per line
+export function parseJournaldLine(line: string, source: string): LogEntry | null {
+  try {
+    const entry = JSON.parse(line)
+    const message = Array.isArray(entry.MESSAGE)
+      ? Buffer.from(entry.MESSAGE).toString('utf8') // binary messages come as byte arrays
+      : String(entry.MESSAGE ?? '')
+    return {
+      timestamp: new Date(parseInt(entry.__REALTIME_TIMESTAMP) / 1000).toISOString(),
+      level: journaldLevel(entry.PRIORITY),
+      source,
+      message: message.replace(ANSI_PATTERN, ''),
+    }
+  } catch {
+    return null
+  }
+}
+
+// docker logs --timestamps prefixes every line with an RFC3339Nano timestamp
+export function parseDockerLine(line: string, source: string): LogEntry | null {
+  const clean = line.replace(ANSI_PATTERN, '')
+  if (!clean.trim()) return null
+
+  const match = /^(\d{4}-\d{2}-\d{2}T\S+)\s(.*)$/.exec(clean)
+  const timestamp = match ? normalizeTimestamp(match[1]!) : null
+  const message = match ? match[2]! : clean
+
+  return {
+    timestamp: timestamp ?? new Date().toISOString(),
+    level: detectLevel(message),
+    source,
+    message,
+  }
+}
+
+export function parseFileLine(line: string, source: string): LogEntry | null {
+  const clean = line.replace(ANSI_PATTERN, '')
+  if (!clean.trim()) return null
+
+  let timestamp: string | null = null
+  let message = clean
+  for (const pattern of TIMESTAMP_PATTERNS) {
+    const match = pattern.exec(clean)
+    if (match) {
+      timestamp = normalizeTimestamp(match[1]!)
+      if (timestamp) {
+        message = clean.slice(match[0].length)
+        break
+      }
+    }
+  }
+
+  return {
+    timestamp: timestamp ?? new Date().toISOString(),
+    level: detectLevel(message),
+    source,
+    message,
+  }
+}
+
+export function parseLogLine(type: LogSourceType, line: string, source: string): LogEntry | null {
+  switch (type) {
+    case 'journald':
+      return parseJournaldLine(line, source)
+    case 'docker':
+      return parseDockerLine(line, source)
+    case 'file':
+      return parseFileLine(line, source)
+  }
+}
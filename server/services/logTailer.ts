@@ -0,0 +1,200 @@
+import { spawn, type ChildProcess } from 'child_process'
+import { createInterface } from 'readline'
+import { EventEmitter } from 'events'
+import { parseLogLine, type LogEntry, type LogLevel } from './logParsers'
+import { getLogSources, onServiceRegistryChange, type LogSourceConfig } from './serviceRegistry'
+
+// Follows journald units, docker containers and plain log files and fans
+// parsed entries out to subscribers (SSE clients, the archive, ...)
+
+const RECENT_BUFFER_SIZE = 500
+const MIN_RESTART_DELAY_MS = 5000
+const MAX_RESTART_DELAY_MS = 60000
+
+export type TailerStatus = 'running' | 'restarting' | 'unavailable' | 'stopped'
+
+export interface LogSourceStatus extends LogSourceConfig {
+  status: TailerStatus
+  lastLineAt: string | null
+  lastError: string | null
+}
+
+export interface LogFilter {
+  sources?: string[]
+  levels?: LogLevel[]
+}
+
+interface Tailer {
+  config: LogSourceConfig
+  child: ChildProcess | null
+  status: TailerStatus
+  restartDelay: number
+  restartTimer: NodeJS.Timeout | null
+  lastLineAt: string | null
+  lastError: string | null
+}
+
+const emitter = new EventEmitter()
+emitter.setMaxListeners(0) // one listener per SSE client
+
+const tailers = new Map<string, Tailer>()
+const recent: LogEntry[] = []
+
+function commandFor(config: LogSourceConfig): [string, string[]] {
+  switch (config.type) {
+    case 'journald':
+      return ['journalctl', ['-u', config.target, '-f', '-n', '0', '--no-pager', '--output=json']]
+    case 'docker':
+      return ['docker', ['logs', '-f', '--tail', '0', '--timestamps', config.target]]
+    case 'file':
+      // -F keeps following across rotation and waits for files that don't exist yet
+      return ['tail', ['-F', '-n', '0', config.target]]
+  }
+}
+
+export function publishLog(entry: LogEntry) {
+  recent.push(entry)
+  if (recent.length > RECENT_BUFFER_SIZE) recent.shift()
+  emitter.emit('log', entry)
+}
+
+function handleLine(tailer: Tailer, line: string) {
+  const entry = parseLogLine(tailer.config.type, line, tailer.config.id)
+  if (!entry) return
+  tailer.lastLineAt = entry.timestamp
+  tailer.restartDelay = MIN_RESTART_DELAY_MS
+  publishLog(entry)
+}
+
+function scheduleRestart(tailer: Tailer) {
+  if (tailer.status === 'stopped') return
+  tailer.restartTimer = setTimeout(() => {
+    tailer.restartTimer = null
+    startTailer(tailer)
+  }, tailer.restartDelay)
+  tailer.restartDelay = Math.min(tailer.restartDelay * 2, MAX_RESTART_DELAY_MS)
+}
+
+function startTailer(tailer: Tailer) {
+  const [command, args] = commandFor(tailer.config)
+  const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] })
+  tailer.child = child
+  tailer.status = 'running'
+
+  createInterface({ input: child.stdout! }).on('line', (line) => handleLine(tailer, line))
+
+  // docker logs replays the container's stderr on our stderr; for the
+  // other tailers stderr only carries tool diagnostics
+  createInterface({ input: child.stderr! }).on('line', (line) => {
+    if (tailer.config.type === 'docker' && !line.startsWith('Error response from daemon')) {
+      handleLine(tailer, line)
+    } else {
+      tailer.lastError = line
+    }
+  })
+
+  child.on('error', (err) => {
+    // Spawn failures (binary missing) land here before 'close'
+    tailer.lastError = err.message
+    tailer.status = 'unavailable'
+    tailer.restartDelay = MAX_RESTART_DELAY_MS
+  })
+
+  child.on('close', (code) => {
+    tailer.child = null
+    if (tailer.status === 'stopped') return
+    if (tailer.status !== 'unavailable') {
+      tailer.status = 'restarting'
+      if (code !== 0 && !tailer.lastError) tailer.lastError = `exited with code ${code}`
+    }
+    scheduleRestart(tailer)
+  })
+}
+
+function stopTailer(tailer: Tailer) {
+  tailer.status = 'stopped'
+  if (tailer.restartTimer) clearTimeout(tailer.restartTimer)
+  tailer.child?.kill()
+}
+
+function sameSource(a: LogSourceConfig, b: LogSourceConfig): boolean {
+  return a.type === b.type && a.target === b.target && a.label === b.label
+}
+
+// Start tailers for new sources, stop removed ones and restart changed ones
+function syncLogTailers(sources: LogSourceConfig[]) {
+  const wanted = new Map(sources.map((s) => [s.id, s]))
+  for (const [id, tailer] of tailers) {
+    const next = wanted.get(id)
+    if (!next || !sameSource(tailer.config, next)) {
+      stopTailer(tailer)
+      tailers.delete(id)
+    }
+  }
+  startLogTailers(sources)
+}
+
+let unsubscribeRegistry: (() => void) | null = null
+
+export function startLogTailers(sources: LogSourceConfig[] = getLogSources()) {
+  if (!unsubscribeRegistry) {
+    unsubscribeRegistry = onServiceRegistryChange(() => syncLogTailers(getLogSources()))
+  }
+
+  for (const config of sources) {
+    if (tailers.has(config.id)) continue
+    const tailer: Tailer = {
+      config,
+      child: null,
+      status: 'restarting',
+      restartDelay: MIN_RESTART_DELAY_MS,
+      restartTimer: null,
+      lastLineAt: null,
+      lastError: null,
+    }
+    tailers.set(config.id, tailer)
+    startTailer(tailer)
+  }
+}
+
+export function stopLogTailers() {
+  unsubscribeRegistry?.()
+  unsubscribeRegistry = null
+  for (const tailer of tailers.values()) {
+    stopTailer(tailer)
+  }
+  tailers.clear()
+}
+
+export function getLogSourceStatus(): LogSourceStatus[] {
+  return getLogSources().map((config) => {
+    const tailer = tailers.get(config.id)
+    return {
+      ...config,
+      status: tailer?.status ?? 'stopped',
+      lastLineAt: tailer?.lastLineAt ?? null,
+      lastError: tailer?.lastError ?? null,
+    }
+  })
+}
+
+export function matchesFilter(entry: LogEntry, filter: LogFilter): boolean {
+  if (filter.sources?.length && !filter.sources.includes(entry.source)) return false
+  if (filter.levels?.length && !filter.levels.includes(entry.level)) return false
+  return true
+}
+
+export function getRecentLogs(filter: LogFilter = {}, limit = RECENT_BUFFER_SIZE): LogEntry[] {
+  return recent.filter((entry) => matchesFilter(entry, filter)).slice(-limit)
+}
+
+// Returns an unsubscribe function
+export function subscribeLogs(filter: LogFilter, listener: (entry: LogEntry) => void): () => void {
+  const handler = (entry: LogEntry) => {
+    if (matchesFilter(entry, filter)) listener(entry)
+  }
+  emitter.on('log', handler)
+  return () => {
+    emitter.off('log', handler)
+  }
+}
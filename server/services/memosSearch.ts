@@ -0,0 +1,158 @@
+import { MEMOS_BASE_URL } from '../../config/ports'
+
+// Reading agentic search results out of memOS's gateway event stream, for
+// runs the dashboard records (comparisons) or drives itself (benchmarks).
+
+// Same limit the events proxy puts on a search
+export const SEARCH_TIMEOUT_MS = 5 * 60 * 1000
+
+export interface SearchResult {
+  durationMs: number | null
+  llmCalls: number | null
+  tokens: { input: number; output: number } | null
+  confidence: number | null
+  answer: string | null
+  // URLs (or titles when there is no URL) the answer cites
+  sources: string[]
+}
+
+export interface SearchEvent {
+  kind: 'completed' | 'failed' | 'progress'
+  result: Partial<SearchResult>
+  error?: string
+}
+
+export function emptySearchResult(): SearchResult {
+  return { durationMs: null, llmCalls: null, tokens: null, confidence: null, answer: null, sources: [] }
+}
+
+const num = (value: unknown): number | null => (typeof value === 'number' && Number.isFinite(value) ? value : null)
+
+// The final answer and its sources have moved around between memOS versions
+function payloads(event: Record<string, any>): Record<string, any>[] {
+  return [event, event.data, event.result, event.data?.result].filter((p) => p && typeof p === 'object')
+}
+
+function extractAnswer(event: Record<string, any>): string | null {
+  for (const source of payloads(event)) {
+    for (const key of ['synthesis', 'answer', 'final_answer', 'response']) {
+      if (typeof source[key] === 'string' && source[key].trim()) return source[key]
+    }
+  }
+  return typeof event.result === 'string' ? event.result : null
+}
+
+function extractSources(event: Record<string, any>): string[] {
+  for (const payload of payloads(event)) {
+    const list = payload.sources ?? payload.citations
+    if (!Array.isArray(list)) continue
+    return list
+      .map((s: any) => (typeof s === 'string' ? s : s?.url || s?.link || s?.title))
+      .filter((s: unknown): s is string => typeof s === 'string' && s.length > 0)
+  }
+  return []
+}
+
+export function readSearchEvent(event: Record<string, any>): SearchEvent {
+  const type = event.event_type || event.type
+  const answer = extractAnswer(event)
+  const sources = extractSources(event)
+  const result: Partial<SearchResult> = {}
+  if (answer) result.answer = answer
+  if (sources.length > 0) result.sources = sources
+
+  if (type === 'search_completed' || type === 'gateway_complete') {
+    const summary = event.summary ?? event.data?.summary ?? event
+    const durationMs = num(summary.duration_ms)
+    const llmCalls = num(summary.llm_calls)
+    const confidence = num(summary.confidence)
+    if (durationMs !== null) result.durationMs = durationMs
+    if (llmCalls !== null) result.llmCalls = llmCalls
+    if (confidence !== null) result.confidence = confidence
+    if (summary.tokens && typeof summary.tokens === 'object') {
+      result.tokens = { input: num(summary.tokens.input) ?? 0, output: num(summary.tokens.output) ?? 0 }
+    }
+    return { kind: 'completed', result }
+  }
+  if (type === 'search_failed' || type === 'error') {
+    return { kind: 'failed', result, error: event.message || event.error || event.data?.error || 'Search failed' }
+  }
+  return { kind: 'progress', result }
+}
+
+// Splits an SSE byte stream into the JSON payloads of its data lines
+export function createSSEParser(onEvent: (event: Record<string, any>) => void) {
+  let pending = ''
+  return (chunk: string) => {
+    pending += chunk
+    const lines = pending.split('\n')
+    pending = lines.pop() ?? ''
+    for (const line of lines) {
+      if (!line.startsWith('data:')) continue
+      try {
+        onEvent(JSON.parse(line.slice(5)))
+      } catch {
+        // Not JSON
+      }
+    }
+  }
+}
+
+export interface SearchOutcome extends SearchResult {
+  status: 'completed' | 'failed'
+  error?: string
+}
+
+// Runs one search to the end without a browser attached
+export async function runMemosSearch(
+  query: string,
+  preset: string,
+  requestId: string,
+  signal?: AbortSignal
+): Promise<SearchOutcome> {
+  const startedAt = Date.now()
+  const outcome: SearchOutcome = { status: 'failed', ...emptySearchResult() }
+  let finished = false
+
+  const timeout = AbortSignal.timeout(SEARCH_TIMEOUT_MS)
+  try {
+    const response = await fetch(`${MEMOS_BASE_URL}/api/v1/search/gateway/stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+      body: JSON.stringify({ query, preset, request_id: requestId }),
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    })
+    if (!response.ok || !response.body) {
+      throw new Error(`memOS returned ${response.status}: ${response.statusText}`)
+    }
+
+    const decoder = new TextDecoder()
+    const parse = createSSEParser((raw) => {
+      if (finished) return
+      const event = readSearchEvent(raw)
+      Object.assign(outcome, event.result)
+      if (event.kind === 'completed') {
+        outcome.status = 'completed'
+        finished = true
+      } else if (event.kind === 'failed') {
+        outcome.error = event.error
+        finished = true
+      }
+    })
+    for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+      parse(decoder.decode(chunk, { stream: true }))
+    }
+    if (!finished) outcome.error = 'Stream ended before the search completed'
+  } catch (err) {
+    if (!finished) {
+      outcome.error = signal?.aborted
+        ? 'Cancelled'
+        : timeout.aborted
+          ? `No result within ${SEARCH_TIMEOUT_MS / 60000} minutes`
+          : `Failed to reach memOS: ${(err as Error).message}`
+    }
+  }
+
+  outcome.durationMs ??= Date.now() - startedAt
+  return outcome
+}
@@ -0,0 +1,244 @@
+import { fetchMemosRunHistory, type AgentRunRecord } from './agentHistory'
+import { getEntityCounts, type EntityStats } from './docgraph'
+import { getLatestGPUStatus } from './gpuHistory'
+import { getGPUStatus, type GPUStatus } from './gpuStatus'
+import { collectHealth, getLiveValue, type ServiceHealthSnapshot } from './liveState'
+import { getProcesses, type ProcessInfo } from './processInfo'
+
+// Prometheus text exposition (format 0.0.4) of what the dashboard already
+// collects. Health, GPU and processes come from the live collector; agent
+// runs and DocGraph counts need a round trip to memOS/Neo4j, so they are
+// cached between scrapes.
+
+const SLOW_SOURCE_TTL_MS = parseInt(process.env.METRICS_SLOW_SOURCE_TTL_MS || '60000', 10)
+const SOURCE_TIMEOUT_MS = 5000
+const AGENT_WINDOW_HOURS = parseInt(process.env.METRICS_AGENT_WINDOW_HOURS || '24', 10)
+
+type Labels = Record<string, string | number>
+
+interface MetricFamily {
+  name: string
+  help: string
+  type: 'gauge' | 'summary'
+  samples: { suffix?: string; labels?: Labels; value: number }[]
+}
+
+function escapeLabel(value: string | number): string {
+  return String(value).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN'
+  if (value === Infinity) return '+Inf'
+  if (value === -Infinity) return '-Inf'
+  return String(value)
+}
+
+export function formatMetrics(families: MetricFamily[]): string {
+  const lines: string[] = []
+  for (const family of families) {
+    if (family.samples.length === 0) continue
+    lines.push(`# HELP ${family.name} ${family.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`)
+    lines.push(`# TYPE ${family.name} ${family.type}`)
+    for (const sample of family.samples) {
+      const labels = Object.entries(sample.labels ?? {})
+      const labelText = labels.length > 0 ? `{${labels.map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(',')}}` : ''
+      lines.push(`${family.name}${sample.suffix ?? ''}${labelText} ${formatValue(sample.value)}`)
+    }
+  }
+  return lines.join('\n') + '\n'
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms)
+    promise.then(
+      (value) => {
+        clearTimeout(timer)
+        resolve(value)
+      },
+      (err) => {
+        clearTimeout(timer)
+        reject(err)
+      }
+    )
+  })
+}
+
+// Reloaded at most every ttlMs; null while the source is failing
+function cachedSource<T>(ttlMs: number, load: () => Promise<T>): () => Promise<T | null> {
+  let cache: { value: T | null; at: number } | null = null
+  return async () => {
+    if (cache && Date.now() - cache.at < ttlMs) return cache.value
+    const value = await withTimeout(load(), SOURCE_TIMEOUT_MS).catch(() => null)
+    cache = { value, at: Date.now() }
+    return value
+  }
+}
+
+const agentRuns = cachedSource<AgentRunRecord[]>(SLOW_SOURCE_TTL_MS, () =>
+  fetchMemosRunHistory({ limit: 1000, hours: AGENT_WINDOW_HOURS })
+)
+const docgraphEntities = cachedSource<EntityStats>(SLOW_SOURCE_TTL_MS, getEntityCounts)
+
+async function latestHealth(): Promise<ServiceHealthSnapshot[]> {
+  return getLiveValue<ServiceHealthSnapshot[]>('health') ?? collectHealth()
+}
+
+async function latestProcesses(): Promise<ProcessInfo[]> {
+  return getLiveValue<ProcessInfo[]>('processes') ?? getProcesses()
+}
+
+async function latestGPU(): Promise<GPUStatus | null> {
+  return getLiveValue<GPUStatus>('gpu') ?? getLatestGPUStatus()?.status ?? getGPUStatus().catch(() => null)
+}
+
+function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return NaN
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(q * sorted.length) - 1))
+  return sorted[index]!
+}
+
+function summarySamples(values: number[]): MetricFamily['samples'] {
+  const sorted = [...values].sort((a, b) => a - b)
+  return [
+    ...[0.5, 0.9, 0.99].map((q) => ({ labels: { quantile: q }, value: quantile(sorted, q) })),
+    { suffix: '_sum', value: values.reduce((sum, v) => sum + v, 0) },
+    { suffix: '_count', value: values.length },
+  ]
+}
+
+const GB = 1024 ** 3
+
+function healthFamilies(health: ServiceHealthSnapshot[]): MetricFamily[] {
+  return [
+    {
+      name: 'dashboard_service_up',
+      help: 'Whether the service health probe passed (1) or failed (0)',
+      type: 'gauge',
+      samples: health
+        .filter((s) => s.status !== 'unknown')
+        .map((s) => ({ labels: { service: s.name, port: s.port }, value: s.status === 'healthy' ? 1 : 0 })),
+    },
+    {
+      name: 'dashboard_service_probe_latency_seconds',
+      help: 'Latency of the last health probe',
+      type: 'gauge',
+      samples: health
+        .filter((s) => s.latency !== undefined)
+        .map((s) => ({ labels: { service: s.name }, value: s.latency! / 1000 })),
+    },
+    {
+      name: 'dashboard_service_component_up',
+      help: 'Sub-component health reported by the service itself (1 healthy, 0 otherwise)',
+      type: 'gauge',
+      samples: health.flatMap((s) =>
+        (s.children ?? []).map((c) => ({
+          labels: { service: s.name, component: c.name, status: c.status },
+          value: c.status === 'healthy' ? 1 : 0,
+        }))
+      ),
+    },
+  ]
+}
+
+function gpuFamilies(gpu: GPUStatus | null): MetricFamily[] {
+  const devices = gpu?.gpus ?? []
+  const perDevice = (name: string, help: string, value: (d: GPUStatus['gpus'][number]) => number): MetricFamily => ({
+    name,
+    help,
+    type: 'gauge',
+    samples: devices.map((d) => ({ labels: { gpu: d.index, name: d.name }, value: value(d) })),
+  })
+  return [
+    perDevice('dashboard_gpu_memory_used_bytes', 'GPU memory in use', (d) => Math.round(d.vramUsed * GB)),
+    perDevice('dashboard_gpu_memory_total_bytes', 'GPU memory capacity', (d) => Math.round(d.vramTotal * GB)),
+    perDevice('dashboard_gpu_utilization_percent', 'GPU core utilization', (d) => d.utilization),
+    perDevice('dashboard_gpu_temperature_celsius', 'GPU temperature', (d) => d.temperature),
+    perDevice('dashboard_gpu_power_watts', 'GPU power draw', (d) => d.powerDraw),
+  ]
+}
+
+function processFamilies(processes: ProcessInfo[]): MetricFamily[] {
+  const perProcess = (name: string, help: string, value: (p: ProcessInfo) => number | null): MetricFamily => ({
+    name,
+    help,
+    type: 'gauge',
+    samples: processes.flatMap((p) => {
+      const v = value(p)
+      return v === null ? [] : [{ labels: { process: p.name, type: p.type }, value: v }]
+    }),
+  })
+  return [
+    perProcess('dashboard_process_cpu_percent', 'CPU usage of the service process group (% of one core)', (p) => p.cpu),
+    perProcess('dashboard_process_memory_percent', 'Memory usage of the service process group (% of total)', (p) => p.memory),
+    perProcess('dashboard_process_resident_memory_bytes', 'Resident memory of the service process group', (p) => p.rssBytes),
+    perProcess('dashboard_process_count', 'Processes in the service process group', (p) => p.processCount),
+    perProcess('dashboard_process_uptime_seconds', 'Uptime of the oldest process in the group', (p) => p.uptimeSeconds),
+  ]
+}
+
+function agentFamilies(runs: AgentRunRecord[]): MetricFamily[] {
+  const byStatus = new Map<string, number>()
+  for (const run of runs) byStatus.set(run.status, (byStatus.get(run.status) ?? 0) + 1)
+  const finished = runs.filter((r) => r.status !== 'running')
+
+  return [
+    {
+      name: 'dashboard_agent_runs',
+      help: `Agent runs recorded by memOS in the last ${AGENT_WINDOW_HOURS}h, by status`,
+      type: 'gauge',
+      samples: Array.from(byStatus, ([status, count]) => ({ labels: { status }, value: count })),
+    },
+    {
+      name: 'dashboard_agent_run_duration_seconds',
+      help: `Duration of finished agent runs in the last ${AGENT_WINDOW_HOURS}h`,
+      type: 'summary',
+      samples: summarySamples(finished.map((r) => (r.duration_ms || 0) / 1000)),
+    },
+    {
+      name: 'dashboard_agent_run_confidence',
+      help: `Confidence of finished agent runs in the last ${AGENT_WINDOW_HOURS}h`,
+      type: 'summary',
+      samples: summarySamples(finished.map((r) => r.confidence || 0)),
+    },
+  ]
+}
+
+function docgraphFamilies(entities: EntityStats | null): MetricFamily[] {
+  return [
+    {
+      name: 'dashboard_docgraph_entities',
+      help: 'Entities indexed in DocGraph, by type',
+      type: 'gauge',
+      samples: entities ? Object.entries(entities).map(([type, count]) => ({ labels: { type }, value: count })) : [],
+    },
+  ]
+}
+
+export async function renderMetrics(): Promise<string> {
+  const [health, gpu, processes, runs, entities] = await Promise.all([
+    latestHealth(),
+    latestGPU(),
+    latestProcesses(),
+    agentRuns(),
+    docgraphEntities(),
+  ])
+
+  return formatMetrics([
+    ...healthFamilies(health),
+    ...gpuFamilies(gpu),
+    ...processFamilies(processes),
+    ...(runs ? agentFamilies(runs) : []),
+    ...docgraphFamilies(entities),
+    {
+      name: 'dashboard_metrics_source_up',
+      help: 'Whether each metrics source could be read on this scrape',
+      type: 'gauge',
+      samples: [
+        { labels: { source: 'gpu' }, value: gpu ? 1 : 0 },
+        { labels: { source: 'docgraph' }, value: entities ? 1 : 0 },
+      ],
+    },
+  ])
+}
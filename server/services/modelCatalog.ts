@@ -0,0 +1,155 @@
+import { LLAMACPP_BASE_URL, OLLAMA_BASE_URL, SGLANG_BASE_URL, VLLM_BASE_URL } from '../../config/ports'
+
+// Models installed or served on every LLM backend, so the config editor
+// offers what can actually run instead of a fixed list. Ollama reports
+// installed models and which of them are loaded; the OpenAI-compatible
+// servers (vLLM, SGLang, llama.cpp) only list what they currently serve.
+
+// Backends are slow to answer while loading a model; a short cache keeps
+// every stage card from fanning out to all of them
+const CATALOG_TTL_MS = 10_000
+const REQUEST_TIMEOUT_MS = 5000
+
+export type ModelBackend = 'ollama' | 'vllm' | 'sglang' | 'llamacpp'
+
+export interface CatalogModel {
+  // The name to put in llm_models.yaml
+  name: string
+  backend: ModelBackend
+  sizeGB: number | null
+  parameterSize: string | null
+  quantization: string | null
+  family: string | null
+  contextLength: number | null
+  loaded: boolean
+  // VRAM held while loaded (Ollama only)
+  vramGB: number | null
+  modifiedAt: string | null
+}
+
+export interface BackendStatus {
+  backend: ModelBackend
+  url: string
+  available: boolean
+  error?: string
+  models: number
+}
+
+export interface ModelCatalog {
+  models: CatalogModel[]
+  backends: BackendStatus[]
+  timestamp: string
+}
+
+const BACKEND_URLS: Record<ModelBackend, string> = {
+  ollama: OLLAMA_BASE_URL,
+  vllm: VLLM_BASE_URL,
+  sglang: SGLANG_BASE_URL,
+  llamacpp: LLAMACPP_BASE_URL,
+}
+
+const GB = 1024 ** 3
+
+async function getJson(url: string, init: RequestInit = {}): Promise<any> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS), ...init })
+  if (!response.ok) throw new Error(`HTTP ${response.status}`)
+  return response.json()
+}
+
+// /api/show is one request per model; digests change only on re-pull
+const ollamaContextLengths = new Map<string, number | null>()
+
+async function ollamaContextLength(name: string, digest: string): Promise<number | null> {
+  if (ollamaContextLengths.has(digest)) return ollamaContextLengths.get(digest)!
+  try {
+    const info = await getJson(`${OLLAMA_BASE_URL}/api/show`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: name }),
+    })
+    // Keyed by architecture, e.g. "qwen3.context_length"
+    const entry = Object.entries(info.model_info ?? {}).find(([key]) => key.endsWith('.context_length'))
+    const length = typeof entry?.[1] === 'number' ? entry[1] : null
+    ollamaContextLengths.set(digest, length)
+    return length
+  } catch {
+    return null
+  }
+}
+
+async function fetchOllamaModels(): Promise<CatalogModel[]> {
+  const [tags, ps] = await Promise.all([
+    getJson(`${OLLAMA_BASE_URL}/api/tags`),
+    getJson(`${OLLAMA_BASE_URL}/api/ps`).catch(() => ({ models: [] })),
+  ])
+  const running = new Map<string, any>((ps.models ?? []).map((m: any) => [m.name, m]))
+
+  return Promise.all(
+    (tags.models ?? []).map(async (m: any): Promise<CatalogModel> => {
+      const loaded = running.get(m.name)
+      return {
+        name: m.name,
+        backend: 'ollama',
+        sizeGB: typeof m.size === 'number' ? m.size / GB : null,
+        parameterSize: m.details?.parameter_size || null,
+        quantization: m.details?.quantization_level || null,
+        family: m.details?.family || null,
+        contextLength: await ollamaContextLength(m.name, m.digest ?? m.name),
+        loaded: Boolean(loaded),
+        vramGB: typeof loaded?.size_vram === 'number' ? loaded.size_vram / GB : null,
+        modifiedAt: m.modified_at ?? null,
+      }
+    })
+  )
+}
+
+// GET /v1/models; vLLM and SGLang report max_model_len, llama.cpp a meta block
+async function fetchOpenAIModels(backend: ModelBackend): Promise<CatalogModel[]> {
+  const body = await getJson(`${BACKEND_URLS[backend]}/v1/models`)
+  return (body.data ?? []).map((m: any) => ({
+    name: m.id,
+    backend,
+    sizeGB: typeof m.meta?.size === 'number' ? m.meta.size / GB : null,
+    parameterSize: typeof m.meta?.n_params === 'number' ? `${(m.meta.n_params / 1e9).toFixed(1)}B` : null,
+    quantization: null,
+    family: null,
+    contextLength: m.max_model_len ?? m.meta?.n_ctx_train ?? null,
+    loaded: true,
+    vramGB: null,
+    modifiedAt: typeof m.created === 'number' ? new Date(m.created * 1000).toISOString() : null,
+  }))
+}
+
+async function buildCatalog(): Promise<ModelCatalog> {
+  const backends = Object.keys(BACKEND_URLS) as ModelBackend[]
+  const results = await Promise.allSettled(
+    backends.map((backend) => (backend === 'ollama' ? fetchOllamaModels() : fetchOpenAIModels(backend)))
+  )
+
+  const models: CatalogModel[] = []
+  const statuses = results.map((result, i): BackendStatus => {
+    const backend = backends[i]!
+    if (result.status === 'rejected') {
+      return { backend, url: BACKEND_URLS[backend], available: false, error: (result.reason as Error).message, models: 0 }
+    }
+    models.push(...result.value)
+    return { backend, url: BACKEND_URLS[backend], available: true, models: result.value.length }
+  })
+
+  models.sort((a, b) => a.backend.localeCompare(b.backend) || a.name.localeCompare(b.name))
+  return { models, backends: statuses, timestamp: new Date().toISOString() }
+}
+
+let cached: { at: number; catalog: Promise<ModelCatalog> } | null = null
+
+export function getModelCatalog(refresh = false): Promise<ModelCatalog> {
+  if (refresh || !cached || Date.now() - cached.at > CATALOG_TTL_MS) {
+    cached = { at: Date.now(), catalog: buildCatalog() }
+  }
+  return cached.catalog
+}
+
+// After a pull, delete, load or unload the next read must not be stale
+export function invalidateModelCatalog() {
+  cached = null
+}
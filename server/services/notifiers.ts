@@ -0,0 +1,453 @@
+import { execFile } from 'child_process'
+import { promisify } from 'util'
+import nodemailer from 'nodemailer'
+import { getRules, onAlertTransition, type Alert, type AlertTransition } from './alertEngine'
+import { parseDuration, readAlertConfig, type AlertSeverity } from './alertRules'
+
+// Delivers firing/resolved alert transitions to notification channels declared
+// next to the rules in config/alert-rules.json ("channels" + "defaultChannels").
+// String values may reference environment variables as ${NAME} to keep secrets
+// out of the file, e.g.
+//
+//   { "id": "slack", "type": "webhook", "format": "slack", "url": "${SLACK_WEBHOOK_URL}" }
+//   { "id": "ops-mail", "type": "email", "host": "localhost", "port": 25,
+//     "from": "dashboard@localhost", "to": ["ops@example.com"], "minSeverity": "critical" }
+//
+// Rules pick channels with "notify": ["slack"]; otherwise defaultChannels apply.
+
+const execFileAsync = promisify(execFile)
+
+const DEFAULT_RATE_LIMIT = { max: 20, per: '1h' }
+
+interface BaseChannelConfig {
+  id: string
+  rateLimit?: { max: number; per: string }
+  minSeverity?: AlertSeverity
+}
+
+export interface WebhookChannelConfig extends BaseChannelConfig {
+  type: 'webhook'
+  url: string
+  format?: 'json' | 'slack'
+  headers?: Record<string, string>
+}
+
+export interface EmailChannelConfig extends BaseChannelConfig {
+  type: 'email'
+  host: string
+  port?: number
+  secure?: boolean
+  user?: string
+  password?: string
+  from: string
+  to: string[]
+}
+
+export interface DesktopChannelConfig extends BaseChannelConfig {
+  type: 'desktop'
+}
+
+export type ChannelConfig = WebhookChannelConfig | EmailChannelConfig | DesktopChannelConfig
+
+export interface AlertNotification {
+  status: 'firing' | 'resolved'
+  alert: Alert
+  test?: boolean
+}
+
+export interface ChannelStatus {
+  id: string
+  type: ChannelConfig['type']
+  target: string
+  sent: number
+  failed: number
+  rateLimited: number
+  lastSentAt: string | null
+  lastError: string | null
+}
+
+type SendFn = (notification: AlertNotification) => Promise<void>
+
+interface Channel {
+  config: ChannelConfig
+  send: SendFn
+  windowMs: number
+  recentSends: number[]
+  stats: Omit<ChannelStatus, 'id' | 'type' | 'target'>
+}
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { info: 0, warning: 1, critical: 2 }
+const SLACK_COLORS: Record<string, string> = {
+  critical: '#dc2626',
+  warning: '#eab308',
+  info: '#3b82f6',
+  resolved: '#22c55e',
+}
+
+let channels = new Map<string, Channel>()
+let defaultChannels: string[] = []
+let configError: string | null = null
+
+// ============================================================================
+// Message formatting
+// ============================================================================
+
+function title(n: AlertNotification): string {
+  const prefix = n.test ? '[TEST] ' : ''
+  return `${prefix}[${n.status.toUpperCase()}] ${n.alert.ruleName}`
+}
+
+function labelText(alert: Alert): string {
+  return Object.entries(alert.labels).map(([k, v]) => `${k}=${v}`).join(', ')
+}
+
+function plainText(n: AlertNotification): string {
+  const lines = [
+    n.alert.summary,
+    '',
+    `Severity: ${n.alert.severity}`,
+    `Labels: ${labelText(n.alert) || '-'}`,
+    `Active since: ${n.alert.activeSince}`,
+  ]
+  if (n.alert.resolvedAt) lines.push(`Resolved at: ${n.alert.resolvedAt}`)
+  return lines.join('\n')
+}
+
+export function slackPayload(n: AlertNotification) {
+  const color = n.status === 'resolved' ? SLACK_COLORS.resolved : SLACK_COLORS[n.alert.severity]
+  return {
+    text: title(n),
+    attachments: [
+      {
+        color,
+        title: n.alert.ruleName,
+        text: n.alert.summary,
+        fields: [
+          { title: 'Severity', value: n.alert.severity, short: true },
+          { title: 'Status', value: n.status, short: true },
+          ...Object.entries(n.alert.labels).map(([k, v]) => ({ title: k, value: v, short: true })),
+        ],
+        ts: Math.floor(Date.parse(n.alert.resolvedAt ?? n.alert.firedAt ?? n.alert.activeSince) / 1000),
+      },
+    ],
+  }
+}
+
+export function jsonPayload(n: AlertNotification) {
+  return {
+    version: 1,
+    status: n.status,
+    test: n.test ?? false,
+    alert: n.alert,
+    sentAt: new Date().toISOString(),
+  }
+}
+
+// ============================================================================
+// Channel implementations
+// ============================================================================
+
+function webhookSender(config: WebhookChannelConfig): SendFn {
+  return async (n) => {
+    const body = config.format === 'slack' ? slackPayload(n) : jsonPayload(n)
+    const response = await fetch(config.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...config.headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(10000),
+    })
+    if (!response.ok) {
+      throw new Error(`Webhook returned ${response.status}: ${(await response.text()).slice(0, 200)}`)
+    }
+  }
+}
+
+function emailSender(config: EmailChannelConfig): SendFn {
+  const transport = nodemailer.createTransport({
+    host: config.host,
+    port: config.port ?? 25,
+    secure: config.secure ?? false,
+    auth: config.user ? { user: config.user, pass: config.password ?? '' } : undefined,
+    connectionTimeout: 10000,
+  })
+
+  return async (n) => {
+    await transport.sendMail({
+      from: config.from,
+      to: config.to.join(', '),
+      subject: title(n),
+      text: plainText(n),
+    })
+  }
+}
+
+function desktopSender(): SendFn {
+  return async (n) => {
+    const urgency = n.status === 'resolved' ? 'low' : n.alert.severity === 'critical' ? 'critical' : 'normal'
+    await execFileAsync('notify-send', ['-u', urgency, '-a', 'Unified Dashboard', title(n), n.alert.summary], {
+      timeout: 5000,
+    })
+  }
+}
+
+function createSender(config: ChannelConfig): SendFn {
+  switch (config.type) {
+    case 'webhook':
+      return webhookSender(config)
+    case 'email':
+      return emailSender(config)
+    case 'desktop':
+      return desktopSender()
+  }
+}
+
+// ============================================================================
+// Config loading
+// ============================================================================
+
+function substituteEnv<T>(value: T): T {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{(\w+)\}/g, (_, name) => process.env[name] ?? '') as T
+  }
+  if (Array.isArray(value)) return value.map(substituteEnv) as T
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, substituteEnv(v)])) as T
+  }
+  return value
+}
+
+export function validateChannels(input: unknown): ChannelConfig[] {
+  if (input === undefined) return []
+  if (!Array.isArray(input)) throw new Error('"channels" must be an array')
+
+  const errors: string[] = []
+  const seen = new Set<string>()
+
+  for (const [index, raw] of input.entries()) {
+    const where = `channels[${index}]${raw?.id ? ` (${raw.id})` : ''}`
+    if (typeof raw?.id !== 'string' || !raw.id) errors.push(`${where}: id is required`)
+    else if (seen.has(raw.id)) errors.push(`${where}: duplicate id`)
+    else seen.add(raw.id)
+
+    if (raw?.rateLimit !== undefined) {
+      if (typeof raw.rateLimit.max !== 'number' || raw.rateLimit.max < 1) errors.push(`${where}: rateLimit.max must be >= 1`)
+      try {
+        parseDuration(raw.rateLimit.per)
+      } catch (err) {
+        errors.push(`${where}: rateLimit.per: ${(err as Error).message}`)
+      }
+    }
+
+    switch (raw?.type) {
+      case 'webhook':
+        if (typeof raw.url !== 'string' || !raw.url) errors.push(`${where}: url is required`)
+        if (raw.format !== undefined && raw.format !== 'json' && raw.format !== 'slack') {
+          errors.push(`${where}: format must be "json" or "slack"`)
+        }
+        break
+      case 'email':
+        if (typeof raw.host !== 'string' || !raw.host) errors.push(`${where}: host is required`)
+        if (typeof raw.from !== 'string' || !raw.from) errors.push(`${where}: from is required`)
+        if (!Array.isArray(raw.to) || raw.to.length === 0) errors.push(`${where}: to must be a non-empty array`)
+        break
+      case 'desktop':
+        break
+      default:
+        errors.push(`${where}: unknown channel type "${raw?.type}"`)
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid notification channels:\n${errors.join('\n')}`)
+  }
+  return input as ChannelConfig[]
+}
+
+// Channels and default channels of a parsed rules file; throws when invalid,
+// including when defaultChannels or a rule's notify names no channel, since
+// such a typo would otherwise silently notify no one
+export function parseNotifierConfig(config: Record<string, unknown>): { configs: ChannelConfig[]; defaults: string[] } {
+  const configs = validateChannels(substituteEnv(config.channels))
+  const defaults = Array.isArray(config.defaultChannels) ? (config.defaultChannels as string[]) : []
+  const unknownIds = (ids: string[]) => ids.filter((id) => !configs.some((c) => c.id === id))
+
+  const errors: string[] = []
+  const unknownDefaults = unknownIds(defaults)
+  if (unknownDefaults.length > 0) {
+    errors.push(`defaultChannels references unknown channel(s): ${unknownDefaults.join(', ')}`)
+  }
+  const rules = Array.isArray(config.rules) ? config.rules : []
+  for (const [index, rule] of rules.entries()) {
+    if (!Array.isArray(rule?.notify)) continue
+    const unknown = unknownIds(rule.notify)
+    if (unknown.length > 0) {
+      errors.push(`rules[${index}]${rule.id ? ` (${rule.id})` : ''}: notify references unknown channel(s): ${unknown.join(', ')}`)
+    }
+  }
+
+  if (errors.length > 0) throw new Error(errors.join('\n'))
+  return { configs, defaults }
+}
+
+// Reads the rules file unless the caller already has it parsed
+export async function reloadNotifiers(config?: Record<string, unknown>): Promise<ChannelStatus[]> {
+  try {
+    const { configs, defaults } = parseNotifierConfig(config ?? (await readAlertConfig()))
+
+    const next = new Map<string, Channel>()
+    for (const channelConfig of configs) {
+      const limit = channelConfig.rateLimit ?? DEFAULT_RATE_LIMIT
+      // Keep counters across reloads so the rate limit can't be reset by reloading
+      const previous = channels.get(channelConfig.id)
+      next.set(channelConfig.id, {
+        config: { ...channelConfig, rateLimit: limit },
+        send: createSender(channelConfig),
+        windowMs: parseDuration(limit.per),
+        recentSends: previous?.recentSends ?? [],
+        stats: previous?.stats ?? { sent: 0, failed: 0, rateLimited: 0, lastSentAt: null, lastError: null },
+      })
+    }
+
+    channels = next
+    defaultChannels = defaults
+    configError = null
+  } catch (err) {
+    configError = (err as Error).message
+    throw err
+  }
+
+  return getNotifierStatus().channels
+}
+
+// ============================================================================
+// Delivery
+// ============================================================================
+
+function allowedByRateLimit(channel: Channel, now: number): boolean {
+  const max = channel.config.rateLimit?.max ?? DEFAULT_RATE_LIMIT.max
+  channel.recentSends = channel.recentSends.filter((t) => now - t < channel.windowMs)
+  return channel.recentSends.length < max
+}
+
+async function deliver(channel: Channel, notification: AlertNotification, bypassRateLimit = false) {
+  const now = Date.now()
+  if (!bypassRateLimit) {
+    if (!allowedByRateLimit(channel, now)) {
+      channel.stats.rateLimited++
+      return
+    }
+    channel.recentSends.push(now)
+  }
+
+  try {
+    await channel.send(notification)
+    channel.stats.sent++
+    channel.stats.lastSentAt = new Date().toISOString()
+  } catch (err) {
+    channel.stats.failed++
+    channel.stats.lastError = (err as Error).message
+    throw err
+  }
+}
+
+function channelsFor(alert: Alert): Channel[] {
+  const rule = getRules().rules.find((r) => r.id === alert.ruleId)
+  const ids = rule?.notify ?? defaultChannels
+  return ids
+    .map((id) => channels.get(id))
+    .filter((c): c is Channel => c !== undefined)
+    .filter((c) => !c.config.minSeverity || SEVERITY_RANK[alert.severity] >= SEVERITY_RANK[c.config.minSeverity])
+}
+
+// Sends a transition to the channels its rule and severity select; resolves
+// once every delivery has finished, failed ones having been logged
+export async function notifyTransition({ alert, to }: AlertTransition): Promise<void> {
+  // Pending alerts are not actionable yet; silenced ones are muted on purpose
+  if (to === 'pending' || alert.silenced) return
+
+  await Promise.all(
+    channelsFor(alert).map((channel) =>
+      deliver(channel, { status: to, alert }).catch((err) => {
+        console.error(`Notification via ${channel.config.id} failed:`, (err as Error).message)
+      })
+    )
+  )
+}
+
+// Sends a synthetic alert through one channel, ignoring its rate limit
+export async function testNotifier(id: string): Promise<boolean> {
+  const channel = channels.get(id)
+  if (!channel) return false
+
+  const now = new Date().toISOString()
+  await deliver(
+    channel,
+    {
+      status: 'firing',
+      test: true,
+      alert: {
+        id: `test|channel=${id}`,
+        ruleId: 'test',
+        ruleName: 'Test notification',
+        severity: 'info',
+        state: 'firing',
+        labels: { channel: id },
+        summary: `Test notification from the unified dashboard via "${id}"`,
+        value: null,
+        activeSince: now,
+        firedAt: now,
+        resolvedAt: null,
+        silenced: false,
+        silenceId: null,
+      },
+    },
+    true
+  )
+  return true
+}
+
+function describeTarget(config: ChannelConfig): string {
+  switch (config.type) {
+    case 'webhook':
+      try {
+        // Webhook paths usually embed secrets (Slack), only show the host
+        return `${new URL(config.url).origin} (${config.format ?? 'json'})`
+      } catch {
+        return 'invalid url'
+      }
+    case 'email':
+      return `${config.to.join(', ')} via ${config.host}:${config.port ?? 25}`
+    case 'desktop':
+      return 'notify-send'
+  }
+}
+
+export function getNotifierStatus(): { channels: ChannelStatus[]; defaultChannels: string[]; error: string | null } {
+  return {
+    channels: Array.from(channels.values()).map((c) => ({
+      id: c.config.id,
+      type: c.config.type,
+      target: describeTarget(c.config),
+      ...c.stats,
+    })),
+    defaultChannels,
+    error: configError,
+  }
+}
+
+let unsubscribe: (() => void) | null = null
+
+export async function startNotifiers() {
+  if (unsubscribe) return
+  try {
+    await reloadNotifiers()
+  } catch (err) {
+    console.error('Failed to load notification channels:', (err as Error).message)
+  }
+  unsubscribe = onAlertTransition((transition) => void notifyTransition(transition))
+}
+
+export function stopNotifiers() {
+  unsubscribe?.()
+  unsubscribe = null
+}
@@ -0,0 +1,271 @@
+import { EventEmitter } from 'events'
+import { randomUUID } from 'crypto'
+import { statfs } from 'fs/promises'
+import { homedir } from 'os'
+import { join } from 'path'
+import { OLLAMA_BASE_URL } from '../../config/ports'
+import { invalidateModelCatalog } from './modelCatalog'
+
+// Pull, delete, load and unload Ollama models. Pulls run in the background
+// and stream progress to subscribers; everything else is a single call.
+// OLLAMA_URL can point at a stub server for testing.
+
+const REQUEST_TIMEOUT_MS = 10_000
+// Loading a large model from disk takes a while
+const LOAD_TIMEOUT_MS = parseInt(process.env.OLLAMA_LOAD_TIMEOUT_MS || '300000', 10)
+const MAX_PULLS = 20
+// Where Ollama keeps blobs, for the free-space figure; only meaningful when
+// the dashboard runs on the same host
+const OLLAMA_MODELS_DIR = process.env.OLLAMA_MODELS || join(homedir(), '.ollama', 'models')
+
+const GB = 1024 ** 3
+
+export class OllamaApiError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message)
+    this.name = 'OllamaApiError'
+  }
+}
+
+async function ollamaRequest(path: string, init: RequestInit & { timeoutMs?: number } = {}): Promise<Response> {
+  const { timeoutMs = REQUEST_TIMEOUT_MS, ...rest } = init
+  let response: Response
+  try {
+    response = await fetch(`${OLLAMA_BASE_URL}${path}`, {
+      signal: AbortSignal.timeout(timeoutMs),
+      headers: { 'Content-Type': 'application/json' },
+      ...rest,
+    })
+  } catch (err) {
+    if ((err as Error).name === 'TimeoutError') {
+      throw new OllamaApiError(`Ollama did not answer within ${timeoutMs / 1000}s`, 504)
+    }
+    throw new OllamaApiError(`Ollama not available: ${(err as Error).message}`, 503)
+  }
+  if (!response.ok) {
+    const text = await response.text().catch(() => response.statusText)
+    let message = text
+    try {
+      message = JSON.parse(text).error ?? text
+    } catch {
+      // Plain-text error
+    }
+    throw new OllamaApiError(`Ollama returned ${response.status}: ${message}`, response.status)
+  }
+  return response
+}
+
+// ============================================================================
+// Pulls
+// ============================================================================
+
+export type PullStatus = 'running' | 'succeeded' | 'failed' | 'cancelled'
+
+export interface PullOperation {
+  id: string
+  model: string
+  status: PullStatus
+  // Ollama's own phase text, e.g. "pulling manifest", "verifying sha256 digest"
+  phase: string
+  completedBytes: number
+  totalBytes: number
+  percent: number | null
+  startedAt: string
+  finishedAt: string | null
+  startedBy: string
+  error?: string
+}
+
+// Newest last; trimmed to MAX_PULLS finished pulls
+const pulls: PullOperation[] = []
+const aborts = new Map<string, AbortController>()
+const pullEvents = new EventEmitter()
+pullEvents.setMaxListeners(0)
+
+function remember(pull: PullOperation) {
+  pulls.push(pull)
+  while (pulls.length > MAX_PULLS) {
+    const index = pulls.findIndex((p) => p.status !== 'running')
+    if (index === -1) break
+    pulls.splice(index, 1)
+  }
+}
+
+export function listPulls(): PullOperation[] {
+  return pulls.slice().reverse()
+}
+
+export function getPull(id: string): PullOperation | undefined {
+  return pulls.find((p) => p.id === id)
+}
+
+// Called with the pull after every progress line and once more when it ends
+export function onPullUpdate(id: string, listener: (pull: PullOperation) => void): () => void {
+  pullEvents.on(id, listener)
+  return () => pullEvents.off(id, listener)
+}
+
+export function startPull(model: string, startedBy: string): PullOperation {
+  const running = pulls.find((p) => p.model === model && p.status === 'running')
+  if (running) {
+    throw new OllamaApiError(`${model} is already being pulled (${running.id})`, 409)
+  }
+
+  const pull: PullOperation = {
+    id: randomUUID(),
+    model,
+    status: 'running',
+    phase: 'starting',
+    completedBytes: 0,
+    totalBytes: 0,
+    percent: null,
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+    startedBy,
+  }
+  remember(pull)
+
+  const controller = new AbortController()
+  aborts.set(pull.id, controller)
+
+  const finish = (status: PullStatus, error?: string) => {
+    if (pull.status !== 'running') return
+    pull.status = status
+    pull.finishedAt = new Date().toISOString()
+    if (error) pull.error = error
+    aborts.delete(pull.id)
+    invalidateModelCatalog()
+    pullEvents.emit(pull.id, pull)
+  }
+
+  streamPull(pull, controller.signal)
+    .then(() => finish('succeeded'))
+    .catch((err: Error) => finish(controller.signal.aborted ? 'cancelled' : 'failed', err.message))
+
+  return pull
+}
+
+export function cancelPull(id: string): PullOperation {
+  const pull = getPull(id)
+  if (!pull) throw new OllamaApiError(`Pull ${id} not found`, 404)
+  if (pull.status !== 'running') throw new OllamaApiError(`Pull ${id} already ${pull.status}`, 409)
+  aborts.get(id)?.abort()
+  return pull
+}
+
+// /api/pull answers with one JSON object per line; layers report their own
+// completed/total, which are summed per digest for the overall figure
+async function streamPull(pull: PullOperation, signal: AbortSignal) {
+  let response: Response
+  try {
+    response = await fetch(`${OLLAMA_BASE_URL}/api/pull`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: pull.model, stream: true }),
+      signal,
+    })
+  } catch (err) {
+    if (signal.aborted) throw new Error('Cancelled')
+    throw new Error(`Ollama not available: ${(err as Error).message}`)
+  }
+  if (!response.ok || !response.body) {
+    const text = await response.text().catch(() => '')
+    throw new Error(`Ollama returned ${response.status}: ${text || response.statusText}`)
+  }
+
+  const layers = new Map<string, { completed: number; total: number }>()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return
+    const event = JSON.parse(line) as { status?: string; digest?: string; total?: number; completed?: number; error?: string }
+    if (event.error) throw new Error(event.error)
+    if (event.status) pull.phase = event.status
+    if (event.digest && typeof event.total === 'number') {
+      layers.set(event.digest, { completed: event.completed ?? 0, total: event.total })
+      pull.totalBytes = [...layers.values()].reduce((sum, l) => sum + l.total, 0)
+      pull.completedBytes = [...layers.values()].reduce((sum, l) => sum + l.completed, 0)
+      pull.percent = pull.totalBytes > 0 ? Math.round((pull.completedBytes / pull.totalBytes) * 1000) / 10 : null
+    }
+    pullEvents.emit(pull.id, pull)
+  }
+
+  try {
+    for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(chunk, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() ?? ''
+      lines.forEach(handleLine)
+    }
+    handleLine(buffer)
+  } catch (err) {
+    if (signal.aborted) throw new Error('Cancelled')
+    throw err
+  }
+  if (pull.phase !== 'success') throw new Error(`Pull ended early (last status: ${pull.phase})`)
+}
+
+// ============================================================================
+// Delete, load, unload
+// ============================================================================
+
+export async function deleteModel(model: string): Promise<void> {
+  await ollamaRequest('/api/delete', { method: 'DELETE', body: JSON.stringify({ model }) })
+  invalidateModelCatalog()
+}
+
+// An empty generate request loads the model; keep_alive decides how long it
+// stays (-1 = until unloaded, 0 = unload now)
+async function setKeepAlive(model: string, keepAlive: string | number, timeoutMs: number) {
+  await ollamaRequest('/api/generate', {
+    method: 'POST',
+    body: JSON.stringify({ model, keep_alive: keepAlive, stream: false }),
+    timeoutMs,
+  })
+  invalidateModelCatalog()
+}
+
+export function loadModel(model: string, keepAlive: string | number = -1): Promise<void> {
+  return setKeepAlive(model, keepAlive, LOAD_TIMEOUT_MS)
+}
+
+export function unloadModel(model: string): Promise<void> {
+  return setKeepAlive(model, 0, REQUEST_TIMEOUT_MS)
+}
+
+// ============================================================================
+// Disk usage
+// ============================================================================
+
+export interface ModelDiskUsage {
+  models: number
+  totalGB: number
+  largest: { name: string; sizeGB: number }[]
+  // Filesystem holding OLLAMA_MODELS, when it is on this host
+  filesystem: { path: string; totalGB: number; freeGB: number } | null
+}
+
+export async function getModelDiskUsage(): Promise<ModelDiskUsage> {
+  const tags = (await (await ollamaRequest('/api/tags')).json()) as { models?: { name: string; size: number }[] }
+  const models = (tags.models ?? []).map((m) => ({ name: m.name, sizeGB: m.size / GB }))
+
+  let filesystem: ModelDiskUsage['filesystem'] = null
+  try {
+    const stats = await statfs(OLLAMA_MODELS_DIR)
+    filesystem = {
+      path: OLLAMA_MODELS_DIR,
+      totalGB: (stats.blocks * stats.bsize) / GB,
+      freeGB: (stats.bavail * stats.bsize) / GB,
+    }
+  } catch {
+    // Ollama runs elsewhere
+  }
+
+  return {
+    models: models.length,
+    totalGB: models.reduce((sum, m) => sum + m.sizeGB, 0),
+    largest: models.sort((a, b) => b.sizeGB - a.sizeGB).slice(0, 5),
+    filesystem,
+  }
+}
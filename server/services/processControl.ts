@@ -0,0 +1,148 @@
+import { spawn } from 'child_process'
+import { randomUUID } from 'crypto'
+import { dirname, join } from 'path'
+import { getEcosystemService } from './serviceRegistry'
+
+// Start/stop/restart individual services by shelling out to ecosystem.sh.
+// Operations run in the background; callers poll them by id.
+
+export const ECOSYSTEM_SCRIPT = process.env.ECOSYSTEM_SCRIPT || join(process.cwd(), 'ecosystem.sh')
+
+// PROCESS_CONTROL_DRY_RUN=true forces every operation to dry-run
+const FORCE_DRY_RUN = process.env.PROCESS_CONTROL_DRY_RUN === 'true'
+const OPERATION_TIMEOUT_MS = parseInt(process.env.PROCESS_CONTROL_TIMEOUT_MS || '180000', 10)
+const MAX_OPERATIONS = 50
+const MAX_OUTPUT_CHARS = 64 * 1024
+
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g
+
+export type EcosystemAction = 'start' | 'stop' | 'restart'
+export const ECOSYSTEM_ACTIONS: EcosystemAction[] = ['start', 'stop', 'restart']
+
+export type OperationStatus = 'running' | 'succeeded' | 'failed'
+
+export interface ProcessOperation {
+  id: string
+  service: string
+  action: EcosystemAction
+  dryRun: boolean
+  status: OperationStatus
+  command: string
+  startedAt: string
+  finishedAt: string | null
+  exitCode: number | null
+  stdout: string
+  stderr: string
+  error?: string
+}
+
+// Carries the HTTP status the route should answer with
+export class ProcessControlError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'ProcessControlError'
+  }
+}
+
+// Newest last; trimmed to MAX_OPERATIONS
+const operations: ProcessOperation[] = []
+
+function remember(operation: ProcessOperation) {
+  operations.push(operation)
+  if (operations.length > MAX_OPERATIONS) {
+    operations.splice(0, operations.length - MAX_OPERATIONS)
+  }
+}
+
+// Keep the tail: the end of a failed start is what explains it
+function appendOutput(current: string, chunk: Buffer): string {
+  const next = current + chunk.toString().replace(ANSI_PATTERN, '')
+  return next.length > MAX_OUTPUT_CHARS ? next.slice(next.length - MAX_OUTPUT_CHARS) : next
+}
+
+export function isDryRunForced(): boolean {
+  return FORCE_DRY_RUN
+}
+
+export function listOperations(service?: string): ProcessOperation[] {
+  return operations.filter((op) => !service || op.service === service).slice().reverse()
+}
+
+export function getOperation(id: string): ProcessOperation | undefined {
+  return operations.find((op) => op.id === id)
+}
+
+export function runServiceAction(
+  serviceId: string,
+  action: EcosystemAction,
+  options: { dryRun?: boolean } = {}
+): ProcessOperation {
+  const service = getEcosystemService(serviceId)
+  if (!service) {
+    throw new ProcessControlError(`Unknown service: ${serviceId}`, 404)
+  }
+  if (!service.controllable) {
+    throw new ProcessControlError(`${service.label} cannot be controlled from the dashboard${service.note ? `: ${service.note}` : ''}`, 403)
+  }
+  const running = operations.find((op) => op.service === serviceId && op.status === 'running')
+  if (running) {
+    throw new ProcessControlError(`A ${running.action} of ${serviceId} is already running (${running.id})`, 409)
+  }
+
+  const dryRun = FORCE_DRY_RUN || options.dryRun === true
+  const operation: ProcessOperation = {
+    id: randomUUID(),
+    service: serviceId,
+    action,
+    dryRun,
+    status: 'running',
+    command: `${ECOSYSTEM_SCRIPT} ${action} ${serviceId}`,
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+    exitCode: null,
+    stdout: '',
+    stderr: '',
+  }
+  remember(operation)
+
+  const finish = (status: OperationStatus, exitCode: number | null, error?: string) => {
+    if (operation.status !== 'running') return
+    operation.status = status
+    operation.exitCode = exitCode
+    operation.finishedAt = new Date().toISOString()
+    if (error) operation.error = error
+  }
+
+  if (dryRun) {
+    operation.stdout = `[dry-run] would run: bash ${operation.command}\n`
+    finish('succeeded', 0)
+    return operation
+  }
+
+  const child = spawn('bash', [ECOSYSTEM_SCRIPT, action, serviceId], {
+    cwd: dirname(ECOSYSTEM_SCRIPT),
+    stdio: ['ignore', 'pipe', 'pipe'],
+  })
+
+  const timer = setTimeout(() => {
+    child.kill('SIGTERM')
+    finish('failed', null, `Timed out after ${OPERATION_TIMEOUT_MS / 1000}s`)
+  }, OPERATION_TIMEOUT_MS)
+
+  child.stdout.on('data', (chunk: Buffer) => {
+    operation.stdout = appendOutput(operation.stdout, chunk)
+  })
+  child.stderr.on('data', (chunk: Buffer) => {
+    operation.stderr = appendOutput(operation.stderr, chunk)
+  })
+  child.on('error', (err) => {
+    clearTimeout(timer)
+    finish('failed', null, err.message)
+  })
+  child.on('close', (code) => {
+    clearTimeout(timer)
+    finish(code === 0 ? 'succeeded' : 'failed', code)
+  })
+
+  return operation
+}
@@ -0,0 +1,231 @@
+import { listContainers, type ContainerInfo } from './containers'
+import { getProcessMatchers, getServiceRegistry } from './serviceRegistry'
+import {
+  getSysconf,
+  listProcesses,
+  readBootTime,
+  readListeningSockets,
+  readMemTotal,
+  readProcessPorts,
+  type ProcSnapshot,
+} from './procfs'
+
+export interface ProcessNode {
+  pid: number
+  ppid: number
+  name: string // kernel comm, e.g. "python3"
+  command: string // full command line
+  state: string // R, S, D, Z, ...
+  threads: number
+  rssBytes: number
+  cpu: number // % of one core since the previous scan
+  memory: number // % of MemTotal
+  startedAt: string
+  uptimeSeconds: number
+  ports: number[] // listening TCP ports
+  children: ProcessNode[]
+}
+
+// One row per monitored service. Native rows aggregate every matching
+// process and its descendants; `tree` keeps the parent/child structure.
+export interface ProcessInfo {
+  pid: number // oldest process in the group
+  name: string
+  cpu: number
+  memory: number
+  uptime: string
+  uptimeSeconds: number | null
+  type: 'native' | 'docker'
+  rssBytes: number | null
+  threads: number | null
+  ports: number[]
+  command: string | null
+  processCount: number
+  pids: number[]
+  tree: ProcessNode[]
+}
+
+// Process matchers from the service registry, compiled once per registry version
+let compiledPatterns: { version: number; patterns: { name: string; regex: RegExp }[] } | null = null
+
+function getProcessPatterns() {
+  const { version } = getServiceRegistry()
+  if (compiledPatterns?.version !== version) {
+    compiledPatterns = {
+      version,
+      patterns: getProcessMatchers().map((m) => ({ name: m.name, regex: new RegExp(m.pattern) })),
+    }
+  }
+  return compiledPatterns.patterns
+}
+
+function formatDuration(seconds: number): string {
+  const days = Math.floor(seconds / 86400)
+  const hours = Math.floor((seconds % 86400) / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${minutes}m`
+  return `${minutes}m`
+}
+
+// CPU ticks seen on the previous scan, keyed by pid + start time so a
+// recycled pid doesn't inherit someone else's counters
+const previousTicks = new Map<string, { ticks: number; at: number }>()
+
+function cpuPercent(proc: ProcSnapshot, now: number, startedAtMs: number, clockTicks: number): number {
+  const key = `${proc.pid}:${proc.startTime}`
+  const ticks = proc.utime + proc.stime
+  const previous = previousTicks.get(key)
+  previousTicks.set(key, { ticks, at: now })
+
+  // First sighting: fall back to the lifetime average
+  const [deltaTicks, elapsedMs] = previous
+    ? [ticks - previous.ticks, now - previous.at]
+    : [ticks, now - startedAtMs]
+  if (elapsedMs <= 0) return 0
+  return Math.round(((deltaTicks / clockTicks) / (elapsedMs / 1000)) * 1000) / 10
+}
+
+async function getNativeProcesses(): Promise<ProcessInfo[]> {
+  let snapshots: ProcSnapshot[]
+  let bootTime: number
+  let memTotal: number
+  try {
+    ;[snapshots, bootTime, memTotal] = await Promise.all([listProcesses(), readBootTime(), readMemTotal()])
+  } catch {
+    // No /proc (not Linux)
+    return []
+  }
+  const [{ clockTicks, pageSize }, listening] = await Promise.all([getSysconf(), readListeningSockets()])
+  const now = Date.now()
+
+  const childrenOf = new Map<number, ProcSnapshot[]>()
+  for (const snapshot of snapshots) {
+    const siblings = childrenOf.get(snapshot.ppid) ?? []
+    siblings.push(snapshot)
+    childrenOf.set(snapshot.ppid, siblings)
+  }
+
+  // Assign matching processes, then their descendants, to a service
+  const patterns = getProcessPatterns()
+  const groupOf = new Map<number, string>()
+  for (const snapshot of snapshots) {
+    const match = patterns.find((p) => p.regex.test(snapshot.command))
+    if (match) groupOf.set(snapshot.pid, match.name)
+  }
+  const assignDescendants = (pid: number, group: string) => {
+    for (const child of childrenOf.get(pid) ?? []) {
+      if (!groupOf.has(child.pid)) groupOf.set(child.pid, group)
+      if (groupOf.get(child.pid) === group) assignDescendants(child.pid, group)
+    }
+  }
+  for (const [pid, group] of Array.from(groupOf)) {
+    assignDescendants(pid, group)
+  }
+
+  const live = new Set<string>()
+  const toNode = async (snapshot: ProcSnapshot): Promise<ProcessNode> => {
+    live.add(`${snapshot.pid}:${snapshot.startTime}`)
+    const startedAtMs = bootTime + (snapshot.startTime / clockTicks) * 1000
+    const group = groupOf.get(snapshot.pid)
+    const rssBytes = snapshot.rssPages * pageSize
+    const children = (childrenOf.get(snapshot.pid) ?? []).filter((c) => groupOf.get(c.pid) === group)
+
+    return {
+      pid: snapshot.pid,
+      ppid: snapshot.ppid,
+      name: snapshot.comm,
+      command: snapshot.command,
+      state: snapshot.state,
+      threads: snapshot.threads,
+      rssBytes,
+      cpu: cpuPercent(snapshot, now, startedAtMs, clockTicks),
+      memory: memTotal > 0 ? Math.round((rssBytes / memTotal) * 1000) / 10 : 0,
+      startedAt: new Date(startedAtMs).toISOString(),
+      uptimeSeconds: Math.max(0, Math.floor((now - startedAtMs) / 1000)),
+      ports: await readProcessPorts(snapshot.pid, listening),
+      children: await Promise.all(children.map(toNode)),
+    }
+  }
+
+  const processes: ProcessInfo[] = []
+  for (const { name } of patterns) {
+    // Roots are group members whose parent belongs elsewhere
+    const roots = snapshots
+      .filter((s) => groupOf.get(s.pid) === name && groupOf.get(s.ppid) !== name)
+      .sort((a, b) => a.startTime - b.startTime)
+    if (roots.length === 0) continue
+
+    const tree = await Promise.all(roots.map(toNode))
+    const flat: ProcessNode[] = []
+    const walk = (node: ProcessNode) => {
+      flat.push(node)
+      node.children.forEach(walk)
+    }
+    tree.forEach(walk)
+
+    const oldest = tree[0]!
+    processes.push({
+      pid: oldest.pid,
+      name,
+      cpu: Math.round(flat.reduce((sum, n) => sum + n.cpu, 0) * 10) / 10,
+      memory: Math.round(flat.reduce((sum, n) => sum + n.memory, 0) * 10) / 10,
+      uptime: formatDuration(oldest.uptimeSeconds),
+      uptimeSeconds: oldest.uptimeSeconds,
+      type: 'native',
+      rssBytes: flat.reduce((sum, n) => sum + n.rssBytes, 0),
+      threads: flat.reduce((sum, n) => sum + n.threads, 0),
+      ports: Array.from(new Set(flat.flatMap((n) => n.ports))).sort((a, b) => a - b),
+      command: oldest.command,
+      processCount: flat.length,
+      pids: flat.map((n) => n.pid),
+      tree,
+    })
+  }
+
+  for (const key of previousTicks.keys()) {
+    if (!live.has(key)) previousTicks.delete(key)
+  }
+
+  return processes
+}
+
+async function getDockerProcesses(): Promise<ProcessInfo[]> {
+  let containers: ContainerInfo[]
+  try {
+    containers = await listContainers()
+  } catch {
+    // Docker not available
+    return []
+  }
+
+  return containers
+    .filter((c) => c.monitored && c.state === 'running')
+    .map((c) => ({
+      pid: c.pid ?? 0,
+      name: `${c.name} (docker)`,
+      cpu: c.stats?.cpu ?? 0,
+      memory: c.stats?.memoryPercent ?? 0,
+      uptime: c.uptimeSeconds !== null ? formatDuration(c.uptimeSeconds) : c.status,
+      uptimeSeconds: c.uptimeSeconds,
+      type: 'docker' as const,
+      rssBytes: c.stats?.memoryBytes ?? null,
+      threads: null,
+      ports: Array.from(new Set(c.ports.map((p) => p.publicPort).filter((p): p is number => p !== null))),
+      command: c.image,
+      processCount: 1,
+      pids: c.pid ? [c.pid] : [],
+      tree: [],
+    }))
+}
+
+export async function getProcesses(): Promise<ProcessInfo[]> {
+  const [nativeProcesses, dockerProcesses] = await Promise.all([
+    getNativeProcesses(),
+    getDockerProcesses(),
+  ])
+
+  return [...nativeProcesses, ...dockerProcesses]
+    .sort((a, b) => b.cpu - a.cpu) // Sort by CPU usage
+}
@@ -0,0 +1,151 @@
+import { readdir, readFile, readlink } from 'fs/promises'
+import { execFile } from 'child_process'
+import { promisify } from 'util'
+
+const execFileAsync = promisify(execFile)
+
+// Thin, allocation-light readers over /proc. Everything here tolerates
+// processes disappearing mid-scan: a vanished pid is simply skipped.
+
+export interface ProcStat {
+  pid: number
+  comm: string
+  state: string
+  ppid: number
+  utime: number // clock ticks
+  stime: number
+  threads: number
+  startTime: number // clock ticks after boot
+  rssPages: number
+}
+
+export interface ProcSnapshot extends ProcStat {
+  command: string
+}
+
+// /proc/<pid>/stat; comm is parenthesised and may itself contain spaces or ")"
+export function parseProcStat(content: string): ProcStat | null {
+  const open = content.indexOf('(')
+  const close = content.lastIndexOf(')')
+  if (open < 0 || close < open) return null
+
+  // Fields after comm, starting at field 3 (state)
+  const rest = content.slice(close + 2).trim().split(/\s+/)
+  const field = (n: number) => parseInt(rest[n - 3] || '0', 10)
+
+  return {
+    pid: parseInt(content.slice(0, open), 10),
+    comm: content.slice(open + 1, close),
+    state: rest[0] || '?',
+    ppid: field(4),
+    utime: field(14),
+    stime: field(15),
+    threads: field(20),
+    startTime: field(22),
+    rssPages: field(24),
+  }
+}
+
+// /proc/net/tcp and tcp6: listening sockets (state 0A) as inode -> port
+export function parseListeningSockets(content: string): Map<string, number> {
+  const sockets = new Map<string, number>()
+  for (const line of content.split('\n').slice(1)) {
+    const parts = line.trim().split(/\s+/)
+    if (parts.length < 10 || parts[3] !== '0A') continue
+    const port = parseInt(parts[1]!.split(':')[1] || '', 16)
+    if (!isNaN(port)) sockets.set(parts[9]!, port)
+  }
+  return sockets
+}
+
+let sysconf: Promise<{ clockTicks: number; pageSize: number }> | null = null
+
+// CLK_TCK and PAGESIZE are 100 and 4096 on practically every Linux box, but
+// ask once rather than assume
+export function getSysconf() {
+  if (!sysconf) {
+    sysconf = Promise.all([
+      execFileAsync('getconf', ['CLK_TCK']).then(({ stdout }) => parseInt(stdout, 10)).catch(() => NaN),
+      execFileAsync('getconf', ['PAGESIZE']).then(({ stdout }) => parseInt(stdout, 10)).catch(() => NaN),
+    ]).then(([clockTicks, pageSize]) => ({
+      clockTicks: clockTicks > 0 ? clockTicks : 100,
+      pageSize: pageSize > 0 ? pageSize : 4096,
+    }))
+  }
+  return sysconf
+}
+
+export async function readBootTime(): Promise<number> {
+  const content = await readFile('/proc/stat', 'utf-8')
+  const match = /^btime\s+(\d+)/m.exec(content)
+  if (!match) throw new Error('btime missing from /proc/stat')
+  return parseInt(match[1]!, 10) * 1000
+}
+
+export async function readMemTotal(): Promise<number> {
+  const content = await readFile('/proc/meminfo', 'utf-8')
+  const match = /^MemTotal:\s+(\d+)\s+kB/m.exec(content)
+  return match ? parseInt(match[1]!, 10) * 1024 : 0
+}
+
+export async function readProcess(pid: number): Promise<ProcSnapshot | null> {
+  try {
+    const [stat, cmdline] = await Promise.all([
+      readFile(`/proc/${pid}/stat`, 'utf-8'),
+      readFile(`/proc/${pid}/cmdline`, 'utf-8'),
+    ])
+    const parsed = parseProcStat(stat)
+    if (!parsed) return null
+    // Kernel threads have an empty cmdline
+    const command = cmdline.split('\0').filter(Boolean).join(' ') || `[${parsed.comm}]`
+    return { ...parsed, command }
+  } catch {
+    return null
+  }
+}
+
+export async function listProcesses(): Promise<ProcSnapshot[]> {
+  const entries = await readdir('/proc')
+  const pids = entries.filter((e) => /^\d+$/.test(e)).map((e) => parseInt(e, 10))
+  const snapshots = await Promise.all(pids.map(readProcess))
+  return snapshots.filter((s): s is ProcSnapshot => s !== null)
+}
+
+export async function readListeningSockets(): Promise<Map<string, number>> {
+  const sockets = new Map<string, number>()
+  for (const file of ['/proc/net/tcp', '/proc/net/tcp6']) {
+    try {
+      for (const [inode, port] of parseListeningSockets(await readFile(file, 'utf-8'))) {
+        sockets.set(inode, port)
+      }
+    } catch {
+      // IPv6 disabled, or not Linux
+    }
+  }
+  return sockets
+}
+
+// Ports a process listens on; needs permission to read its fd table
+export async function readProcessPorts(pid: number, listening: Map<string, number>): Promise<number[]> {
+  if (listening.size === 0) return []
+  let fds: string[]
+  try {
+    fds = await readdir(`/proc/${pid}/fd`)
+  } catch {
+    return []
+  }
+
+  const ports = new Set<number>()
+  await Promise.all(
+    fds.map(async (fd) => {
+      try {
+        const match = /^socket:\[(\d+)\]$/.exec(await readlink(`/proc/${pid}/fd/${fd}`))
+        const port = match ? listening.get(match[1]!) : undefined
+        if (port !== undefined) ports.add(port)
+      } catch {
+        // fd closed while scanning
+      }
+    })
+  )
+  return Array.from(ports).sort((a, b) => a - b)
+}
@@ -0,0 +1,33 @@
+// Fixed-capacity FIFO used by the in-memory metric histories
+export class RingBuffer<T> {
+  private items: (T | undefined)[]
+  private start = 0
+  private size = 0
+
+  constructor(private capacity: number) {
+    this.items = new Array(capacity)
+  }
+
+  push(item: T) {
+    const end = (this.start + this.size) % this.capacity
+    this.items[end] = item
+    if (this.size < this.capacity) {
+      this.size++
+    } else {
+      this.start = (this.start + 1) % this.capacity
+    }
+  }
+
+  // Oldest first
+  toArray(): T[] {
+    const result: T[] = []
+    for (let i = 0; i < this.size; i++) {
+      result.push(this.items[(this.start + i) % this.capacity] as T)
+    }
+    return result
+  }
+
+  last(): T | undefined {
+    return this.size > 0 ? this.items[(this.start + this.size - 1) % this.capacity] : undefined
+  }
+}
@@ -0,0 +1,554 @@
+import { readFileSync, watch, type FSWatcher } from 'fs'
+import { basename, dirname, join } from 'path'
+import { ECOSYSTEM_ROOT } from '../../config/ports'
+
+// Single source of truth for what the dashboard knows about each service:
+// port, health probe, process matcher, containers, log sources, links and
+// dependencies. Loaded from config/services.json and reloaded when the file
+// changes; an invalid edit keeps the previous registry in place.
+
+export const SERVICE_REGISTRY_PATH =
+  process.env.SERVICE_REGISTRY_PATH || join(process.cwd(), 'config', 'services.json')
+
+// `path == "ok"`, `components.db.up != false`, `queue.depth < 100`, or a bare
+// path that only has to exist. Paths are dotted with optional [index] steps.
+export interface JsonAssertion {
+  expression: string
+  path: string
+  op: 'exists' | '==' | '!=' | '<' | '<=' | '>' | '>='
+  value?: unknown
+}
+
+export interface ProbeExpectations {
+  status?: number[] // accepted HTTP statuses; any 2xx when omitted
+  json?: JsonAssertion[]
+  bodyRegex?: string
+  maxLatencyMs?: number // slower answers count as unhealthy
+}
+
+// Where a service reports its own sub-component health (e.g. memOS's
+// aggregate): an object keyed by component name or an array of components
+export interface ProbeChildren {
+  path: string
+  name: string // field holding the component name (arrays only)
+  status: string
+  message: string
+  latency: string
+}
+
+export type HealthProbe =
+  | {
+      type: 'http'
+      path: string
+      port?: number
+      tls?: boolean
+      insecure?: boolean // accept self-signed certificates
+      headers?: Record<string, string> // ${VAR} is expanded at probe time, never stored
+      timeoutMs?: number
+      expect?: ProbeExpectations
+      children?: ProbeChildren
+    }
+  | { type: 'tcp'; port?: number; timeoutMs?: number; expect?: Pick<ProbeExpectations, 'maxLatencyMs'> }
+
+export interface ProcessMatcher {
+  pattern: string // regex tested against the full command line
+  name: string // display name in /api/processes
+}
+
+export type LogSourceType = 'journald' | 'docker' | 'file'
+
+export interface LogSourceConfig {
+  id: string
+  label: string
+  type: LogSourceType
+  target: string // journald unit, container name or file path
+}
+
+export interface ServiceLink {
+  name: string
+  url: string
+  description: string
+}
+
+export type EcosystemKind = 'system' | 'systemctl' | 'docker' | 'python' | 'node'
+
+export interface EcosystemControl {
+  kind: EcosystemKind
+  controllable: boolean
+  note?: string
+}
+
+export interface ServiceDefinition {
+  id: string // also the ecosystem.sh service name when `ecosystem` is set
+  name: string
+  description?: string
+  port: number | null
+  health: HealthProbe | null
+  process: ProcessMatcher | null
+  containers: string[]
+  logs: LogSourceConfig[] // journald/file; docker sources are derived from containers
+  links: ServiceLink[]
+  dependsOn: string[]
+  ecosystem: EcosystemControl | null
+}
+
+// What the health checker needs; `name` keys health history and alerts
+export interface HealthCheckService {
+  name: string
+  port: number
+  healthEndpoint: string
+  type: 'http' | 'tcp'
+  probe: HealthProbe
+}
+
+// Flattened view of services ecosystem.sh can start/stop, in file order
+export interface EcosystemService extends EcosystemControl {
+  id: string
+  label: string
+  port: number | null
+  processNames: string[]
+}
+
+export interface ServiceRegistry {
+  services: ServiceDefinition[]
+  path: string
+  loadedAt: string
+  version: number
+}
+
+const LOG_TYPES: LogSourceType[] = ['journald', 'file']
+const ECOSYSTEM_KINDS: EcosystemKind[] = ['system', 'systemctl', 'docker', 'python', 'node']
+
+// ${VAR} from the environment; ECOSYSTEM_ROOT falls back to its config default
+export function substitute(value: string): string {
+  return value.replace(/\$\{(\w+)\}/g, (_, name: string) =>
+    process.env[name] ?? (name === 'ECOSYSTEM_ROOT' ? ECOSYSTEM_ROOT : '')
+  )
+}
+
+function isPort(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0 && (value as number) < 65536
+}
+
+function stringList(value: unknown, where: string, field: string, errors: string[]): string[] {
+  if (value === undefined) return []
+  if (!Array.isArray(value) || value.some((v) => typeof v !== 'string')) {
+    errors.push(`${where}: ${field} must be an array of strings`)
+    return []
+  }
+  return value
+}
+
+const JSON_ASSERTION = /^\s*([A-Za-z_$][\w$-]*(?:\.[A-Za-z_$][\w$-]*|\[\d+\])*)\s*(?:(==|!=|<=|>=|<|>)\s*(.+?))?\s*$/
+
+export function parseJsonAssertion(expression: string): JsonAssertion {
+  const match = JSON_ASSERTION.exec(expression)
+  if (!match) throw new Error(`cannot parse "${expression}"`)
+  const [, path, op, literal] = match
+  if (!op) return { expression, path: path!, op: 'exists' }
+
+  let value: unknown
+  try {
+    value = JSON.parse(literal!)
+  } catch {
+    throw new Error(`"${literal}" in "${expression}" is not a JSON literal`)
+  }
+  if (['<', '<=', '>', '>='].includes(op) && typeof value !== 'number') {
+    throw new Error(`"${expression}" compares with ${op} against a non-number`)
+  }
+  return { expression, path: path!, op: op as JsonAssertion['op'], value }
+}
+
+function isPositiveInt(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0
+}
+
+function validateExpect(raw: any, where: string, type: 'http' | 'tcp', errors: string[]): ProbeExpectations | undefined {
+  if (raw === undefined || raw === null) return undefined
+  const expect: ProbeExpectations = {}
+
+  if (raw.maxLatencyMs !== undefined) {
+    if (!isPositiveInt(raw.maxLatencyMs)) errors.push(`${where}: health.expect.maxLatencyMs must be a positive integer`)
+    expect.maxLatencyMs = raw.maxLatencyMs
+  }
+  if (type === 'tcp') {
+    if (raw.status !== undefined || raw.json !== undefined || raw.bodyRegex !== undefined) {
+      errors.push(`${where}: tcp probes only support health.expect.maxLatencyMs`)
+    }
+    return expect
+  }
+
+  if (raw.status !== undefined) {
+    if (!Array.isArray(raw.status) || raw.status.some((s: unknown) => !Number.isInteger(s) || (s as number) < 100 || (s as number) > 599)) {
+      errors.push(`${where}: health.expect.status must be an array of HTTP status codes`)
+    }
+    expect.status = raw.status
+  }
+  if (raw.json !== undefined) {
+    const json = stringList(raw.json, where, 'health.expect.json', errors)
+    expect.json = json.flatMap((expression) => {
+      try {
+        return [parseJsonAssertion(expression)]
+      } catch (err) {
+        errors.push(`${where}: health.expect.json ${(err as Error).message}`)
+        return []
+      }
+    })
+  }
+  if (raw.bodyRegex !== undefined) {
+    try {
+      new RegExp(raw.bodyRegex)
+      expect.bodyRegex = raw.bodyRegex
+    } catch (err) {
+      errors.push(`${where}: health.expect.bodyRegex is not a valid regex (${(err as Error).message})`)
+    }
+  }
+  return expect
+}
+
+function validateChildren(raw: any, where: string, errors: string[]): ProbeChildren | undefined {
+  if (raw === undefined || raw === null) return undefined
+  if (typeof raw.path !== 'string' || !JSON_ASSERTION.test(raw.path) || /[=<>!]/.test(raw.path)) {
+    errors.push(`${where}: health.children.path must be a JSON path`)
+  }
+  return {
+    path: raw.path,
+    name: raw.name ?? 'name',
+    status: raw.status ?? 'status',
+    message: raw.message ?? 'message',
+    latency: raw.latency ?? 'latency_ms',
+  }
+}
+
+function validateHealth(raw: any, where: string, errors: string[]): HealthProbe | null {
+  if (raw === undefined || raw === null) return null
+  if (raw.port !== undefined && !isPort(raw.port)) errors.push(`${where}: health.port must be a valid port`)
+  if (raw.timeoutMs !== undefined && !isPositiveInt(raw.timeoutMs)) {
+    errors.push(`${where}: health.timeoutMs must be a positive integer`)
+  }
+  if (raw.type === 'http') {
+    if (typeof raw.path !== 'string' || !raw.path.startsWith('/')) {
+      errors.push(`${where}: health.path must start with "/"`)
+    }
+    if (
+      raw.headers !== undefined &&
+      (typeof raw.headers !== 'object' || Array.isArray(raw.headers) || Object.values(raw.headers).some((v) => typeof v !== 'string'))
+    ) {
+      errors.push(`${where}: health.headers must map header names to strings`)
+    }
+    return {
+      type: 'http',
+      path: raw.path,
+      port: raw.port,
+      tls: raw.tls === true,
+      insecure: raw.insecure === true,
+      headers: raw.headers,
+      timeoutMs: raw.timeoutMs,
+      expect: validateExpect(raw.expect, where, 'http', errors),
+      children: validateChildren(raw.children, where, errors),
+    }
+  }
+  if (raw.type === 'tcp') {
+    return { type: 'tcp', port: raw.port, timeoutMs: raw.timeoutMs, expect: validateExpect(raw.expect, where, 'tcp', errors) }
+  }
+  errors.push(`${where}: health.type must be "http" or "tcp"`)
+  return null
+}
+
+function validateProcess(raw: any, where: string, errors: string[]): ProcessMatcher | null {
+  if (raw === undefined || raw === null) return null
+  if (typeof raw.name !== 'string' || !raw.name) errors.push(`${where}: process.name is required`)
+  if (typeof raw.pattern !== 'string' || !raw.pattern) {
+    errors.push(`${where}: process.pattern is required`)
+  } else {
+    try {
+      new RegExp(raw.pattern)
+    } catch (err) {
+      errors.push(`${where}: process.pattern is not a valid regex (${(err as Error).message})`)
+    }
+  }
+  return { pattern: raw.pattern, name: raw.name }
+}
+
+function validateLogs(raw: unknown, where: string, errors: string[]): LogSourceConfig[] {
+  if (raw === undefined) return []
+  if (!Array.isArray(raw)) {
+    errors.push(`${where}: logs must be an array`)
+    return []
+  }
+  return raw.map((log: any, i) => {
+    if (typeof log?.id !== 'string' || !log.id) errors.push(`${where}: logs[${i}].id is required`)
+    if (!LOG_TYPES.includes(log?.type)) {
+      errors.push(`${where}: logs[${i}].type must be one of ${LOG_TYPES.join(', ')} (docker sources come from containers)`)
+    }
+    if (typeof log?.target !== 'string' || !log.target) errors.push(`${where}: logs[${i}].target is required`)
+    return { id: log?.id, label: log?.label ?? log?.id, type: log?.type, target: substitute(String(log?.target ?? '')) }
+  })
+}
+
+function validateLinks(raw: unknown, where: string, errors: string[]): ServiceLink[] {
+  if (raw === undefined) return []
+  if (!Array.isArray(raw)) {
+    errors.push(`${where}: links must be an array`)
+    return []
+  }
+  return raw.map((link: any, i) => {
+    if (typeof link?.name !== 'string' || !link.name) errors.push(`${where}: links[${i}].name is required`)
+    if (typeof link?.url !== 'string' || !/^https?:\/\//.test(link.url)) {
+      errors.push(`${where}: links[${i}].url must be an http(s) URL`)
+    }
+    return { name: link?.name, url: link?.url, description: link?.description ?? '' }
+  })
+}
+
+function validateEcosystem(raw: any, where: string, errors: string[]): EcosystemControl | null {
+  if (raw === undefined || raw === null) return null
+  if (!ECOSYSTEM_KINDS.includes(raw.kind)) {
+    errors.push(`${where}: ecosystem.kind must be one of ${ECOSYSTEM_KINDS.join(', ')}`)
+  }
+  if (typeof raw.controllable !== 'boolean') errors.push(`${where}: ecosystem.controllable must be a boolean`)
+  return { kind: raw.kind, controllable: raw.controllable, note: raw.note }
+}
+
+// Depth-first search for a dependency cycle; returns the cycle path if any
+function findCycle(services: ServiceDefinition[]): string[] | null {
+  const byId = new Map(services.map((s) => [s.id, s]))
+  const state = new Map<string, 'visiting' | 'done'>()
+
+  const visit = (id: string, path: string[]): string[] | null => {
+    if (state.get(id) === 'done') return null
+    if (state.get(id) === 'visiting') return [...path.slice(path.indexOf(id)), id]
+    state.set(id, 'visiting')
+    for (const dep of byId.get(id)?.dependsOn ?? []) {
+      const cycle = visit(dep, [...path, id])
+      if (cycle) return cycle
+    }
+    state.set(id, 'done')
+    return null
+  }
+
+  for (const service of services) {
+    const cycle = visit(service.id, [])
+    if (cycle) return cycle
+  }
+  return null
+}
+
+// Throws with every problem found rather than stopping at the first one
+export function validateServices(input: unknown): ServiceDefinition[] {
+  const list = Array.isArray(input) ? input : (input as { services?: unknown })?.services
+  if (!Array.isArray(list)) {
+    throw new Error('Service registry must be an array or an object with a "services" array')
+  }
+
+  const errors: string[] = []
+  const ids = new Set<string>()
+  const names = new Set<string>()
+  const logIds = new Set<string>()
+  const containers = new Set<string>()
+
+  const services = list.map((raw: any, index: number): ServiceDefinition => {
+    const where = `services[${index}]${raw?.id ? ` (${raw.id})` : ''}`
+
+    if (typeof raw?.id !== 'string' || !/^[a-z0-9][a-z0-9_-]*$/.test(raw.id)) {
+      errors.push(`${where}: id is required (lowercase letters, digits, "-" and "_")`)
+    } else if (ids.has(raw.id)) {
+      errors.push(`${where}: duplicate id`)
+    } else {
+      ids.add(raw.id)
+    }
+
+    if (typeof raw?.name !== 'string' || !raw.name) errors.push(`${where}: name is required`)
+    else if (names.has(raw.name)) errors.push(`${where}: duplicate name "${raw.name}"`)
+    else names.add(raw.name)
+
+    if (raw?.port !== null && raw?.port !== undefined && !isPort(raw.port)) {
+      errors.push(`${where}: port must be a valid port or null`)
+    }
+
+    const health = validateHealth(raw?.health, where, errors)
+    if (health && !isPort(health.port) && !isPort(raw?.port)) {
+      errors.push(`${where}: health checks need a port (service port or health.port)`)
+    }
+
+    const logs = validateLogs(raw?.logs, where, errors)
+    for (const log of logs) {
+      if (logIds.has(log.id)) errors.push(`${where}: duplicate log source id "${log.id}"`)
+      logIds.add(log.id)
+    }
+
+    const serviceContainers = stringList(raw?.containers, where, 'containers', errors)
+    for (const container of serviceContainers) {
+      if (containers.has(container)) errors.push(`${where}: container "${container}" is claimed by another service`)
+      containers.add(container)
+    }
+
+    return {
+      id: raw?.id,
+      name: raw?.name,
+      description: raw?.description,
+      port: raw?.port ?? null,
+      health,
+      process: validateProcess(raw?.process, where, errors),
+      containers: serviceContainers,
+      logs,
+      links: validateLinks(raw?.links, where, errors),
+      dependsOn: stringList(raw?.dependsOn, where, 'dependsOn', errors),
+      ecosystem: validateEcosystem(raw?.ecosystem, where, errors),
+    }
+  })
+
+  for (const service of services) {
+    for (const dep of service.dependsOn) {
+      if (!ids.has(dep)) errors.push(`${service.id}: depends on unknown service "${dep}"`)
+    }
+  }
+  if (errors.length === 0) {
+    const cycle = findCycle(services)
+    if (cycle) errors.push(`Dependency cycle: ${cycle.join(' -> ')}`)
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid service registry:\n${errors.join('\n')}`)
+  }
+
+  return services
+}
+
+let registry: ServiceRegistry | null = null
+let lastError: string | null = null
+const listeners = new Set<(registry: ServiceRegistry) => void>()
+
+function readRegistry(path: string, version: number): ServiceRegistry {
+  const services = validateServices(JSON.parse(readFileSync(path, 'utf-8')))
+  return { services, path, loadedAt: new Date().toISOString(), version }
+}
+
+// Loads synchronously so startup fails fast on a broken registry
+export function loadServiceRegistry(path = SERVICE_REGISTRY_PATH): ServiceRegistry {
+  registry = readRegistry(path, (registry?.version ?? 0) + 1)
+  lastError = null
+  return registry
+}
+
+export function getServiceRegistry(): ServiceRegistry {
+  return registry ?? loadServiceRegistry()
+}
+
+export function getRegistryError(): string | null {
+  return lastError
+}
+
+export function onServiceRegistryChange(listener: (registry: ServiceRegistry) => void): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+export function reloadServiceRegistry(): ServiceRegistry {
+  const current = getServiceRegistry()
+  try {
+    const next = readRegistry(current.path, current.version + 1)
+    registry = next
+    lastError = null
+  } catch (err) {
+    lastError = (err as Error).message
+    throw err
+  }
+  for (const listener of listeners) {
+    try {
+      listener(registry)
+    } catch (err) {
+      console.error('Service registry listener failed:', err)
+    }
+  }
+  return registry
+}
+
+let watcher: FSWatcher | null = null
+let reloadTimer: NodeJS.Timeout | null = null
+
+// Watch the directory rather than the file: editors often save by renaming
+// a temp file over the original, which orphans a file-level watch
+export function watchServiceRegistry() {
+  if (watcher) return
+  const path = getServiceRegistry().path
+  const file = basename(path)
+
+  watcher = watch(dirname(path), (_event, changed) => {
+    if (changed !== file) return
+    if (reloadTimer) clearTimeout(reloadTimer)
+    reloadTimer = setTimeout(() => {
+      try {
+        const next = reloadServiceRegistry()
+        console.log(`Service registry reloaded (${next.services.length} services)`)
+      } catch (err) {
+        console.error(`Service registry reload failed, keeping previous version: ${(err as Error).message}`)
+      }
+    }, 200)
+  })
+}
+
+export function unwatchServiceRegistry() {
+  watcher?.close()
+  watcher = null
+  if (reloadTimer) clearTimeout(reloadTimer)
+}
+
+// Derived views -------------------------------------------------------------
+
+export function getServices(): ServiceDefinition[] {
+  return getServiceRegistry().services
+}
+
+export function getService(id: string): ServiceDefinition | undefined {
+  return getServices().find((s) => s.id === id)
+}
+
+export function getHealthCheckServices(): HealthCheckService[] {
+  return getServices()
+    .filter((s) => s.health)
+    .map((s) => ({
+      name: s.name,
+      port: (s.health!.port ?? s.port)!,
+      healthEndpoint: s.health!.type === 'http' ? s.health!.path : '',
+      type: s.health!.type,
+      probe: s.health!,
+    }))
+}
+
+export function getProcessMatchers(): ProcessMatcher[] {
+  return getServices().flatMap((s) => (s.process ? [s.process] : []))
+}
+
+export function getMonitoredContainers(): string[] {
+  return getServices().flatMap((s) => s.containers)
+}
+
+export function getLogSources(): LogSourceConfig[] {
+  const services = getServices()
+  return [
+    ...services.flatMap((s) => s.logs),
+    ...services.flatMap((s) =>
+      s.containers.map((name) => ({ id: name, label: name, type: 'docker' as const, target: name }))
+    ),
+  ]
+}
+
+export function getEcosystemServices(): EcosystemService[] {
+  return getServices()
+    .filter((s) => s.ecosystem)
+    .map((s) => ({
+      id: s.id,
+      label: s.name,
+      port: s.port,
+      ...s.ecosystem!,
+      processNames: [
+        ...(s.process ? [s.process.name] : []),
+        ...s.containers.map((c) => `${c} (docker)`),
+      ],
+    }))
+}
+
+export function getEcosystemService(id: string): EcosystemService | undefined {
+  return getEcosystemServices().find((s) => s.id === id)
+}
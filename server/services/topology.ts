@@ -0,0 +1,141 @@
+import { checkServiceHealth, type HealthCheckResult, type HealthStatus } from './healthChecks'
+import { listContainers, type ContainerInfo } from './containers'
+import { getLiveValue, type ServiceHealthSnapshot } from './liveState'
+import { getHealthCheckServices, getServices, type ServiceDefinition } from './serviceRegistry'
+
+// Health of every registry service with failures propagated along
+// `dependsOn`: a service whose upstream is down is reported as degraded (or
+// as a symptom, if it is failing too) and the deepest failing upstreams are
+// flagged as probable root causes.
+
+export type EffectiveStatus = 'healthy' | 'degraded' | 'unhealthy' | 'unknown'
+
+export interface ServiceObservation {
+  status: HealthStatus
+  message?: string
+  latency?: number
+  source: 'probe' | 'container' | 'none'
+}
+
+export interface TopologyNode {
+  id: string
+  name: string
+  port: number | null
+  dependsOn: string[]
+  status: HealthStatus // from the service's own probe/containers
+  effectiveStatus: EffectiveStatus
+  rootCause: boolean
+  impactedBy: string[] // root causes among the failing upstreams
+  message?: string
+  latency?: number
+  source: ServiceObservation['source']
+}
+
+export interface Topology {
+  nodes: TopologyNode[]
+  edges: { from: string; to: string }[] // from depends on to
+  rootCauses: string[]
+  timestamp: string
+}
+
+// Pure so it can be reasoned about (and exercised) without live services
+export function computeTopology(
+  services: ServiceDefinition[],
+  observations: Map<string, ServiceObservation>
+): Omit<Topology, 'timestamp'> {
+  const byId = new Map(services.map((s) => [s.id, s]))
+  const statusOf = (id: string) => observations.get(id)?.status ?? 'unknown'
+
+  // Failing services reachable upstream of `id` (not including itself)
+  const upstreamFailures = new Map<string, string[]>()
+  const failingUpstream = (id: string): string[] => {
+    const cached = upstreamFailures.get(id)
+    if (cached) return cached
+    upstreamFailures.set(id, []) // cycle guard; the registry rejects cycles anyway
+    const result: string[] = []
+    for (const dep of byId.get(id)?.dependsOn ?? []) {
+      if (statusOf(dep) === 'unhealthy') result.push(dep)
+      result.push(...failingUpstream(dep))
+    }
+    const unique = Array.from(new Set(result))
+    upstreamFailures.set(id, unique)
+    return unique
+  }
+
+  // A root cause fails without any failing upstream of its own
+  const isRootCause = (id: string) => statusOf(id) === 'unhealthy' && failingUpstream(id).length === 0
+
+  const nodes = services.map((service): TopologyNode => {
+    const observation = observations.get(service.id)
+    const status = statusOf(service.id)
+    const impactedBy = failingUpstream(service.id).filter(isRootCause)
+
+    let effectiveStatus: EffectiveStatus = status
+    if (status !== 'unhealthy' && impactedBy.length > 0) effectiveStatus = 'degraded'
+
+    return {
+      id: service.id,
+      name: service.name,
+      port: service.port,
+      dependsOn: service.dependsOn,
+      status,
+      effectiveStatus,
+      rootCause: isRootCause(service.id),
+      impactedBy,
+      message:
+        impactedBy.length > 0
+          ? `${status === 'unhealthy' ? 'Failing' : 'Degraded'} due to upstream ${impactedBy
+              .map((id) => byId.get(id)?.name ?? id)
+              .join(', ')}`
+          : observation?.message,
+      latency: observation?.latency,
+      source: observation?.source ?? 'none',
+    }
+  })
+
+  return {
+    nodes,
+    edges: services.flatMap((s) => s.dependsOn.map((dep) => ({ from: s.id, to: dep }))),
+    rootCauses: nodes.filter((n) => n.rootCause).map((n) => n.id),
+  }
+}
+
+// Services without a probe are judged by their containers, when they have any
+function containerObservation(names: string[], containers: ContainerInfo[]): ServiceObservation {
+  const matched = containers.filter((c) => names.includes(c.name))
+  const down = names.filter((name) => {
+    const container = matched.find((c) => c.name === name)
+    return !container || container.state !== 'running' || container.health === 'unhealthy'
+  })
+  return down.length > 0
+    ? { status: 'unhealthy', message: `Container ${down.join(', ')} not running or unhealthy`, source: 'container' }
+    : { status: 'healthy', message: 'All containers running', source: 'container' }
+}
+
+export async function getTopology(): Promise<Topology> {
+  const services = getServices()
+  const probes = getHealthCheckServices()
+  const needsContainers = services.some((s) => !s.health && s.containers.length > 0)
+
+  // Reuse the live collector's probes when they are fresh
+  const live = getLiveValue<ServiceHealthSnapshot[]>('health')
+  const [probeResults, containers] = await Promise.all([
+    live
+      ? live.map((s) => [s.name, s as HealthCheckResult] as const)
+      : Promise.all(probes.map(async (probe) => [probe.name, await checkServiceHealth(probe)] as const)),
+    needsContainers ? listContainers().catch(() => null) : Promise.resolve(null),
+  ])
+  const byName = new Map(probeResults)
+
+  const observations = new Map<string, ServiceObservation>()
+  for (const service of services) {
+    const probe = byName.get(service.name)
+    if (service.health && probe) {
+      observations.set(service.id, { status: probe.status, message: probe.message, latency: probe.latency, source: 'probe' })
+    } else if (service.containers.length > 0 && containers) {
+      observations.set(service.id, containerObservation(service.containers, containers))
+    }
+  }
+
+  return { ...computeTopology(services, observations), timestamp: new Date().toISOString() }
+}
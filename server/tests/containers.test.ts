@@ -0,0 +1,234 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { createServer, globalAgent, type ServerResponse } from 'node:http'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+// Talks to a stand-in Docker Engine listening on a unix socket in a temp
+// dir. It knows a handful of containers and answers the list, inspect,
+// lifecycle and logs endpoints the way the real engine does.
+
+const socketDir = mkdtempSync(join(tmpdir(), 'dashboard-docker-'))
+process.env.DOCKER_SOCKET = join(socketDir, 'docker.sock')
+const { containerAction, listContainers, streamContainerLogs } = await import('../services/containers')
+
+const startedAt = new Date(Date.now() - 90 * 60 * 1000)
+const LOG_TIME = '2026-10-19T08:00:00.123456789Z'
+
+const summaries = [
+  {
+    Id: 'a1b2c3d4e5f6a7b8c9d0',
+    Names: ['/web'],
+    Image: 'nginx:1.27',
+    State: 'running',
+    Status: 'Up 90 minutes (healthy)',
+    Created: 1760000000,
+    Ports: [
+      { IP: '0.0.0.0', PrivatePort: 80, PublicPort: 8080, Type: 'tcp' },
+      { PrivatePort: 9000, Type: 'udp' },
+    ],
+  },
+  {
+    Id: 'f6e5d4c3b2a1f6e5d4c3',
+    Names: ['/worker'],
+    Image: 'worker:latest',
+    State: 'exited',
+    Status: 'Exited (1) 2 hours ago',
+    Created: 1760000000,
+    Ports: [],
+  },
+]
+
+function logContainer(name: string, tty: boolean) {
+  const State = { Status: 'running', Running: true, Pid: 1, StartedAt: LOG_TIME }
+  return { Id: name, Name: `/${name}`, RestartCount: 0, State, Config: { Tty: tty } }
+}
+
+const inspects: Record<string, object> = {
+  a1b2c3d4e5f6a7b8c9d0: {
+    Id: 'a1b2c3d4e5f6a7b8c9d0',
+    Name: '/web',
+    RestartCount: 3,
+    State: {
+      Status: 'running',
+      Running: true,
+      Pid: 4242,
+      // Docker reports nanoseconds
+      StartedAt: startedAt.toISOString().replace('Z', '123456Z'),
+      Health: { Status: 'healthy' },
+    },
+    Config: { Tty: false },
+  },
+  f6e5d4c3b2a1f6e5d4c3: {
+    Id: 'f6e5d4c3b2a1f6e5d4c3',
+    Name: '/worker',
+    RestartCount: 0,
+    State: { Status: 'exited', Running: false, Pid: 0, StartedAt: '2026-10-18T00:00:00Z' },
+    Config: { Tty: false },
+  },
+  mux: logContainer('mux', false),
+  tty: logContainer('tty', true),
+}
+
+// One multiplexed log frame: stream type, 3 padding bytes, uint32 length
+function frame(stream: 1 | 2, text: string): Buffer {
+  const payload = Buffer.from(text)
+  const header = Buffer.alloc(8)
+  header[0] = stream
+  header.writeUInt32BE(payload.length, 4)
+  return Buffer.concat([header, payload])
+}
+
+async function writeChunks(res: ServerResponse, chunks: (string | Buffer)[]) {
+  for (const chunk of chunks) {
+    res.write(chunk)
+    await new Promise((resolve) => setTimeout(resolve, 5))
+  }
+  res.end()
+}
+
+const requests: string[] = []
+
+const engine = createServer((req, res) => {
+  const url = req.url ?? ''
+  requests.push(`${req.method} ${url}`)
+  const path = url.split('?')[0]!
+  const notFound = (id: string) => {
+    res.statusCode = 404
+    res.end(JSON.stringify({ message: `No such container: ${id}` }))
+  }
+
+  if (path === '/containers/json') return res.end(JSON.stringify(summaries))
+
+  const [, , id = '', action] = path.split('/')
+  if (action === 'json') return inspects[id] ? res.end(JSON.stringify(inspects[id])) : notFound(id)
+
+  if (req.method === 'POST') {
+    if (id === 'missing') return notFound(id)
+    // The engine answers 304 when the container is already in that state
+    res.statusCode = id === 'web' && action === 'start' ? 304 : 204
+    return res.end()
+  }
+
+  if (action === 'logs' && id === 'mux') {
+    const stdout = frame(1, `${LOG_TIME} listening on :80\n${LOG_TIME} GET /health`)
+    const stderr = frame(2, `${LOG_TIME} ERROR upstream timed out\n`)
+    const rest = frame(1, ` 200\n`)
+    // Split the stdout frame inside its header and the stderr frame inside its payload
+    return void writeChunks(res, [
+      stdout.subarray(0, 5),
+      Buffer.concat([stdout.subarray(5), stderr.subarray(0, 20)]),
+      Buffer.concat([stderr.subarray(20), rest]),
+    ])
+  }
+  if (action === 'logs' && id === 'tty') {
+    return void writeChunks(res, [`${LOG_TIME} \x1b[32mready\x1b[0m\r\n${LOG_TIME} WARN disk`, ' almost full\r\n'])
+  }
+  notFound(id)
+})
+
+before(async () => {
+  await new Promise<void>((resolve) => engine.listen(process.env.DOCKER_SOCKET, resolve))
+})
+
+after(() => {
+  if (engine.listening) engine.close()
+  rmSync(socketDir, { recursive: true, force: true })
+})
+
+type StreamedEntry = Parameters<Parameters<typeof streamContainerLogs>[2]>[0]
+
+function readLogs(id: string): Promise<StreamedEntry[]> {
+  return new Promise((resolve, reject) => {
+    const entries: StreamedEntry[] = []
+    streamContainerLogs(id, { tail: 50 }, (entry) => entries.push(entry), () => resolve(entries)).catch(reject)
+  })
+}
+
+describe('container list', () => {
+  it('maps health, restarts, ports and uptime from the inspect payload', async () => {
+    const [web, worker] = await listContainers()
+
+    assert.equal(web!.id, 'a1b2c3d4e5f6')
+    assert.equal(web!.name, 'web')
+    assert.equal(web!.health, 'healthy')
+    assert.equal(web!.restartCount, 3)
+    assert.equal(web!.pid, 4242)
+    assert.deepEqual(web!.ports, [
+      { privatePort: 80, publicPort: 8080, type: 'tcp', ip: '0.0.0.0' },
+      { privatePort: 9000, publicPort: null, type: 'udp', ip: null },
+    ])
+    assert.equal(web!.startedAt, startedAt.toISOString())
+    assert.ok(Math.abs(web!.uptimeSeconds! - 90 * 60) <= 2)
+
+    assert.equal(worker!.state, 'exited')
+    assert.equal(worker!.health, null)
+    assert.equal(worker!.startedAt, null)
+    assert.equal(worker!.uptimeSeconds, null)
+    assert.equal(worker!.pid, null)
+  })
+})
+
+describe('container actions', () => {
+  it('reports whether start, stop and restart changed anything', async () => {
+    assert.equal(await containerAction('worker', 'start'), true)
+    assert.equal(await containerAction('web', 'start'), false)
+    assert.equal(await containerAction('web', 'stop'), true)
+    assert.equal(await containerAction('web', 'restart'), true)
+    assert.deepEqual(requests.filter((r) => r.startsWith('POST')), [
+      'POST /containers/worker/start',
+      'POST /containers/web/start',
+      'POST /containers/web/stop?t=10',
+      'POST /containers/web/restart?t=10',
+    ])
+  })
+
+  it('passes on the engine 404 for unknown containers', async () => {
+    await assert.rejects(
+      containerAction('missing', 'stop'),
+      (err: any) => err.statusCode === 404 && /No such container: missing/.test(err.message)
+    )
+  })
+})
+
+describe('container logs', () => {
+  it('demultiplexes stdout and stderr frames split across chunks', async () => {
+    const entries = await readLogs('mux')
+    assert.deepEqual(
+      entries.map((e) => [e.stream, e.level, e.message]),
+      [
+        ['stdout', 'info', 'listening on :80'],
+        ['stderr', 'error', 'ERROR upstream timed out'],
+        ['stdout', 'info', 'GET /health 200'],
+      ]
+    )
+    assert.equal(entries[0]!.source, 'mux')
+    assert.equal(entries[0]!.timestamp, '2026-10-19T08:00:00.123Z')
+  })
+
+  it('reads TTY containers as plain text', async () => {
+    const entries = await readLogs('tty')
+    assert.deepEqual(
+      entries.map((e) => [e.stream, e.level, e.message]),
+      [
+        ['stdout', 'info', 'ready'],
+        ['stdout', 'warn', 'WARN disk almost full'],
+      ]
+    )
+  })
+})
+
+describe('engine unavailable', () => {
+  it('fails with a 503 once the socket is gone', async () => {
+    await new Promise((resolve) => engine.close(resolve))
+    // Drop kept-alive sockets so the next request has to dial the socket path
+    globalAgent.destroy()
+    await assert.rejects(listContainers(), (err: any) => {
+      assert.equal(err.name, 'DockerApiError')
+      assert.equal(err.statusCode, 503)
+      assert.match(err.message, /Docker socket unavailable .* \(ENOENT\)/)
+      return true
+    })
+  })
+})
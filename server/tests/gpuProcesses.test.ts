@@ -0,0 +1,131 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { joinGPUConsumers, parseNvidiaSmiComputeApps, type GPUComputeApp } from '../services/gpuProcesses'
+import type { GPUStatus } from '../services/gpuStatus'
+import type { ProcessInfo } from '../services/processInfo'
+
+// Fixtures are nvidia-smi --query-compute-apps output as the driver prints
+// it: ", "-separated, no header, memory in MiB.
+
+const GPU0 = 'GPU-11111111-2222-3333-4444-555555555555'
+const GPU1 = 'GPU-66666666-7777-8888-9999-000000000000'
+
+function device(index: number, uuid: string, name: string): GPUStatus['gpus'][number] {
+  return { index, uuid, name, vramUsed: 0, vramTotal: 24, utilization: 0, temperature: 40, powerDraw: 50 }
+}
+
+const status: GPUStatus = {
+  name: 'NVIDIA GeForce RTX 4090',
+  vramUsed: 20,
+  vramTotal: 24,
+  utilization: 80,
+  temperature: 65,
+  powerDraw: 300,
+  loadedModels: ['qwen3:8b', { name: 'nomic-embed-text' }, { size: 1 }],
+  gpus: [device(0, GPU0, 'NVIDIA GeForce RTX 4090'), device(1, GPU1, 'NVIDIA RTX A4000')],
+}
+
+function service(name: string, pids: number[], type: ProcessInfo['type'] = 'native'): ProcessInfo {
+  return {
+    pid: pids[0]!,
+    name,
+    cpu: 12.5,
+    memory: 3.2,
+    uptime: '1h',
+    uptimeSeconds: 3600,
+    type,
+    rssBytes: null,
+    threads: null,
+    ports: [],
+    command: null,
+    processCount: pids.length,
+    pids,
+    tree: [],
+  }
+}
+
+function app(pid: number, processName: string, vramUsed: number, gpuUuid: string | null = GPU0): GPUComputeApp {
+  return { pid, gpuUuid, processName, vramUsed }
+}
+
+describe('parseNvidiaSmiComputeApps', () => {
+  it('parses one process per line, converting MiB to GB', () => {
+    const stdout = `1201, ${GPU0}, /usr/local/bin/ollama, 8192\n1302, ${GPU1}, /usr/bin/python3, 512\n`
+    assert.deepEqual(parseNvidiaSmiComputeApps(stdout), [
+      { pid: 1201, gpuUuid: GPU0, processName: '/usr/local/bin/ollama', vramUsed: 8 },
+      { pid: 1302, gpuUuid: GPU1, processName: '/usr/bin/python3', vramUsed: 0.5 },
+    ])
+  })
+
+  it('returns nothing when no process holds the GPU', () => {
+    assert.deepEqual(parseNvidiaSmiComputeApps('No running processes found\n'), [])
+    assert.deepEqual(parseNvidiaSmiComputeApps(''), [])
+  })
+
+  it('keeps commas inside the process name', () => {
+    const [parsed] = parseNvidiaSmiComputeApps(`77, ${GPU0}, python3 train.py --gpus 0,1 --tags a, b, 2048`)
+    assert.equal(parsed!.processName, 'python3 train.py --gpus 0,1 --tags a, b')
+    assert.equal(parsed!.vramUsed, 2)
+  })
+
+  it('counts [N/A] memory as zero', () => {
+    // Reported for every process under WDDM and some containerised drivers
+    assert.deepEqual(parseNvidiaSmiComputeApps(`88, ${GPU0}, /opt/app/worker, [N/A]`), [
+      { pid: 88, gpuUuid: GPU0, processName: '/opt/app/worker', vramUsed: 0 },
+    ])
+  })
+})
+
+describe('joinGPUConsumers', () => {
+  it('attributes a CUDA worker found only in a service process tree', () => {
+    const [consumer] = joinGPUConsumers([app(4321, '/usr/bin/python3', 6)], status, [service('memOS', [4000, 4321])])
+    assert.equal(consumer!.name, 'memOS')
+    assert.equal(consumer!.monitored, true)
+    assert.equal(consumer!.cpu, 12.5)
+    assert.equal(consumer!.memory, 3.2)
+  })
+
+  it('leaves unknown and docker-only pids unmonitored, named by binary', () => {
+    const consumers = joinGPUConsumers(
+      [app(900, '/opt/tools/render --fast', 1, GPU1)],
+      status,
+      [service('renderer', [900], 'docker')]
+    )
+    assert.deepEqual(consumers[0], {
+      pid: 900,
+      name: 'render',
+      processName: '/opt/tools/render --fast',
+      gpuIndex: 1,
+      gpuName: 'NVIDIA RTX A4000',
+      vramUsed: 1,
+      cpu: null,
+      memory: null,
+      monitored: false,
+      models: [],
+    })
+  })
+
+  it('lists Ollama models only against Ollama processes', () => {
+    const consumers = joinGPUConsumers(
+      [app(4321, '/usr/bin/python3', 6), app(1201, '/usr/local/bin/ollama', 8), app(1500, '/opt/runner', 4)],
+      status,
+      [service('memOS', [4321]), service('Ollama', [1100, 1500])]
+    )
+    assert.deepEqual(
+      consumers.map((c) => [c.pid, c.name, c.models]),
+      [
+        // Matched by binary name, and by the Ollama service's process tree
+        [1201, 'ollama', ['qwen3:8b', 'nomic-embed-text']],
+        [4321, 'memOS', []],
+        [1500, 'Ollama', ['qwen3:8b', 'nomic-embed-text']],
+      ]
+    )
+  })
+
+  it('leaves the GPU unset when the uuid matches no device', () => {
+    const [consumer] = joinGPUConsumers([app(5, '/bin/x', 0.123456, 'GPU-gone')], null, [])
+    assert.equal(consumer!.gpuIndex, null)
+    assert.equal(consumer!.gpuName, null)
+    assert.equal(consumer!.vramUsed, 0.12)
+  })
+})
@@ -0,0 +1,271 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { createServer, type IncomingMessage, type Server } from 'node:http'
+import { createServer as createTcpServer, type AddressInfo } from 'node:net'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+// Drives the webhook and email channels against stand-in servers on
+// localhost: an HTTP server that records what it's sent, and just enough of
+// an SMTP server for nodemailer to deliver one message.
+
+const dataDir = mkdtempSync(join(tmpdir(), 'dashboard-notifiers-'))
+process.env.DASHBOARD_DATA_DIR = dataDir
+const { getNotifierStatus, notifyTransition, parseNotifierConfig, reloadNotifiers, testNotifier } = await import(
+  '../services/notifiers'
+)
+const { reloadAlertRules } = await import('../services/alertEngine')
+type Alert = import('../services/alertEngine').Alert
+
+interface WebhookRequest {
+  path: string
+  headers: IncomingMessage['headers']
+  body: any
+}
+
+interface SmtpMessage {
+  from: string
+  to: string[]
+  data: string
+}
+
+const webhookRequests: WebhookRequest[] = []
+const smtpMessages: SmtpMessage[] = []
+
+const webhook: Server = createServer((req, res) => {
+  let body = ''
+  req.on('data', (chunk) => (body += chunk))
+  req.on('end', () => {
+    webhookRequests.push({ path: req.url ?? '', headers: req.headers, body: JSON.parse(body) })
+    res.statusCode = req.url === '/broken' ? 500 : 200
+    res.end(req.url === '/broken' ? 'upstream exploded' : 'ok')
+  })
+})
+
+const smtp = createTcpServer((socket) => {
+  let message: SmtpMessage = { from: '', to: [], data: '' }
+  let inData = false
+  let buffer = ''
+  socket.write('220 localhost stand-in ESMTP\r\n')
+  socket.on('data', (chunk) => {
+    buffer += chunk.toString()
+    if (inData) {
+      const end = buffer.indexOf('\r\n.\r\n')
+      if (end === -1) return
+      message.data = buffer.slice(0, end)
+      buffer = buffer.slice(end + 5)
+      inData = false
+      smtpMessages.push(message)
+      message = { from: '', to: [], data: '' }
+      socket.write('250 queued\r\n')
+    }
+    let newline: number
+    while (!inData && (newline = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, newline)
+      buffer = buffer.slice(newline + 2)
+      const command = line.slice(0, 4).toUpperCase()
+      if (command === 'EHLO' || command === 'HELO') socket.write('250 localhost\r\n')
+      else if (command === 'MAIL') {
+        message.from = line.match(/<(.*)>/)?.[1] ?? ''
+        socket.write('250 ok\r\n')
+      } else if (command === 'RCPT') {
+        message.to.push(line.match(/<(.*)>/)?.[1] ?? '')
+        socket.write('250 ok\r\n')
+      } else if (command === 'DATA') {
+        inData = true
+        socket.write('354 go ahead\r\n')
+      } else if (command === 'QUIT') socket.end('221 bye\r\n')
+      else socket.write('250 ok\r\n')
+    }
+  })
+})
+
+const listen = (server: Server | ReturnType<typeof createTcpServer>) =>
+  new Promise<number>((resolve) => server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port)))
+
+let webhookUrl = ''
+let smtpPort = 0
+
+before(async () => {
+  webhookUrl = `http://127.0.0.1:${await listen(webhook)}`
+  smtpPort = await listen(smtp)
+})
+
+after(() => {
+  webhook.close()
+  smtp.close()
+  rmSync(dataDir, { recursive: true, force: true })
+})
+
+const channelStatus = (id: string) => getNotifierStatus().channels.find((c) => c.id === id)!
+
+describe('webhook channel', () => {
+  it('posts the JSON payload with the configured headers', async () => {
+    await reloadNotifiers({
+      channels: [{ id: 'hook', type: 'webhook', url: `${webhookUrl}/alerts`, headers: { 'X-Token': 'secret' } }],
+    })
+    assert.equal(await testNotifier('hook'), true)
+
+    const request = webhookRequests.at(-1)!
+    assert.equal(request.path, '/alerts')
+    assert.equal(request.headers['x-token'], 'secret')
+    assert.equal(request.body.version, 1)
+    assert.equal(request.body.status, 'firing')
+    assert.equal(request.body.test, true)
+    assert.equal(request.body.alert.ruleName, 'Test notification')
+    assert.equal(channelStatus('hook').sent, 1)
+  })
+
+  it('formats Slack messages as attachments', async () => {
+    await reloadNotifiers({ channels: [{ id: 'slack', type: 'webhook', format: 'slack', url: `${webhookUrl}/slack` }] })
+    await testNotifier('slack')
+
+    const { body } = webhookRequests.at(-1)!
+    assert.equal(body.text, '[TEST] [FIRING] Test notification')
+    assert.equal(body.attachments[0].fields.find((f: any) => f.title === 'Status').value, 'firing')
+  })
+
+  it('records a failed delivery when the webhook answers with an error', async () => {
+    await reloadNotifiers({ channels: [{ id: 'broken', type: 'webhook', url: `${webhookUrl}/broken` }] })
+    await assert.rejects(testNotifier('broken'), /Webhook returned 500: upstream exploded/)
+
+    const status = channelStatus('broken')
+    assert.equal(status.failed, 1)
+    assert.match(status.lastError ?? '', /500/)
+  })
+})
+
+describe('email channel', () => {
+  it('delivers the alert to every recipient over SMTP', async () => {
+    await reloadNotifiers({
+      channels: [
+        {
+          id: 'mail',
+          type: 'email',
+          host: '127.0.0.1',
+          port: smtpPort,
+          from: 'dashboard@localhost',
+          to: ['ops@example.com', 'oncall@example.com'],
+        },
+      ],
+    })
+    await testNotifier('mail')
+
+    const message = smtpMessages.at(-1)!
+    assert.equal(message.from, 'dashboard@localhost')
+    assert.deepEqual(message.to, ['ops@example.com', 'oncall@example.com'])
+    assert.match(message.data, /Subject: \[TEST\] \[FIRING\] Test notification/)
+    assert.match(message.data, /Severity: info/)
+    assert.equal(channelStatus('mail').sent, 1)
+  })
+})
+
+describe('channel config', () => {
+  it('rejects defaultChannels that name no channel', async () => {
+    await assert.rejects(
+      reloadNotifiers({ channels: [{ id: 'hook', type: 'webhook', url: webhookUrl }], defaultChannels: ['pager'] }),
+      /unknown channel\(s\): pager/
+    )
+  })
+
+  it('rejects rules that notify a channel that does not exist', () => {
+    assert.throws(
+      () =>
+        parseNotifierConfig({
+          channels: [{ id: 'hook', type: 'webhook', url: webhookUrl }],
+          rules: [{ id: 'gpu-hot', notify: ['hook', 'hok'] }],
+        }),
+      /rules\[0\] \(gpu-hot\): notify references unknown channel\(s\): hok/
+    )
+  })
+})
+
+const condition = { type: 'service_unhealthy', service: 'memOS', consecutiveChecks: 1 }
+
+function alertOf(ruleId: string, severity: Alert['severity'], overrides: Partial<Alert> = {}): Alert {
+  const now = new Date().toISOString()
+  return {
+    id: `${ruleId}|`,
+    ruleId,
+    ruleName: ruleId,
+    severity,
+    state: 'firing',
+    labels: {},
+    summary: `${ruleId} fired`,
+    value: null,
+    activeSince: now,
+    firedAt: now,
+    resolvedAt: null,
+    silenced: false,
+    silenceId: null,
+    ...overrides,
+  }
+}
+
+// Paths the webhook stand-in received while fn ran
+async function deliveredTo(fn: () => Promise<unknown>): Promise<string[]> {
+  const before = webhookRequests.length
+  await fn()
+  return webhookRequests.slice(before).map((r) => r.path)
+}
+
+describe('alert routing', () => {
+  before(async () => {
+    const config = {
+      channels: [
+        { id: 'all', type: 'webhook', url: `${webhookUrl}/all` },
+        { id: 'critical-only', type: 'webhook', url: `${webhookUrl}/critical`, minSeverity: 'critical' },
+        { id: 'limited', type: 'webhook', url: `${webhookUrl}/limited`, rateLimit: { max: 2, per: '1h' } },
+      ],
+      defaultChannels: ['all'],
+      rules: [
+        { id: 'routed', name: 'Routed', notify: ['all', 'critical-only'], condition },
+        { id: 'limited', name: 'Limited', notify: ['limited'], condition },
+        { id: 'unrouted', name: 'Unrouted', condition },
+      ],
+    }
+    await reloadAlertRules(config)
+    await reloadNotifiers(config)
+  })
+
+  it('skips channels whose minSeverity the alert does not reach', async () => {
+    const warning = await deliveredTo(() =>
+      notifyTransition({ alert: alertOf('routed', 'warning'), from: 'pending', to: 'firing' })
+    )
+    assert.deepEqual(warning, ['/all'])
+
+    const critical = await deliveredTo(() =>
+      notifyTransition({ alert: alertOf('routed', 'critical'), from: 'pending', to: 'firing' })
+    )
+    assert.deepEqual(critical.sort(), ['/all', '/critical'])
+  })
+
+  it('falls back to defaultChannels for rules without notify', async () => {
+    const paths = await deliveredTo(() =>
+      notifyTransition({ alert: alertOf('unrouted', 'info'), from: 'firing', to: 'resolved' })
+    )
+    assert.deepEqual(paths, ['/all'])
+  })
+
+  it('sends nothing for pending or silenced alerts', async () => {
+    const silenced = alertOf('routed', 'critical', { silenced: true, silenceId: 's1' })
+    const paths = await deliveredTo(async () => {
+      await notifyTransition({ alert: alertOf('routed', 'critical'), from: null, to: 'pending' })
+      await notifyTransition({ alert: silenced, from: 'pending', to: 'firing' })
+    })
+    assert.deepEqual(paths, [])
+  })
+
+  it('drops deliveries over the rate limit, which test sends bypass', async () => {
+    const transition = { alert: alertOf('limited', 'warning'), from: 'pending' as const, to: 'firing' as const }
+    const paths = await deliveredTo(async () => {
+      for (let i = 0; i < 3; i++) await notifyTransition(transition)
+    })
+    assert.deepEqual(paths, ['/limited', '/limited'])
+    assert.equal(channelStatus('limited').sent, 2)
+    assert.equal(channelStatus('limited').rateLimited, 1)
+
+    assert.deepEqual(await deliveredTo(() => testNotifier('limited')), ['/limited'])
+  })
+})
@@ -0,0 +1,139 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { createServer, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+
+// Runs pulls against a stand-in for Ollama's /api/pull, which streams one
+// JSON object per line. What the stub sends depends on the model name.
+
+const hanging: ServerResponse[] = []
+
+const ollama = createServer((req, res) => {
+  let body = ''
+  req.on('data', (chunk) => (body += chunk))
+  req.on('end', async () => {
+    const { model } = JSON.parse(body)
+    if (req.url !== '/api/pull' || model === 'missing') {
+      res.statusCode = 404
+      return res.end(JSON.stringify({ error: `model "${model}" not found` }))
+    }
+    res.setHeader('Content-Type', 'application/x-ndjson')
+
+    if (model === 'slow') {
+      res.write(JSON.stringify({ status: 'pulling manifest' }) + '\n')
+      hanging.push(res)
+      return
+    }
+    if (model === 'broken') {
+      res.write(JSON.stringify({ status: 'pulling manifest' }) + '\n')
+      return res.end(JSON.stringify({ error: 'max retries exceeded' }) + '\n')
+    }
+    if (model === 'truncated') {
+      return res.end(JSON.stringify({ status: 'pulling manifest' }) + '\n')
+    }
+
+    const lines = [
+      { status: 'pulling manifest' },
+      { status: 'pulling aaa', digest: 'sha256:aaa', total: 600, completed: 0 },
+      { status: 'pulling aaa', digest: 'sha256:aaa', total: 600, completed: 600 },
+      { status: 'pulling bbb', digest: 'sha256:bbb', total: 400, completed: 100 },
+      { status: 'pulling bbb', digest: 'sha256:bbb', total: 400, completed: 400 },
+      { status: 'verifying sha256 digest' },
+      { status: 'success' },
+    ]
+    // Split mid-line so the reader has to reassemble lines across chunks
+    const text = lines.map((line) => JSON.stringify(line)).join('\n') + '\n'
+    for (let i = 0; i < text.length; i += 37) {
+      res.write(text.slice(i, i + 37))
+      await new Promise((resolve) => setImmediate(resolve))
+    }
+    res.end()
+  })
+})
+
+let models: typeof import('../services/ollamaModels')
+
+before(async () => {
+  await new Promise<void>((resolve) => ollama.listen(0, '127.0.0.1', resolve))
+  process.env.OLLAMA_URL = `http://127.0.0.1:${(ollama.address() as AddressInfo).port}`
+  models = await import('../services/ollamaModels')
+})
+
+after(() => {
+  hanging.forEach((res) => res.destroy())
+  ollama.close()
+})
+
+// Resolves with the pull once it is no longer running
+function settled(id: string): Promise<import('../services/ollamaModels').PullOperation> {
+  return new Promise((resolve) => {
+    const unsubscribe = models.onPullUpdate(id, (pull) => {
+      if (pull.status === 'running') return
+      unsubscribe()
+      resolve(pull)
+    })
+  })
+}
+
+describe('model pulls', () => {
+  it('streams progress summed over layers until success', async () => {
+    const pull = models.startPull('qwen3:8b', 'tester')
+    const percents: number[] = []
+    models.onPullUpdate(pull.id, (p) => {
+      if (p.percent !== null && p.percent !== percents.at(-1)) percents.push(p.percent)
+    })
+
+    const done = await settled(pull.id)
+    assert.equal(done.status, 'succeeded')
+    assert.equal(done.phase, 'success')
+    assert.equal(done.totalBytes, 1000)
+    assert.equal(done.completedBytes, 1000)
+    assert.equal(done.percent, 100)
+    // Layers are only counted once Ollama mentions them, so the total grows
+    assert.deepEqual(percents, [0, 100, 70, 100])
+    assert.equal(done.startedBy, 'tester')
+    assert.ok(done.finishedAt)
+  })
+
+  it('fails with the error Ollama reports mid-stream', async () => {
+    const done = await settled(models.startPull('broken', 'tester').id)
+    assert.equal(done.status, 'failed')
+    assert.equal(done.error, 'max retries exceeded')
+  })
+
+  it('fails when Ollama rejects the pull', async () => {
+    const done = await settled(models.startPull('missing', 'tester').id)
+    assert.equal(done.status, 'failed')
+    assert.match(done.error ?? '', /Ollama returned 404/)
+  })
+
+  it('fails when the stream ends before success', async () => {
+    const done = await settled(models.startPull('truncated', 'tester').id)
+    assert.equal(done.status, 'failed')
+    assert.match(done.error ?? '', /ended early \(last status: pulling manifest\)/)
+  })
+
+  it('refuses a second pull of the same model and can cancel the first', async () => {
+    const pull = models.startPull('slow', 'tester')
+    assert.throws(() => models.startPull('slow', 'tester'), (err: any) => err.statusCode === 409)
+
+    // Wait for the first line so the request is in flight
+    await new Promise<void>((resolve) => {
+      const unsubscribe = models.onPullUpdate(pull.id, () => {
+        unsubscribe()
+        resolve()
+      })
+    })
+    const finished = settled(pull.id)
+    models.cancelPull(pull.id)
+    const done = await finished
+    assert.equal(done.status, 'cancelled')
+    assert.throws(() => models.cancelPull(pull.id), (err: any) => err.statusCode === 409)
+  })
+
+  it('lists pulls newest first', () => {
+    const list = models.listPulls()
+    assert.equal(list[0]!.model, 'slow')
+    assert.equal(list.at(-1)!.model, 'qwen3:8b')
+  })
+})
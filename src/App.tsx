@@ -7,11 +7,31 @@ import { DocsTab } from '@/components/tabs/DocsTab'
 import { SettingsTab } from '@/components/tabs/SettingsTab'
 import { AgentConsole } from '@/components/agent/AgentConsole'
 import { CodeIntelligenceTab } from '@/components/tabs/CodeIntelligenceTab'
+import { BenchmarksTab } from '@/components/tabs/BenchmarksTab'
+import { LoginScreen } from '@/components/auth/LoginScreen'
+import { useLiveChannel } from '@/lib/liveChannel'
+import { useSession } from '@/lib/auth'
+import { Loader2 } from 'lucide-react'
 
-export type TabType = 'overview' | 'agent' | 'logs' | 'docs' | 'code-intel' | 'settings'
+export type TabType = 'overview' | 'agent' | 'benchmarks' | 'logs' | 'docs' | 'code-intel' | 'settings'
 
 function App() {
+  const { data: session, isLoading } = useSession()
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  return session ? <Dashboard /> : <LoginScreen />
+}
+
+function Dashboard() {
   const [activeTab, setActiveTab] = useState<TabType>('overview')
+  useLiveChannel()
 
   const renderTab = () => {
     switch (activeTab) {
@@ -19,6 +39,8 @@ function App() {
         return <OverviewTab />
       case 'agent':
         return <AgentConsole />
+      case 'benchmarks':
+        return <BenchmarksTab />
       case 'logs':
         return <LogsTab />
       case 'docs':
@@ -1,7 +1,10 @@
 import { useEffect, useRef, useState, useCallback } from 'react'
 import { Bot, Play, Square, Trash2, ChevronDown, ChevronRight, Clock, Zap, Brain, Search, CheckCircle, XCircle, AlertTriangle, Activity, FileText, TrendingUp } from 'lucide-react'
+import { fetchAgentHistory } from '@/lib/api'
 import { cn } from '@/lib/utils'
+import { useDashboardStore } from '@/stores/dashboardStore'
 import { AgentConfigPanel } from './config'
+import { PresetComparison } from './PresetComparison'
 import { DecisionLogTab, ContextFlowTab, LLMCallsTab, ScratchpadTab, ConfidenceTab } from './tabs'
 
 type TabId = 'overview' | 'decisions' | 'context' | 'llm' | 'scratchpad' | 'confidence'
@@ -73,6 +76,18 @@ const EVENT_COLORS: Record<string, string> = {
   confidence_scored: 'text-emerald-400',
 }
 
+// Events arrive as memOS sends them, live or replayed from the stored run
+function toAgentEvent(data: Record<string, any>): AgentEvent {
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    timestamp: data.timestamp || new Date().toISOString(),
+    eventType: data.event_type || data.type || 'unknown',
+    agent: data.agent || data.agent_name,
+    data: data.data || data,
+    level: data.level || 'info',
+  }
+}
+
 function EventItem({ event, expanded, onToggle }: { event: AgentEvent; expanded: boolean; onToggle: () => void }) {
   const hasData = Object.keys(event.data).length > 0
   const icon = EVENT_ICONS[event.eventType] || <Zap className="w-3 h-3" />
@@ -176,8 +191,18 @@ export function AgentConsole() {
     }
   }, [runs, globalEvents, autoScroll])
 
-  // Check memOS status on mount
+  // memOS status comes from the live channel; poll only while it is down
+  const { services, liveConnected } = useDashboardStore()
+  const liveMemosStatus = services.find((s) => s.name === 'memOS')?.status
+
+  useEffect(() => {
+    if (liveConnected && liveMemosStatus) {
+      setMemosStatus(liveMemosStatus === 'healthy' ? 'connected' : 'disconnected')
+    }
+  }, [liveConnected, liveMemosStatus])
+
   useEffect(() => {
+    if (liveConnected) return
     const checkMemosStatus = async () => {
       try {
         const response = await fetch('/api/health/memOS')
@@ -190,39 +215,36 @@ export function AgentConsole() {
     checkMemosStatus()
     const interval = setInterval(checkMemosStatus, 10000)
     return () => clearInterval(interval)
-  }, [])
+  }, [liveConnected])
 
-  // Load history from memOS on mount
+  // Load history on mount (memOS's runs plus the ones the dashboard stored)
   useEffect(() => {
     const loadHistory = async () => {
       try {
-        const response = await fetch('/api/agent/history')
-        if (response.ok) {
-          const history = await response.json()
-          // Convert history to runs format
-          const historyRuns: AgentRun[] = history.map((h: any) => ({
-            requestId: h.requestId,
-            query: h.query || 'Unknown query',
-            preset: h.preset || 'balanced',
-            startTime: h.startTime,
-            endTime: h.endTime,
-            status: h.status || 'completed',
-            events: [],
-            summary: h.confidence ? {
-              duration_ms: h.duration_ms || 0,
-              confidence: h.confidence,
-              agents_executed: [],
-              llm_calls: 0,
-              tokens: { input: 0, output: 0 },
-            } : undefined,
-          }))
-          setRuns(prev => {
-            // Merge with existing runs, avoiding duplicates
-            const existingIds = new Set(prev.map(r => r.requestId))
-            const newRuns = historyRuns.filter((r: AgentRun) => !existingIds.has(r.requestId))
-            return [...prev, ...newRuns]
-          })
-        }
+        const history = await fetchAgentHistory()
+        // Convert history to runs format
+        const historyRuns: AgentRun[] = history.runs.map((h) => ({
+          requestId: h.request_id,
+          query: h.query || 'Unknown query',
+          preset: h.preset || 'balanced',
+          startTime: h.started_at,
+          endTime: h.completed_at || undefined,
+          status: h.status === 'running' || h.status === 'failed' ? h.status : 'completed',
+          events: [],
+          summary: h.status !== 'running' && h.duration_ms ? {
+            duration_ms: h.duration_ms,
+            confidence: h.confidence || 0,
+            agents_executed: [],
+            llm_calls: h.llm_calls || 0,
+            tokens: h.tokens || { input: 0, output: 0 },
+          } : undefined,
+        }))
+        setRuns(prev => {
+          // Merge with existing runs, avoiding duplicates
+          const existingIds = new Set(prev.map(r => r.requestId))
+          const newRuns = historyRuns.filter((r: AgentRun) => !existingIds.has(r.requestId))
+          return [...prev, ...newRuns]
+        })
       } catch {
         // Ignore errors
       }
@@ -296,13 +318,13 @@ export function AgentConsole() {
     eventSource.onmessage = (event) => {
       try {
         const data = JSON.parse(event.data)
-        const agentEvent: AgentEvent = {
-          id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-          timestamp: data.timestamp || new Date().toISOString(),
-          eventType: data.event_type || data.type || 'unknown',
-          agent: data.agent || data.agent_name,
-          data: data.data || data,
-          level: data.level || 'info',
+        const agentEvent = toAgentEvent(data)
+
+        // The server ends the stream after this; don't let EventSource reconnect
+        if (agentEvent.eventType === 'stream_complete') {
+          eventSource.close()
+          setIsConnected(false)
+          setIsRunning(false)
         }
 
         setRuns(prev => {
@@ -329,7 +351,7 @@ export function AgentConsole() {
                 }
               }
               setIsRunning(false)
-            } else if (agentEvent.eventType === 'search_failed') {
+            } else if (agentEvent.eventType === 'search_failed' || agentEvent.eventType === 'error') {
               updatedRun.status = 'failed'
               updatedRun.endTime = new Date().toISOString()
               setIsRunning(false)
@@ -358,11 +380,12 @@ export function AgentConsole() {
     if (!testQuery.trim() || isRunning) return
 
     setIsRunning(true)
-    const requestId = `test-${Date.now()}`
+    // Shown until the backend assigns the run its request id
+    const localId = `test-${Date.now()}`
 
     // Create new run
     const newRun: AgentRun = {
-      requestId,
+      requestId: localId,
       query: testQuery,
       preset: 'balanced',
       startTime: new Date().toISOString(),
@@ -371,22 +394,25 @@ export function AgentConsole() {
     }
 
     setRuns(prev => [newRun, ...prev])
-    setSelectedRun(requestId)
+    setSelectedRun(localId)
 
     try {
       // Start the search via the backend
       const response = await fetch('/api/agent/search', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ query: testQuery, preset: 'balanced', request_id: requestId }),
+        body: JSON.stringify({ query: testQuery, preset: 'balanced' }),
       })
 
       if (response.ok) {
+        const { requestId } = await response.json()
+        setRuns(prev => prev.map(r => (r.requestId === localId ? { ...r, requestId } : r)))
+        setSelectedRun(requestId)
         // Connect to SSE stream for this request
         connectToStream(requestId)
       } else {
         setRuns(prev => prev.map(r =>
-          r.requestId === requestId
+          r.requestId === localId
             ? { ...r, status: 'failed', endTime: new Date().toISOString() }
             : r
         ))
@@ -394,7 +420,7 @@ export function AgentConsole() {
       }
     } catch (e) {
       setRuns(prev => prev.map(r =>
-        r.requestId === requestId
+        r.requestId === localId
           ? { ...r, status: 'failed', endTime: new Date().toISOString() }
           : r
       ))
@@ -402,6 +428,25 @@ export function AgentConsole() {
     }
   }
 
+  // Runs loaded from history come without events; fetch them on selection
+  const selectRun = async (requestId: string) => {
+    setSelectedRun(requestId)
+    const run = runs.find(r => r.requestId === requestId)
+    if (!run || run.status === 'running' || run.events.length > 0 || requestId.startsWith('test-')) return
+
+    try {
+      const response = await fetch(`/api/agent/history/${requestId}/events`)
+      if (!response.ok) return
+      const result = await response.json()
+      const events: AgentEvent[] = (result.data?.events || []).map(toAgentEvent)
+      setRuns(prev => prev.map(r =>
+        r.requestId === requestId && r.events.length === 0 ? { ...r, events } : r
+      ))
+    } catch {
+      // Events stay empty
+    }
+  }
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -527,6 +572,9 @@ export function AgentConsole() {
       {/* Agent Configuration Panel */}
       <AgentConfigPanel />
 
+      {/* A/B runs of one query under several presets */}
+      <PresetComparison memosAvailable={memosStatus === 'connected'} />
+
       <div className="flex gap-4 flex-1 min-h-0">
         {/* Run History */}
         <div className="w-64 shrink-0 bg-card border border-border rounded-lg overflow-hidden flex flex-col">
@@ -552,7 +600,7 @@ export function AgentConsole() {
               runs.map(run => (
                 <button
                   key={run.requestId}
-                  onClick={() => setSelectedRun(run.requestId)}
+                  onClick={() => selectRun(run.requestId)}
                   className={cn(
                     "w-full text-left p-2 rounded-lg transition-colors",
                     selectedRun === run.requestId
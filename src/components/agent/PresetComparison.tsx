@@ -0,0 +1,429 @@
+import { useEffect, useRef, useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { ChevronDown, ChevronUp, GitCompare, Loader2, Play, Trash2 } from 'lucide-react'
+import {
+  createSSEConnection,
+  deleteComparison,
+  fetchComparison,
+  fetchComparisons,
+  startComparison,
+  type ComparisonReport,
+  type ComparisonRun,
+} from '@/lib/api'
+import { useCan } from '@/lib/auth'
+import { cn } from '@/lib/utils'
+import { useAgentConfigStore } from '@/stores/agentConfigStore'
+
+const FALLBACK_PRESETS = ['speed', 'quality', 'balanced', 'low_vram']
+const MAX_PRESETS = 4
+
+interface LiveEvent {
+  type: string
+  agent?: string
+  timestamp: string
+}
+
+interface LiveRun {
+  events: LiveEvent[]
+  done: boolean
+}
+
+const STATUS_COLORS: Record<ComparisonRun['status'], string> = {
+  pending: 'text-muted-foreground',
+  running: 'text-blue-400',
+  completed: 'text-green-400',
+  failed: 'text-red-400',
+}
+
+// One column per preset while the runs stream
+function LiveColumn({ preset, live }: { preset: string; live: LiveRun | undefined }) {
+  const endRef = useRef<HTMLDivElement>(null)
+  const count = live?.events.length ?? 0
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest' })
+  }, [count])
+
+  return (
+    <div className="flex-1 min-w-0 bg-muted/30 rounded-lg overflow-hidden flex flex-col">
+      <div className="px-3 py-2 border-b border-border flex items-center justify-between text-sm">
+        <span className="font-medium text-foreground truncate">{preset}</span>
+        {live?.done ? (
+          <span className="text-xs text-muted-foreground">{count} events</span>
+        ) : (
+          <Loader2 className="w-3.5 h-3.5 animate-spin text-muted-foreground" />
+        )}
+      </div>
+      <div className="h-48 overflow-y-auto p-2 space-y-0.5 font-mono text-xs">
+        {live?.events.map((event, i) => (
+          <div key={i} className="flex gap-2 text-muted-foreground">
+            <span className="shrink-0">{new Date(event.timestamp).toLocaleTimeString()}</span>
+            <span className={cn('truncate', event.type === 'error' || event.type === 'search_failed' ? 'text-red-400' : 'text-foreground')}>
+              {event.type.replace(/_/g, ' ')}
+              {event.agent && <span className="text-muted-foreground"> · {event.agent}</span>}
+            </span>
+          </div>
+        ))}
+        <div ref={endRef} />
+      </div>
+    </div>
+  )
+}
+
+// Lower is better for cost metrics, higher for confidence
+const METRICS: {
+  label: string
+  value: (run: ComparisonRun) => number | null
+  format: (value: number) => string
+  best: 'min' | 'max'
+}[] = [
+  { label: 'Duration', value: (r) => r.durationMs, format: (v) => `${(v / 1000).toFixed(1)}s`, best: 'min' },
+  { label: 'LLM calls', value: (r) => r.llmCalls, format: (v) => String(v), best: 'min' },
+  { label: 'Input tokens', value: (r) => r.tokens?.input ?? null, format: (v) => v.toLocaleString(), best: 'min' },
+  { label: 'Output tokens', value: (r) => r.tokens?.output ?? null, format: (v) => v.toLocaleString(), best: 'min' },
+  { label: 'Confidence', value: (r) => r.confidence, format: (v) => `${(v * 100).toFixed(0)}%`, best: 'max' },
+]
+
+function ReportView({ report }: { report: ComparisonReport }) {
+  const [diffPreset, setDiffPreset] = useState<string | null>(null)
+  const diff = report.answerDiffs.find((d) => d.preset === diffPreset) ?? report.answerDiffs[0]
+
+  return (
+    <div className="space-y-4">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-muted-foreground">
+            <th className="text-left font-normal py-1">Metric</th>
+            {report.runs.map((run) => (
+              <th key={run.requestId} className="text-right font-medium text-foreground py-1">
+                {run.preset}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          <tr className="border-t border-border">
+            <td className="py-1 text-muted-foreground">Status</td>
+            {report.runs.map((run) => (
+              <td key={run.requestId} className={cn('py-1 text-right', STATUS_COLORS[run.status])} title={run.error}>
+                {run.status}
+              </td>
+            ))}
+          </tr>
+          {METRICS.map((metric) => {
+            const values = report.runs.map(metric.value)
+            const known = values.filter((v): v is number => v !== null)
+            const best = known.length > 1 ? (metric.best === 'min' ? Math.min(...known) : Math.max(...known)) : null
+            return (
+              <tr key={metric.label} className="border-t border-border">
+                <td className="py-1 text-muted-foreground">{metric.label}</td>
+                {values.map((value, i) => (
+                  <td
+                    key={report.runs[i]!.requestId}
+                    className={cn('py-1 text-right', value !== null && value === best ? 'text-green-400 font-medium' : 'text-foreground')}
+                  >
+                    {value !== null ? metric.format(value) : '—'}
+                  </td>
+                ))}
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+
+      {/* Final answers */}
+      <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${report.runs.length}, minmax(0, 1fr))` }}>
+        {report.runs.map((run) => (
+          <div key={run.requestId} className="bg-muted/30 rounded-lg p-3 min-w-0">
+            <div className="text-xs text-muted-foreground mb-1">{run.preset}</div>
+            {run.answer ? (
+              <p className="text-sm text-foreground whitespace-pre-wrap max-h-64 overflow-y-auto">{run.answer}</p>
+            ) : (
+              <p className="text-sm text-muted-foreground italic">{run.error ?? 'No answer recorded'}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Answer diff against the first preset */}
+      {diff && (
+        <div>
+          <div className="flex items-center gap-2 mb-2 text-xs text-muted-foreground">
+            <span>Answer diff: {diff.baseline} →</span>
+            <select
+              value={diff.preset}
+              onChange={(e) => setDiffPreset(e.target.value)}
+              className="bg-muted text-foreground px-1.5 py-0.5 rounded border border-border"
+            >
+              {report.answerDiffs.map((d) => (
+                <option key={d.preset} value={d.preset}>
+                  {d.preset}
+                </option>
+              ))}
+            </select>
+            <span className="text-green-400">+{diff.added}</span>
+            <span className="text-red-400">-{diff.removed}</span>
+            <span>sentences</span>
+          </div>
+          <div className="bg-black/30 rounded text-xs font-mono max-h-72 overflow-y-auto py-1">
+            {diff.lines.map((row, i) => (
+              <div
+                key={i}
+                className={cn(
+                  'flex px-2 whitespace-pre-wrap',
+                  row.type === 'add' && 'bg-green-500/10 text-green-400',
+                  row.type === 'remove' && 'bg-red-500/10 text-red-400'
+                )}
+              >
+                <span className="w-4 shrink-0 select-none">{row.type === 'add' ? '+' : row.type === 'remove' ? '-' : ' '}</span>
+                <span>{row.text}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function PresetComparison({ memosAvailable }: { memosAvailable: boolean }) {
+  const queryClient = useQueryClient()
+  const canRun = useCan('operator')
+  const { presets: configPresets, loadPresets } = useAgentConfigStore()
+  const presets = configPresets.length > 0 ? configPresets : FALLBACK_PRESETS
+
+  const [isOpen, setIsOpen] = useState(false)
+  const [query, setQuery] = useState('')
+  const [selected, setSelected] = useState<string[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [live, setLive] = useState<Record<string, LiveRun>>({})
+  const streamsRef = useRef<EventSource[]>([])
+
+  useEffect(() => {
+    if (isOpen && configPresets.length === 0) loadPresets()
+  }, [isOpen, configPresets.length, loadPresets])
+
+  useEffect(() => () => streamsRef.current.forEach((s) => s.close()), [])
+
+  const { data: comparisons = [] } = useQuery({
+    queryKey: ['agent-comparisons'],
+    queryFn: fetchComparisons,
+    enabled: isOpen,
+    refetchInterval: 10000,
+  })
+
+  const { data: report, error: reportError } = useQuery({
+    queryKey: ['agent-comparison', selectedId],
+    queryFn: () => fetchComparison(selectedId!),
+    enabled: isOpen && selectedId !== null,
+    refetchInterval: (q) => (q.state.data?.status === 'running' ? 2000 : false),
+  })
+
+  // Streams are opened here rather than in an effect: opening a run's
+  // stream starts its search, and each run can only be streamed once
+  const start = useMutation({
+    mutationFn: () => startComparison(query.trim(), selected),
+    onSuccess: (started) => {
+      streamsRef.current.forEach((s) => s.close())
+      setLive(Object.fromEntries(started.runs.map((run) => [run.requestId, { events: [], done: false }])))
+      setSelectedId(started.comparisonId)
+
+      streamsRef.current = started.runs.map((run) => {
+        const update = (change: (prev: LiveRun) => LiveRun) =>
+          setLive((prev) => ({ ...prev, [run.requestId]: change(prev[run.requestId] ?? { events: [], done: false }) }))
+        const finish = () => {
+          eventSource.close()
+          update((prev) => ({ ...prev, done: true }))
+          queryClient.invalidateQueries({ queryKey: ['agent-comparison', started.comparisonId] })
+          queryClient.invalidateQueries({ queryKey: ['agent-comparisons'] })
+        }
+        const eventSource = createSSEConnection(
+          `/agent/events/${run.requestId}`,
+          (message) => {
+            try {
+              const data = JSON.parse(message.data)
+              const type: string = data.event_type || data.type || 'unknown'
+              if (type === 'connected') return
+              if (type === 'stream_complete') return finish()
+              update((prev) => ({
+                ...prev,
+                events: [...prev.events, { type, agent: data.agent || data.agent_name, timestamp: data.timestamp || new Date().toISOString() }],
+              }))
+              if (type === 'error') finish()
+            } catch {
+              // Ignore malformed messages
+            }
+          },
+          // An EventSource reconnects on its own, which would be refused
+          () => finish()
+        )
+        return eventSource
+      })
+      queryClient.invalidateQueries({ queryKey: ['agent-comparisons'] })
+    },
+  })
+
+  const remove = useMutation({
+    mutationFn: deleteComparison,
+    onSuccess: (_, id) => {
+      if (id === selectedId) setSelectedId(null)
+      queryClient.invalidateQueries({ queryKey: ['agent-comparisons'] })
+    },
+  })
+
+  const togglePreset = (name: string) =>
+    setSelected((prev) => (prev.includes(name) ? prev.filter((p) => p !== name) : [...prev, name].slice(0, MAX_PRESETS)))
+
+  const isStreaming = report?.status === 'running' && report.runs.some((run) => run.requestId in live)
+
+  const toggleButton = (
+    <button
+      onClick={() => setIsOpen((open) => !open)}
+      className={`flex items-center gap-1.5 px-3 py-1.5 text-sm rounded transition-colors ${
+        isOpen
+          ? 'bg-primary text-primary-foreground'
+          : 'bg-muted text-muted-foreground hover:text-foreground hover:bg-muted/80'
+      }`}
+    >
+      <GitCompare className="w-4 h-4" />
+      Compare Presets
+      {isOpen ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+    </button>
+  )
+
+  if (!isOpen) {
+    return toggleButton
+  }
+
+  return (
+    <div className="flex flex-col">
+      <div className="mb-2">{toggleButton}</div>
+
+      <div className="bg-card border border-border rounded-lg flex min-h-[24rem]">
+        {/* Saved comparisons */}
+        <div className="w-56 shrink-0 border-r border-border overflow-y-auto p-2 space-y-1 max-h-[40rem]">
+          {comparisons.length === 0 ? (
+            <p className="text-xs text-muted-foreground p-2 text-center">No comparisons yet</p>
+          ) : (
+            comparisons.map((c) => (
+              <div
+                key={c.id}
+                onClick={() => setSelectedId(c.id)}
+                className={cn(
+                  'group p-2 rounded cursor-pointer transition-colors',
+                  selectedId === c.id ? 'bg-primary/20 border border-primary/50' : 'hover:bg-muted/50'
+                )}
+              >
+                <div className="flex items-start justify-between gap-1">
+                  <p className="text-sm text-foreground truncate">{c.query}</p>
+                  {canRun && c.status === 'completed' && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        remove.mutate(c.id)
+                      }}
+                      title="Delete comparison"
+                      className="p-0.5 rounded opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-red-500"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground truncate">{c.presets.join(' vs ')}</p>
+                <p className="text-xs text-muted-foreground">
+                  {c.status === 'running' ? 'Running…' : new Date(c.createdAt).toLocaleString()}
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="flex-1 min-w-0 p-4 space-y-4">
+          {/* New comparison */}
+          {canRun && (
+            <form
+              className="space-y-2"
+              onSubmit={(e) => {
+                e.preventDefault()
+                if (query.trim() && selected.length >= 2) start.mutate()
+              }}
+            >
+              <div className="flex gap-2">
+                <input
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="Query to run under each preset..."
+                  className="flex-1 bg-muted text-foreground text-sm px-3 py-1.5 rounded border border-border focus:outline-none focus:border-primary"
+                />
+                <button
+                  type="submit"
+                  disabled={!memosAvailable || !query.trim() || selected.length < 2 || start.isPending || isStreaming}
+                  className="px-3 py-1.5 bg-primary text-primary-foreground text-sm rounded hover:bg-primary/90 disabled:opacity-50 flex items-center gap-1.5"
+                >
+                  {start.isPending ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Play className="w-3.5 h-3.5" />}
+                  Compare
+                </button>
+              </div>
+              <div className="flex flex-wrap items-center gap-1.5">
+                {presets.map((name) => (
+                  <button
+                    key={name}
+                    type="button"
+                    onClick={() => togglePreset(name)}
+                    className={cn(
+                      'px-2 py-0.5 text-xs rounded border transition-colors',
+                      selected.includes(name)
+                        ? 'bg-primary/20 border-primary/50 text-foreground'
+                        : 'border-border text-muted-foreground hover:text-foreground'
+                    )}
+                  >
+                    {selected.includes(name) && `${selected.indexOf(name) + 1}. `}
+                    {name}
+                  </button>
+                ))}
+                <span className="text-xs text-muted-foreground ml-1">
+                  Pick 2–{MAX_PRESETS}; the first is the baseline for the answer diff
+                </span>
+              </div>
+              {start.error && <p className="text-xs text-red-500">{start.error.message}</p>}
+            </form>
+          )}
+
+          {reportError && <p className="text-sm text-red-500">{reportError.message}</p>}
+          {remove.error && <p className="text-sm text-red-500">{remove.error.message}</p>}
+
+          {report ? (
+            <>
+              <div>
+                <p className="text-sm text-foreground">{report.query}</p>
+                <p className="text-xs text-muted-foreground">
+                  by {report.createdBy} · {new Date(report.createdAt).toLocaleString()}
+                </p>
+              </div>
+              {isStreaming ? (
+                <div className="flex gap-3">
+                  {report.runs.map((run) => (
+                    <LiveColumn key={run.requestId} preset={run.preset} live={live[run.requestId]} />
+                  ))}
+                </div>
+              ) : report.status === 'running' ? (
+                <p className="text-sm text-muted-foreground flex items-center gap-2">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Runs are still in progress
+                </p>
+              ) : (
+                <ReportView report={report} />
+              )}
+            </>
+          ) : (
+            !selectedId && (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                Run a query under several presets, or open a saved comparison
+              </p>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -10,11 +10,16 @@ import {
   Cpu,
   Wrench,
   FileCode,
+  History,
+  Layers,
 } from 'lucide-react'
 import { useAgentConfigStore } from '@/stores/agentConfigStore'
+import { useCan } from '@/lib/auth'
 import { PresetSelector } from './PresetSelector'
 import { PipelineStageCard } from './PipelineStageCard'
 import { RawYamlEditor } from './RawYamlEditor'
+import { ConfigHistory } from './ConfigHistory'
+import { PresetManager } from './PresetManager'
 import type { ModelConfig } from '@/lib/api'
 
 // Pipeline stage order - matches actual memOS execution order
@@ -114,10 +119,13 @@ export function AgentConfigPanel() {
     updateModelField,
     commitPendingChange,
     applyPreset,
+    applyCustomPreset,
     saveToYaml,
     reloadFromYaml,
     saveRawYamlContent,
+    rollbackToVersion,
   } = useAgentConfigStore()
+  const canEdit = useCan('admin')
 
   // Get pipeline configs in order
   const pipelineConfigs = useMemo(() => {
@@ -216,33 +224,39 @@ export function AgentConfigPanel() {
 
         {/* Toolbar */}
         <div className="flex flex-wrap items-center justify-between gap-3 p-3 border-b border-border bg-muted/30">
-          <PresetSelector
-            presets={presets.length > 0 ? presets : ['speed', 'quality', 'balanced', 'low_vram']}
-            isApplying={isSaving}
-            onApply={applyPreset}
-          />
-          <div className="flex items-center gap-2">
-            <button
-              onClick={reloadFromYaml}
-              disabled={isLoading}
-              className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-muted rounded hover:bg-muted/80 disabled:opacity-50 transition-colors"
-            >
-              <RefreshCw className={`w-3 h-3 ${isLoading ? 'animate-spin' : ''}`} />
-              Reload
-            </button>
-            <button
-              onClick={saveToYaml}
-              disabled={isSaving}
-              className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded hover:bg-primary/90 disabled:opacity-50 transition-colors"
-            >
-              {isSaving ? (
-                <Loader2 className="w-3 h-3 animate-spin" />
-              ) : (
-                <Save className="w-3 h-3" />
-              )}
-              Save to YAML
-            </button>
-          </div>
+          {canEdit ? (
+            <PresetSelector
+              presets={presets.length > 0 ? presets : ['speed', 'quality', 'balanced', 'low_vram']}
+              isApplying={isSaving}
+              onApply={applyPreset}
+            />
+          ) : (
+            <span className="text-xs text-muted-foreground">Read-only: changing the LLM config requires the admin role</span>
+          )}
+          {canEdit && (
+            <div className="flex items-center gap-2">
+              <button
+                onClick={reloadFromYaml}
+                disabled={isLoading}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-muted rounded hover:bg-muted/80 disabled:opacity-50 transition-colors"
+              >
+                <RefreshCw className={`w-3 h-3 ${isLoading ? 'animate-spin' : ''}`} />
+                Reload
+              </button>
+              <button
+                onClick={saveToYaml}
+                disabled={isSaving}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded hover:bg-primary/90 disabled:opacity-50 transition-colors"
+              >
+                {isSaving ? (
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                ) : (
+                  <Save className="w-3 h-3" />
+                )}
+                Save to YAML
+              </button>
+            </div>
+          )}
         </div>
 
         {/* Tabs */}
@@ -259,6 +273,12 @@ export function AgentConfigPanel() {
             icon={<Wrench className="w-3 h-3" />}
             label="Utility"
           />
+          <TabButton
+            active={activeTab === 'presets'}
+            onClick={() => setActiveTab('presets')}
+            icon={<Layers className="w-3 h-3" />}
+            label="Presets"
+          />
           <TabButton
             active={activeTab === 'raw'}
             onClick={() => {
@@ -268,6 +288,12 @@ export function AgentConfigPanel() {
             icon={<FileCode className="w-3 h-3" />}
             label="Raw YAML"
           />
+          <TabButton
+            active={activeTab === 'history'}
+            onClick={() => setActiveTab('history')}
+            icon={<History className="w-3 h-3" />}
+            label="History"
+          />
         </div>
 
         {/* Tab content */}
@@ -318,6 +344,15 @@ export function AgentConfigPanel() {
                 </div>
               ))}
             </div>
+          ) : activeTab === 'presets' ? (
+            <PresetManager
+              config={config}
+              isSaving={isSaving}
+              onApplyMemos={applyPreset}
+              onApplyCustom={applyCustomPreset}
+            />
+          ) : activeTab === 'history' ? (
+            <ConfigHistory isSaving={isSaving} onRollback={rollbackToVersion} />
           ) : (
             <RawYamlEditor
               yaml={rawYaml}
@@ -0,0 +1,236 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { History, Loader2, RotateCcw } from 'lucide-react'
+import { fetchConfigDiff, fetchConfigVersions, type ConfigDiffLine, type ConfigVersion } from '@/lib/api'
+import { useCan } from '@/lib/auth'
+import { cn } from '@/lib/utils'
+import { ConfirmDialog } from '@/components/processes/ConfirmDialog'
+
+// Unchanged lines kept around each change; longer unchanged runs are folded
+const CONTEXT_LINES = 3
+
+interface ConfigHistoryProps {
+  isSaving: boolean
+  onRollback: (versionId: number) => Promise<void>
+}
+
+const sourceLabels: Record<ConfigVersion['source'], string> = {
+  baseline: 'baseline',
+  save: 'saved',
+  raw: 'YAML edit',
+  rollback: 'rollback',
+}
+
+type DiffRow = ConfigDiffLine | { type: 'fold'; count: number }
+
+function foldUnchanged(lines: ConfigDiffLine[]): DiffRow[] {
+  const keep = lines.map(() => false)
+  lines.forEach((line, i) => {
+    if (line.type === 'same') return
+    for (let k = Math.max(0, i - CONTEXT_LINES); k <= Math.min(lines.length - 1, i + CONTEXT_LINES); k++) keep[k] = true
+  })
+
+  const rows: DiffRow[] = []
+  let folded = 0
+  lines.forEach((line, i) => {
+    if (keep[i]) {
+      if (folded > 0) rows.push({ type: 'fold', count: folded })
+      folded = 0
+      rows.push(line)
+    } else {
+      folded++
+    }
+  })
+  if (folded > 0) rows.push({ type: 'fold', count: folded })
+  return rows
+}
+
+function DiffView({ from, to }: { from: number; to: number | 'current' }) {
+  const { data: diff, isLoading, error } = useQuery({
+    queryKey: ['config-diff', from, to],
+    queryFn: () => fetchConfigDiff(from, to),
+    refetchInterval: to === 'current' ? 30000 : false,
+  })
+
+  const rows = useMemo(() => (diff ? foldUnchanged(diff.lines) : []), [diff])
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+  if (error) return <p className="text-sm text-red-500">{(error as Error).message}</p>
+  if (!diff) return null
+  if (diff.added === 0 && diff.removed === 0) {
+    return <p className="text-sm text-muted-foreground">The two versions are identical.</p>
+  }
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-muted-foreground">
+        <span className="text-green-500">+{diff.added}</span> <span className="text-red-500">-{diff.removed}</span> lines
+      </p>
+      <div className="bg-muted rounded-lg font-mono text-xs overflow-x-auto">
+        {rows.map((row, i) =>
+          row.type === 'fold' ? (
+            <div key={i} className="px-3 py-0.5 text-muted-foreground bg-muted/50 border-y border-border">
+              ⋯ {row.count} unchanged line{row.count === 1 ? '' : 's'}
+            </div>
+          ) : (
+            <div
+              key={i}
+              className={cn(
+                'flex whitespace-pre',
+                row.type === 'add' && 'bg-green-500/10 text-green-400',
+                row.type === 'remove' && 'bg-red-500/10 text-red-400'
+              )}
+            >
+              <span className="w-10 shrink-0 text-right pr-2 text-muted-foreground select-none">{row.oldLine ?? ''}</span>
+              <span className="w-10 shrink-0 text-right pr-2 text-muted-foreground select-none">{row.newLine ?? ''}</span>
+              <span className="w-4 shrink-0 select-none">{row.type === 'add' ? '+' : row.type === 'remove' ? '-' : ' '}</span>
+              <span>{row.text}</span>
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  )
+}
+
+export function ConfigHistory({ isSaving, onRollback }: ConfigHistoryProps) {
+  const canRollback = useCan('admin')
+  const [from, setFrom] = useState<number | null>(null)
+  const [to, setTo] = useState<number | 'current'>('current')
+  const [pendingRollback, setPendingRollback] = useState<ConfigVersion | null>(null)
+
+  const { data: versions = [], isLoading, refetch } = useQuery({
+    queryKey: ['config-versions'],
+    queryFn: fetchConfigVersions,
+    refetchInterval: 30000,
+  })
+
+  // Default to comparing the latest saved version with what memOS has now
+  useEffect(() => {
+    if (from === null && versions.length > 0) setFrom(versions[0]!.id)
+  }, [from, versions])
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (versions.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-32 text-sm text-muted-foreground gap-2">
+        <History className="w-5 h-5" />
+        No versions yet. Every YAML save from the dashboard is recorded here.
+      </div>
+    )
+  }
+
+  const label = (v: ConfigVersion) => `v${v.id} · ${new Date(v.createdAt).toLocaleString()}`
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-[280px_1fr] gap-4">
+      {/* Versions */}
+      <div className="space-y-1">
+        {versions.map((version) => (
+          <div
+            key={version.id}
+            onClick={() => setFrom(version.id)}
+            className={cn(
+              'p-2 rounded border cursor-pointer transition-colors',
+              from === version.id ? 'border-primary bg-primary/5' : 'border-border hover:bg-muted/50'
+            )}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-medium text-foreground">v{version.id}</span>
+              <span className="text-[10px] px-1.5 py-0.5 rounded bg-muted text-muted-foreground">
+                {sourceLabels[version.source]}
+              </span>
+            </div>
+            {version.message && <p className="text-xs text-foreground mt-0.5 break-words">{version.message}</p>}
+            <div className="flex items-center justify-between mt-1 text-[10px] text-muted-foreground">
+              <span>
+                {version.author} · {new Date(version.createdAt).toLocaleString()}
+              </span>
+              <span className="font-mono" title={version.hash}>
+                {version.hash.slice(0, 8)}
+              </span>
+            </div>
+            {canRollback && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  setPendingRollback(version)
+                }}
+                disabled={isSaving}
+                className="mt-1 flex items-center gap-1 text-[10px] text-muted-foreground hover:text-foreground disabled:opacity-50"
+              >
+                <RotateCcw className="w-3 h-3" />
+                Roll back to this version
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Diff */}
+      <div className="space-y-2 min-w-0">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Compare</span>
+          <select
+            value={from ?? ''}
+            onChange={(e) => setFrom(parseInt(e.target.value, 10))}
+            className="bg-muted text-foreground px-2 py-1 rounded border border-border text-xs"
+          >
+            {versions.map((v) => (
+              <option key={v.id} value={v.id}>
+                {label(v)}
+              </option>
+            ))}
+          </select>
+          <span className="text-muted-foreground">with</span>
+          <select
+            value={to}
+            onChange={(e) => setTo(e.target.value === 'current' ? 'current' : parseInt(e.target.value, 10))}
+            className="bg-muted text-foreground px-2 py-1 rounded border border-border text-xs"
+          >
+            <option value="current">current memOS config</option>
+            {versions.map((v) => (
+              <option key={v.id} value={v.id}>
+                {label(v)}
+              </option>
+            ))}
+          </select>
+        </div>
+        {from !== null && <DiffView from={from} to={to} />}
+      </div>
+
+      {pendingRollback && (
+        <ConfirmDialog
+          title="Roll back LLM config"
+          message={
+            <>
+              Replace the memOS config with <span className="text-foreground font-medium">v{pendingRollback.id}</span>
+              {pendingRollback.message && <> ({pendingRollback.message})</>}? The current config stays in the history.
+            </>
+          }
+          confirmLabel="Roll back"
+          destructive
+          onConfirm={() => {
+            const id = pendingRollback.id
+            setPendingRollback(null)
+            onRollback(id).then(() => refetch())
+          }}
+          onCancel={() => setPendingRollback(null)}
+        />
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,8 @@
-import { useState, useEffect, useCallback } from 'react'
-import { Loader2, Check, Info } from 'lucide-react'
-import type { ModelConfig } from '@/lib/api'
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { Loader2, Check, Info, AlertTriangle } from 'lucide-react'
+import type { CatalogModel, ModelBackend, ModelConfig } from '@/lib/api'
+import { backendLabels, useModelCatalog, useVramTotal, vramFit } from '@/lib/models'
+import { cn } from '@/lib/utils'
 
 interface PipelineStageCardProps {
   stageName: string
@@ -10,19 +12,15 @@ interface PipelineStageCardProps {
   onCommit: () => void
 }
 
-// Common Ollama models for the dropdown
-const COMMON_MODELS = [
-  'qwen3:8b',
-  'qwen3:14b',
-  'qwen3:4b',
-  'ministral-3:3b',
-  'gemma3:4b',
-  'gemma3:12b',
-  'deepseek-r1:14b',
-  'deepseek-r1:8b',
-  'llama3.3:70b',
-  'mistral:7b',
-]
+function optionLabel(model: CatalogModel, vramTotal: number | undefined): string {
+  const parts = [model.name]
+  if (model.sizeGB !== null) parts.push(`${model.sizeGB.toFixed(1)} GB`)
+  if (model.quantization) parts.push(model.quantization)
+  if (model.contextLength) parts.push(`${Math.round(model.contextLength / 1024)}K ctx`)
+  if (model.loaded) parts.push('loaded')
+  const fit = vramFit(model, vramTotal)
+  return `${fit?.level === 'exceeds' ? '⚠ ' : ''}${parts.join(' · ')}`
+}
 
 export function PipelineStageCard({
   stageName,
@@ -34,6 +32,19 @@ export function PipelineStageCard({
   const [showSaved, setShowSaved] = useState(false)
   const [localTemp, setLocalTemp] = useState(config.temperature.toString())
   const [localTokens, setLocalTokens] = useState(config.max_tokens.toString())
+  const { data: catalog } = useModelCatalog()
+  const vramTotal = useVramTotal()
+
+  const groups = useMemo(() => {
+    const byBackend = new Map<ModelBackend, CatalogModel[]>()
+    for (const model of catalog?.models ?? []) {
+      byBackend.set(model.backend, [...(byBackend.get(model.backend) ?? []), model])
+    }
+    return [...byBackend.entries()]
+  }, [catalog])
+
+  const selected = catalog?.models.find((m) => m.name === config.model)
+  const fit = selected ? vramFit(selected, vramTotal) : null
 
   // Sync local state with config
   useEffect(() => {
@@ -126,16 +137,42 @@ export function PipelineStageCard({
           onChange={handleModelChange}
           className="w-full bg-muted text-sm rounded px-2 py-1.5 border border-transparent focus:border-primary focus:outline-none cursor-pointer"
         >
-          {/* Current model if not in common list */}
-          {!COMMON_MODELS.includes(config.model) && (
-            <option value={config.model}>{config.model}</option>
-          )}
-          {COMMON_MODELS.map((model) => (
-            <option key={model} value={model}>
-              {model}
+          {/* Keep the configured model selectable even when no backend has it */}
+          {!selected && (
+            <option value={config.model}>
+              {config.model}
+              {catalog ? ' (not installed)' : ''}
             </option>
+          )}
+          {groups.map(([backend, models]) => (
+            <optgroup key={backend} label={backendLabels[backend]}>
+              {models.map((model) => (
+                <option key={`${backend}:${model.name}`} value={model.name}>
+                  {optionLabel(model, vramTotal)}
+                </option>
+              ))}
+            </optgroup>
           ))}
         </select>
+        {catalog && !selected && (
+          <p className="mt-1 text-xs text-yellow-500 flex items-center gap-1">
+            <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+            Not installed on any running backend
+          </p>
+        )}
+        {fit && fit.level !== 'ok' && (
+          <p
+            className={cn(
+              'mt-1 text-xs flex items-center gap-1',
+              fit.level === 'exceeds' ? 'text-red-500' : 'text-yellow-500'
+            )}
+          >
+            <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+            {fit.level === 'exceeds'
+              ? `Needs ~${fit.neededGB.toFixed(1)} GB, more than the GPU's ${fit.totalGB.toFixed(0)} GB VRAM`
+              : `Needs ~${fit.neededGB.toFixed(1)} GB of ${fit.totalGB.toFixed(0)} GB VRAM`}
+          </p>
+        )}
       </div>
 
       {/* Temperature & Max Tokens */}
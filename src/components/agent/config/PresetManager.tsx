@@ -0,0 +1,465 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Copy, Download, Loader2, Pencil, Plus, Trash2, Upload, X } from 'lucide-react'
+import {
+  createCustomPreset,
+  deleteCustomPreset,
+  fetchCustomPresets,
+  importPresets,
+  presetExportUrl,
+  previewPreset,
+  updateCustomPreset,
+  type LLMConfig,
+  type PresetInput,
+} from '@/lib/api'
+import { useCan } from '@/lib/auth'
+import { useModelCatalog } from '@/lib/models'
+import { cn } from '@/lib/utils'
+import { ConfirmDialog } from '@/components/processes/ConfirmDialog'
+
+interface PresetManagerProps {
+  config: LLMConfig | null
+  isSaving: boolean
+  onApplyMemos: (name: string) => Promise<void>
+  onApplyCustom: (name: string) => Promise<void>
+}
+
+type Selection = { kind: 'memos' | 'custom'; name: string } | { kind: 'new' }
+
+const CUSTOM_PRESETS_QUERY_KEY = ['custom-presets']
+
+// Current model vs the preset's, one row per stage the preset sets
+function PresetDiff({ models }: { models: Record<string, string> }) {
+  const { data: assignments, isLoading, error } = useQuery({
+    queryKey: ['preset-preview', models],
+    queryFn: () => previewPreset(models),
+    enabled: Object.keys(models).length > 0,
+    refetchInterval: false,
+  })
+
+  if (Object.keys(models).length === 0) {
+    return <p className="text-sm text-muted-foreground">Add a stage to see what the preset would change.</p>
+  }
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-16">
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+  if (error) return <p className="text-sm text-red-500">{(error as Error).message}</p>
+  if (!assignments) return null
+
+  const changed = assignments.filter((a) => a.changed).length
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-muted-foreground">
+        {changed} of {assignments.length} stage{assignments.length === 1 ? '' : 's'} would change
+      </p>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-muted-foreground">
+            <th className="font-normal py-1 pr-2">Stage</th>
+            <th className="font-normal py-1 pr-2">Current</th>
+            <th className="font-normal py-1">Preset</th>
+          </tr>
+        </thead>
+        <tbody className="font-mono">
+          {assignments.map((a) => (
+            <tr key={a.stage} className={cn('border-t border-border', a.changed && 'bg-primary/5')}>
+              <td className="py-1 pr-2 text-foreground">
+                {a.stage}
+                {a.section && <span className="text-muted-foreground"> ({a.section})</span>}
+              </td>
+              <td className={cn('py-1 pr-2', a.changed ? 'text-red-400' : 'text-muted-foreground')}>
+                {a.path ? a.current ?? '—' : <span className="text-red-500 font-sans">not in config</span>}
+              </td>
+              <td className={cn('py-1', a.changed ? 'text-green-400' : 'text-muted-foreground')}>{a.next}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+function PresetEditor({
+  initial,
+  originalName,
+  stages,
+  onSaved,
+  onCancel,
+}: {
+  initial: PresetInput
+  originalName: string | null
+  stages: string[]
+  onSaved: (name: string) => void
+  onCancel: () => void
+}) {
+  const queryClient = useQueryClient()
+  const [draft, setDraft] = useState(initial)
+  const { data: catalog } = useModelCatalog()
+
+  useEffect(() => setDraft(initial), [initial])
+
+  // Preview once typing pauses rather than on every keystroke
+  const [previewModels, setPreviewModels] = useState(initial.models)
+  useEffect(() => {
+    const timer = setTimeout(
+      () => setPreviewModels(Object.fromEntries(Object.entries(draft.models).filter(([, model]) => model))),
+      400
+    )
+    return () => clearTimeout(timer)
+  }, [draft.models])
+
+  const save = useMutation({
+    mutationFn: () => (originalName ? updateCustomPreset(originalName, draft) : createCustomPreset(draft)),
+    onSuccess: (preset) => {
+      queryClient.invalidateQueries({ queryKey: CUSTOM_PRESETS_QUERY_KEY })
+      onSaved(preset.name)
+    },
+  })
+
+  const setModel = (stage: string, model: string) => setDraft({ ...draft, models: { ...draft.models, [stage]: model } })
+  const removeStage = (stage: string) => {
+    const { [stage]: _removed, ...rest } = draft.models
+    setDraft({ ...draft, models: rest })
+  }
+  const unusedStages = stages.filter((s) => !(s in draft.models))
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <input
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder="preset_name"
+          className="w-48 bg-muted text-foreground text-sm px-2 py-1 rounded border border-border focus:outline-none focus:border-primary"
+        />
+        <input
+          value={draft.description ?? ''}
+          onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+          placeholder="Description (optional)"
+          className="flex-1 bg-muted text-foreground text-sm px-2 py-1 rounded border border-border focus:outline-none focus:border-primary"
+        />
+      </div>
+
+      <datalist id="preset-model-options">
+        {catalog?.models.map((m) => (
+          <option key={`${m.backend}:${m.name}`} value={m.name} />
+        ))}
+      </datalist>
+      <div className="space-y-1">
+        {Object.entries(draft.models).map(([stage, model]) => (
+          <div key={stage} className="flex items-center gap-2">
+            <span className="w-48 text-sm text-foreground truncate">{stage}</span>
+            <input
+              value={model}
+              onChange={(e) => setModel(stage, e.target.value)}
+              list="preset-model-options"
+              className="flex-1 bg-muted text-foreground text-sm font-mono px-2 py-1 rounded border border-border focus:outline-none focus:border-primary"
+            />
+            <button
+              onClick={() => removeStage(stage)}
+              title={`Remove ${stage}`}
+              className="p-1 rounded text-muted-foreground hover:bg-accent hover:text-foreground"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+        {unusedStages.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => setModel(e.target.value, '')}
+            className="bg-muted text-muted-foreground text-xs px-2 py-1 rounded border border-border"
+          >
+            <option value="">+ Add stage…</option>
+            {unusedStages.map((stage) => (
+              <option key={stage} value={stage}>
+                {stage}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {save.error && <p className="text-xs text-red-500 whitespace-pre-line">{save.error.message}</p>}
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => save.mutate()}
+          disabled={save.isPending}
+          className="px-3 py-1 bg-primary text-primary-foreground text-sm rounded hover:bg-primary/90 disabled:opacity-50 flex items-center gap-1.5"
+        >
+          {save.isPending && <Loader2 className="w-3 h-3 animate-spin" />}
+          {originalName ? 'Save preset' : 'Create preset'}
+        </button>
+        <button onClick={onCancel} className="px-3 py-1 text-sm rounded bg-muted hover:bg-muted/80">
+          Cancel
+        </button>
+      </div>
+
+      <PresetDiff models={previewModels} />
+    </div>
+  )
+}
+
+export function PresetManager({ config, isSaving, onApplyMemos, onApplyCustom }: PresetManagerProps) {
+  const queryClient = useQueryClient()
+  const canEdit = useCan('admin')
+  const [selection, setSelection] = useState<Selection | null>(null)
+  const [editing, setEditing] = useState<{ initial: PresetInput; originalName: string | null } | null>(null)
+  const [pendingDelete, setPendingDelete] = useState<string | null>(null)
+  const [overwrite, setOverwrite] = useState(false)
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  const { data: customPresets = [], isLoading } = useQuery({
+    queryKey: CUSTOM_PRESETS_QUERY_KEY,
+    queryFn: fetchCustomPresets,
+    refetchInterval: 30000,
+  })
+  const memosPresets = config?.presets ?? {}
+
+  const stages = useMemo(
+    () => [
+      ...Object.keys(config?.pipeline ?? {}),
+      ...Object.keys(config?.utility ?? {}),
+      ...Object.keys(config?.corpus ?? {}),
+    ],
+    [config]
+  )
+
+  const remove = useMutation({
+    mutationFn: deleteCustomPreset,
+    onSuccess: () => {
+      setSelection(null)
+      queryClient.invalidateQueries({ queryKey: CUSTOM_PRESETS_QUERY_KEY })
+    },
+  })
+
+  const importFile = useMutation({
+    mutationFn: async (file: File) => importPresets(await file.text(), overwrite),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: CUSTOM_PRESETS_QUERY_KEY }),
+  })
+
+  const selectedModels =
+    selection?.kind === 'memos'
+      ? memosPresets[selection.name] ?? {}
+      : selection?.kind === 'custom'
+        ? customPresets.find((p) => p.name === selection.name)?.models ?? {}
+        : {}
+  const selectedCustom = selection?.kind === 'custom' ? customPresets.find((p) => p.name === selection.name) : undefined
+
+  const startEditing = (initial: PresetInput, originalName: string | null) => {
+    setEditing({ initial, originalName })
+    if (!originalName) setSelection({ kind: 'new' })
+  }
+  const apply = (kind: 'memos' | 'custom', name: string) =>
+    (kind === 'memos' ? onApplyMemos : onApplyCustom)(name).then(() =>
+      queryClient.invalidateQueries({ queryKey: ['preset-preview'] })
+    )
+  const clone = (name: string, models: Record<string, string>, description?: string | null) =>
+    startEditing({ name: `${name}_copy`, description, models: { ...models } }, null)
+
+  const listItem = (kind: 'memos' | 'custom', name: string, count: number) => (
+    <button
+      key={`${kind}:${name}`}
+      onClick={() => {
+        setSelection({ kind, name })
+        setEditing(null)
+      }}
+      className={cn(
+        'w-full flex items-center justify-between p-2 rounded border text-left text-sm transition-colors',
+        selection?.kind === kind && 'name' in selection && selection.name === name
+          ? 'border-primary bg-primary/5'
+          : 'border-border hover:bg-muted/50'
+      )}
+    >
+      <span className="text-foreground truncate">{name}</span>
+      <span className="text-[10px] text-muted-foreground shrink-0">{count} stages</span>
+    </button>
+  )
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-[260px_1fr] gap-4">
+      {/* Preset lists */}
+      <div className="space-y-3">
+        {canEdit && (
+          <div className="flex flex-wrap items-center gap-1">
+            <button
+              onClick={() => startEditing({ name: '', description: '', models: {} }, null)}
+              className="flex items-center gap-1 px-2 py-1 text-xs bg-muted rounded hover:bg-muted/80"
+            >
+              <Plus className="w-3 h-3" />
+              New
+            </button>
+            <button
+              onClick={() => fileInput.current?.click()}
+              disabled={importFile.isPending}
+              className="flex items-center gap-1 px-2 py-1 text-xs bg-muted rounded hover:bg-muted/80 disabled:opacity-50"
+            >
+              <Upload className="w-3 h-3" />
+              Import
+            </button>
+            <a
+              href={presetExportUrl()}
+              className={cn(
+                'flex items-center gap-1 px-2 py-1 text-xs bg-muted rounded hover:bg-muted/80',
+                customPresets.length === 0 && 'opacity-50 pointer-events-none'
+              )}
+            >
+              <Download className="w-3 h-3" />
+              Export all
+            </a>
+            <label className="flex items-center gap-1 text-[10px] text-muted-foreground">
+              <input type="checkbox" checked={overwrite} onChange={(e) => setOverwrite(e.target.checked)} />
+              overwrite on import
+            </label>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".yaml,.yml"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) importFile.mutate(file)
+                e.target.value = ''
+              }}
+            />
+          </div>
+        )}
+        {importFile.error && <p className="text-xs text-red-500 whitespace-pre-line">{importFile.error.message}</p>}
+        {importFile.data && (
+          <p className="text-xs text-muted-foreground">
+            Imported {importFile.data.imported.length}
+            {importFile.data.skipped.length > 0 && `, skipped ${importFile.data.skipped.join(', ')} (already exist)`}
+          </p>
+        )}
+
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Custom</p>
+          {isLoading ? (
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          ) : customPresets.length === 0 ? (
+            <p className="text-xs text-muted-foreground">None yet. Create one or clone a memOS preset.</p>
+          ) : (
+            customPresets.map((p) => listItem('custom', p.name, Object.keys(p.models).length))
+          )}
+        </div>
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">memOS (llm_models.yaml)</p>
+          {Object.entries(memosPresets).map(([name, models]) => listItem('memos', name, Object.keys(models).length))}
+        </div>
+      </div>
+
+      {/* Selected preset */}
+      <div className="min-w-0">
+        {editing ? (
+          <PresetEditor
+            initial={editing.initial}
+            originalName={editing.originalName}
+            stages={stages}
+            onSaved={(name) => {
+              setEditing(null)
+              setSelection({ kind: 'custom', name })
+            }}
+            onCancel={() => {
+              setEditing(null)
+              if (selection?.kind === 'new') setSelection(null)
+            }}
+          />
+        ) : selection && selection.kind !== 'new' ? (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <h4 className="text-sm font-medium text-foreground">{selection.name}</h4>
+                {selectedCustom?.description && (
+                  <p className="text-xs text-muted-foreground">{selectedCustom.description}</p>
+                )}
+                {selectedCustom && (
+                  <p className="text-[10px] text-muted-foreground">
+                    by {selectedCustom.createdBy} · updated {new Date(selectedCustom.updatedAt).toLocaleString()}
+                  </p>
+                )}
+              </div>
+              {canEdit && (
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => apply(selection.kind, selection.name)}
+                    disabled={isSaving}
+                    className="px-3 py-1 bg-primary text-primary-foreground text-sm rounded hover:bg-primary/90 disabled:opacity-50 flex items-center gap-1.5"
+                  >
+                    {isSaving && <Loader2 className="w-3 h-3 animate-spin" />}
+                    Apply
+                  </button>
+                  <button
+                    onClick={() => clone(selection.name, selectedModels, selectedCustom?.description)}
+                    title="Clone into a new custom preset"
+                    className="p-1.5 rounded text-muted-foreground hover:bg-accent hover:text-foreground"
+                  >
+                    <Copy className="w-3.5 h-3.5" />
+                  </button>
+                  {selectedCustom && (
+                    <>
+                      <button
+                        onClick={() =>
+                          startEditing(
+                            { name: selectedCustom.name, description: selectedCustom.description, models: selectedCustom.models },
+                            selectedCustom.name
+                          )
+                        }
+                        title="Edit"
+                        className="p-1.5 rounded text-muted-foreground hover:bg-accent hover:text-foreground"
+                      >
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                      <a
+                        href={presetExportUrl([selectedCustom.name])}
+                        title="Export as YAML"
+                        className="p-1.5 rounded text-muted-foreground hover:bg-accent hover:text-foreground"
+                      >
+                        <Download className="w-3.5 h-3.5" />
+                      </a>
+                      <button
+                        onClick={() => setPendingDelete(selectedCustom.name)}
+                        title="Delete"
+                        className="p-1.5 rounded text-muted-foreground hover:bg-accent hover:text-red-500"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+            {remove.error && <p className="text-xs text-red-500">{remove.error.message}</p>}
+            <PresetDiff models={selectedModels} />
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Select a preset to compare it with the current config.
+          </p>
+        )}
+      </div>
+
+      {pendingDelete && (
+        <ConfirmDialog
+          title="Delete preset"
+          message={
+            <>
+              Delete the custom preset <span className="text-foreground font-medium">{pendingDelete}</span>? The current
+              config is not changed.
+            </>
+          }
+          confirmLabel="Delete"
+          destructive
+          onConfirm={() => {
+            remove.mutate(pendingDelete)
+            setPendingDelete(null)
+          }}
+          onCancel={() => setPendingDelete(null)}
+        />
+      )}
+    </div>
+  )
+}
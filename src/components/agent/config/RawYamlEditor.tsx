@@ -1,11 +1,21 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import CodeMirror from '@uiw/react-codemirror'
+import { yaml as yamlLanguage } from '@codemirror/lang-yaml'
+import { autocompletion } from '@codemirror/autocomplete'
+import { lintGutter } from '@codemirror/lint'
+import { Prec } from '@codemirror/state'
+import { keymap } from '@codemirror/view'
 import { Save, Loader2, AlertTriangle, Check } from 'lucide-react'
+import { fetchLLMConfigSchema, validateLLMConfigYaml, type ConfigIssue } from '@/lib/api'
+import { useModelCatalog } from '@/lib/models'
+import { llmConfigCompletions, llmConfigLinter } from './yamlEditorExtensions'
 
 interface RawYamlEditorProps {
   yaml: string
   isLoading: boolean
   isSaving: boolean
-  onSave: (content: string) => void
+  onSave: (content: string, message?: string) => void
 }
 
 export function RawYamlEditor({
@@ -18,6 +28,23 @@ export function RawYamlEditor({
   const [hasChanges, setHasChanges] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [showSaved, setShowSaved] = useState(false)
+  // Kept with the saved config version
+  const [message, setMessage] = useState('')
+  // Latest issues reported by the linter
+  const [issues, setIssues] = useState<ConfigIssue[]>([])
+  const [isValidating, setIsValidating] = useState(false)
+
+  const { data: schema } = useQuery({
+    queryKey: ['llm-config-schema'],
+    queryFn: fetchLLMConfigSchema,
+    staleTime: Infinity,
+    refetchInterval: false,
+  })
+  const schemaRef = useRef(schema)
+  schemaRef.current = schema
+  const { data: catalog } = useModelCatalog()
+  const modelsRef = useRef<string[]>([])
+  modelsRef.current = catalog?.models.map((m) => m.name) ?? []
 
   // Sync with external yaml prop
   useEffect(() => {
@@ -34,8 +61,7 @@ export function RawYamlEditor({
   }, [showSaved])
 
   const handleChange = useCallback(
-    (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-      const newContent = e.target.value
+    (newContent: string) => {
       setContent(newContent)
       setHasChanges(newContent !== yaml)
       setError(null)
@@ -43,52 +69,63 @@ export function RawYamlEditor({
     [yaml]
   )
 
-  const handleSave = useCallback(() => {
-    // Basic YAML validation - check for common issues
+  // Nothing reaches memOS until the backend has parsed and schema-checked it
+  const handleSave = useCallback(async () => {
     if (!content.trim()) {
       setError('YAML content cannot be empty')
       return
     }
 
-    // Check for tabs (YAML should use spaces)
-    if (content.includes('\t')) {
-      setError('YAML should use spaces, not tabs, for indentation')
+    setIsValidating(true)
+    try {
+      const result = await validateLLMConfigYaml(content)
+      setIssues(result.issues)
+      if (!result.valid) {
+        const errors = result.issues.filter((i) => i.severity === 'error')
+        setError(`${errors.length} error${errors.length === 1 ? '' : 's'} - first on line ${errors[0]!.line}: ${errors[0]!.message}`)
+        return
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to validate YAML')
       return
+    } finally {
+      setIsValidating(false)
     }
 
-    onSave(content)
+    onSave(content, message || undefined)
+    setMessage('')
     setHasChanges(false)
     setShowSaved(true)
-  }, [content, onSave])
-
-  const handleKeyDown = useCallback(
-    (e: React.KeyboardEvent) => {
-      // Save on Ctrl/Cmd + S
-      if ((e.ctrlKey || e.metaKey) && e.key === 's') {
-        e.preventDefault()
-        if (hasChanges && !isSaving) {
-          handleSave()
-        }
-      }
-      // Insert spaces for Tab key
-      if (e.key === 'Tab') {
-        e.preventDefault()
-        const textarea = e.target as HTMLTextAreaElement
-        const start = textarea.selectionStart
-        const end = textarea.selectionEnd
-        const newContent =
-          content.substring(0, start) + '  ' + content.substring(end)
-        setContent(newContent)
-        setHasChanges(newContent !== yaml)
-        // Move cursor after the spaces
-        setTimeout(() => {
-          textarea.selectionStart = textarea.selectionEnd = start + 2
-        }, 0)
-      }
-    },
-    [content, yaml, hasChanges, isSaving, handleSave]
+  }, [content, message, onSave])
+
+  const saveRef = useRef(handleSave)
+  saveRef.current = handleSave
+  const canSave = hasChanges && !isSaving && !isValidating
+
+  const extensions = useMemo(
+    () => [
+      yamlLanguage(),
+      lintGutter(),
+      llmConfigLinter(setIssues),
+      autocompletion({ override: [llmConfigCompletions(() => schemaRef.current, () => modelsRef.current)] }),
+      Prec.highest(
+        keymap.of([
+          {
+            key: 'Mod-s',
+            run: () => {
+              saveRef.current()
+              return true
+            },
+          },
+        ])
+      ),
+    ],
+    []
   )
 
+  const errorCount = issues.filter((i) => i.severity === 'error').length
+  const warningCount = issues.length - errorCount
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -111,6 +148,10 @@ export function RawYamlEditor({
               Unsaved changes
             </span>
           )}
+          {errorCount > 0 && <span className="text-xs text-red-500">{errorCount} error{errorCount === 1 ? '' : 's'}</span>}
+          {warningCount > 0 && (
+            <span className="text-xs text-yellow-500">{warningCount} warning{warningCount === 1 ? '' : 's'}</span>
+          )}
           {showSaved && !hasChanges && (
             <span className="text-xs text-green-500 flex items-center gap-1">
               <Check className="w-3 h-3" />
@@ -119,18 +160,24 @@ export function RawYamlEditor({
           )}
         </div>
         <div className="flex items-center gap-2">
+          <input
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder="Change note (optional)"
+            className="w-48 bg-muted text-foreground text-xs px-2 py-1 rounded border border-border focus:outline-none focus:border-primary"
+          />
           <span className="text-xs text-muted-foreground hidden sm:inline">
             Ctrl+S to save
           </span>
           <button
             onClick={handleSave}
-            disabled={!hasChanges || isSaving}
+            disabled={!canSave}
             className="px-3 py-1 bg-primary text-primary-foreground text-sm rounded hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1.5 transition-colors"
           >
-            {isSaving ? (
+            {isSaving || isValidating ? (
               <>
                 <Loader2 className="w-3 h-3 animate-spin" />
-                Saving...
+                {isValidating ? 'Validating...' : 'Saving...'}
               </>
             ) : (
               <>
@@ -151,12 +198,14 @@ export function RawYamlEditor({
       )}
 
       {/* Editor */}
-      <textarea
+      <CodeMirror
         value={content}
         onChange={handleChange}
-        onKeyDown={handleKeyDown}
-        spellCheck={false}
-        className="flex-1 min-h-[300px] bg-muted rounded-lg p-3 font-mono text-sm resize-none border border-transparent focus:border-primary focus:outline-none leading-relaxed"
+        extensions={extensions}
+        theme="dark"
+        minHeight="300px"
+        basicSetup={{ tabSize: 2 }}
+        className="flex-1 rounded-lg overflow-hidden border border-border text-sm"
         placeholder="Loading YAML configuration..."
       />
 
@@ -164,7 +213,7 @@ export function RawYamlEditor({
       <div className="flex items-center justify-between mt-2 px-1 text-xs text-muted-foreground">
         <span>{content.split('\n').length} lines</span>
         <span>
-          Edit with caution - invalid YAML will prevent config from loading
+          Ctrl+Space for suggestions; saves are validated against the config schema
         </span>
       </div>
     </div>
@@ -2,3 +2,5 @@ export { AgentConfigPanel } from './AgentConfigPanel'
 export { PresetSelector } from './PresetSelector'
 export { PipelineStageCard } from './PipelineStageCard'
 export { RawYamlEditor } from './RawYamlEditor'
+export { ConfigHistory } from './ConfigHistory'
+export { PresetManager } from './PresetManager'
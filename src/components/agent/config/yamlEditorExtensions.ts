@@ -0,0 +1,143 @@
+import type { Completion, CompletionContext, CompletionResult } from '@codemirror/autocomplete'
+import { linter, type Diagnostic } from '@codemirror/lint'
+import type { Text } from '@codemirror/state'
+import { validateLLMConfigYaml, type ConfigIssue, type JsonSchema } from '@/lib/api'
+
+// CodeMirror extensions for llm_models.yaml: server-side validation as lint
+// diagnostics, and key/value completion driven by the config schema.
+
+const STAGE_SECTIONS = ['pipeline', 'utility', 'corpus']
+
+function resolve(schema: JsonSchema, root: JsonSchema): JsonSchema {
+  const ref = schema.$ref?.match(/^#\/definitions\/(.+)$/)?.[1]
+  return ref ? (root.definitions?.[ref] ?? {}) : schema
+}
+
+function schemaAt(root: JsonSchema, path: string[]): JsonSchema | null {
+  let node: JsonSchema | null = root
+  for (const key of path) {
+    if (!node) return null
+    const current: JsonSchema = resolve(node, root)
+    node = current.properties?.[key] ?? (typeof current.additionalProperties === 'object' ? current.additionalProperties : null)
+  }
+  return node ? resolve(node, root) : null
+}
+
+// Keys of the enclosing mappings, found by walking up to lines with less indentation
+function parentKeys(doc: Text, lineNumber: number, indent: number): string[] {
+  const path: string[] = []
+  let current = indent
+  for (let n = lineNumber - 1; n >= 1 && current > 0; n--) {
+    const match = /^(\s*)([^\s#:][^:#]*):\s*(#.*)?$/.exec(doc.line(n).text)
+    if (match && match[1]!.length < current) {
+      path.unshift(match[2]!.trim())
+      current = match[1]!.length
+    }
+  }
+  return path
+}
+
+// Keys already present in the mapping the cursor is in, so they aren't offered twice
+function siblingKeys(doc: Text, lineNumber: number, indent: number): Set<string> {
+  const keys = new Set<string>()
+  const collect = (n: number) => {
+    const line = doc.line(n).text
+    if (!line.trim() || line.trim().startsWith('#')) return true
+    const lineIndent = line.length - line.trimStart().length
+    if (lineIndent < indent) return false
+    const key = /^\s*([^\s#:][^:#]*):/.exec(line)?.[1]
+    if (lineIndent === indent && key) keys.add(key.trim())
+    return true
+  }
+  let up = lineNumber - 1
+  while (up >= 1 && collect(up)) up--
+  let down = lineNumber + 1
+  while (down <= doc.lines && collect(down)) down++
+  return keys
+}
+
+function modelNamesIn(doc: Text): string[] {
+  const names = new Set<string>()
+  for (const match of doc.toString().matchAll(/^\s*model:\s*["']?([^\s"'#]+)/gm)) names.add(match[1]!)
+  return [...names].sort()
+}
+
+export function llmConfigCompletions(getSchema: () => JsonSchema | undefined, getModels: () => string[] = () => []) {
+  return (context: CompletionContext): CompletionResult | null => {
+    const schema = getSchema()
+    if (!schema) return null
+
+    const line = context.state.doc.lineAt(context.pos)
+    const before = line.text.slice(0, context.pos - line.from)
+
+    // Value position: "  model: qw|"
+    const valueMatch = /^(\s*)([^\s#:][^:#]*):\s+(["']?)([^\s"'#]*)$/.exec(before)
+    if (valueMatch) {
+      const path = [...parentKeys(context.state.doc, line.number, valueMatch[1]!.length), valueMatch[2]!.trim()]
+      if (path[path.length - 1] !== 'model' && path[0] !== 'presets') return null
+      const models = [...new Set([...getModels(), ...modelNamesIn(context.state.doc)])].sort()
+      return {
+        from: context.pos - valueMatch[4]!.length,
+        options: models.map((name) => ({ label: name, type: 'constant' })),
+        validFor: /^[\w.:/-]*$/,
+      }
+    }
+
+    // Key position: "  synth|"
+    const keyMatch = /^(\s*)([\w.-]*)$/.exec(before)
+    if (!keyMatch || (!keyMatch[2] && !context.explicit)) return null
+    const indent = keyMatch[1]!.length
+    const path = parentKeys(context.state.doc, line.number, indent)
+    const present = siblingKeys(context.state.doc, line.number, indent)
+
+    let options: Completion[]
+    if (path[0] === 'presets' && path.length === 2) {
+      // Preset entries map stage names to models
+      options = STAGE_SECTIONS.flatMap((section) =>
+        Object.keys(schemaAt(schema, [section])?.properties ?? {}).map((key) => ({ label: key, type: 'property', detail: section }))
+      )
+    } else {
+      const node = schemaAt(schema, path)
+      options = Object.entries(node?.properties ?? {}).map(([key, child]) => ({
+        label: key,
+        type: 'property',
+        info: resolve(child, schema).description,
+      }))
+    }
+
+    options = options
+      .filter((option) => !present.has(option.label))
+      .map((option) => ({ ...option, apply: `${option.label}: ` }))
+    if (options.length === 0) return null
+    return { from: context.pos - keyMatch[2]!.length, options, validFor: /^[\w.-]*$/ }
+  }
+}
+
+function toDiagnostic(doc: Text, issue: ConfigIssue): Diagnostic {
+  const position = (lineNumber: number, column: number) => {
+    const line = doc.line(Math.min(Math.max(lineNumber, 1), doc.lines))
+    return Math.min(line.from + Math.max(column - 1, 0), line.to)
+  }
+  const from = position(issue.line, issue.column)
+  let to = position(issue.endLine, issue.endColumn)
+  // Zero-width ranges underline the rest of the line instead
+  if (to <= from) to = doc.lineAt(from).to
+  return { from, to, severity: issue.severity, message: issue.message }
+}
+
+// Validates through the backend so the editor shows exactly what a save would reject
+export function llmConfigLinter(onResult?: (issues: ConfigIssue[]) => void) {
+  return linter(
+    async (view) => {
+      const doc = view.state.doc
+      try {
+        const { issues } = await validateLLMConfigYaml(doc.toString())
+        onResult?.(issues)
+        return issues.map((issue) => toDiagnostic(doc, issue))
+      } catch {
+        return []
+      }
+    },
+    { delay: 500 }
+  )
+}
@@ -0,0 +1,193 @@
+import { useState } from 'react'
+import { keepPreviousData, useQuery } from '@tanstack/react-query'
+import { CheckCircle, ChevronDown, ChevronLeft, ChevronRight, Loader2, XCircle } from 'lucide-react'
+import { fetchAuditLog, type AuditEntry } from '@/lib/api'
+import { cn } from '@/lib/utils'
+
+const PAGE_SIZE = 25
+
+const selectClass = 'bg-muted text-foreground px-3 py-1.5 rounded border border-border text-sm'
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—'
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+function AuditRow({ entry }: { entry: AuditEntry }) {
+  const [expanded, setExpanded] = useState(false)
+  const hasDetail = !!(entry.error || entry.details || entry.changes?.length)
+
+  return (
+    <>
+      <tr
+        className={cn('border-t border-border', hasDetail && 'cursor-pointer hover:bg-muted/50')}
+        onClick={() => hasDetail && setExpanded(!expanded)}
+      >
+        <td className="py-1.5 pr-2 w-4 text-muted-foreground">
+          {hasDetail && (expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />)}
+        </td>
+        <td className="py-1.5 pr-3 text-muted-foreground whitespace-nowrap">
+          {new Date(entry.timestamp).toLocaleString()}
+        </td>
+        <td className="py-1.5 pr-3 text-foreground">
+          {entry.actor}
+          {entry.via === 'token' && <span className="text-xs text-muted-foreground ml-1">(token)</span>}
+        </td>
+        <td className="py-1.5 pr-3 font-mono text-xs text-foreground">{entry.action}</td>
+        <td className="py-1.5 pr-3 text-muted-foreground">{entry.target ?? ''}</td>
+        <td className="py-1.5">
+          <span
+            className={cn('flex items-center gap-1 text-xs', entry.success ? 'text-green-500' : 'text-red-500')}
+            title={`HTTP ${entry.status}`}
+          >
+            {entry.success ? <CheckCircle className="w-3 h-3" /> : <XCircle className="w-3 h-3" />}
+            {entry.status}
+          </span>
+        </td>
+      </tr>
+      {expanded && (
+        <tr>
+          <td />
+          <td colSpan={5} className="pb-3 text-xs space-y-2">
+            <p className="text-muted-foreground font-mono">
+              {entry.method} {entry.path}
+            </p>
+            {entry.error && <p className="text-red-500 whitespace-pre-wrap">{entry.error}</p>}
+            {entry.details && (
+              <pre className="bg-muted/50 rounded p-2 overflow-x-auto text-foreground">
+                {JSON.stringify(entry.details, null, 2)}
+              </pre>
+            )}
+            {entry.changes && entry.changes.length > 0 && (
+              <div className="bg-muted/50 rounded p-2 font-mono space-y-0.5 overflow-x-auto">
+                {entry.changes.map((change) => (
+                  <div key={change.path}>
+                    <span className="text-foreground">{change.path}</span>
+                    {('before' in change || 'after' in change) && (
+                      <>
+                        {': '}
+                        <span className="text-red-400 line-through">{formatValue(change.before)}</span>
+                        {' → '}
+                        <span className="text-green-400">{formatValue(change.after)}</span>
+                      </>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            {entry.changes && entry.changes.length === 0 && (
+              <p className="text-muted-foreground">No changes to the tracked state.</p>
+            )}
+          </td>
+        </tr>
+      )}
+    </>
+  )
+}
+
+export function AuditLog() {
+  const [actor, setActor] = useState('')
+  const [action, setAction] = useState('')
+  const [result, setResult] = useState<'' | 'success' | 'failure'>('')
+  const [page, setPage] = useState(0)
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['audit', actor, action, result, page],
+    queryFn: () =>
+      fetchAuditLog({
+        actor: actor || undefined,
+        action: action || undefined,
+        result: result || undefined,
+        limit: PAGE_SIZE,
+        offset: page * PAGE_SIZE,
+      }),
+    refetchInterval: 30000,
+    placeholderData: keepPreviousData,
+  })
+
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / PAGE_SIZE)) : 1
+  // Group prefixes ("llm-config") in the filter alongside the concrete actions
+  const actionOptions = [...new Set((data?.actions ?? []).flatMap((a) => [a.split('.')[0]!, a]))].sort()
+
+  const filter = (set: (value: string) => void) => (e: React.ChangeEvent<HTMLSelectElement>) => {
+    set(e.target.value)
+    setPage(0)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={actor} onChange={filter(setActor)} className={selectClass}>
+          <option value="">All users</option>
+          {data?.actors.map((a) => (
+            <option key={a} value={a}>
+              {a}
+            </option>
+          ))}
+        </select>
+        <select value={action} onChange={filter(setAction)} className={selectClass}>
+          <option value="">All actions</option>
+          {actionOptions.map((a) => (
+            <option key={a} value={a}>
+              {a.includes('.') ? a : `${a}.*`}
+            </option>
+          ))}
+        </select>
+        <select
+          value={result}
+          onChange={filter((value) => setResult(value as typeof result))}
+          className={selectClass}
+        >
+          <option value="">Any result</option>
+          <option value="success">Succeeded</option>
+          <option value="failure">Failed</option>
+        </select>
+        {isLoading && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+      </div>
+
+      {error && <p className="text-sm text-red-500">{(error as Error).message}</p>}
+
+      {data && data.entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No audit entries match.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead className="text-left text-muted-foreground">
+            <tr>
+              <th />
+              <th className="font-normal py-1">Time</th>
+              <th className="font-normal py-1">User</th>
+              <th className="font-normal py-1">Action</th>
+              <th className="font-normal py-1">Target</th>
+              <th className="font-normal py-1">Result</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data?.entries.map((entry) => <AuditRow key={entry.id} entry={entry} />)}
+          </tbody>
+        </table>
+      )}
+
+      {data && data.total > PAGE_SIZE && (
+        <div className="flex items-center justify-end gap-2 text-sm text-muted-foreground">
+          <span>
+            {data.offset + 1}–{data.offset + data.entries.length} of {data.total}
+          </span>
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page === 0}
+            className="p-1 rounded hover:bg-accent disabled:opacity-40"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page + 1 >= pageCount}
+            className="p-1 rounded hover:bg-accent disabled:opacity-40"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
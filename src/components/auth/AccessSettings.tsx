@@ -0,0 +1,295 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { KeyRound, Loader2, Plus, Trash2, Users } from 'lucide-react'
+import {
+  createApiToken,
+  createUser,
+  deleteUser,
+  fetchApiTokens,
+  fetchUsers,
+  revokeApiToken,
+  updateUser,
+  type AuthUser,
+  type Role,
+} from '@/lib/api'
+import { useCan, useSession } from '@/lib/auth'
+import { ConfirmDialog } from '@/components/processes/ConfirmDialog'
+
+const ROLES: Role[] = ['viewer', 'operator', 'admin']
+
+const inputClass = 'bg-muted text-foreground px-3 py-1.5 rounded border border-border text-sm'
+
+function ApiTokens() {
+  const queryClient = useQueryClient()
+  const [name, setName] = useState('')
+  const [created, setCreated] = useState<string | null>(null)
+
+  const { data: tokens = [] } = useQuery({
+    queryKey: ['auth', 'tokens'],
+    queryFn: fetchApiTokens,
+    refetchInterval: false,
+  })
+
+  const create = useMutation({
+    mutationFn: () => createApiToken(name),
+    onSuccess: ({ token }) => {
+      setCreated(token)
+      setName('')
+      queryClient.invalidateQueries({ queryKey: ['auth', 'tokens'] })
+    },
+  })
+
+  const revoke = useMutation({
+    mutationFn: revokeApiToken,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['auth', 'tokens'] }),
+  })
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h4 className="font-medium text-foreground flex items-center gap-2">
+          <KeyRound className="w-4 h-4" />
+          API Tokens
+        </h4>
+        <p className="text-sm text-muted-foreground">
+          For scripts and Prometheus; send as <code>Authorization: Bearer &lt;token&gt;</code>. Tokens carry your role.
+        </p>
+      </div>
+
+      <form
+        className="flex items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault()
+          if (name.trim()) create.mutate()
+        }}
+      >
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Token name" className={inputClass} />
+        <button
+          type="submit"
+          disabled={!name.trim() || create.isPending}
+          className="flex items-center gap-1 px-3 py-1.5 bg-primary text-primary-foreground rounded text-sm disabled:opacity-50"
+        >
+          {create.isPending ? <Loader2 className="w-3 h-3 animate-spin" /> : <Plus className="w-3 h-3" />}
+          Create
+        </button>
+      </form>
+
+      {create.isError && <p className="text-xs text-red-500">{(create.error as Error).message}</p>}
+      {created && (
+        <div className="p-3 rounded bg-green-500/10 border border-green-500/20 text-sm">
+          <p className="text-green-500 mb-1">Copy this token now; it will not be shown again.</p>
+          <code className="break-all text-foreground">{created}</code>
+        </div>
+      )}
+
+      {tokens.length > 0 && (
+        <table className="w-full text-sm">
+          <thead className="text-left text-muted-foreground">
+            <tr>
+              <th className="font-normal py-1">Name</th>
+              <th className="font-normal py-1">Created</th>
+              <th className="font-normal py-1">Last used</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {tokens.map((token) => (
+              <tr key={token.id} className="border-t border-border">
+                <td className="py-1.5 text-foreground">{token.name}</td>
+                <td className="py-1.5 text-muted-foreground">{new Date(token.createdAt).toLocaleString()}</td>
+                <td className="py-1.5 text-muted-foreground">
+                  {token.lastUsedAt ? new Date(token.lastUsedAt).toLocaleString() : 'never'}
+                </td>
+                <td className="py-1.5 text-right">
+                  <button
+                    onClick={() => revoke.mutate(token.id)}
+                    title="Revoke token"
+                    className="p-1 rounded hover:bg-accent text-muted-foreground hover:text-red-500"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
+
+function UserManagement() {
+  const queryClient = useQueryClient()
+  const { data: session } = useSession()
+  const [draft, setDraft] = useState<{ username: string; password: string; role: Role }>({
+    username: '',
+    password: '',
+    role: 'viewer',
+  })
+  const [pendingDelete, setPendingDelete] = useState<AuthUser | null>(null)
+
+  const { data: users = [] } = useQuery({
+    queryKey: ['auth', 'users'],
+    queryFn: fetchUsers,
+    refetchInterval: false,
+  })
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['auth', 'users'] })
+
+  const create = useMutation({
+    mutationFn: () => createUser(draft),
+    onSuccess: () => {
+      setDraft({ username: '', password: '', role: 'viewer' })
+      invalidate()
+    },
+  })
+
+  const update = useMutation({
+    mutationFn: ({ id, changes }: { id: number; changes: { password?: string; role?: Role } }) =>
+      updateUser(id, changes),
+    onSuccess: invalidate,
+  })
+
+  const remove = useMutation({
+    mutationFn: deleteUser,
+    onSuccess: invalidate,
+  })
+
+  const error = create.error ?? update.error ?? remove.error
+
+  return (
+    <div className="space-y-3 border-t border-border pt-4">
+      <h4 className="font-medium text-foreground flex items-center gap-2">
+        <Users className="w-4 h-4" />
+        Users
+      </h4>
+
+      {error && <p className="text-xs text-red-500">{(error as Error).message}</p>}
+
+      <table className="w-full text-sm">
+        <tbody>
+          {users.map((user) => (
+            <tr key={user.id} className="border-t border-border first:border-t-0">
+              <td className="py-1.5 text-foreground">
+                {user.username}
+                {user.id === session?.user.id && <span className="text-xs text-muted-foreground ml-2">(you)</span>}
+              </td>
+              <td className="py-1.5">
+                <select
+                  value={user.role}
+                  onChange={(e) => update.mutate({ id: user.id, changes: { role: e.target.value as Role } })}
+                  className={inputClass}
+                >
+                  {ROLES.map((role) => (
+                    <option key={role} value={role}>
+                      {role}
+                    </option>
+                  ))}
+                </select>
+              </td>
+              <td className="py-1.5 text-right">
+                <button
+                  onClick={() => {
+                    const password = window.prompt(`New password for ${user.username}`)
+                    if (password) update.mutate({ id: user.id, changes: { password } })
+                  }}
+                  className="px-2 py-1 rounded text-xs text-muted-foreground hover:bg-accent hover:text-foreground"
+                >
+                  Reset password
+                </button>
+                <button
+                  onClick={() => setPendingDelete(user)}
+                  title="Delete user"
+                  className="p-1 rounded hover:bg-accent text-muted-foreground hover:text-red-500"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <form
+        className="flex flex-wrap items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault()
+          create.mutate()
+        }}
+      >
+        <input
+          value={draft.username}
+          onChange={(e) => setDraft({ ...draft, username: e.target.value })}
+          placeholder="Username"
+          className={inputClass}
+        />
+        <input
+          type="password"
+          value={draft.password}
+          onChange={(e) => setDraft({ ...draft, password: e.target.value })}
+          placeholder="Password"
+          autoComplete="new-password"
+          className={inputClass}
+        />
+        <select
+          value={draft.role}
+          onChange={(e) => setDraft({ ...draft, role: e.target.value as Role })}
+          className={inputClass}
+        >
+          {ROLES.map((role) => (
+            <option key={role} value={role}>
+              {role}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={!draft.username || !draft.password || create.isPending}
+          className="flex items-center gap-1 px-3 py-1.5 bg-primary text-primary-foreground rounded text-sm disabled:opacity-50"
+        >
+          <Plus className="w-3 h-3" />
+          Add user
+        </button>
+      </form>
+
+      {pendingDelete && (
+        <ConfirmDialog
+          title="Delete user"
+          message={
+            <>
+              Delete <span className="text-foreground font-medium">{pendingDelete.username}</span>? Their sessions
+              and API tokens stop working immediately.
+            </>
+          }
+          confirmLabel="Delete"
+          destructive
+          onConfirm={() => {
+            remove.mutate(pendingDelete.id)
+            setPendingDelete(null)
+          }}
+          onCancel={() => setPendingDelete(null)}
+        />
+      )}
+    </div>
+  )
+}
+
+export function AccessSettings() {
+  const { data: session } = useSession()
+  const isAdmin = useCan('admin')
+
+  if (session?.authDisabled) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Authentication is disabled (AUTH_DISABLED=true); every request is treated as an admin.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <ApiTokens />
+      {isAdmin && <UserManagement />}
+    </div>
+  )
+}
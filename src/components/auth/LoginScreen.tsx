@@ -0,0 +1,76 @@
+import { useState } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { Activity, Loader2, LogIn } from 'lucide-react'
+import { login } from '@/lib/api'
+import { SESSION_QUERY_KEY } from '@/lib/auth'
+
+export function LoginScreen() {
+  const queryClient = useQueryClient()
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+
+  const loginMutation = useMutation({
+    mutationFn: () => login(username, password),
+    onSuccess: () => {
+      setPassword('')
+      // Anything fetched while signed out was a 401; start clean
+      queryClient.resetQueries()
+      queryClient.invalidateQueries({ queryKey: SESSION_QUERY_KEY })
+    },
+  })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!username || !password) return
+    loginMutation.mutate()
+  }
+
+  return (
+    <div className="flex h-screen items-center justify-center bg-background">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm bg-card border border-border rounded-lg shadow-lg p-6 space-y-4"
+      >
+        <div className="flex items-center gap-2 mb-2">
+          <Activity className="w-6 h-6 text-primary" />
+          <h1 className="text-lg font-semibold text-foreground">Recovery Bot Dashboard</h1>
+        </div>
+
+        <label className="block space-y-1">
+          <span className="text-sm text-muted-foreground">Username</span>
+          <input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            autoFocus
+            className="w-full bg-muted text-foreground px-3 py-2 rounded border border-border focus:outline-none focus:border-primary"
+          />
+        </label>
+
+        <label className="block space-y-1">
+          <span className="text-sm text-muted-foreground">Password</span>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            className="w-full bg-muted text-foreground px-3 py-2 rounded border border-border focus:outline-none focus:border-primary"
+          />
+        </label>
+
+        {loginMutation.isError && (
+          <p className="text-sm text-red-500">{(loginMutation.error as Error).message}</p>
+        )}
+
+        <button
+          type="submit"
+          disabled={loginMutation.isPending || !username || !password}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg text-sm disabled:opacity-50"
+        >
+          {loginMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <LogIn className="w-4 h-4" />}
+          Sign in
+        </button>
+      </form>
+    </div>
+  )
+}
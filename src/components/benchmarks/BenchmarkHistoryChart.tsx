@@ -0,0 +1,117 @@
+import ReactECharts from 'echarts-for-react'
+import type { BenchmarkRunInfo } from '@/lib/api'
+
+interface BenchmarkHistoryChartProps {
+  // Finished runs of one suite and preset, any order
+  runs: BenchmarkRunInfo[]
+  onSelect?: (runId: string) => void
+}
+
+const percent = (value: number | null) => (value !== null ? Math.round(value * 1000) / 10 : null)
+
+// Quality figures share the left 0-100% axis, latency gets its own. A dashed
+// line marks each run whose LLM config differs from the run before it.
+export function BenchmarkHistoryChart({ runs, onSelect }: BenchmarkHistoryChartProps) {
+  const points = runs
+    .slice()
+    .sort((a, b) => Date.parse(a.startedAt) - Date.parse(b.startedAt))
+    .map((run) => ({
+      id: run.id,
+      time: Date.parse(run.startedAt),
+      p50: run.summary.latencyMs ? Math.round(run.summary.latencyMs.p50 / 100) / 10 : null,
+      p95: run.summary.latencyMs ? Math.round(run.summary.latencyMs.p95 / 100) / 10 : null,
+      keywordRecall: percent(run.summary.keywordRecall),
+      sourceRecall: percent(run.summary.sourceRecall),
+      confidence: percent(run.summary.meanConfidence),
+      failureRate: percent(run.summary.failureRate),
+      configHash: run.configHash,
+      configVersionId: run.configVersionId,
+    }))
+
+  const configChanges = points.filter(
+    (p, i) => i > 0 && p.configHash !== null && points[i - 1]!.configHash !== null && p.configHash !== points[i - 1]!.configHash
+  )
+
+  const line = (name: string, color: string, key: keyof (typeof points)[number], yAxisIndex = 0) => ({
+    name,
+    type: 'line',
+    yAxisIndex,
+    color,
+    symbolSize: 6,
+    connectNulls: true,
+    data: points.map((p) => ({ value: [p.time, p[key]], runId: p.id })),
+  })
+
+  const option = {
+    animation: false,
+    grid: { left: 40, right: 44, top: 28, bottom: 24 },
+    legend: {
+      top: 0,
+      textStyle: { color: '#9ca3af', fontSize: 11 },
+      itemWidth: 12,
+      itemHeight: 8,
+    },
+    tooltip: { trigger: 'axis' },
+    xAxis: {
+      type: 'time',
+      axisLabel: { color: '#9ca3af', fontSize: 10 },
+      splitLine: { show: false },
+    },
+    yAxis: [
+      {
+        type: 'value',
+        min: 0,
+        max: 100,
+        axisLabel: { color: '#9ca3af', fontSize: 10, formatter: '{value}%' },
+        splitLine: { lineStyle: { color: 'rgba(156,163,175,0.15)' } },
+      },
+      {
+        type: 'value',
+        min: 0,
+        axisLabel: { color: '#9ca3af', fontSize: 10, formatter: '{value}s' },
+        splitLine: { show: false },
+      },
+    ],
+    series: [
+      {
+        ...line('Keyword recall', '#22c55e', 'keywordRecall'),
+        markLine: {
+          symbol: 'none',
+          silent: true,
+          lineStyle: { color: '#a855f7', type: 'dashed' },
+          label: { color: '#a855f7', fontSize: 10, formatter: '{b}' },
+          data: configChanges.map((p) => ({
+            name: p.configVersionId !== null ? `config v${p.configVersionId}` : `config ${p.configHash!.slice(0, 7)}`,
+            xAxis: p.time,
+          })),
+        },
+      },
+      line('Source recall', '#14b8a6', 'sourceRecall'),
+      line('Confidence', '#3b82f6', 'confidence'),
+      line('Failure rate', '#ef4444', 'failureRate'),
+      line('Latency p50', '#f97316', 'p50', 1),
+      line('Latency p95', '#fbbf24', 'p95', 1),
+    ],
+  }
+
+  if (points.length === 0) {
+    return (
+      <div className="h-48 flex items-center justify-center text-xs text-muted-foreground">
+        No finished runs for this preset yet
+      </div>
+    )
+  }
+
+  return (
+    <ReactECharts
+      option={option}
+      style={{ height: 220 }}
+      notMerge
+      onEvents={{
+        click: (params: { data?: { runId?: string } }) => {
+          if (params.data?.runId) onSelect?.(params.data.runId)
+        },
+      }}
+    />
+  )
+}
@@ -0,0 +1,155 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { ChevronDown, ChevronRight, Loader2, Square } from 'lucide-react'
+import { cancelBenchmark, fetchBenchmarkRun, type BenchmarkQueryResult, type BenchmarkRunInfo } from '@/lib/api'
+import { useCan } from '@/lib/auth'
+import { cn } from '@/lib/utils'
+
+const STATUS_COLORS: Record<BenchmarkQueryResult['status'], string> = {
+  pending: 'text-muted-foreground',
+  running: 'text-blue-400',
+  completed: 'text-green-400',
+  failed: 'text-red-400',
+  cancelled: 'text-yellow-500',
+}
+
+const formatPercent = (value: number | null) => (value !== null ? `${(value * 100).toFixed(0)}%` : '—')
+const formatSeconds = (ms: number | null | undefined) => (ms != null ? `${(ms / 1000).toFixed(1)}s` : '—')
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className="text-sm font-medium text-foreground">{value}</div>
+    </div>
+  )
+}
+
+function ResultRow({ result }: { result: BenchmarkQueryResult }) {
+  const [expanded, setExpanded] = useState(false)
+  const missing = [...result.missingKeywords, ...result.missingSources]
+
+  return (
+    <>
+      <tr className="border-t border-border cursor-pointer hover:bg-muted/30" onClick={() => setExpanded((e) => !e)}>
+        <td className="py-1 pr-2">
+          <div className="flex items-center gap-1 min-w-0">
+            {expanded ? <ChevronDown className="w-3 h-3 shrink-0" /> : <ChevronRight className="w-3 h-3 shrink-0" />}
+            <span className="truncate text-foreground">{result.query}</span>
+          </div>
+        </td>
+        <td className={cn('py-1 text-right', STATUS_COLORS[result.status])}>
+          {result.status === 'running' ? <Loader2 className="w-3.5 h-3.5 animate-spin inline" /> : result.status}
+        </td>
+        <td className="py-1 text-right">{formatSeconds(result.durationMs)}</td>
+        <td className="py-1 text-right">{formatPercent(result.confidence)}</td>
+        <td className="py-1 text-right">{formatPercent(result.keywordRecall)}</td>
+        <td className="py-1 text-right">{formatPercent(result.sourceRecall)}</td>
+      </tr>
+      {expanded && (
+        <tr>
+          <td colSpan={6} className="pb-2 pl-4 text-xs space-y-1">
+            {result.error && <p className="text-red-400">{result.error}</p>}
+            {missing.length > 0 && <p className="text-yellow-500">Missing: {missing.join(', ')}</p>}
+            {result.answer ? (
+              <p className="text-muted-foreground whitespace-pre-wrap max-h-48 overflow-y-auto">{result.answer}</p>
+            ) : (
+              !result.error && <p className="text-muted-foreground italic">No answer recorded</p>
+            )}
+            {result.requestId && <p className="text-muted-foreground font-mono">request {result.requestId}</p>}
+          </td>
+        </tr>
+      )}
+    </>
+  )
+}
+
+export function BenchmarkRunDetails({ run: info }: { run: BenchmarkRunInfo }) {
+  const queryClient = useQueryClient()
+  const canRun = useCan('operator')
+
+  const { data: run } = useQuery({
+    queryKey: ['benchmark-run', info.id],
+    queryFn: () => fetchBenchmarkRun(info.id),
+    refetchInterval: (q) => ((q.state.data?.status ?? info.status) === 'running' ? 2000 : false),
+  })
+
+  const cancel = useMutation({
+    mutationFn: () => cancelBenchmark(info.id),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['benchmark-run', info.id] })
+      queryClient.invalidateQueries({ queryKey: ['benchmark-runs'] })
+    },
+  })
+
+  const summary = run?.summary ?? info.summary
+  const status = run?.status ?? info.status
+  const done = summary.completed + summary.failed
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-sm">
+          <span className="font-medium text-foreground">{info.preset}</span>
+          <span className="text-muted-foreground">
+            {' '}· {new Date(info.startedAt).toLocaleString()} · by {info.startedBy} · ×{info.concurrency}
+            {info.configVersionId !== null && ` · config v${info.configVersionId}`}
+          </span>
+        </div>
+        {status === 'running' ? (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            {done}/{summary.total}
+            {canRun && (
+              <button
+                onClick={() => cancel.mutate()}
+                disabled={cancel.isPending}
+                className="flex items-center gap-1 px-2 py-1 rounded bg-muted hover:text-red-500 disabled:opacity-50"
+              >
+                <Square className="w-3 h-3" />
+                Cancel
+              </button>
+            )}
+          </div>
+        ) : (
+          <span className={cn('text-xs', status === 'completed' ? 'text-green-400' : 'text-yellow-500')}>{status}</span>
+        )}
+      </div>
+      {(run?.error ?? info.error) && <p className="text-xs text-red-500">{run?.error ?? info.error}</p>}
+      {cancel.error && <p className="text-xs text-red-500">{cancel.error.message}</p>}
+
+      <div className="grid grid-cols-3 md:grid-cols-6 gap-3 p-3 bg-muted/30 rounded-lg">
+        <Stat label="Latency p50" value={formatSeconds(summary.latencyMs?.p50)} />
+        <Stat label="Latency p95" value={formatSeconds(summary.latencyMs?.p95)} />
+        <Stat label="Confidence" value={formatPercent(summary.meanConfidence)} />
+        <Stat label="Keyword recall" value={formatPercent(summary.keywordRecall)} />
+        <Stat label="Source recall" value={formatPercent(summary.sourceRecall)} />
+        <Stat label="Failure rate" value={`${formatPercent(summary.failureRate)} (${summary.failed}/${done})`} />
+      </div>
+
+      {run ? (
+        <table className="w-full text-sm table-fixed">
+          <thead>
+            <tr className="text-xs text-muted-foreground">
+              <th className="text-left font-normal py-1">Query</th>
+              <th className="text-right font-normal py-1 w-24">Status</th>
+              <th className="text-right font-normal py-1 w-20">Latency</th>
+              <th className="text-right font-normal py-1 w-24">Confidence</th>
+              <th className="text-right font-normal py-1 w-24">Keywords</th>
+              <th className="text-right font-normal py-1 w-24">Sources</th>
+            </tr>
+          </thead>
+          <tbody className="text-muted-foreground">
+            {run.results.map((result, i) => (
+              <ResultRow key={i} result={result} />
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <div className="flex items-center justify-center h-16">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,158 @@
+import { useState } from 'react'
+import { useMutation } from '@tanstack/react-query'
+import { Loader2, Plus, Save, X } from 'lucide-react'
+import {
+  createBenchmarkSuite,
+  updateBenchmarkSuite,
+  type BenchmarkSuite,
+  type BenchmarkSuiteInput,
+} from '@/lib/api'
+
+// Keywords and sources are edited as comma-separated text
+interface QueryRow {
+  query: string
+  keywords: string
+  sources: string
+}
+
+const splitList = (text: string) =>
+  text
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+
+function toRows(suite: BenchmarkSuite | null): QueryRow[] {
+  if (!suite) return [{ query: '', keywords: '', sources: '' }]
+  return suite.queries.map((q) => ({
+    query: q.query,
+    keywords: q.expectedKeywords.join(', '),
+    sources: q.expectedSources.join(', '),
+  }))
+}
+
+interface SuiteEditorProps {
+  // null creates a new suite
+  suite: BenchmarkSuite | null
+  onSaved: (suite: BenchmarkSuite) => void
+  onCancel: () => void
+}
+
+export function SuiteEditor({ suite, onSaved, onCancel }: SuiteEditorProps) {
+  const [name, setName] = useState(suite?.name ?? '')
+  const [description, setDescription] = useState(suite?.description ?? '')
+  const [rows, setRows] = useState<QueryRow[]>(() => toRows(suite))
+
+  const updateRow = (index: number, change: Partial<QueryRow>) =>
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...change } : row)))
+
+  // Blank rows are dropped rather than reported
+  const input = (): BenchmarkSuiteInput => ({
+    name: name.trim(),
+    description: description.trim() || null,
+    queries: rows
+      .filter((row) => row.query.trim())
+      .map((row) => ({
+        query: row.query.trim(),
+        expectedKeywords: splitList(row.keywords),
+        expectedSources: splitList(row.sources),
+      })),
+  })
+
+  const save = useMutation({
+    mutationFn: () => (suite ? updateBenchmarkSuite(suite.id, input()) : createBenchmarkSuite(input())),
+    onSuccess: onSaved,
+  })
+
+  return (
+    <form
+      className="space-y-3"
+      onSubmit={(e) => {
+        e.preventDefault()
+        save.mutate()
+      }}
+    >
+      <div className="flex gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Suite name"
+          className="w-56 bg-muted text-foreground text-sm px-2 py-1 rounded border border-border focus:outline-none focus:border-primary"
+        />
+        <input
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Description (optional)"
+          className="flex-1 bg-muted text-foreground text-sm px-2 py-1 rounded border border-border focus:outline-none focus:border-primary"
+        />
+      </div>
+
+      <div className="space-y-1.5">
+        <div className="grid grid-cols-[1fr_14rem_14rem_1.5rem] gap-2 text-xs text-muted-foreground">
+          <span>Query</span>
+          <span>Expected keywords</span>
+          <span>Expected sources</span>
+          <span />
+        </div>
+        {rows.map((row, i) => (
+          <div key={i} className="grid grid-cols-[1fr_14rem_14rem_1.5rem] gap-2 items-center">
+            <input
+              value={row.query}
+              onChange={(e) => updateRow(i, { query: e.target.value })}
+              placeholder="What should the agent answer?"
+              className="bg-muted text-foreground text-sm px-2 py-1 rounded border border-border focus:outline-none focus:border-primary"
+            />
+            <input
+              value={row.keywords}
+              onChange={(e) => updateRow(i, { keywords: e.target.value })}
+              placeholder="comma, separated"
+              className="bg-muted text-foreground text-sm px-2 py-1 rounded border border-border focus:outline-none focus:border-primary"
+            />
+            <input
+              value={row.sources}
+              onChange={(e) => updateRow(i, { sources: e.target.value })}
+              placeholder="e.g. wikipedia.org"
+              className="bg-muted text-foreground text-sm px-2 py-1 rounded border border-border focus:outline-none focus:border-primary"
+            />
+            <button
+              type="button"
+              onClick={() => setRows((prev) => prev.filter((_, j) => j !== i))}
+              disabled={rows.length === 1}
+              title="Remove query"
+              className="p-1 rounded text-muted-foreground hover:text-red-500 disabled:opacity-30"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setRows((prev) => [...prev, { query: '', keywords: '', sources: '' }])}
+          className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Add query
+        </button>
+      </div>
+
+      {save.error && <p className="text-xs text-red-500 whitespace-pre-line">{save.error.message}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1.5 text-sm rounded bg-muted text-muted-foreground hover:text-foreground"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!name.trim() || save.isPending}
+          className="px-3 py-1.5 bg-primary text-primary-foreground text-sm rounded hover:bg-primary/90 disabled:opacity-50 flex items-center gap-1.5"
+        >
+          {save.isPending ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />}
+          {suite ? 'Save suite' : 'Create suite'}
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,110 @@
+import { useEffect, useRef, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import ReactECharts from 'echarts-for-react'
+import { createSSEConnection, fetchContainerStatsHistory, type LogEntry } from '@/lib/api'
+import { cn } from '@/lib/utils'
+
+const MAX_LOG_LINES = 300
+
+const levelColors: Record<LogEntry['level'], string> = {
+  debug: 'text-muted-foreground',
+  info: 'text-foreground',
+  warn: 'text-yellow-500',
+  error: 'text-red-500',
+}
+
+function ContainerLogs({ id }: { id: string }) {
+  const [lines, setLines] = useState<(LogEntry & { stream?: string })[]>([])
+  const endRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    setLines([])
+    const eventSource = createSSEConnection(`/containers/${encodeURIComponent(id)}/logs/stream?tail=100`, (event) => {
+      const entry = JSON.parse(event.data)
+      setLines((prev) => [...prev, entry].slice(-MAX_LOG_LINES))
+    })
+    // The server ends the stream when the container stops; don't auto-reconnect
+    eventSource.addEventListener('end', () => eventSource.close())
+    return () => eventSource.close()
+  }, [id])
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest' })
+  }, [lines])
+
+  return (
+    <div className="h-48 overflow-y-auto bg-background rounded p-2 font-mono text-[11px]">
+      {lines.length === 0 && <p className="text-muted-foreground">Waiting for log output…</p>}
+      {lines.map((line, index) => (
+        <div key={index} className={cn('whitespace-pre-wrap break-all', levelColors[line.level])}>
+          <span className="text-muted-foreground">{new Date(line.timestamp).toLocaleTimeString()} </span>
+          {line.message}
+        </div>
+      ))}
+      <div ref={endRef} />
+    </div>
+  )
+}
+
+function ContainerStatsChart({ id }: { id: string }) {
+  const { data } = useQuery({
+    queryKey: ['container-stats', id],
+    queryFn: () => fetchContainerStatsHistory(id, '1h'),
+    refetchInterval: 10000,
+    retry: false,
+  })
+
+  if (!data || data.samples.length < 2) {
+    return <p className="h-32 flex items-center justify-center text-xs text-muted-foreground">Collecting samples…</p>
+  }
+
+  const option = {
+    animation: false,
+    grid: { left: 36, right: 48, top: 28, bottom: 24 },
+    legend: { top: 0, textStyle: { color: '#9ca3af', fontSize: 11 }, itemWidth: 12, itemHeight: 8 },
+    tooltip: { trigger: 'axis' },
+    xAxis: { type: 'time', axisLabel: { color: '#9ca3af', fontSize: 10 }, splitLine: { show: false } },
+    yAxis: [
+      {
+        type: 'value',
+        min: 0,
+        axisLabel: { color: '#9ca3af', fontSize: 10, formatter: '{value}%' },
+        splitLine: { lineStyle: { color: 'rgba(156,163,175,0.15)' } },
+      },
+      {
+        type: 'value',
+        min: 0,
+        axisLabel: { color: '#9ca3af', fontSize: 10, formatter: '{value} MB' },
+        splitLine: { show: false },
+      },
+    ],
+    series: [
+      {
+        name: 'CPU',
+        type: 'line',
+        showSymbol: false,
+        color: '#3b82f6',
+        data: data.samples.map((s) => [new Date(s.timestamp).getTime(), s.cpu]),
+      },
+      {
+        name: 'Memory',
+        type: 'line',
+        yAxisIndex: 1,
+        showSymbol: false,
+        color: '#22c55e',
+        data: data.samples.map((s) => [new Date(s.timestamp).getTime(), Math.round(s.memoryBytes / 1024 / 1024)]),
+      },
+    ],
+  }
+
+  return <ReactECharts option={option} style={{ height: 140 }} notMerge />
+}
+
+export function ContainerDetails({ id, running }: { id: string; running: boolean }) {
+  return (
+    <div className="mt-2 space-y-2">
+      {running && <ContainerStatsChart id={id} />}
+      <ContainerLogs id={id} />
+    </div>
+  )
+}
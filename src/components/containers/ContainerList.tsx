@@ -0,0 +1,159 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Container, Loader2, Play, Square, RotateCw, ChevronDown, ChevronRight } from 'lucide-react'
+import { fetchContainers, runContainerAction, type ContainerAction, type ContainerInfo } from '@/lib/api'
+import { useCan } from '@/lib/auth'
+import { cn, formatBytes, formatUptime } from '@/lib/utils'
+import { ConfirmDialog } from '@/components/processes/ConfirmDialog'
+import { ContainerDetails } from './ContainerDetails'
+
+const actionConfig: Record<ContainerAction, { icon: typeof Play; label: string; destructive: boolean }> = {
+  start: { icon: Play, label: 'Start', destructive: false },
+  stop: { icon: Square, label: 'Stop', destructive: true },
+  restart: { icon: RotateCw, label: 'Restart', destructive: true },
+}
+
+function stateColor(container: ContainerInfo) {
+  if (container.health === 'unhealthy' || container.state === 'dead') return 'bg-red-500'
+  if (container.health === 'starting' || container.state === 'restarting') return 'bg-yellow-500'
+  if (container.state === 'running') return 'bg-green-500'
+  return 'bg-gray-500'
+}
+
+function ContainerRow({
+  container,
+  onAction,
+}: {
+  container: ContainerInfo
+  onAction: (container: ContainerInfo, action: ContainerAction) => void
+}) {
+  const [expanded, setExpanded] = useState(false)
+  const canControl = useCan('operator')
+  const running = container.state === 'running'
+  const publicPorts = container.ports.filter((p) => p.publicPort !== null)
+
+  return (
+    <div className="p-2 rounded bg-muted/50">
+      <div className="flex items-center justify-between gap-2">
+        <button className="flex items-center gap-2 min-w-0 text-left" onClick={() => setExpanded(!expanded)}>
+          {expanded ? (
+            <ChevronDown className="w-3 h-3 text-muted-foreground shrink-0" />
+          ) : (
+            <ChevronRight className="w-3 h-3 text-muted-foreground shrink-0" />
+          )}
+          <span className={cn('w-2 h-2 rounded-full shrink-0', stateColor(container))} title={container.status} />
+          <span className="text-sm text-foreground truncate" title={container.image}>
+            {container.name}
+          </span>
+          {publicPorts.length > 0 && (
+            <span className="text-xs text-blue-500 shrink-0">
+              :{publicPorts.map((p) => p.publicPort).join(', :')}
+            </span>
+          )}
+          {container.restartCount > 0 && (
+            <span className="text-xs text-yellow-500 shrink-0" title="Restart count">
+              ↻{container.restartCount}
+            </span>
+          )}
+        </button>
+        <div className="flex items-center gap-3 text-xs text-muted-foreground shrink-0">
+          {running && container.stats && (
+            <>
+              <span>CPU: {container.stats.cpu.toFixed(1)}%</span>
+              <span>MEM: {formatBytes(container.stats.memoryBytes, 0)}</span>
+            </>
+          )}
+          <span>{container.uptimeSeconds !== null ? formatUptime(container.uptimeSeconds) : container.state}</span>
+          <div className="flex items-center gap-0.5">
+            {(Object.keys(actionConfig) as ContainerAction[]).map((action) => {
+              const { icon: Icon, label } = actionConfig[action]
+              const disabled = !canControl || (action === 'start' ? running : !running)
+              return (
+                <button
+                  key={action}
+                  onClick={() => onAction(container, action)}
+                  disabled={disabled}
+                  title={`${label} ${container.name}`}
+                  className="p-1 rounded hover:bg-accent hover:text-foreground transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                >
+                  <Icon className="w-3.5 h-3.5" />
+                </button>
+              )
+            })}
+          </div>
+        </div>
+      </div>
+      {expanded && <ContainerDetails id={container.id} running={running} />}
+    </div>
+  )
+}
+
+export function ContainerList() {
+  const queryClient = useQueryClient()
+  const [pending, setPending] = useState<{ container: ContainerInfo; action: ContainerAction } | null>(null)
+
+  const { data = [], isLoading, error } = useQuery({
+    queryKey: ['containers'],
+    queryFn: fetchContainers,
+    refetchInterval: 10000,
+  })
+
+  const run = useMutation({
+    mutationFn: ({ id, action }: { id: string; action: ContainerAction }) => runContainerAction(id, action),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['containers'] })
+      queryClient.invalidateQueries({ queryKey: ['processes'] })
+    },
+  })
+
+  const running = data.filter((c) => c.state === 'running').length
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-6">
+      <h3 className="font-semibold text-foreground mb-4 flex items-center gap-2">
+        <Container className="w-5 h-5" />
+        Containers
+        {data.length > 0 && (
+          <span className="text-xs text-muted-foreground font-normal">
+            ({running}/{data.length} running)
+          </span>
+        )}
+      </h3>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-24">
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : error ? (
+        <p className="text-center text-muted-foreground">Docker is not reachable</p>
+      ) : (
+        <>
+          {run.error && <p className="text-xs text-red-500 mb-2">{run.error.message}</p>}
+          <div className="space-y-2 overflow-y-auto max-h-96 pr-2">
+            {data.map((container) => (
+              <ContainerRow
+                key={container.id}
+                container={container}
+                onAction={(c, action) => setPending({ container: c, action })}
+              />
+            ))}
+          </div>
+        </>
+      )}
+
+      {pending && (
+        <ConfirmDialog
+          title={`${actionConfig[pending.action].label} ${pending.container.name}?`}
+          message={`${actionConfig[pending.action].label} the ${pending.container.image} container.`}
+          confirmLabel={actionConfig[pending.action].label}
+          destructive={actionConfig[pending.action].destructive}
+          onConfirm={() => {
+            run.mutate({ id: pending.container.id, action: pending.action })
+            setPending(null)
+          }}
+          onCancel={() => setPending(null)}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,83 @@
+import ReactECharts from 'echarts-for-react'
+import type { GPUHistory } from '@/lib/api'
+
+interface GPUHistoryChartProps {
+  series: GPUHistory['gpus'][number]
+}
+
+// VRAM % and utilization share the left 0-100 axis; temperature gets its own
+export function GPUHistoryChart({ series }: GPUHistoryChartProps) {
+  const points = series.samples.map((s) => ({
+    time: new Date(s.timestamp).getTime(),
+    vram: s.vramTotal > 0 ? Math.round((s.vramUsed / s.vramTotal) * 1000) / 10 : 0,
+    utilization: s.utilization,
+    temperature: s.temperature,
+  }))
+
+  const option = {
+    animation: false,
+    grid: { left: 36, right: 36, top: 28, bottom: 24 },
+    legend: {
+      top: 0,
+      textStyle: { color: '#9ca3af', fontSize: 11 },
+      itemWidth: 12,
+      itemHeight: 8,
+    },
+    tooltip: { trigger: 'axis' },
+    xAxis: {
+      type: 'time',
+      axisLabel: { color: '#9ca3af', fontSize: 10 },
+      splitLine: { show: false },
+    },
+    yAxis: [
+      {
+        type: 'value',
+        min: 0,
+        max: 100,
+        axisLabel: { color: '#9ca3af', fontSize: 10, formatter: '{value}%' },
+        splitLine: { lineStyle: { color: 'rgba(156,163,175,0.15)' } },
+      },
+      {
+        type: 'value',
+        min: 0,
+        max: 100,
+        axisLabel: { color: '#9ca3af', fontSize: 10, formatter: '{value}°' },
+        splitLine: { show: false },
+      },
+    ],
+    series: [
+      {
+        name: 'VRAM',
+        type: 'line',
+        showSymbol: false,
+        color: '#22c55e',
+        data: points.map((p) => [p.time, p.vram]),
+      },
+      {
+        name: 'Utilization',
+        type: 'line',
+        showSymbol: false,
+        color: '#3b82f6',
+        data: points.map((p) => [p.time, p.utilization]),
+      },
+      {
+        name: 'Temp',
+        type: 'line',
+        yAxisIndex: 1,
+        showSymbol: false,
+        color: '#f97316',
+        data: points.map((p) => [p.time, p.temperature]),
+      },
+    ],
+  }
+
+  if (points.length < 2) {
+    return (
+      <div className="h-40 flex items-center justify-center text-xs text-muted-foreground">
+        Collecting samples…
+      </div>
+    )
+  }
+
+  return <ReactECharts option={option} style={{ height: 160 }} notMerge />
+}
@@ -1,17 +1,97 @@
 import { useQuery } from '@tanstack/react-query'
-import { fetchGPUStatus } from '@/lib/api'
+import { fetchGPUHistory, fetchGPUProcesses, fetchGPUStatus, type GPUDevice } from '@/lib/api'
 import { useDashboardStore } from '@/stores/dashboardStore'
-import { useEffect } from 'react'
+import { useEffect, useState } from 'react'
 import { Cpu, Thermometer, Zap, HardDrive, Loader2 } from 'lucide-react'
 import { formatBytes } from '@/lib/utils'
+import { GPUHistoryChart } from './GPUHistoryChart'
+
+const HISTORY_RANGES = ['15m', '30m', '1h']
+
+function GPUDeviceStats({ device }: { device: GPUDevice }) {
+  const vramPercent = device.vramTotal > 0 ? (device.vramUsed / device.vramTotal) * 100 : 0
+
+  return (
+    <>
+      {/* VRAM */}
+      <div>
+        <div className="flex items-center justify-between text-sm mb-1">
+          <span className="text-muted-foreground flex items-center gap-1">
+            <HardDrive className="w-4 h-4" />
+            VRAM
+          </span>
+          <span className="text-foreground">
+            {formatBytes(device.vramUsed * 1024 * 1024 * 1024)} /{' '}
+            {formatBytes(device.vramTotal * 1024 * 1024 * 1024)}
+          </span>
+        </div>
+        <div className="h-2 bg-muted rounded-full overflow-hidden">
+          <div
+            className={`h-full transition-all ${
+              vramPercent > 90
+                ? 'bg-red-500'
+                : vramPercent > 75
+                ? 'bg-yellow-500'
+                : 'bg-green-500'
+            }`}
+            style={{ width: `${vramPercent}%` }}
+          />
+        </div>
+      </div>
+
+      {/* Utilization */}
+      <div>
+        <div className="flex items-center justify-between text-sm mb-1">
+          <span className="text-muted-foreground flex items-center gap-1">
+            <Cpu className="w-4 h-4" />
+            Utilization
+          </span>
+          <span className="text-foreground">{device.utilization}%</span>
+        </div>
+        <div className="h-2 bg-muted rounded-full overflow-hidden">
+          <div
+            className="h-full bg-blue-500 transition-all"
+            style={{ width: `${device.utilization}%` }}
+          />
+        </div>
+      </div>
+
+      {/* Temperature & Power */}
+      <div className="grid grid-cols-2 gap-4 pt-2">
+        <div className="flex items-center gap-2">
+          <Thermometer className="w-4 h-4 text-orange-500" />
+          <span className="text-sm text-foreground">{device.temperature}°C</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Zap className="w-4 h-4 text-yellow-500" />
+          <span className="text-sm text-foreground">{device.powerDraw}W</span>
+        </div>
+      </div>
+    </>
+  )
+}
 
 export function GPUMonitor() {
-  const { gpuStatus, setGPUStatus } = useDashboardStore()
+  const { gpuStatus, setGPUStatus, liveConnected } = useDashboardStore()
 
   const { data, isLoading, error } = useQuery({
     queryKey: ['gpu'],
     queryFn: fetchGPUStatus,
-    refetchInterval: 3000,
+    refetchInterval: liveConnected ? false : 3000, // pushed over the live channel
+  })
+
+  const [range, setRange] = useState('15m')
+  const { data: history } = useQuery({
+    queryKey: ['gpu-history', range],
+    queryFn: () => fetchGPUHistory(range),
+    refetchInterval: 10000,
+  })
+
+  const { data: consumers } = useQuery({
+    queryKey: ['gpu-processes'],
+    queryFn: fetchGPUProcesses,
+    refetchInterval: 5000,
+    retry: false,
   })
 
   useEffect(() => {
@@ -20,7 +100,7 @@ export function GPUMonitor() {
     }
   }, [data, setGPUStatus])
 
-  const displayData = data || gpuStatus
+  const displayData = liveConnected ? gpuStatus ?? data : data || gpuStatus
 
   if (isLoading && !displayData) {
     return (
@@ -52,77 +132,83 @@ export function GPUMonitor() {
 
   if (!displayData) return null
 
-  const vramPercent = (displayData.vramUsed / displayData.vramTotal) * 100
+  // Older memOS-only responses have no device list
+  const devices: GPUDevice[] = displayData.gpus?.length
+    ? displayData.gpus
+    : [{ ...displayData, index: 0, uuid: null }]
 
   return (
     <div className="bg-card border border-border rounded-lg p-6">
-      <h3 className="font-semibold text-foreground mb-4 flex items-center gap-2">
-        <Cpu className="w-5 h-5" />
-        {displayData.name}
-      </h3>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-foreground flex items-center gap-2">
+          <Cpu className="w-5 h-5" />
+          {devices.length > 1 ? `${devices.length} GPUs` : displayData.name}
+        </h3>
+        <select
+          value={range}
+          onChange={(e) => setRange(e.target.value)}
+          className="px-2 py-1 bg-muted border border-border rounded text-xs"
+        >
+          {HISTORY_RANGES.map((r) => (
+            <option key={r} value={r}>
+              Last {r}
+            </option>
+          ))}
+        </select>
+      </div>
 
       <div className="space-y-4">
-        {/* VRAM */}
-        <div>
-          <div className="flex items-center justify-between text-sm mb-1">
-            <span className="text-muted-foreground flex items-center gap-1">
-              <HardDrive className="w-4 h-4" />
-              VRAM
-            </span>
-            <span className="text-foreground">
-              {formatBytes(displayData.vramUsed * 1024 * 1024 * 1024)} /{' '}
-              {formatBytes(displayData.vramTotal * 1024 * 1024 * 1024)}
-            </span>
-          </div>
-          <div className="h-2 bg-muted rounded-full overflow-hidden">
-            <div
-              className={`h-full transition-all ${
-                vramPercent > 90
-                  ? 'bg-red-500'
-                  : vramPercent > 75
-                  ? 'bg-yellow-500'
-                  : 'bg-green-500'
-              }`}
-              style={{ width: `${vramPercent}%` }}
-            />
+        {devices.map((device) => (
+          <div key={device.uuid ?? device.index} className="space-y-4">
+            {devices.length > 1 && (
+              <p className="text-sm font-medium text-foreground">
+                GPU {device.index}: {device.name}
+              </p>
+            )}
+            <GPUDeviceStats device={device} />
+            {history?.gpus
+              .filter((h) => h.index === device.index)
+              .map((h) => <GPUHistoryChart key={h.index} series={h} />)}
           </div>
-        </div>
+        ))}
 
-        {/* Utilization */}
-        <div>
-          <div className="flex items-center justify-between text-sm mb-1">
-            <span className="text-muted-foreground flex items-center gap-1">
-              <Cpu className="w-4 h-4" />
-              Utilization
-            </span>
-            <span className="text-foreground">{displayData.utilization}%</span>
-          </div>
-          <div className="h-2 bg-muted rounded-full overflow-hidden">
-            <div
-              className="h-full bg-blue-500 transition-all"
-              style={{ width: `${displayData.utilization}%` }}
-            />
-          </div>
-        </div>
-
-        {/* Temperature & Power */}
-        <div className="grid grid-cols-2 gap-4 pt-2">
-          <div className="flex items-center gap-2">
-            <Thermometer className="w-4 h-4 text-orange-500" />
-            <span className="text-sm text-foreground">
-              {displayData.temperature}°C
-            </span>
-          </div>
-          <div className="flex items-center gap-2">
-            <Zap className="w-4 h-4 text-yellow-500" />
-            <span className="text-sm text-foreground">
-              {displayData.powerDraw}W
-            </span>
+        {/* VRAM consumers */}
+        {consumers && consumers.processes.length > 0 && (
+          <div className="pt-2 border-t border-border">
+            <p className="text-xs text-muted-foreground mb-2">GPU Processes:</p>
+            <div className="space-y-1">
+              {consumers.processes.map((proc) => (
+                <div key={`${proc.pid}-${proc.gpuIndex}`} className="text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-foreground truncate" title={proc.processName}>
+                      {proc.name}
+                      <span className="text-muted-foreground text-xs ml-2">PID {proc.pid}</span>
+                      {devices.length > 1 && proc.gpuIndex !== null && (
+                        <span className="text-muted-foreground text-xs ml-2">GPU {proc.gpuIndex}</span>
+                      )}
+                    </span>
+                    <span className="text-foreground font-mono text-xs shrink-0">
+                      {formatBytes(proc.vramUsed * 1024 * 1024 * 1024)}
+                    </span>
+                  </div>
+                  {proc.models.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {proc.models.map((model) => (
+                        <span key={model} className="px-2 py-0.5 bg-muted text-xs rounded text-foreground">
+                          {model}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
           </div>
-        </div>
+        )}
 
-        {/* Loaded Models */}
-        {displayData.loadedModels.length > 0 && (
+        {/* Loaded Models (when they couldn't be attributed to a process) */}
+        {displayData.loadedModels.length > 0 &&
+          !consumers?.processes.some((proc) => proc.models.length > 0) && (
           <div className="pt-2 border-t border-border">
             <p className="text-xs text-muted-foreground mb-2">Loaded Models:</p>
             <div className="flex flex-wrap gap-1">
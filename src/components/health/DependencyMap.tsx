@@ -0,0 +1,145 @@
+import { useMemo } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { Background, Controls, MarkerType, ReactFlow, type Edge, type Node } from '@xyflow/react'
+import '@xyflow/react/dist/style.css'
+import { AlertTriangle, Loader2, Network } from 'lucide-react'
+import { fetchHealthTopology, type EffectiveHealthStatus, type HealthTopology } from '@/lib/api'
+
+const COLUMN_WIDTH = 200
+const ROW_HEIGHT = 64
+
+const statusColors: Record<EffectiveHealthStatus, { border: string; background: string }> = {
+  healthy: { border: '#22c55e', background: 'rgba(34,197,94,0.12)' },
+  degraded: { border: '#eab308', background: 'rgba(234,179,8,0.12)' },
+  unhealthy: { border: '#ef4444', background: 'rgba(239,68,68,0.15)' },
+  unknown: { border: '#6b7280', background: 'rgba(107,114,128,0.12)' },
+}
+
+// Columns by dependency depth: services with no dependencies on the left,
+// each dependent one column right of its deepest dependency
+function layout(topology: HealthTopology): { nodes: Node[]; edges: Edge[] } {
+  const byId = new Map(topology.nodes.map((n) => [n.id, n]))
+  const depth = new Map<string, number>()
+  const depthOf = (id: string): number => {
+    const known = depth.get(id)
+    if (known !== undefined) return known
+    depth.set(id, 0) // guards against cycles; the server rejects them anyway
+    const deps = byId.get(id)?.dependsOn.filter((d) => byId.has(d)) ?? []
+    const value = deps.length > 0 ? Math.max(...deps.map(depthOf)) + 1 : 0
+    depth.set(id, value)
+    return value
+  }
+
+  const rows = new Map<number, number>()
+  const nodes: Node[] = topology.nodes.map((node) => {
+    const column = depthOf(node.id)
+    const row = rows.get(column) ?? 0
+    rows.set(column, row + 1)
+    const colors = statusColors[node.effectiveStatus]
+
+    return {
+      id: node.id,
+      position: { x: column * COLUMN_WIDTH, y: row * ROW_HEIGHT },
+      data: {
+        label: <span title={node.message}>{node.rootCause ? `⚠ ${node.name}` : node.name}</span>,
+      },
+      connectable: false,
+      style: {
+        width: 150,
+        fontSize: 12,
+        color: '#e5e7eb',
+        background: colors.background,
+        border: `1px solid ${colors.border}`,
+        boxShadow: node.rootCause ? '0 0 0 3px rgba(239,68,68,0.6)' : undefined,
+      },
+    }
+  })
+
+  const edges: Edge[] = topology.edges
+    .filter((e) => byId.has(e.from) && byId.has(e.to))
+    .map((e) => {
+      const upstream = byId.get(e.to)!
+      const failing = upstream.status === 'unhealthy'
+      return {
+        id: `${e.to}->${e.from}`,
+        source: e.to,
+        target: e.from,
+        animated: failing,
+        markerEnd: { type: MarkerType.ArrowClosed },
+        style: { stroke: failing ? '#ef4444' : '#4b5563' },
+      }
+    })
+
+  return { nodes, edges }
+}
+
+export function DependencyMap() {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['health-topology'],
+    queryFn: fetchHealthTopology,
+    refetchInterval: 10000,
+  })
+
+  const graph = useMemo(() => (data ? layout(data) : null), [data])
+
+  const nameOf = (id: string) => data?.nodes.find((n) => n.id === id)?.name ?? id
+  const affected = (rootId: string) =>
+    data?.nodes.filter((n) => n.impactedBy.includes(rootId)).map((n) => n.name) ?? []
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-6">
+      <h3 className="font-semibold text-foreground mb-4 flex items-center gap-2">
+        <Network className="w-5 h-5" />
+        Dependency Map
+      </h3>
+
+      {isLoading && (
+        <div className="flex items-center justify-center h-48">
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {error && !data && (
+        <p className="text-sm text-muted-foreground">Unable to fetch service topology</p>
+      )}
+
+      {data && graph && (
+        <>
+          {data.rootCauses.length > 0 && (
+            <div className="mb-4 space-y-1">
+              {data.rootCauses.map((id) => {
+                const impacted = affected(id)
+                return (
+                  <p key={id} className="flex items-center gap-2 text-sm text-red-500">
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    <span>
+                      Probable root cause: <span className="font-medium">{nameOf(id)}</span>
+                      {impacted.length > 0 && (
+                        <span className="text-muted-foreground"> (affects {impacted.join(', ')})</span>
+                      )}
+                    </span>
+                  </p>
+                )
+              })}
+            </div>
+          )}
+
+          <div className="h-[420px] rounded border border-border">
+            <ReactFlow
+              nodes={graph.nodes}
+              edges={graph.edges}
+              colorMode="dark"
+              fitView
+              nodesConnectable={false}
+              nodesDraggable={false}
+              proOptions={{ hideAttribution: true }}
+            >
+              <Background />
+              <Controls showInteractive={false} />
+            </ReactFlow>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,12 +1,74 @@
+import { useState } from 'react'
 import { cn } from '@/lib/utils'
-import type { ServiceHealth } from '@/lib/api'
-import { CheckCircle, XCircle, HelpCircle, Clock } from 'lucide-react'
+import type { HealthComponent, ServiceHealth, ServiceHistorySummary, TopologyNode } from '@/lib/api'
+import { CheckCircle, XCircle, HelpCircle, Clock, AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react'
+import { UptimeSparkline } from './UptimeSparkline'
 
 interface ServiceHealthCardProps {
   service: ServiceHealth
+  history?: ServiceHistorySummary
+  topology?: TopologyNode
 }
 
-export function ServiceHealthCard({ service }: ServiceHealthCardProps) {
+function uptimeColor(uptime: number) {
+  if (uptime >= 99.9) return 'text-green-500'
+  if (uptime >= 99) return 'text-yellow-500'
+  return 'text-red-500'
+}
+
+function UptimeBadge({ label, uptime }: { label: string; uptime: number | null }) {
+  return (
+    <span className="px-1.5 py-0.5 rounded bg-muted/60 text-[10px]">
+      <span className="text-muted-foreground">{label} </span>
+      {uptime === null ? (
+        <span className="text-muted-foreground">—</span>
+      ) : (
+        <span className={uptimeColor(uptime)}>{uptime.toFixed(uptime === 100 ? 0 : 2)}%</span>
+      )}
+    </span>
+  )
+}
+
+const componentDot: Record<HealthComponent['status'], string> = {
+  healthy: 'bg-green-500',
+  degraded: 'bg-yellow-500',
+  unhealthy: 'bg-red-500',
+  unknown: 'bg-gray-500',
+}
+
+// Sub-components the service reports about itself, collapsed unless some are failing
+function ComponentList({ components }: { components: HealthComponent[] }) {
+  const failing = components.filter((c) => c.status === 'unhealthy' || c.status === 'degraded')
+  const [expanded, setExpanded] = useState(failing.length > 0)
+
+  return (
+    <div className="mt-3">
+      <button
+        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+        onClick={() => setExpanded(!expanded)}
+      >
+        {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        {components.length} component{components.length === 1 ? '' : 's'}
+        {failing.length > 0 && <span className="text-yellow-500">({failing.length} not healthy)</span>}
+      </button>
+      {expanded && (
+        <ul className="mt-1 ml-4 space-y-0.5">
+          {components.map((component) => (
+            <li key={component.name} className="flex items-center gap-2 text-xs" title={component.message}>
+              <span className={cn('w-1.5 h-1.5 rounded-full shrink-0', componentDot[component.status])} />
+              <span className="text-foreground truncate">{component.name}</span>
+              {component.latency !== undefined && (
+                <span className="ml-auto text-muted-foreground shrink-0">{component.latency}ms</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export function ServiceHealthCard({ service, history, topology }: ServiceHealthCardProps) {
   const statusConfig = {
     healthy: {
       icon: <CheckCircle className="w-5 h-5" />,
@@ -20,6 +82,12 @@ export function ServiceHealthCard({ service }: ServiceHealthCardProps) {
       bg: 'bg-red-500/10',
       border: 'border-red-500/20',
     },
+    degraded: {
+      icon: <AlertTriangle className="w-5 h-5" />,
+      color: 'text-yellow-500',
+      bg: 'bg-yellow-500/10',
+      border: 'border-yellow-500/20',
+    },
     unknown: {
       icon: <HelpCircle className="w-5 h-5" />,
       color: 'text-muted-foreground',
@@ -28,7 +96,9 @@ export function ServiceHealthCard({ service }: ServiceHealthCardProps) {
     },
   }
 
-  const config = statusConfig[service.status]
+  // A healthy probe can still be degraded by a failing upstream
+  const impacted = topology && topology.impactedBy.length > 0
+  const config = statusConfig[impacted && service.status !== 'unhealthy' ? 'degraded' : service.status]
 
   return (
     <div
@@ -53,10 +123,28 @@ export function ServiceHealthCard({ service }: ServiceHealthCardProps) {
         </div>
       )}
 
-      {service.message && (
-        <p className="mt-2 text-xs text-muted-foreground truncate" title={service.message}>
-          {service.message}
+      {impacted ? (
+        <p className="mt-2 text-xs text-yellow-500 truncate" title={topology.message}>
+          {topology.message}
         </p>
+      ) : (
+        service.message && (
+          <p className="mt-2 text-xs text-muted-foreground truncate" title={service.message}>
+            {service.message}
+          </p>
+        )
+      )}
+
+      {service.children && service.children.length > 0 && <ComponentList components={service.children} />}
+
+      {history && (
+        <div className="mt-3 space-y-2">
+          <UptimeSparkline buckets={history.sparkline} />
+          <div className="flex items-center gap-1">
+            <UptimeBadge label="24h" uptime={history.uptime24h} />
+            <UptimeBadge label="7d" uptime={history.uptime7d} />
+          </div>
+        </div>
       )}
     </div>
   )
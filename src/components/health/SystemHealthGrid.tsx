@@ -1,17 +1,31 @@
 import { useQuery } from '@tanstack/react-query'
-import { fetchHealthAggregate } from '@/lib/api'
+import { fetchHealthAggregate, fetchHealthHistorySummary, fetchHealthTopology } from '@/lib/api'
 import { useDashboardStore } from '@/stores/dashboardStore'
 import { ServiceHealthCard } from './ServiceHealthCard'
 import { useEffect } from 'react'
 import { Loader2 } from 'lucide-react'
 
 export function SystemHealthGrid() {
-  const { services, setServices } = useDashboardStore()
+  const { services, setServices, liveConnected } = useDashboardStore()
 
   const { data, isLoading, error } = useQuery({
     queryKey: ['health'],
     queryFn: fetchHealthAggregate,
-    refetchInterval: 5000,
+    refetchInterval: liveConnected ? false : 5000, // pushed over the live channel
+  })
+
+  // History changes slowly (sampled server-side), no need to poll it as often
+  const { data: history } = useQuery({
+    queryKey: ['health-history', '24h'],
+    queryFn: () => fetchHealthHistorySummary('24h'),
+    refetchInterval: 60000,
+  })
+
+  // Shared with DependencyMap; tells a card when its failure is inherited
+  const { data: topology } = useQuery({
+    queryKey: ['health-topology'],
+    queryFn: fetchHealthTopology,
+    refetchInterval: 10000,
   })
 
   useEffect(() => {
@@ -37,12 +51,17 @@ export function SystemHealthGrid() {
     )
   }
 
-  const displayServices = data || services
+  const displayServices = liveConnected ? services : data || services
 
   return (
     <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
       {displayServices.map((service) => (
-        <ServiceHealthCard key={service.name} service={service} />
+        <ServiceHealthCard
+          key={service.name}
+          service={service}
+          history={history?.find((h) => h.name === service.name)}
+          topology={topology?.nodes.find((n) => n.name === service.name)}
+        />
       ))}
     </div>
   )
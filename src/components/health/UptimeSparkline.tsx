@@ -0,0 +1,29 @@
+import { cn } from '@/lib/utils'
+
+interface UptimeSparklineProps {
+  buckets: (number | null)[]
+  className?: string
+}
+
+function bucketColor(uptime: number | null) {
+  if (uptime === null) return 'bg-muted'
+  if (uptime >= 99.9) return 'bg-green-500/70'
+  if (uptime >= 90) return 'bg-yellow-500/70'
+  return 'bg-red-500/70'
+}
+
+// One bar per bucket, oldest on the left; bar height follows uptime
+export function UptimeSparkline({ buckets, className }: UptimeSparklineProps) {
+  return (
+    <div className={cn('flex items-end gap-px h-6', className)}>
+      {buckets.map((uptime, index) => (
+        <div
+          key={index}
+          className={cn('flex-1 rounded-sm', bucketColor(uptime))}
+          style={{ height: uptime === null ? '20%' : `${Math.max(uptime, 20)}%` }}
+          title={uptime === null ? 'No data' : `${uptime}% uptime`}
+        />
+      ))}
+    </div>
+  )
+}
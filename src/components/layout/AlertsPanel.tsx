@@ -0,0 +1,146 @@
+import { useEffect, useRef, useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Bell, BellOff, AlertTriangle, AlertOctagon, Info, Clock } from 'lucide-react'
+import { fetchAlerts, createAlertSilence, deleteAlertSilence, type Alert } from '@/lib/api'
+import { useCan } from '@/lib/auth'
+import { cn } from '@/lib/utils'
+
+const severityConfig = {
+  critical: { icon: AlertOctagon, color: 'text-red-500' },
+  warning: { icon: AlertTriangle, color: 'text-yellow-500' },
+  info: { icon: Info, color: 'text-blue-500' },
+}
+
+function since(timestamp: string) {
+  const minutes = Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000)
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${minutes}m ago`
+  const hours = Math.floor(minutes / 60)
+  return hours < 24 ? `${hours}h ago` : `${Math.floor(hours / 24)}d ago`
+}
+
+function AlertRow({ alert }: { alert: Alert }) {
+  const queryClient = useQueryClient()
+  const canSilence = useCan('operator')
+  const config = severityConfig[alert.severity]
+  const Icon = config.icon
+
+  const silence = useMutation({
+    mutationFn: async () => {
+      if (alert.silenceId) {
+        await deleteAlertSilence(alert.silenceId)
+      } else {
+        await createAlertSilence({
+          ruleId: alert.ruleId,
+          labels: alert.labels,
+          duration: '1h',
+          comment: 'Silenced from dashboard header',
+        })
+      }
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['alerts'] }),
+  })
+
+  return (
+    <div className={cn('p-3 border-b border-border last:border-0', alert.silenced && 'opacity-60')}>
+      <div className="flex items-start gap-2">
+        <Icon className={cn('w-4 h-4 mt-0.5 shrink-0', config.color)} />
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium text-foreground truncate">{alert.ruleName}</span>
+            <span
+              className={cn(
+                'px-1.5 py-0.5 rounded text-[10px] uppercase',
+                alert.state === 'firing' ? 'bg-red-500/20 text-red-400' : 'bg-yellow-500/20 text-yellow-400'
+              )}
+            >
+              {alert.state}
+            </span>
+          </div>
+          <p className="text-xs text-muted-foreground mt-0.5 break-words">{alert.summary}</p>
+          <div className="flex items-center justify-between mt-1">
+            <span className="text-[10px] text-muted-foreground flex items-center gap-1">
+              <Clock className="w-3 h-3" />
+              {since(alert.firedAt ?? alert.activeSince)}
+            </span>
+            {canSilence && (
+              <button
+                onClick={() => silence.mutate()}
+                disabled={silence.isPending}
+                className="text-[10px] text-muted-foreground hover:text-foreground flex items-center gap-1"
+              >
+                <BellOff className="w-3 h-3" />
+                {alert.silenced ? 'Unsilence' : 'Silence 1h'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export function AlertsPanel() {
+  const [open, setOpen] = useState(false)
+  const panelRef = useRef<HTMLDivElement>(null)
+
+  const { data } = useQuery({
+    queryKey: ['alerts'],
+    queryFn: fetchAlerts,
+    refetchInterval: 10000,
+  })
+
+  // Close when clicking outside the dropdown
+  useEffect(() => {
+    if (!open) return
+    const handleClick = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) {
+        setOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [open])
+
+  const firing = data?.counts.firing ?? 0
+  const pending = data?.counts.pending ?? 0
+  const alerts = data?.alerts ?? []
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <button
+        className="relative p-2 rounded-lg hover:bg-accent transition-colors"
+        onClick={() => setOpen(!open)}
+        title={`${firing} firing, ${pending} pending alerts`}
+      >
+        <Bell className={cn('w-4 h-4', firing > 0 ? 'text-red-500' : 'text-muted-foreground')} />
+        {firing + pending > 0 && (
+          <span
+            className={cn(
+              'absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full text-[10px] leading-4 text-white text-center',
+              firing > 0 ? 'bg-red-500' : 'bg-yellow-500'
+            )}
+          >
+            {firing > 0 ? firing : pending}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-96 max-h-[28rem] overflow-y-auto bg-card border border-border rounded-lg shadow-lg z-50">
+          <div className="px-3 py-2 border-b border-border flex items-center justify-between">
+            <span className="text-sm font-semibold text-foreground">Alerts</span>
+            <span className="text-xs text-muted-foreground">
+              {firing} firing · {pending} pending · {data?.counts.silenced ?? 0} silenced
+            </span>
+          </div>
+          {alerts.length === 0 ? (
+            <p className="p-4 text-sm text-center text-muted-foreground">No active alerts</p>
+          ) : (
+            alerts.map((alert) => <AlertRow key={alert.id} alert={alert} />)
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
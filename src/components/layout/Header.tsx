@@ -1,6 +1,10 @@
 import { useDashboardStore } from '@/stores/dashboardStore'
-import { RefreshCw, Wifi, WifiOff } from 'lucide-react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { LogOut, RefreshCw, User, Wifi, WifiOff } from 'lucide-react'
+import { logout } from '@/lib/api'
+import { SESSION_QUERY_KEY, useSession } from '@/lib/auth'
 import type { TabType } from '@/App'
+import { AlertsPanel } from './AlertsPanel'
 
 interface HeaderProps {
   activeTab: TabType
@@ -9,6 +13,7 @@ interface HeaderProps {
 const tabTitles: Record<TabType, string> = {
   overview: 'System Overview',
   agent: 'Agent Console',
+  benchmarks: 'Pipeline Benchmarks',
   'code-intel': 'Code Intelligence',
   logs: 'Log Viewer',
   docs: 'Documentation Browser',
@@ -16,7 +21,15 @@ const tabTitles: Record<TabType, string> = {
 }
 
 export function Header({ activeTab }: HeaderProps) {
-  const { sseConnected, services } = useDashboardStore()
+  const { sseConnected, liveConnected, services } = useDashboardStore()
+
+  const { data: session } = useSession()
+  const queryClient = useQueryClient()
+
+  const logoutMutation = useMutation({
+    mutationFn: logout,
+    onSuccess: () => queryClient.setQueryData(SESSION_QUERY_KEY, null),
+  })
 
   const healthyCount = services.filter((s) => s.status === 'healthy').length
   const totalCount = services.length
@@ -40,9 +53,12 @@ export function Header({ activeTab }: HeaderProps) {
           </span>
         </div>
 
-        {/* SSE connection status */}
+        {/* Active alerts */}
+        <AlertsPanel />
+
+        {/* Live channel / log stream status */}
         <div className="flex items-center gap-2">
-          {sseConnected ? (
+          {liveConnected || sseConnected ? (
             <>
               <Wifi className="w-4 h-4 text-green-500" />
               <span className="text-xs text-green-500">Live</span>
@@ -63,6 +79,27 @@ export function Header({ activeTab }: HeaderProps) {
         >
           <RefreshCw className="w-4 h-4 text-muted-foreground" />
         </button>
+
+        {/* Signed-in user */}
+        {session && (
+          <div className="flex items-center gap-2 border-l border-border pl-4 text-sm">
+            <User className="w-4 h-4 text-muted-foreground" />
+            <span className="text-foreground">{session.user.username}</span>
+            <span className="text-xs px-1.5 py-0.5 rounded bg-muted text-muted-foreground">
+              {session.user.role}
+            </span>
+            {!session.authDisabled && (
+              <button
+                className="p-2 rounded-lg hover:bg-accent transition-colors"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                title="Sign out"
+              >
+                <LogOut className="w-4 h-4 text-muted-foreground" />
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </header>
   )
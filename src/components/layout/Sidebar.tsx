@@ -8,6 +8,7 @@ import {
   Cpu,
   Bot,
   Braces,
+  Gauge,
 } from 'lucide-react'
 import { DASHBOARD_FRONTEND_PORT } from '@config/ports'
 
@@ -19,6 +20,7 @@ interface SidebarProps {
 const navItems: { id: TabType; label: string; icon: React.ReactNode }[] = [
   { id: 'overview', label: 'Overview', icon: <LayoutDashboard className="w-5 h-5" /> },
   { id: 'agent', label: 'Agent Console', icon: <Bot className="w-5 h-5" /> },
+  { id: 'benchmarks', label: 'Benchmarks', icon: <Gauge className="w-5 h-5" /> },
   { id: 'code-intel', label: 'Code Intelligence', icon: <Braces className="w-5 h-5" /> },
   { id: 'logs', label: 'Logs', icon: <ScrollText className="w-5 h-5" /> },
   { id: 'docs', label: 'Documentation', icon: <FileText className="w-5 h-5" /> },
@@ -0,0 +1,299 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Boxes, Download, HardDrive, Loader2, Power, PowerOff, Trash2, X } from 'lucide-react'
+import {
+  cancelModelPull,
+  createSSEConnection,
+  deleteModel,
+  fetchModelDiskUsage,
+  fetchModelPulls,
+  loadModel,
+  startModelPull,
+  unloadModel,
+  type CatalogModel,
+  type ModelPull,
+} from '@/lib/api'
+import { useCan } from '@/lib/auth'
+import { MODEL_CATALOG_QUERY_KEY, useModelCatalog, useVramTotal, vramFit } from '@/lib/models'
+import { cn, formatBytes } from '@/lib/utils'
+import { ConfirmDialog } from '@/components/processes/ConfirmDialog'
+
+// Follows one running pull over SSE; the list of pulls is only polled slowly
+function PullProgress({ pull: initial, onFinished }: { pull: ModelPull; onFinished: () => void }) {
+  const canControl = useCan('operator')
+  const [pull, setPull] = useState(initial)
+
+  useEffect(() => {
+    const eventSource = createSSEConnection(`/models/pulls/${initial.id}/stream`, (event) => {
+      try {
+        const update = JSON.parse(event.data) as ModelPull
+        setPull(update)
+        if (update.status !== 'running') {
+          eventSource.close()
+          onFinished()
+        }
+      } catch {
+        // Ignore malformed messages
+      }
+    })
+    return () => eventSource.close()
+  }, [initial.id, onFinished])
+
+  const cancel = useMutation({ mutationFn: () => cancelModelPull(pull.id) })
+
+  return (
+    <div className="p-2 rounded bg-muted/50 space-y-1">
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <span className="text-foreground truncate">{pull.model}</span>
+        <div className="flex items-center gap-2 text-xs text-muted-foreground shrink-0">
+          <span>{pull.percent !== null ? `${pull.percent.toFixed(1)}%` : pull.phase}</span>
+          {canControl && pull.status === 'running' && (
+            <button
+              onClick={() => cancel.mutate()}
+              disabled={cancel.isPending}
+              title={`Cancel pulling ${pull.model}`}
+              className="p-0.5 rounded hover:bg-accent hover:text-foreground disabled:opacity-40"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="h-1.5 bg-muted rounded overflow-hidden">
+        <div className="h-full bg-primary transition-all" style={{ width: `${pull.percent ?? 0}%` }} />
+      </div>
+      <p className="text-xs text-muted-foreground truncate">
+        {pull.phase}
+        {pull.totalBytes > 0 && ` · ${formatBytes(pull.completedBytes)} / ${formatBytes(pull.totalBytes)}`}
+      </p>
+    </div>
+  )
+}
+
+function ModelRow({
+  model,
+  busy,
+  onLoad,
+  onUnload,
+  onDelete,
+}: {
+  model: CatalogModel
+  busy: boolean
+  onLoad: () => void
+  onUnload: () => void
+  onDelete: () => void
+}) {
+  const canControl = useCan('operator')
+  const fit = vramFit(model, useVramTotal())
+
+  return (
+    <div className="flex items-center justify-between gap-2 p-2 rounded bg-muted/50">
+      <div className="min-w-0">
+        <div className="flex items-center gap-2">
+          <span className={cn('w-2 h-2 rounded-full shrink-0', model.loaded ? 'bg-green-500' : 'bg-gray-500')} />
+          <span className="text-sm text-foreground truncate">{model.name}</span>
+        </div>
+        <p className="text-xs text-muted-foreground ml-4">
+          {[
+            model.parameterSize,
+            model.quantization,
+            model.sizeGB !== null && `${model.sizeGB.toFixed(1)} GB`,
+            model.loaded && model.vramGB !== null && `${model.vramGB.toFixed(1)} GB VRAM`,
+          ]
+            .filter(Boolean)
+            .join(' · ')}
+          {fit?.level === 'exceeds' && <span className="text-red-500"> · larger than VRAM</span>}
+        </p>
+      </div>
+      <div className="flex items-center gap-0.5 text-muted-foreground shrink-0">
+        {busy && <Loader2 className="w-3.5 h-3.5 animate-spin mr-1" />}
+        {model.loaded ? (
+          <button
+            onClick={onUnload}
+            disabled={!canControl || busy}
+            title={`Unload ${model.name}`}
+            className="p-1 rounded hover:bg-accent hover:text-foreground transition-colors disabled:opacity-40 disabled:pointer-events-none"
+          >
+            <PowerOff className="w-3.5 h-3.5" />
+          </button>
+        ) : (
+          <button
+            onClick={onLoad}
+            disabled={!canControl || busy}
+            title={`Load ${model.name}`}
+            className="p-1 rounded hover:bg-accent hover:text-foreground transition-colors disabled:opacity-40 disabled:pointer-events-none"
+          >
+            <Power className="w-3.5 h-3.5" />
+          </button>
+        )}
+        <button
+          onClick={onDelete}
+          disabled={!canControl || busy}
+          title={`Delete ${model.name}`}
+          className="p-1 rounded hover:bg-accent hover:text-red-500 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export function ModelManager() {
+  const queryClient = useQueryClient()
+  const canControl = useCan('operator')
+  const [name, setName] = useState('')
+  const [pendingDelete, setPendingDelete] = useState<CatalogModel | null>(null)
+
+  const { data: catalog, isLoading } = useModelCatalog()
+  const ollama = catalog?.backends.find((b) => b.backend === 'ollama')
+  const models = catalog?.models.filter((m) => m.backend === 'ollama') ?? []
+
+  const { data: disk } = useQuery({
+    queryKey: ['models-disk'],
+    queryFn: fetchModelDiskUsage,
+    refetchInterval: 60000,
+    retry: false,
+  })
+
+  const { data: pulls = [] } = useQuery({
+    queryKey: ['model-pulls'],
+    queryFn: fetchModelPulls,
+    refetchInterval: 10000,
+  })
+  const running = pulls.filter((p) => p.status === 'running')
+  // Only the latest pull's failure; older ones have been seen or retried
+  const lastFailed = pulls[0]?.status === 'failed' ? pulls[0] : null
+
+  const refresh = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: MODEL_CATALOG_QUERY_KEY })
+    queryClient.invalidateQueries({ queryKey: ['models-disk'] })
+    queryClient.invalidateQueries({ queryKey: ['model-pulls'] })
+    queryClient.invalidateQueries({ queryKey: ['gpu-processes'] })
+  }, [queryClient])
+
+  const pull = useMutation({
+    mutationFn: startModelPull,
+    onSuccess: () => {
+      setName('')
+      queryClient.invalidateQueries({ queryKey: ['model-pulls'] })
+    },
+  })
+
+  const action = useMutation({
+    mutationFn: async ({ model, kind }: { model: string; kind: 'load' | 'unload' | 'delete' }) => {
+      if (kind === 'load') await loadModel(model)
+      else if (kind === 'unload') await unloadModel(model)
+      else await deleteModel(model)
+    },
+    onSettled: refresh,
+  })
+  const busyModel = action.isPending ? action.variables?.model : null
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-6">
+      <h3 className="font-semibold text-foreground mb-4 flex items-center gap-2">
+        <Boxes className="w-5 h-5" />
+        Ollama Models
+        {models.length > 0 && (
+          <span className="text-xs text-muted-foreground font-normal">
+            ({models.filter((m) => m.loaded).length}/{models.length} loaded)
+          </span>
+        )}
+      </h3>
+
+      {/* Disk usage */}
+      {disk && (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground mb-3">
+          <HardDrive className="w-3.5 h-3.5" />
+          <span>{disk.totalGB.toFixed(1)} GB in {disk.models} models</span>
+          {disk.filesystem && (
+            <span>
+              · {disk.filesystem.freeGB.toFixed(0)} of {disk.filesystem.totalGB.toFixed(0)} GB free
+            </span>
+          )}
+        </div>
+      )}
+
+      {/* Pull */}
+      {canControl && (
+        <form
+          className="flex gap-2 mb-3"
+          onSubmit={(e) => {
+            e.preventDefault()
+            if (name.trim()) pull.mutate(name.trim())
+          }}
+        >
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Model to pull, e.g. qwen3:8b"
+            className="flex-1 bg-muted text-foreground text-sm px-2 py-1 rounded border border-border focus:outline-none focus:border-primary"
+          />
+          <button
+            type="submit"
+            disabled={!name.trim() || pull.isPending}
+            className="px-3 py-1 bg-primary text-primary-foreground text-sm rounded hover:bg-primary/90 disabled:opacity-50 flex items-center gap-1.5"
+          >
+            {pull.isPending ? <Loader2 className="w-3 h-3 animate-spin" /> : <Download className="w-3 h-3" />}
+            Pull
+          </button>
+        </form>
+      )}
+      {pull.error && <p className="text-xs text-red-500 mb-2">{pull.error.message}</p>}
+      {action.error && <p className="text-xs text-red-500 mb-2">{action.error.message}</p>}
+      {lastFailed && (
+        <p className="text-xs text-red-500 mb-2">
+          Pull of {lastFailed.model} failed: {lastFailed.error}
+        </p>
+      )}
+
+      {running.length > 0 && (
+        <div className="space-y-2 mb-3">
+          {running.map((p) => (
+            <PullProgress key={p.id} pull={p} onFinished={refresh} />
+          ))}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-24">
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : ollama && !ollama.available ? (
+        <p className="text-center text-muted-foreground">Ollama is not reachable</p>
+      ) : models.length === 0 ? (
+        <p className="text-center text-sm text-muted-foreground">No models installed</p>
+      ) : (
+        <div className="space-y-2 overflow-y-auto max-h-96 pr-2">
+          {models.map((model) => (
+            <ModelRow
+              key={model.name}
+              model={model}
+              busy={busyModel === model.name}
+              onLoad={() => action.mutate({ model: model.name, kind: 'load' })}
+              onUnload={() => action.mutate({ model: model.name, kind: 'unload' })}
+              onDelete={() => setPendingDelete(model)}
+            />
+          ))}
+        </div>
+      )}
+
+      {pendingDelete && (
+        <ConfirmDialog
+          title={`Delete ${pendingDelete.name}?`}
+          message={`Removes the model from disk${
+            pendingDelete.sizeGB !== null ? `, freeing ${pendingDelete.sizeGB.toFixed(1)} GB` : ''
+          }. Stages configured to use it will fail until it is pulled again.`}
+          confirmLabel="Delete"
+          destructive
+          onConfirm={() => {
+            action.mutate({ model: pendingDelete.name, kind: 'delete' })
+            setPendingDelete(null)
+          }}
+          onCancel={() => setPendingDelete(null)}
+        />
+      )}
+    </div>
+  )
+}
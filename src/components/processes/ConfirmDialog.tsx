@@ -0,0 +1,56 @@
+import { useEffect } from 'react'
+import { AlertTriangle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+interface ConfirmDialogProps {
+  title: string
+  message: React.ReactNode
+  confirmLabel: string
+  destructive?: boolean
+  onConfirm: () => void
+  onCancel: () => void
+}
+
+export function ConfirmDialog({ title, message, confirmLabel, destructive, onConfirm, onCancel }: ConfirmDialogProps) {
+  // Escape cancels, like clicking the backdrop
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel()
+    }
+    document.addEventListener('keydown', handleKey)
+    return () => document.removeEventListener('keydown', handleKey)
+  }, [onCancel])
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onCancel}>
+      <div
+        className="w-full max-w-sm bg-card border border-border rounded-lg shadow-lg p-5"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h4 className="font-semibold text-foreground flex items-center gap-2 mb-2">
+          <AlertTriangle className={cn('w-4 h-4', destructive ? 'text-red-500' : 'text-yellow-500')} />
+          {title}
+        </h4>
+        <div className="text-sm text-muted-foreground mb-4">{message}</div>
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-3 py-1.5 text-sm rounded bg-muted hover:bg-accent text-foreground transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            autoFocus
+            className={cn(
+              'px-3 py-1.5 text-sm rounded text-white transition-colors',
+              destructive ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+            )}
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
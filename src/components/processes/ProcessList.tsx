@@ -1,17 +1,96 @@
 import { useQuery } from '@tanstack/react-query'
 import { fetchProcesses } from '@/lib/api'
 import { useDashboardStore } from '@/stores/dashboardStore'
-import { useEffect } from 'react'
-import { Activity, Container, Loader2 } from 'lucide-react'
-import { formatUptime } from '@/lib/utils'
+import { useEffect, useState } from 'react'
+import { Activity, Container, Loader2, ChevronDown, ChevronRight } from 'lucide-react'
+import { formatBytes, formatUptime } from '@/lib/utils'
+import type { ProcessInfo, ProcessNode } from '@/lib/api'
+import { ServiceControls } from './ServiceControls'
+
+function ProcessTreeNode({ node, depth }: { node: ProcessNode; depth: number }) {
+  return (
+    <>
+      <div
+        className="flex items-center justify-between gap-2 py-0.5 text-xs text-muted-foreground"
+        style={{ paddingLeft: depth * 12 }}
+        title={node.command}
+      >
+        <span className="truncate">
+          <span className="text-foreground">{node.name}</span> {node.pid}
+          {node.ports.length > 0 && <span className="ml-2 text-blue-500">:{node.ports.join(', :')}</span>}
+        </span>
+        <span className="flex items-center gap-3 shrink-0 font-mono">
+          <span>{node.cpu.toFixed(1)}%</span>
+          <span>{formatBytes(node.rssBytes, 0)}</span>
+          <span>{node.threads}t</span>
+        </span>
+      </div>
+      {node.children.map((child) => (
+        <ProcessTreeNode key={child.pid} node={child} depth={depth + 1} />
+      ))}
+    </>
+  )
+}
+
+function ProcessRow({ process }: { process: ProcessInfo }) {
+  const [expanded, setExpanded] = useState(false)
+  const hasTree = process.tree.length > 0
+
+  return (
+    <div className="p-2 rounded bg-muted/50">
+      <div className="flex items-center justify-between">
+        <button
+          className="flex items-center gap-2 text-left"
+          onClick={() => setExpanded(!expanded)}
+          disabled={!hasTree}
+          title={process.command ?? undefined}
+        >
+          {hasTree &&
+            (expanded ? (
+              <ChevronDown className="w-3 h-3 text-muted-foreground" />
+            ) : (
+              <ChevronRight className="w-3 h-3 text-muted-foreground" />
+            ))}
+          {process.type === 'docker' ? (
+            <Container className="w-4 h-4 text-blue-500" />
+          ) : (
+            <Activity className="w-4 h-4 text-green-500" />
+          )}
+          <span className="text-sm text-foreground">{process.name}</span>
+          <span className="text-xs text-muted-foreground">
+            PID: {process.pid}
+            {process.processCount > 1 && ` +${process.processCount - 1}`}
+          </span>
+          {process.ports.length > 0 && (
+            <span className="text-xs text-blue-500">:{process.ports.join(', :')}</span>
+          )}
+        </button>
+        <div className="flex items-center gap-4 text-xs text-muted-foreground">
+          <span>CPU: {process.cpu.toFixed(1)}%</span>
+          <span>
+            MEM: {process.rssBytes !== null ? formatBytes(process.rssBytes, 1) : `${process.memory.toFixed(1)}%`}
+          </span>
+          <span>{process.uptimeSeconds !== null ? formatUptime(process.uptimeSeconds) : process.uptime}</span>
+        </div>
+      </div>
+      {expanded && (
+        <div className="mt-2 pl-5 border-l border-border ml-1">
+          {process.tree.map((node) => (
+            <ProcessTreeNode key={node.pid} node={node} depth={0} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
 
 export function ProcessList() {
-  const { processes, setProcesses } = useDashboardStore()
+  const { processes, setProcesses, liveConnected } = useDashboardStore()
 
   const { data, isLoading, error } = useQuery({
     queryKey: ['processes'],
     queryFn: fetchProcesses,
-    refetchInterval: 10000,
+    refetchInterval: liveConnected ? false : 10000, // pushed over the live channel
   })
 
   useEffect(() => {
@@ -20,7 +99,7 @@ export function ProcessList() {
     }
   }, [data, setProcesses])
 
-  const displayData = data || processes
+  const displayData = liveConnected ? processes : data || processes
 
   if (isLoading && displayData.length === 0) {
     return (
@@ -62,29 +141,11 @@ export function ProcessList() {
 
       <div className="space-y-2 overflow-y-auto max-h-64 pr-2">
         {displayData.map((process) => (
-          <div
-            key={process.pid}
-            className="flex items-center justify-between p-2 rounded bg-muted/50"
-          >
-            <div className="flex items-center gap-2">
-              {process.type === 'docker' ? (
-                <Container className="w-4 h-4 text-blue-500" />
-              ) : (
-                <Activity className="w-4 h-4 text-green-500" />
-              )}
-              <span className="text-sm text-foreground">{process.name}</span>
-              <span className="text-xs text-muted-foreground">
-                PID: {process.pid}
-              </span>
-            </div>
-            <div className="flex items-center gap-4 text-xs text-muted-foreground">
-              <span>CPU: {process.cpu.toFixed(1)}%</span>
-              <span>MEM: {process.memory.toFixed(1)}%</span>
-              <span>{process.uptime}</span>
-            </div>
-          </div>
+          <ProcessRow key={`${process.type}-${process.pid}`} process={process} />
         ))}
       </div>
+
+      <ServiceControls />
     </div>
   )
 }
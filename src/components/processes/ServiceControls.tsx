@@ -0,0 +1,160 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Play, Square, RotateCw, Loader2, CheckCircle, XCircle, ChevronDown, ChevronRight } from 'lucide-react'
+import {
+  fetchProcessOperations,
+  fetchProcessServices,
+  runProcessAction,
+  type EcosystemService,
+  type ProcessOperation,
+  type ServiceAction,
+} from '@/lib/api'
+import { useCan } from '@/lib/auth'
+import { cn } from '@/lib/utils'
+import { ConfirmDialog } from './ConfirmDialog'
+
+const actionConfig: Record<ServiceAction, { icon: typeof Play; label: string; destructive: boolean }> = {
+  start: { icon: Play, label: 'Start', destructive: false },
+  stop: { icon: Square, label: 'Stop', destructive: true },
+  restart: { icon: RotateCw, label: 'Restart', destructive: true },
+}
+
+function OperationStatus({ operation }: { operation: ProcessOperation }) {
+  const [expanded, setExpanded] = useState(false)
+  const output = [operation.stdout, operation.stderr, operation.error].filter(Boolean).join('\n').trim()
+
+  return (
+    <div className="mt-1 text-xs">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-1 text-muted-foreground hover:text-foreground"
+      >
+        {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        {operation.status === 'running' ? (
+          <Loader2 className="w-3 h-3 animate-spin text-blue-500" />
+        ) : operation.status === 'succeeded' ? (
+          <CheckCircle className="w-3 h-3 text-green-500" />
+        ) : (
+          <XCircle className="w-3 h-3 text-red-500" />
+        )}
+        {operation.dryRun && '[dry-run] '}
+        {operation.action} {operation.status}
+        {operation.exitCode !== null && operation.exitCode !== 0 && ` (exit ${operation.exitCode})`}
+      </button>
+      {expanded && (
+        <pre className="mt-1 p-2 max-h-40 overflow-auto bg-background rounded font-mono text-[11px] whitespace-pre-wrap text-foreground">
+          {output || 'No output'}
+        </pre>
+      )}
+    </div>
+  )
+}
+
+export function ServiceControls() {
+  const queryClient = useQueryClient()
+  const canControl = useCan('operator')
+  const [dryRun, setDryRun] = useState(false)
+  const [pending, setPending] = useState<{ service: EcosystemService; action: ServiceAction } | null>(null)
+
+  const { data: registry } = useQuery({
+    queryKey: ['process-services'],
+    queryFn: fetchProcessServices,
+    staleTime: Infinity,
+  })
+
+  const { data: operations = [] } = useQuery({
+    queryKey: ['process-operations'],
+    queryFn: fetchProcessOperations,
+    // Poll quickly only while something is in flight
+    refetchInterval: (query) => (query.state.data?.some((op) => op.status === 'running') ? 2000 : 15000),
+  })
+
+  const run = useMutation({
+    mutationFn: ({ service, action }: { service: string; action: ServiceAction }) =>
+      runProcessAction(service, action, dryRun),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['process-operations'] })
+      queryClient.invalidateQueries({ queryKey: ['processes'] })
+    },
+  })
+
+  if (!registry) return null
+
+  const effectiveDryRun = dryRun || registry.dryRunForced
+
+  return (
+    <div className="mt-4 pt-4 border-t border-border">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-medium text-foreground">Service Control</p>
+        <label className="flex items-center gap-1 text-xs text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={effectiveDryRun}
+            disabled={registry.dryRunForced}
+            onChange={(e) => setDryRun(e.target.checked)}
+          />
+          Dry run
+        </label>
+      </div>
+
+      {run.error && <p className="text-xs text-red-500 mb-2">{run.error.message}</p>}
+
+      <div className="space-y-1 overflow-y-auto max-h-64 pr-2">
+        {registry.services.map((service) => {
+          const latest = operations.find((op) => op.service === service.id)
+          const busy = latest?.status === 'running'
+          return (
+            <div key={service.id} className="p-2 rounded bg-muted/50">
+              <div className="flex items-center justify-between">
+                <div className="text-sm text-foreground">
+                  {service.label}
+                  {service.port && <span className="text-xs text-muted-foreground ml-2">:{service.port}</span>}
+                </div>
+                <div className="flex items-center gap-1" title={service.controllable ? undefined : service.note}>
+                  {(Object.keys(actionConfig) as ServiceAction[]).map((action) => {
+                    const { icon: Icon, label } = actionConfig[action]
+                    return (
+                      <button
+                        key={action}
+                        onClick={() => setPending({ service, action })}
+                        disabled={!canControl || !service.controllable || busy}
+                        title={canControl ? `${label} ${service.label}` : 'Requires the operator role'}
+                        className={cn(
+                          'p-1 rounded hover:bg-accent transition-colors text-muted-foreground hover:text-foreground',
+                          'disabled:opacity-40 disabled:pointer-events-none'
+                        )}
+                      >
+                        <Icon className="w-3.5 h-3.5" />
+                      </button>
+                    )
+                  })}
+                </div>
+              </div>
+              {latest && <OperationStatus operation={latest} />}
+            </div>
+          )
+        })}
+      </div>
+
+      {pending && (
+        <ConfirmDialog
+          title={`${actionConfig[pending.action].label} ${pending.service.label}?`}
+          message={
+            <>
+              Runs <code className="font-mono text-xs">ecosystem.sh {pending.action} {pending.service.id}</code>
+              {effectiveDryRun ? ' as a dry run (nothing is executed).' : ' on the host.'}
+              {pending.service.note && <p className="mt-2">{pending.service.note}</p>}
+            </>
+          }
+          confirmLabel={actionConfig[pending.action].label}
+          destructive={actionConfig[pending.action].destructive && !effectiveDryRun}
+          onConfirm={() => {
+            run.mutate({ service: pending.service.id, action: pending.action })
+            setPending(null)
+          }}
+          onCancel={() => setPending(null)}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,317 @@
+import { useEffect, useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Gauge, Loader2, Pencil, Play, Plus, Trash2 } from 'lucide-react'
+import {
+  deleteBenchmarkRun,
+  deleteBenchmarkSuite,
+  fetchBenchmarkRuns,
+  fetchBenchmarkSuites,
+  startBenchmark,
+  type BenchmarkSuite,
+} from '@/lib/api'
+import { useCan } from '@/lib/auth'
+import { cn } from '@/lib/utils'
+import { useAgentConfigStore } from '@/stores/agentConfigStore'
+import { SuiteEditor } from '@/components/benchmarks/SuiteEditor'
+import { BenchmarkHistoryChart } from '@/components/benchmarks/BenchmarkHistoryChart'
+import { BenchmarkRunDetails } from '@/components/benchmarks/BenchmarkRunDetails'
+import { ConfirmDialog } from '@/components/processes/ConfirmDialog'
+
+const FALLBACK_PRESETS = ['speed', 'quality', 'balanced', 'low_vram']
+const MAX_CONCURRENCY = 8
+
+const formatPercent = (value: number | null) => (value !== null ? `${(value * 100).toFixed(0)}%` : '—')
+
+export function BenchmarksTab() {
+  const queryClient = useQueryClient()
+  const canRun = useCan('operator')
+  const { presets: configPresets, loadPresets } = useAgentConfigStore()
+  const presets = configPresets.length > 0 ? configPresets : FALLBACK_PRESETS
+
+  const [suiteId, setSuiteId] = useState<string | null>(null)
+  // null: not editing; 'new' or the suite being edited
+  const [editing, setEditing] = useState<BenchmarkSuite | 'new' | null>(null)
+  const [pendingDelete, setPendingDelete] = useState<BenchmarkSuite | null>(null)
+  const [preset, setPreset] = useState('balanced')
+  const [concurrency, setConcurrency] = useState(2)
+  const [runId, setRunId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (configPresets.length === 0) loadPresets()
+  }, [configPresets.length, loadPresets])
+
+  const { data: suites = [], isLoading } = useQuery({
+    queryKey: ['benchmark-suites'],
+    queryFn: fetchBenchmarkSuites,
+    refetchInterval: false,
+  })
+  const suite = suites.find((s) => s.id === suiteId) ?? suites[0] ?? null
+
+  const { data: runs = [] } = useQuery({
+    queryKey: ['benchmark-runs', suite?.id],
+    queryFn: () => fetchBenchmarkRuns(suite!.id),
+    enabled: suite !== null,
+    refetchInterval: (q) => (q.state.data?.some((r) => r.status === 'running') ? 3000 : 30000),
+  })
+  const presetRuns = runs.filter((r) => r.preset === preset && r.status !== 'running')
+  const selectedRun = runs.find((r) => r.id === runId) ?? null
+  const anyRunning = runs.some((r) => r.status === 'running')
+
+  const start = useMutation({
+    mutationFn: () => startBenchmark({ suiteId: suite!.id, preset, concurrency }),
+    onSuccess: (run) => {
+      setRunId(run.id)
+      queryClient.invalidateQueries({ queryKey: ['benchmark-runs'] })
+    },
+  })
+
+  const removeSuite = useMutation({
+    mutationFn: deleteBenchmarkSuite,
+    onSuccess: () => {
+      setSuiteId(null)
+      queryClient.invalidateQueries({ queryKey: ['benchmark-suites'] })
+    },
+  })
+
+  const removeRun = useMutation({
+    mutationFn: deleteBenchmarkRun,
+    onSuccess: (_, id) => {
+      if (id === runId) setRunId(null)
+      queryClient.invalidateQueries({ queryKey: ['benchmark-runs'] })
+    },
+  })
+
+  return (
+    <div className="flex gap-4 h-full min-h-0">
+      {/* Suites */}
+      <div className="w-64 shrink-0 bg-card border border-border rounded-lg overflow-hidden flex flex-col">
+        <div className="p-3 border-b border-border bg-muted/50 flex items-center justify-between">
+          <h3 className="font-semibold text-foreground text-sm flex items-center gap-2">
+            <Gauge className="w-4 h-4" />
+            Suites
+          </h3>
+          {canRun && (
+            <button
+              onClick={() => setEditing('new')}
+              className="p-1 hover:bg-accent rounded transition-colors"
+              title="New suite"
+            >
+              <Plus className="w-4 h-4 text-muted-foreground" />
+            </button>
+          )}
+        </div>
+        <div className="flex-1 overflow-y-auto p-2 space-y-1">
+          {isLoading ? (
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground mx-auto mt-4" />
+          ) : suites.length === 0 ? (
+            <p className="text-xs text-muted-foreground p-2 text-center">No benchmark suites yet</p>
+          ) : (
+            suites.map((s) => (
+              <div
+                key={s.id}
+                onClick={() => {
+                  setSuiteId(s.id)
+                  setRunId(null)
+                  setEditing(null)
+                }}
+                className={cn(
+                  'p-2 rounded cursor-pointer transition-colors',
+                  suite?.id === s.id ? 'bg-primary/20 border border-primary/50' : 'hover:bg-muted/50'
+                )}
+              >
+                <p className="text-sm text-foreground truncate">{s.name}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {s.queries.length} queries{s.description && ` · ${s.description}`}
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 min-w-0 overflow-y-auto space-y-4">
+        {editing ? (
+          <div className="bg-card border border-border rounded-lg p-4">
+            <h3 className="font-semibold text-foreground mb-3">
+              {editing === 'new' ? 'New benchmark suite' : `Edit ${editing.name}`}
+            </h3>
+            <SuiteEditor
+              suite={editing === 'new' ? null : editing}
+              onSaved={(saved) => {
+                setEditing(null)
+                setSuiteId(saved.id)
+                queryClient.invalidateQueries({ queryKey: ['benchmark-suites'] })
+              }}
+              onCancel={() => setEditing(null)}
+            />
+          </div>
+        ) : !suite ? (
+          <div className="bg-card border border-border rounded-lg p-8 text-center text-sm text-muted-foreground">
+            Create a suite of queries to benchmark the agent pipeline against
+          </div>
+        ) : (
+          <>
+            {/* Suite header and run controls */}
+            <div className="bg-card border border-border rounded-lg p-4 space-y-3">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <h3 className="font-semibold text-foreground">{suite.name}</h3>
+                  <p className="text-xs text-muted-foreground">
+                    {suite.queries.length} queries
+                    {' · '}
+                    {suite.queries.filter((q) => q.expectedKeywords.length > 0 || q.expectedSources.length > 0).length} with
+                    expectations
+                    {suite.description && ` · ${suite.description}`}
+                  </p>
+                </div>
+                {canRun && (
+                  <div className="flex items-center gap-0.5 text-muted-foreground shrink-0">
+                    <button
+                      onClick={() => setEditing(suite)}
+                      title="Edit suite"
+                      className="p-1 rounded hover:bg-accent hover:text-foreground"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setPendingDelete(suite)}
+                      title="Delete suite"
+                      className="p-1 rounded hover:bg-accent hover:text-red-500"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <label className="flex items-center gap-2 text-muted-foreground">
+                  Preset
+                  <select
+                    value={preset}
+                    onChange={(e) => setPreset(e.target.value)}
+                    className="bg-muted text-foreground px-2 py-1 rounded border border-border"
+                  >
+                    {(presets.includes(preset) ? presets : [preset, ...presets]).map((name) => (
+                      <option key={name} value={name}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2 text-muted-foreground">
+                  Concurrency
+                  <input
+                    type="number"
+                    min={1}
+                    max={MAX_CONCURRENCY}
+                    value={concurrency}
+                    onChange={(e) => setConcurrency(Math.min(MAX_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)))}
+                    className="w-16 bg-muted text-foreground px-2 py-1 rounded border border-border"
+                  />
+                </label>
+                {canRun && (
+                  <button
+                    onClick={() => start.mutate()}
+                    disabled={start.isPending || anyRunning}
+                    className="px-3 py-1 bg-primary text-primary-foreground rounded hover:bg-primary/90 disabled:opacity-50 flex items-center gap-1.5"
+                  >
+                    {start.isPending ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Play className="w-3.5 h-3.5" />}
+                    Run benchmark
+                  </button>
+                )}
+              </div>
+              {start.error && <p className="text-xs text-red-500">{start.error.message}</p>}
+              {removeSuite.error && <p className="text-xs text-red-500">{removeSuite.error.message}</p>}
+            </div>
+
+            {/* History */}
+            <div className="bg-card border border-border rounded-lg p-4">
+              <h4 className="text-sm font-medium text-foreground mb-2">History on {preset}</h4>
+              <BenchmarkHistoryChart runs={presetRuns} onSelect={setRunId} />
+            </div>
+
+            {/* Runs */}
+            <div className="bg-card border border-border rounded-lg p-4">
+              <h4 className="text-sm font-medium text-foreground mb-2">Runs</h4>
+              {runs.length === 0 ? (
+                <p className="text-xs text-muted-foreground">This suite hasn't been run yet</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-muted-foreground">
+                      <th className="text-left font-normal py-1">Started</th>
+                      <th className="text-left font-normal py-1">Preset</th>
+                      <th className="text-right font-normal py-1">Status</th>
+                      <th className="text-right font-normal py-1">p50</th>
+                      <th className="text-right font-normal py-1">Confidence</th>
+                      <th className="text-right font-normal py-1">Keywords</th>
+                      <th className="text-right font-normal py-1">Failures</th>
+                      <th className="w-6" />
+                    </tr>
+                  </thead>
+                  <tbody className="text-muted-foreground">
+                    {runs.map((run) => (
+                      <tr
+                        key={run.id}
+                        onClick={() => setRunId(run.id)}
+                        className={cn(
+                          'group border-t border-border cursor-pointer',
+                          run.id === runId ? 'bg-primary/10' : 'hover:bg-muted/30'
+                        )}
+                      >
+                        <td className="py-1 text-foreground">{new Date(run.startedAt).toLocaleString()}</td>
+                        <td className="py-1">{run.preset}</td>
+                        <td className="py-1 text-right">{run.status}</td>
+                        <td className="py-1 text-right">
+                          {run.summary.latencyMs ? `${(run.summary.latencyMs.p50 / 1000).toFixed(1)}s` : '—'}
+                        </td>
+                        <td className="py-1 text-right">{formatPercent(run.summary.meanConfidence)}</td>
+                        <td className="py-1 text-right">{formatPercent(run.summary.keywordRecall)}</td>
+                        <td className="py-1 text-right">{formatPercent(run.summary.failureRate)}</td>
+                        <td className="py-1 text-right">
+                          {canRun && run.status !== 'running' && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                removeRun.mutate(run.id)
+                              }}
+                              title="Delete run"
+                              className="p-0.5 rounded opacity-0 group-hover:opacity-100 hover:text-red-500"
+                            >
+                              <Trash2 className="w-3.5 h-3.5" />
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            {selectedRun && (
+              <div className="bg-card border border-border rounded-lg p-4">
+                <BenchmarkRunDetails key={selectedRun.id} run={selectedRun} />
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {pendingDelete && (
+        <ConfirmDialog
+          title={`Delete ${pendingDelete.name}?`}
+          message="Removes the suite and its queries. Past runs stay in the history."
+          confirmLabel="Delete"
+          destructive
+          onConfirm={() => {
+            removeSuite.mutate(pendingDelete.id)
+            setPendingDelete(null)
+          }}
+          onCancel={() => setPendingDelete(null)}
+        />
+      )}
+    </div>
+  )
+}
@@ -1,21 +1,54 @@
 import { useEffect, useRef, useState } from 'react'
+import { keepPreviousData, useQuery } from '@tanstack/react-query'
+import { useDebounce } from 'use-debounce'
 import { useDashboardStore } from '@/stores/dashboardStore'
-import { createSSEConnection } from '@/lib/api'
-import { Terminal, Filter, Trash2 } from 'lucide-react'
+import { createSSEConnection, fetchLogSources, searchLogArchive, type LogEntry } from '@/lib/api'
+import { Terminal, Filter, Trash2, Search, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react'
 
-const LOG_SOURCES = ['all', 'memOS', 'gateway', 'searxng', 'pdf_tools', 'ollama']
 const LOG_LEVELS = ['all', 'debug', 'info', 'warn', 'error']
+const PAGE_SIZE = 200
+
+// 'live' shows the SSE buffer; anything else queries the on-disk archive
+const TIME_RANGES: { value: string; label: string; ms: number }[] = [
+  { value: 'live', label: 'Live', ms: 0 },
+  { value: '1h', label: 'Last hour', ms: 60 * 60 * 1000 },
+  { value: '24h', label: 'Last 24h', ms: 24 * 60 * 60 * 1000 },
+  { value: '7d', label: 'Last 7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  { value: 'all', label: 'All archived', ms: 0 },
+]
 
 export function LogsTab() {
   const { logs, addLog, clearLogs, logFilter, setLogFilter, setSSEConnected } =
     useDashboardStore()
   const logsEndRef = useRef<HTMLDivElement>(null)
   const [autoScroll, setAutoScroll] = useState(true)
+  const [searchInput, setSearchInput] = useState('')
+  const [searchQuery] = useDebounce(searchInput.trim(), 300)
+  const [timeRange, setTimeRange] = useState('live')
+  const [offset, setOffset] = useState(0)
+
+  // Typing a query implies searching the archive
+  const archiveMode = timeRange !== 'live' || searchQuery.length > 0
+
+  const { data: sources = [] } = useQuery({
+    queryKey: ['log-sources'],
+    queryFn: fetchLogSources,
+    refetchInterval: 30000,
+  })
+  const sourceOptions = ['all', ...sources.map((s) => s.id)]
 
-  // SSE connection for real-time logs
+  const sourceParam = logFilter.source && logFilter.source !== 'all' ? logFilter.source : null
+  const levelParam = logFilter.level && logFilter.level !== 'all' ? logFilter.level : null
+
+  // SSE connection for real-time logs, filtered server-side
   useEffect(() => {
+    const params = new URLSearchParams()
+    if (sourceParam) params.set('source', sourceParam)
+    if (levelParam) params.set('level', levelParam)
+    const query = params.toString()
+
     const eventSource = createSSEConnection(
-      '/logs/stream',
+      query ? `/logs/stream?${query}` : '/logs/stream',
       (event) => {
         try {
           const log = JSON.parse(event.data)
@@ -41,14 +74,35 @@ export function LogsTab() {
       eventSource.close()
       setSSEConnected(false)
     }
-  }, [addLog, setSSEConnected])
+  }, [addLog, setSSEConnected, sourceParam, levelParam])
+
+  // Reset paging whenever the archive query changes
+  useEffect(() => {
+    setOffset(0)
+  }, [searchQuery, timeRange, sourceParam, levelParam])
+
+  const rangeMs = TIME_RANGES.find((r) => r.value === timeRange)?.ms ?? 0
+  const archive = useQuery({
+    queryKey: ['log-archive', searchQuery, timeRange, sourceParam, levelParam, offset],
+    queryFn: () =>
+      searchLogArchive({
+        q: searchQuery || undefined,
+        source: sourceParam ?? undefined,
+        level: levelParam ?? undefined,
+        from: rangeMs ? new Date(Date.now() - rangeMs).toISOString() : undefined,
+        limit: PAGE_SIZE,
+        offset,
+      }),
+    enabled: archiveMode,
+    placeholderData: keepPreviousData,
+  })
 
   // Auto-scroll to bottom
   useEffect(() => {
-    if (autoScroll && logsEndRef.current) {
+    if (!archiveMode && autoScroll && logsEndRef.current) {
       logsEndRef.current.scrollIntoView({ behavior: 'smooth' })
     }
-  }, [logs, autoScroll])
+  }, [logs, autoScroll, archiveMode])
 
   // Filter logs
   const filteredLogs = logs.filter((log) => {
@@ -61,6 +115,11 @@ export function LogsTab() {
     return true
   })
 
+  const displayLogs: LogEntry[] = archiveMode ? archive.data?.entries ?? [] : filteredLogs
+  const archiveTotal = archive.data?.total ?? 0
+  const facetCount = (kind: 'sources' | 'levels', key: string) =>
+    archiveMode && archive.data && key !== 'all' ? ` (${archive.data.facets[kind][key] ?? 0})` : ''
+
   const levelColors: Record<string, string> = {
     debug: 'text-gray-400',
     info: 'text-blue-400',
@@ -80,11 +139,16 @@ export function LogsTab() {
               onChange={(e) => setLogFilter({ source: e.target.value })}
               className="bg-muted text-foreground text-sm rounded px-2 py-1 border border-border"
             >
-              {LOG_SOURCES.map((source) => (
-                <option key={source} value={source}>
-                  {source === 'all' ? 'All Sources' : source}
-                </option>
-              ))}
+              {sourceOptions.map((source) => {
+                const status = sources.find((s) => s.id === source)?.status
+                return (
+                  <option key={source} value={source}>
+                    {source === 'all' ? 'All Sources' : source}
+                    {status && status !== 'running' ? ` [${status}]` : ''}
+                    {facetCount('sources', source)}
+                  </option>
+                )
+              })}
             </select>
             <select
               value={logFilter.level || 'all'}
@@ -94,15 +158,40 @@ export function LogsTab() {
               {LOG_LEVELS.map((level) => (
                 <option key={level} value={level}>
                   {level === 'all' ? 'All Levels' : level.toUpperCase()}
+                  {facetCount('levels', level)}
+                </option>
+              ))}
+            </select>
+            <select
+              value={timeRange}
+              onChange={(e) => setTimeRange(e.target.value)}
+              className="bg-muted text-foreground text-sm rounded px-2 py-1 border border-border"
+            >
+              {TIME_RANGES.map((range) => (
+                <option key={range.value} value={range.value}>
+                  {range.label}
                 </option>
               ))}
             </select>
           </div>
+          <div className="relative">
+            <Search className="w-4 h-4 text-muted-foreground absolute left-2 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search archive..."
+              className="bg-muted text-foreground text-sm rounded pl-8 pr-2 py-1 border border-border w-64"
+            />
+          </div>
         </div>
 
         <div className="flex items-center gap-2">
-          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+          <label
+            className={`flex items-center gap-2 text-sm text-muted-foreground ${archiveMode ? 'opacity-50' : ''}`}
+          >
             <input
+              disabled={archiveMode}
               type="checkbox"
               checked={autoScroll}
               onChange={(e) => setAutoScroll(e.target.checked)}
@@ -125,18 +214,50 @@ export function LogsTab() {
         <div className="flex items-center gap-2 px-4 py-2 bg-muted/50 border-b border-border">
           <Terminal className="w-4 h-4 text-muted-foreground" />
           <span className="text-sm text-muted-foreground">
-            {filteredLogs.length} logs
+            {archiveMode
+              ? `${archiveTotal} archived matches`
+              : `${filteredLogs.length} logs`}
           </span>
+          {archiveMode && archive.isFetching && (
+            <Loader2 className="w-3 h-3 animate-spin text-muted-foreground" />
+          )}
+          {archiveMode && archiveTotal > PAGE_SIZE && (
+            <div className="ml-auto flex items-center gap-2 text-xs text-muted-foreground">
+              <button
+                onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+                disabled={offset === 0}
+                className="p-1 rounded hover:bg-accent disabled:opacity-40"
+                title="Newer"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span>
+                {offset + 1}–{Math.min(offset + PAGE_SIZE, archiveTotal)} of {archiveTotal}
+              </span>
+              <button
+                onClick={() => setOffset(offset + PAGE_SIZE)}
+                disabled={offset + PAGE_SIZE >= archiveTotal}
+                className="p-1 rounded hover:bg-accent disabled:opacity-40"
+                title="Older"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          )}
         </div>
 
         <div className="h-[calc(100%-40px)] overflow-auto p-4 font-mono text-sm">
-          {filteredLogs.length === 0 ? (
+          {archiveMode && archive.error ? (
+            <p className="text-red-400">{(archive.error as Error).message}</p>
+          ) : displayLogs.length === 0 ? (
             <p className="text-muted-foreground">No logs to display</p>
           ) : (
-            filteredLogs.map((log, index) => (
+            displayLogs.map((log, index) => (
               <div key={index} className="flex gap-2 mb-1 hover:bg-white/5">
                 <span className="text-muted-foreground shrink-0">
-                  {new Date(log.timestamp).toLocaleTimeString()}
+                  {archiveMode
+                    ? new Date(log.timestamp).toLocaleString()
+                    : new Date(log.timestamp).toLocaleTimeString()}
                 </span>
                 <span
                   className={`shrink-0 uppercase w-12 ${
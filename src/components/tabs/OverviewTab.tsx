@@ -1,6 +1,9 @@
 import { SystemHealthGrid } from '@/components/health/SystemHealthGrid'
+import { DependencyMap } from '@/components/health/DependencyMap'
 import { GPUMonitor } from '@/components/gpu/GPUMonitor'
+import { ModelManager } from '@/components/models/ModelManager'
 import { ProcessList } from '@/components/processes/ProcessList'
+import { ContainerList } from '@/components/containers/ContainerList'
 
 export function OverviewTab() {
   return (
@@ -13,11 +16,16 @@ export function OverviewTab() {
         <SystemHealthGrid />
       </section>
 
-      {/* GPU and Processes Grid */}
+      <DependencyMap />
+
+      {/* GPU, Models and Processes Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <GPUMonitor />
+        <ModelManager />
         <ProcessList />
       </div>
+
+      <ContainerList />
     </div>
   )
 }
@@ -1,9 +1,13 @@
-import { Settings, Server, Database, Cpu, HardDrive, ExternalLink } from 'lucide-react'
+import { useQuery } from '@tanstack/react-query'
+import { Settings, Server, Database, Cpu, HardDrive, ExternalLink, Shield, ScrollText } from 'lucide-react'
 import {
-  SERVICE_LINKS,
   DASHBOARD_FRONTEND_PORT,
   DASHBOARD_BACKEND_PORT,
 } from '@config/ports'
+import { fetchServiceRegistry } from '@/lib/api'
+import { AccessSettings } from '@/components/auth/AccessSettings'
+import { AuditLog } from '@/components/audit/AuditLog'
+import { useCan } from '@/lib/auth'
 
 // Map icons to service names (icons can't be in config due to React components)
 const serviceIcons: Record<string, React.ReactNode> = {
@@ -17,12 +21,22 @@ const serviceIcons: Record<string, React.ReactNode> = {
   'Open-WebUI': <Cpu className="w-5 h-5" />,
 }
 
-const serviceLinks = SERVICE_LINKS.map(link => ({
-  ...link,
-  icon: serviceIcons[link.name] || <Server className="w-5 h-5" />,
-}))
-
 export function SettingsTab() {
+  const isAdmin = useCan('admin')
+  const { data: registry } = useQuery({
+    queryKey: ['services'],
+    queryFn: fetchServiceRegistry,
+    refetchInterval: 60000,
+  })
+
+  const serviceLinks = (registry?.services ?? []).flatMap((service) =>
+    service.links.map((link) => ({
+      ...link,
+      port: service.port,
+      icon: serviceIcons[link.name] || <Server className="w-5 h-5" />,
+    }))
+  )
+
   return (
     <div className="space-y-6">
       {/* Service Links */}
@@ -47,9 +61,11 @@ export function SettingsTab() {
                 <h4 className="font-medium text-foreground group-hover:text-primary transition-colors">
                   {link.name}
                 </h4>
-                <p className="text-xs text-muted-foreground mt-1">
-                  Port {link.port}
-                </p>
+                {link.port && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Port {link.port}
+                  </p>
+                )}
                 <p className="text-sm text-muted-foreground mt-1">
                   {link.description}
                 </p>
@@ -112,6 +128,30 @@ export function SettingsTab() {
         </div>
       </section>
 
+      {/* Access */}
+      <section>
+        <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
+          <Shield className="w-5 h-5" />
+          Access
+        </h3>
+        <div className="bg-card border border-border rounded-lg p-6">
+          <AccessSettings />
+        </div>
+      </section>
+
+      {/* Audit Log */}
+      {isAdmin && (
+        <section>
+          <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
+            <ScrollText className="w-5 h-5" />
+            Audit Log
+          </h3>
+          <div className="bg-card border border-border rounded-lg p-6">
+            <AuditLog />
+          </div>
+        </section>
+      )}
+
       {/* System Info */}
       <section>
         <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
@@ -2,15 +2,35 @@
 
 const API_BASE = '/api'
 
+// Sub-component health reported by the service itself (deep probes)
+export interface HealthComponent {
+  name: string
+  status: 'healthy' | 'degraded' | 'unhealthy' | 'unknown'
+  message?: string
+  latency?: number
+}
+
 export interface ServiceHealth {
   name: string
   status: 'healthy' | 'unhealthy' | 'unknown'
   port: number
   latency?: number
   message?: string
+  children?: HealthComponent[]
   lastCheck: string
 }
 
+export interface GPUDevice {
+  index: number
+  uuid: string | null
+  name: string
+  vramUsed: number
+  vramTotal: number
+  utilization: number
+  temperature: number
+  powerDraw: number
+}
+
 export interface GPUStatus {
   name: string
   vramUsed: number
@@ -18,7 +38,58 @@ export interface GPUStatus {
   utilization: number
   temperature: number
   powerDraw: number
-  loadedModels: string[]
+  loadedModels: (string | { name: string; vram_gb?: number })[]
+  gpus: GPUDevice[]
+}
+
+export interface GPUHistorySample {
+  timestamp: string
+  vramUsed: number
+  vramTotal: number
+  utilization: number
+  temperature: number
+  powerDraw: number
+}
+
+export interface GPUHistory {
+  range: string
+  intervalMs: number
+  capacity: number
+  gpus: {
+    index: number
+    uuid: string | null
+    name: string
+    samples: GPUHistorySample[]
+  }[]
+}
+
+export interface GPUConsumer {
+  pid: number
+  name: string
+  processName: string
+  gpuIndex: number | null
+  gpuName: string | null
+  vramUsed: number
+  cpu: number | null
+  memory: number | null
+  monitored: boolean
+  models: string[]
+}
+
+export interface ProcessNode {
+  pid: number
+  ppid: number
+  name: string
+  command: string
+  state: string
+  threads: number
+  rssBytes: number
+  cpu: number
+  memory: number
+  startedAt: string
+  uptimeSeconds: number
+  ports: number[]
+  children: ProcessNode[]
 }
 
 export interface ProcessInfo {
@@ -27,7 +98,15 @@ export interface ProcessInfo {
   cpu: number
   memory: number
   uptime: string
+  uptimeSeconds: number | null
   type: 'native' | 'docker'
+  rssBytes: number | null
+  threads: number | null
+  ports: number[]
+  command: string | null
+  processCount: number
+  pids: number[]
+  tree: ProcessNode[]
 }
 
 export interface LogEntry {
@@ -37,6 +116,35 @@ export interface LogEntry {
   message: string
 }
 
+// Service registry
+export interface ServiceDefinition {
+  id: string
+  name: string
+  description?: string
+  port: number | null
+  health: { type: 'http'; path: string; port?: number } | { type: 'tcp'; port?: number } | null
+  process: { pattern: string; name: string } | null
+  containers: string[]
+  logs: { id: string; label: string; type: 'journald' | 'docker' | 'file'; target: string }[]
+  links: { name: string; url: string; description: string }[]
+  dependsOn: string[]
+  ecosystem: { kind: EcosystemService['kind']; controllable: boolean; note?: string } | null
+}
+
+export interface ServiceRegistry {
+  services: ServiceDefinition[]
+  path: string
+  loadedAt: string
+  version: number
+  error: string | null
+}
+
+export async function fetchServiceRegistry(): Promise<ServiceRegistry> {
+  const res = await fetch(`${API_BASE}/services`)
+  if (!res.ok) throw new Error('Failed to fetch service registry')
+  return res.json()
+}
+
 // Health endpoints
 export async function fetchHealthAggregate(): Promise<ServiceHealth[]> {
   const res = await fetch(`${API_BASE}/health/aggregate`)
@@ -44,6 +152,88 @@ export async function fetchHealthAggregate(): Promise<ServiceHealth[]> {
   return res.json()
 }
 
+export type EffectiveHealthStatus = 'healthy' | 'degraded' | 'unhealthy' | 'unknown'
+
+export interface TopologyNode {
+  id: string
+  name: string
+  port: number | null
+  dependsOn: string[]
+  status: ServiceHealth['status']
+  effectiveStatus: EffectiveHealthStatus
+  rootCause: boolean
+  impactedBy: string[]
+  message?: string
+  latency?: number
+  source: 'probe' | 'container' | 'none'
+}
+
+export interface HealthTopology {
+  nodes: TopologyNode[]
+  edges: { from: string; to: string }[]
+  rootCauses: string[]
+  timestamp: string
+}
+
+export async function fetchHealthTopology(): Promise<HealthTopology> {
+  const res = await fetch(`${API_BASE}/health/topology`)
+  if (!res.ok) throw new Error('Failed to fetch health topology')
+  return res.json()
+}
+
+export interface LatencyStats {
+  avg: number | null
+  p50: number | null
+  p95: number | null
+  p99: number | null
+}
+
+export interface OutageWindow {
+  start: string
+  end: string | null
+  durationMs: number
+  samples: number
+  message: string | null
+}
+
+export interface ServiceHistorySummary {
+  name: string
+  range: string
+  samples: number
+  uptime: number | null
+  latency: LatencyStats
+  outageCount: number
+  uptime24h: number | null
+  uptime7d: number | null
+  sparkline: (number | null)[]
+}
+
+export interface ServiceHistoryDetail {
+  name: string
+  range: string
+  from: string
+  to: string
+  samples: number
+  uptime: number | null
+  latency: LatencyStats
+  outages: OutageWindow[]
+  series: { timestamp: string; uptime: number | null; avgLatency: number | null }[]
+}
+
+export async function fetchHealthHistorySummary(range = '24h'): Promise<ServiceHistorySummary[]> {
+  const res = await fetch(`${API_BASE}/health/history/summary?range=${encodeURIComponent(range)}`)
+  if (!res.ok) throw new Error('Failed to fetch health history')
+  return res.json()
+}
+
+export async function fetchServiceHealthHistory(service: string, range = '7d'): Promise<ServiceHistoryDetail> {
+  const res = await fetch(
+    `${API_BASE}/health/history/${encodeURIComponent(service)}?range=${encodeURIComponent(range)}`
+  )
+  if (!res.ok) throw new Error('Failed to fetch service health history')
+  return res.json()
+}
+
 // GPU endpoints
 export async function fetchGPUStatus(): Promise<GPUStatus> {
   const res = await fetch(`${API_BASE}/gpu/status`)
@@ -51,6 +241,20 @@ export async function fetchGPUStatus(): Promise<GPUStatus> {
   return res.json()
 }
 
+export async function fetchGPUProcesses(): Promise<{ processes: GPUConsumer[]; timestamp: string }> {
+  const res = await fetch(`${API_BASE}/gpu/processes`)
+  if (!res.ok) throw new Error('Failed to fetch GPU processes')
+  return res.json()
+}
+
+export async function fetchGPUHistory(range = '15m', gpu?: number): Promise<GPUHistory> {
+  const params = new URLSearchParams({ range })
+  if (gpu !== undefined) params.set('gpu', String(gpu))
+  const res = await fetch(`${API_BASE}/gpu/history?${params}`)
+  if (!res.ok) throw new Error('Failed to fetch GPU history')
+  return res.json()
+}
+
 // Process endpoints
 export async function fetchProcesses(): Promise<ProcessInfo[]> {
   const res = await fetch(`${API_BASE}/processes`)
@@ -58,7 +262,119 @@ export async function fetchProcesses(): Promise<ProcessInfo[]> {
   return res.json()
 }
 
-// Log endpoints
+export type ServiceAction = 'start' | 'stop' | 'restart'
+
+export interface EcosystemService {
+  id: string
+  label: string
+  port: number | null
+  kind: 'system' | 'systemctl' | 'docker' | 'python' | 'node'
+  processNames: string[]
+  controllable: boolean
+  note?: string
+}
+
+export interface ProcessOperation {
+  id: string
+  service: string
+  action: ServiceAction
+  dryRun: boolean
+  status: 'running' | 'succeeded' | 'failed'
+  command: string
+  startedAt: string
+  finishedAt: string | null
+  exitCode: number | null
+  stdout: string
+  stderr: string
+  error?: string
+}
+
+export async function fetchProcessServices(): Promise<{ services: EcosystemService[]; dryRunForced: boolean }> {
+  const res = await fetch(`${API_BASE}/processes/services`)
+  if (!res.ok) throw new Error('Failed to fetch controllable services')
+  return res.json()
+}
+
+export async function fetchProcessOperations(): Promise<ProcessOperation[]> {
+  const res = await fetch(`${API_BASE}/processes/operations`)
+  if (!res.ok) throw new Error('Failed to fetch process operations')
+  return res.json()
+}
+
+export async function runProcessAction(
+  service: string,
+  action: ServiceAction,
+  dryRun = false
+): Promise<ProcessOperation> {
+  const res = await fetch(`${API_BASE}/processes/${encodeURIComponent(service)}/${action}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ dryRun }),
+  })
+  if (!res.ok) {
+    const body = await res.json().catch(() => null)
+    throw new Error(body?.error || `Failed to ${action} ${service}`)
+  }
+  return res.json()
+}
+
+// Container endpoints
+export type ContainerAction = 'start' | 'stop' | 'restart'
+
+export interface ContainerStats {
+  timestamp: string
+  cpu: number
+  memoryBytes: number
+  memoryLimit: number
+  memoryPercent: number
+}
+
+export interface ContainerInfo {
+  id: string
+  name: string
+  image: string
+  state: string
+  status: string
+  health: 'healthy' | 'unhealthy' | 'starting' | null
+  restartCount: number
+  ports: { privatePort: number; publicPort: number | null; type: string; ip: string | null }[]
+  createdAt: string
+  startedAt: string | null
+  uptimeSeconds: number | null
+  pid: number | null
+  monitored: boolean
+  stats: ContainerStats | null
+}
+
+export interface ContainerStatsHistory {
+  range: string
+  id: string
+  name: string
+  intervalMs: number
+  samples: ContainerStats[]
+}
+
+export async function fetchContainers(): Promise<ContainerInfo[]> {
+  const res = await fetch(`${API_BASE}/containers`)
+  if (!res.ok) throw new Error('Failed to fetch containers')
+  return res.json()
+}
+
+export async function fetchContainerStatsHistory(id: string, range = '1h'): Promise<ContainerStatsHistory> {
+  const res = await fetch(`${API_BASE}/containers/${encodeURIComponent(id)}/stats/history?range=${range}`)
+  if (!res.ok) throw new Error('Failed to fetch container stats')
+  return res.json()
+}
+
+export async function runContainerAction(id: string, action: ContainerAction): Promise<{ changed: boolean }> {
+  const res = await fetch(`${API_BASE}/containers/${encodeURIComponent(id)}/${action}`, { method: 'POST' })
+  if (!res.ok) {
+    const body = await res.json().catch(() => null)
+    throw new Error(body?.error || `Failed to ${action} container`)
+  }
+  return res.json()
+}
+
 export async function fetchLogs(params?: {
   source?: string
   level?: string
@@ -74,6 +390,304 @@ export async function fetchLogs(params?: {
   return res.json()
 }
 
+export interface LogSourceStatus {
+  id: string
+  label: string
+  type: 'journald' | 'docker' | 'file'
+  target: string
+  status: 'running' | 'restarting' | 'unavailable' | 'stopped'
+  lastLineAt: string | null
+  lastError: string | null
+}
+
+export async function fetchLogSources(): Promise<LogSourceStatus[]> {
+  const res = await fetch(`${API_BASE}/logs/sources`)
+  if (!res.ok) throw new Error('Failed to fetch log sources')
+  return res.json()
+}
+
+export interface ArchivedLogEntry extends LogEntry {
+  id: number
+}
+
+export interface LogSearchResult {
+  entries: ArchivedLogEntry[]
+  total: number
+  limit: number
+  offset: number
+  facets: {
+    sources: Record<string, number>
+    levels: Record<string, number>
+  }
+}
+
+export async function searchLogArchive(params: {
+  q?: string
+  source?: string
+  level?: string
+  from?: string
+  to?: string
+  limit?: number
+  offset?: number
+}): Promise<LogSearchResult> {
+  const searchParams = new URLSearchParams()
+  if (params.q) searchParams.set('q', params.q)
+  if (params.source) searchParams.set('source', params.source)
+  if (params.level) searchParams.set('level', params.level)
+  if (params.from) searchParams.set('from', params.from)
+  if (params.to) searchParams.set('to', params.to)
+  if (params.limit) searchParams.set('limit', params.limit.toString())
+  if (params.offset) searchParams.set('offset', params.offset.toString())
+
+  const res = await fetch(`${API_BASE}/logs/search?${searchParams}`)
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({ error: 'Failed to search logs' }))
+    throw new Error(error.error || 'Failed to search logs')
+  }
+  return res.json()
+}
+
+// Alert endpoints
+export type AlertSeverity = 'info' | 'warning' | 'critical'
+export type AlertState = 'pending' | 'firing' | 'resolved'
+
+export interface Alert {
+  id: string
+  ruleId: string
+  ruleName: string
+  severity: AlertSeverity
+  state: AlertState
+  labels: Record<string, string>
+  summary: string
+  value: number | null
+  activeSince: string
+  firedAt: string | null
+  resolvedAt: string | null
+  silenced: boolean
+  silenceId: string | null
+}
+
+export interface AlertsResponse {
+  alerts: Alert[]
+  counts: { firing: number; pending: number; silenced: number }
+  timestamp: string
+}
+
+export interface AlertSilence {
+  id: string
+  ruleId: string | null
+  labels: Record<string, string>
+  comment: string
+  createdAt: string
+  endsAt: string
+}
+
+export async function fetchAlerts(): Promise<AlertsResponse> {
+  const res = await fetch(`${API_BASE}/alerts`)
+  if (!res.ok) throw new Error('Failed to fetch alerts')
+  return res.json()
+}
+
+export async function createAlertSilence(silence: {
+  ruleId?: string
+  labels?: Record<string, string>
+  duration: string
+  comment?: string
+}): Promise<AlertSilence> {
+  const res = await fetch(`${API_BASE}/alerts/silences`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(silence),
+  })
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({ error: 'Failed to create silence' }))
+    throw new Error(error.error || 'Failed to create silence')
+  }
+  return res.json()
+}
+
+export async function deleteAlertSilence(id: string): Promise<void> {
+  const res = await fetch(`${API_BASE}/alerts/silences/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+  })
+  if (!res.ok) throw new Error('Failed to delete silence')
+}
+
+// Auth endpoints
+export type Role = 'viewer' | 'operator' | 'admin'
+
+export interface AuthUser {
+  id: number
+  username: string
+  role: Role
+  createdAt: string
+  via?: 'session' | 'token' | 'disabled'
+}
+
+export interface AuthSession {
+  user: AuthUser
+  roles: Role[]
+  authDisabled: boolean
+}
+
+export interface ApiToken {
+  id: number
+  userId: number
+  username: string
+  name: string
+  createdAt: string
+  lastUsedAt: string | null
+}
+
+const ROLE_ORDER: Role[] = ['viewer', 'operator', 'admin']
+
+export function hasRole(user: Pick<AuthUser, 'role'> | null | undefined, required: Role): boolean {
+  return !!user && ROLE_ORDER.indexOf(user.role) >= ROLE_ORDER.indexOf(required)
+}
+
+// Resolves to null when signed out
+export async function fetchSession(): Promise<AuthSession | null> {
+  const res = await fetch(`${API_BASE}/auth/me`)
+  if (res.status === 401) return null
+  if (!res.ok) throw new Error('Failed to fetch session')
+  return res.json()
+}
+
+export async function login(username: string, password: string): Promise<{ user: AuthUser; expiresAt: string }> {
+  const res = await fetch(`${API_BASE}/auth/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password }),
+  })
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({ error: 'Login failed' }))
+    throw new Error(error.error || 'Login failed')
+  }
+  return res.json()
+}
+
+export async function logout(): Promise<void> {
+  const res = await fetch(`${API_BASE}/auth/logout`, { method: 'POST' })
+  if (!res.ok) throw new Error('Logout failed')
+}
+
+export async function fetchUsers(): Promise<AuthUser[]> {
+  const res = await fetch(`${API_BASE}/auth/users`)
+  if (!res.ok) throw new Error('Failed to fetch users')
+  return res.json()
+}
+
+export async function createUser(user: { username: string; password: string; role: Role }): Promise<AuthUser> {
+  const res = await fetch(`${API_BASE}/auth/users`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(user),
+  })
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({ error: 'Failed to create user' }))
+    throw new Error(error.error || 'Failed to create user')
+  }
+  return res.json()
+}
+
+export async function updateUser(id: number, changes: { password?: string; role?: Role }): Promise<AuthUser> {
+  const res = await fetch(`${API_BASE}/auth/users/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes),
+  })
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({ error: 'Failed to update user' }))
+    throw new Error(error.error || 'Failed to update user')
+  }
+  return res.json()
+}
+
+export async function deleteUser(id: number): Promise<void> {
+  const res = await fetch(`${API_BASE}/auth/users/${id}`, { method: 'DELETE' })
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({ error: 'Failed to delete user' }))
+    throw new Error(error.error || 'Failed to delete user')
+  }
+}
+
+export async function fetchApiTokens(): Promise<ApiToken[]> {
+  const res = await fetch(`${API_BASE}/auth/tokens`)
+  if (!res.ok) throw new Error('Failed to fetch API tokens')
+  return res.json()
+}
+
+// The plaintext token is only returned here, once
+export async function createApiToken(name: string): Promise<{ token: string; info: ApiToken }> {
+  const res = await fetch(`${API_BASE}/auth/tokens`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name }),
+  })
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({ error: 'Failed to create token' }))
+    throw new Error(error.error || 'Failed to create token')
+  }
+  return res.json()
+}
+
+export async function revokeApiToken(id: number): Promise<void> {
+  const res = await fetch(`${API_BASE}/auth/tokens/${id}`, { method: 'DELETE' })
+  if (!res.ok) throw new Error('Failed to revoke token')
+}
+
+// Audit log endpoints
+export interface AuditChange {
+  path: string
+  before?: unknown
+  after?: unknown
+}
+
+export interface AuditEntry {
+  id: number
+  timestamp: string
+  actor: string
+  actorRole: Role | null
+  via: string | null
+  action: string
+  target: string | null
+  method: string
+  path: string
+  status: number
+  success: boolean
+  error: string | null
+  details: Record<string, unknown> | null
+  changes: AuditChange[] | null
+}
+
+export interface AuditQueryResult {
+  entries: AuditEntry[]
+  total: number
+  limit: number
+  offset: number
+  actions: string[]
+  actors: string[]
+}
+
+export async function fetchAuditLog(params: {
+  actor?: string
+  action?: string
+  result?: 'success' | 'failure'
+  limit?: number
+  offset?: number
+} = {}): Promise<AuditQueryResult> {
+  const searchParams = new URLSearchParams()
+  if (params.actor) searchParams.set('actor', params.actor)
+  if (params.action) searchParams.set('action', params.action)
+  if (params.result) searchParams.set('result', params.result)
+  if (params.limit) searchParams.set('limit', params.limit.toString())
+  if (params.offset) searchParams.set('offset', params.offset.toString())
+
+  const res = await fetch(`${API_BASE}/audit?${searchParams}`)
+  if (!res.ok) throw new Error('Failed to fetch audit log')
+  return res.json()
+}
+
 // Documentation endpoints
 export interface DocFile {
   name: string
@@ -95,6 +709,13 @@ export async function fetchDocContent(path: string): Promise<string> {
 }
 
 // SSE connections
+// Live channel (/api/live/stream): one SSE connection multiplexing every topic
+export type LiveTopic = 'health' | 'gpu' | 'processes'
+
+export type LiveMessage =
+  | { topic: LiveTopic; type: 'snapshot'; version: number; timestamp: string; data: unknown }
+  | { topic: LiveTopic; type: 'delta'; version: number; timestamp: string; upserts: unknown[]; removed: string[] }
+
 export function createSSEConnection(
   path: string,
   onMessage: (event: MessageEvent) => void,
@@ -183,9 +804,11 @@ export async function reloadLLMConfig(): Promise<{ version: string; last_updated
 }
 
 // Save current config to YAML file
-export async function saveLLMConfig(): Promise<{ config_path: string }> {
+export async function saveLLMConfig(message?: string): Promise<{ config_path: string; version: ConfigVersion }> {
   const res = await fetch(`${API_BASE}/agent/config/llm-models/save`, {
     method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message }),
   })
   if (!res.ok) {
     const error = await res.json().catch(() => ({ error: 'Failed to save config' }))
@@ -226,6 +849,79 @@ export async function applyLLMPreset(presetName: string): Promise<{ preset: stri
   return res.json()
 }
 
+// Custom presets, stored by the dashboard rather than memOS
+export interface CustomPreset {
+  name: string
+  description: string | null
+  models: Record<string, string>
+  createdBy: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface PresetInput {
+  name: string
+  description?: string | null
+  models: Record<string, string>
+}
+
+// One stage a preset would change, resolved against the live config
+export interface PresetAssignment {
+  stage: string
+  section: string | null
+  path: string | null
+  current: string | null
+  next: string
+  changed: boolean
+}
+
+async function presetRequest<T>(path: string, method: string, fallback: string, body?: unknown): Promise<T> {
+  const res = await fetch(`${API_BASE}/agent/config/llm-models/custom-presets${path}`, {
+    method,
+    headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  })
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({ error: fallback }))
+    throw new Error(error.error || fallback)
+  }
+  return res.json()
+}
+
+export function fetchCustomPresets(): Promise<CustomPreset[]> {
+  return presetRequest('', 'GET', 'Failed to fetch custom presets')
+}
+
+export function createCustomPreset(preset: PresetInput): Promise<CustomPreset> {
+  return presetRequest('', 'POST', 'Failed to create preset', preset)
+}
+
+export function updateCustomPreset(name: string, preset: PresetInput): Promise<CustomPreset> {
+  return presetRequest(`/${encodeURIComponent(name)}`, 'PUT', 'Failed to update preset', preset)
+}
+
+export function deleteCustomPreset(name: string): Promise<{ deleted: string }> {
+  return presetRequest(`/${encodeURIComponent(name)}`, 'DELETE', 'Failed to delete preset')
+}
+
+export function applyCustomPreset(name: string): Promise<{ preset: string; changes: Record<string, string> }> {
+  return presetRequest(`/${encodeURIComponent(name)}/apply`, 'POST', 'Failed to apply preset')
+}
+
+export function previewPreset(models: Record<string, string>): Promise<PresetAssignment[]> {
+  return presetRequest('/preview', 'POST', 'Failed to preview preset', { models })
+}
+
+export function importPresets(yaml: string, overwrite: boolean): Promise<{ imported: string[]; skipped: string[] }> {
+  return presetRequest('/import', 'POST', 'Failed to import presets', { yaml, overwrite })
+}
+
+// Served as an attachment, so a plain link downloads it
+export function presetExportUrl(names?: string[]): string {
+  const query = names ? `?names=${encodeURIComponent(names.join(','))}` : ''
+  return `${API_BASE}/agent/config/llm-models/custom-presets/export${query}`
+}
+
 // Fetch raw YAML content
 export async function fetchRawYaml(): Promise<string> {
   const res = await fetch(`${API_BASE}/agent/config/llm-models/raw`)
@@ -242,11 +938,11 @@ export async function fetchRawYaml(): Promise<string> {
 }
 
 // Save raw YAML content
-export async function saveRawYaml(yaml: string): Promise<{ success: boolean }> {
+export async function saveRawYaml(yaml: string, message?: string): Promise<{ success: boolean; version: ConfigVersion }> {
   const res = await fetch(`${API_BASE}/agent/config/llm-models/raw`, {
     method: 'PUT',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ yaml }),
+    body: JSON.stringify({ yaml, message }),
   })
   if (!res.ok) {
     const error = await res.json().catch(() => ({ error: 'Failed to save YAML' }))
@@ -255,6 +951,453 @@ export async function saveRawYaml(yaml: string): Promise<{ success: boolean }> {
   return res.json()
 }
 
+// Raw YAML validation (syntax + config/llm-models.schema.json)
+export interface ConfigIssue {
+  severity: 'error' | 'warning'
+  message: string
+  path: string | null
+  line: number
+  column: number
+  endLine: number
+  endColumn: number
+}
+
+export interface ConfigValidationResult {
+  valid: boolean
+  issues: ConfigIssue[]
+}
+
+// Just enough of JSON Schema to walk properties for autocomplete
+export interface JsonSchema {
+  type?: string | string[]
+  description?: string
+  properties?: Record<string, JsonSchema>
+  additionalProperties?: boolean | JsonSchema
+  definitions?: Record<string, JsonSchema>
+  $ref?: string
+}
+
+export async function validateLLMConfigYaml(yaml: string): Promise<ConfigValidationResult> {
+  const res = await fetch(`${API_BASE}/agent/config/llm-models/validate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ yaml }),
+  })
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({ error: 'Failed to validate YAML' }))
+    throw new Error(error.error || 'Failed to validate YAML')
+  }
+  return res.json()
+}
+
+export async function fetchLLMConfigSchema(): Promise<JsonSchema> {
+  const res = await fetch(`${API_BASE}/agent/config/llm-models/schema`)
+  if (!res.ok) throw new Error('Failed to fetch config schema')
+  return res.json()
+}
+
+// Config version history (snapshots of every YAML the dashboard wrote)
+export interface ConfigVersion {
+  id: number
+  hash: string
+  author: string
+  message: string | null
+  source: 'baseline' | 'save' | 'raw' | 'rollback'
+  createdAt: string
+  lines: number
+}
+
+export interface ConfigDiffLine {
+  type: 'same' | 'add' | 'remove'
+  text: string
+  oldLine: number | null
+  newLine: number | null
+}
+
+export interface ConfigDiff {
+  from: number
+  to: number | 'current'
+  added: number
+  removed: number
+  lines: ConfigDiffLine[]
+}
+
+export async function fetchConfigVersions(): Promise<ConfigVersion[]> {
+  const res = await fetch(`${API_BASE}/agent/config/llm-models/versions`)
+  if (!res.ok) throw new Error('Failed to fetch config versions')
+  return res.json()
+}
+
+export async function fetchConfigDiff(from: number, to: number | 'current'): Promise<ConfigDiff> {
+  const res = await fetch(`${API_BASE}/agent/config/llm-models/versions/diff?from=${from}&to=${to}`)
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({ error: 'Failed to diff config versions' }))
+    throw new Error(error.error || 'Failed to diff config versions')
+  }
+  return res.json()
+}
+
+export async function rollbackConfigVersion(id: number): Promise<{ rolledBackTo: number; version: ConfigVersion }> {
+  const res = await fetch(`${API_BASE}/agent/config/llm-models/versions/${id}/rollback`, {
+    method: 'POST',
+  })
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({ error: 'Failed to roll back config' }))
+    throw new Error(error.error || 'Failed to roll back config')
+  }
+  return res.json()
+}
+
+// Model catalog (installed/served models across LLM backends)
+export type ModelBackend = 'ollama' | 'vllm' | 'sglang' | 'llamacpp'
+
+export interface CatalogModel {
+  name: string
+  backend: ModelBackend
+  sizeGB: number | null
+  parameterSize: string | null
+  quantization: string | null
+  family: string | null
+  contextLength: number | null
+  loaded: boolean
+  vramGB: number | null
+  modifiedAt: string | null
+}
+
+export interface ModelBackendStatus {
+  backend: ModelBackend
+  url: string
+  available: boolean
+  error?: string
+  models: number
+}
+
+export interface ModelCatalog {
+  models: CatalogModel[]
+  backends: ModelBackendStatus[]
+  timestamp: string
+}
+
+export async function fetchModelCatalog(refresh = false): Promise<ModelCatalog> {
+  const res = await fetch(`${API_BASE}/models${refresh ? '?refresh=true' : ''}`)
+  if (!res.ok) throw new Error('Failed to fetch model catalog')
+  return res.json()
+}
+
+// Ollama model management (pull, delete, load/unload)
+export interface ModelPull {
+  id: string
+  model: string
+  status: 'running' | 'succeeded' | 'failed' | 'cancelled'
+  phase: string
+  completedBytes: number
+  totalBytes: number
+  percent: number | null
+  startedAt: string
+  finishedAt: string | null
+  startedBy: string
+  error?: string
+}
+
+export interface ModelDiskUsage {
+  models: number
+  totalGB: number
+  largest: { name: string; sizeGB: number }[]
+  filesystem: { path: string; totalGB: number; freeGB: number } | null
+}
+
+async function modelRequest<T>(path: string, method: string, fallback: string, body?: unknown): Promise<T> {
+  const res = await fetch(`${API_BASE}/models${path}`, {
+    method,
+    headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  })
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({ error: fallback }))
+    throw new Error(error.error || fallback)
+  }
+  return res.json()
+}
+
+export async function fetchModelDiskUsage(): Promise<ModelDiskUsage> {
+  const res = await fetch(`${API_BASE}/models/disk`)
+  if (!res.ok) throw new Error('Failed to fetch model disk usage')
+  return res.json()
+}
+
+export async function fetchModelPulls(): Promise<ModelPull[]> {
+  const res = await fetch(`${API_BASE}/models/pulls`)
+  if (!res.ok) throw new Error('Failed to fetch model pulls')
+  return res.json()
+}
+
+export function startModelPull(model: string): Promise<ModelPull> {
+  return modelRequest('/pulls', 'POST', `Failed to pull ${model}`, { model })
+}
+
+export function cancelModelPull(id: string): Promise<ModelPull> {
+  return modelRequest(`/pulls/${id}`, 'DELETE', 'Failed to cancel pull')
+}
+
+export function loadModel(model: string): Promise<{ model: string; loaded: boolean }> {
+  return modelRequest(`/${encodeURIComponent(model)}/load`, 'POST', `Failed to load ${model}`, {})
+}
+
+export function unloadModel(model: string): Promise<{ model: string; loaded: boolean }> {
+  return modelRequest(`/${encodeURIComponent(model)}/unload`, 'POST', `Failed to unload ${model}`)
+}
+
+export function deleteModel(model: string): Promise<{ model: string; deleted: boolean }> {
+  return modelRequest(`/${encodeURIComponent(model)}`, 'DELETE', `Failed to delete ${model}`)
+}
+
+// ============================================================================
+// Agent Run History API
+// ============================================================================
+
+// memOS's history merged with the runs the dashboard stored itself
+export interface AgentHistoryRun {
+  request_id: string
+  query: string
+  preset: string
+  started_at: string
+  completed_at?: string | null
+  status: 'running' | 'completed' | 'failed'
+  duration_ms: number
+  confidence: number
+  confidence_level: string
+  llm_calls: number
+  tokens: { input: number; output: number }
+  error?: string | null
+  source: 'database' | 'memory' | 'local'
+}
+
+export interface AgentHistory {
+  runs: AgentHistoryRun[]
+  // Size of the merged set the page was cut from, not an overall count:
+  // each source is read up to offset + limit, so a total above that means
+  // there is a next page
+  total: number
+}
+
+export async function fetchAgentHistory(options: { limit?: number; offset?: number; hours?: number } = {}): Promise<AgentHistory> {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(options)) {
+    if (value !== undefined) params.set(key, String(value))
+  }
+  const res = await fetch(`${API_BASE}/agent/history?${params}`)
+  if (!res.ok) throw new Error('Failed to fetch agent history')
+  const data = await res.json()
+  return data.data
+}
+
+// ============================================================================
+// Agent Preset Comparisons API
+// ============================================================================
+
+export interface ComparisonRun {
+  preset: string
+  requestId: string
+  status: 'pending' | 'running' | 'completed' | 'failed'
+  startedAt: string | null
+  finishedAt: string | null
+  durationMs: number | null
+  llmCalls: number | null
+  tokens: { input: number; output: number } | null
+  confidence: number | null
+  answer: string | null
+  error?: string
+}
+
+export interface AgentComparison {
+  id: string
+  query: string
+  presets: string[]
+  status: 'running' | 'completed'
+  createdBy: string
+  createdAt: string
+  completedAt: string | null
+  runs: ComparisonRun[]
+}
+
+export interface AnswerDiff {
+  baseline: string
+  preset: string
+  lines: ConfigDiffLine[]
+  added: number
+  removed: number
+}
+
+export interface ComparisonReport extends AgentComparison {
+  answerDiffs: AnswerDiff[]
+}
+
+export interface ComparisonStart {
+  comparisonId: string
+  query: string
+  runs: { preset: string; requestId: string; streamUrl: string }[]
+}
+
+export async function startComparison(query: string, presets: string[]): Promise<ComparisonStart> {
+  const res = await fetch(`${API_BASE}/agent/search`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query, presets }),
+  })
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({ error: 'Failed to start comparison' }))
+    throw new Error(error.error || 'Failed to start comparison')
+  }
+  return res.json()
+}
+
+export async function fetchComparisons(): Promise<AgentComparison[]> {
+  const res = await fetch(`${API_BASE}/agent/comparisons`)
+  if (!res.ok) throw new Error('Failed to fetch comparisons')
+  const data = await res.json()
+  return data.comparisons
+}
+
+export async function fetchComparison(id: string): Promise<ComparisonReport> {
+  const res = await fetch(`${API_BASE}/agent/comparisons/${id}`)
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({ error: 'Failed to fetch comparison' }))
+    throw new Error(error.error || 'Failed to fetch comparison')
+  }
+  return res.json()
+}
+
+export async function deleteComparison(id: string): Promise<void> {
+  const res = await fetch(`${API_BASE}/agent/comparisons/${id}`, { method: 'DELETE' })
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({ error: 'Failed to delete comparison' }))
+    throw new Error(error.error || 'Failed to delete comparison')
+  }
+}
+
+// ============================================================================
+// Benchmarks API
+// ============================================================================
+
+export interface BenchmarkQuery {
+  query: string
+  expectedKeywords: string[]
+  expectedSources: string[]
+}
+
+export interface BenchmarkSuite {
+  id: string
+  name: string
+  description: string | null
+  queries: BenchmarkQuery[]
+  createdBy: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface BenchmarkSuiteInput {
+  name: string
+  description?: string | null
+  queries: BenchmarkQuery[]
+}
+
+export interface BenchmarkQueryResult {
+  query: string
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled'
+  requestId: string | null
+  durationMs: number | null
+  llmCalls: number | null
+  tokens: { input: number; output: number } | null
+  confidence: number | null
+  keywordRecall: number | null
+  sourceRecall: number | null
+  missingKeywords: string[]
+  missingSources: string[]
+  answer: string | null
+  error?: string
+}
+
+export interface BenchmarkSummary {
+  total: number
+  completed: number
+  failed: number
+  failureRate: number
+  latencyMs: { mean: number; p50: number; p95: number } | null
+  meanConfidence: number | null
+  keywordRecall: number | null
+  sourceRecall: number | null
+  tokens: { input: number; output: number }
+}
+
+export interface BenchmarkRunInfo {
+  id: string
+  suiteId: string
+  suiteName: string
+  preset: string
+  concurrency: number
+  status: 'running' | 'completed' | 'cancelled' | 'failed'
+  configHash: string | null
+  configVersionId: number | null
+  startedBy: string
+  startedAt: string
+  finishedAt: string | null
+  summary: BenchmarkSummary
+  error?: string
+}
+
+export interface BenchmarkRun extends BenchmarkRunInfo {
+  results: BenchmarkQueryResult[]
+}
+
+async function benchmarkRequest<T>(path: string, method: string, fallback: string, body?: unknown): Promise<T> {
+  const res = await fetch(`${API_BASE}/benchmarks${path}`, {
+    method,
+    headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  })
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({ error: fallback }))
+    throw new Error(error.error || fallback)
+  }
+  return res.json()
+}
+
+export function fetchBenchmarkSuites(): Promise<BenchmarkSuite[]> {
+  return benchmarkRequest('/suites', 'GET', 'Failed to fetch benchmark suites')
+}
+
+export function createBenchmarkSuite(suite: BenchmarkSuiteInput): Promise<BenchmarkSuite> {
+  return benchmarkRequest('/suites', 'POST', 'Failed to create suite', suite)
+}
+
+export function updateBenchmarkSuite(id: string, suite: BenchmarkSuiteInput): Promise<BenchmarkSuite> {
+  return benchmarkRequest(`/suites/${id}`, 'PUT', 'Failed to update suite', suite)
+}
+
+export function deleteBenchmarkSuite(id: string): Promise<{ deleted: string }> {
+  return benchmarkRequest(`/suites/${id}`, 'DELETE', 'Failed to delete suite')
+}
+
+export function fetchBenchmarkRuns(suiteId?: string): Promise<BenchmarkRunInfo[]> {
+  return benchmarkRequest(suiteId ? `/runs?suiteId=${suiteId}` : '/runs', 'GET', 'Failed to fetch benchmark runs')
+}
+
+export function fetchBenchmarkRun(id: string): Promise<BenchmarkRun> {
+  return benchmarkRequest(`/runs/${id}`, 'GET', 'Failed to fetch benchmark run')
+}
+
+export function startBenchmark(params: { suiteId: string; preset: string; concurrency: number }): Promise<BenchmarkRun> {
+  return benchmarkRequest('/runs', 'POST', 'Failed to start benchmark', params)
+}
+
+export function cancelBenchmark(id: string): Promise<BenchmarkRun> {
+  return benchmarkRequest(`/runs/${id}/cancel`, 'POST', 'Failed to cancel benchmark')
+}
+
+export function deleteBenchmarkRun(id: string): Promise<{ deleted: string }> {
+  return benchmarkRequest(`/runs/${id}`, 'DELETE', 'Failed to delete benchmark run')
+}
+
 // ============================================================================
 // DocGraph Code Intelligence API
 // ============================================================================
@@ -0,0 +1,23 @@
+import { useQuery } from '@tanstack/react-query'
+import { fetchSession, hasRole, type Role } from './api'
+
+export const SESSION_QUERY_KEY = ['auth', 'session']
+
+// The signed-in user, rechecked every minute so an expired or revoked
+// session drops the app back to the login screen.
+export function useSession() {
+  return useQuery({
+    queryKey: SESSION_QUERY_KEY,
+    queryFn: fetchSession,
+    refetchInterval: 60000,
+    staleTime: 30000,
+    retry: false,
+  })
+}
+
+// Whether the current user may use actions that need `role`; the server
+// enforces the same check, this only keeps the UI from offering them.
+export function useCan(role: Role): boolean {
+  const { data: session } = useSession()
+  return hasRole(session?.user, role)
+}
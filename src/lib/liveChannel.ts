@@ -0,0 +1,30 @@
+import { useEffect } from 'react'
+import { createSSEConnection, type LiveMessage } from './api'
+import { useDashboardStore } from '@/stores/dashboardStore'
+
+// Keeps dashboardStore fed from /api/live/stream. EventSource reconnects on
+// its own and the server resends snapshots, so a dropped connection only
+// needs to flip widgets back to polling until it returns.
+export function useLiveChannel() {
+  const { applyLiveMessage, setLiveConnected } = useDashboardStore()
+
+  useEffect(() => {
+    const eventSource = createSSEConnection(
+      '/live/stream',
+      (event) => {
+        try {
+          applyLiveMessage(JSON.parse(event.data) as LiveMessage)
+        } catch {
+          // Ignore malformed messages
+        }
+      },
+      () => setLiveConnected(false)
+    )
+    eventSource.onopen = () => setLiveConnected(true)
+
+    return () => {
+      eventSource.close()
+      setLiveConnected(false)
+    }
+  }, [applyLiveMessage, setLiveConnected])
+}
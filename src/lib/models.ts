@@ -0,0 +1,43 @@
+import { useQuery } from '@tanstack/react-query'
+import { fetchModelCatalog, type CatalogModel, type ModelBackend } from './api'
+import { useDashboardStore } from '@/stores/dashboardStore'
+
+export const MODEL_CATALOG_QUERY_KEY = ['models']
+
+// Weights are only part of what a loaded model holds; KV cache and runtime
+// buffers add roughly this much on top
+const VRAM_OVERHEAD = 1.2
+
+export const backendLabels: Record<ModelBackend, string> = {
+  ollama: 'Ollama',
+  vllm: 'vLLM',
+  sglang: 'SGLang',
+  llamacpp: 'llama.cpp',
+}
+
+// Shared by every stage card; react-query keeps it to one request
+export function useModelCatalog() {
+  return useQuery({
+    queryKey: MODEL_CATALOG_QUERY_KEY,
+    queryFn: () => fetchModelCatalog(),
+    refetchInterval: 30000,
+  })
+}
+
+export interface VramFit {
+  level: 'ok' | 'tight' | 'exceeds'
+  neededGB: number
+  totalGB: number
+}
+
+// Loaded models report what they actually hold; others are estimated from size on disk
+export function vramFit(model: CatalogModel, totalGB: number | undefined): VramFit | null {
+  const neededGB = model.vramGB ?? (model.sizeGB !== null ? model.sizeGB * VRAM_OVERHEAD : null)
+  if (neededGB === null || !totalGB) return null
+  const level = neededGB > totalGB ? 'exceeds' : neededGB > totalGB * 0.9 ? 'tight' : 'ok'
+  return { level, neededGB, totalGB }
+}
+
+export function useVramTotal(): number | undefined {
+  return useDashboardStore((state) => state.gpuStatus?.vramTotal)
+}
@@ -6,12 +6,14 @@ import {
   fetchRawYaml,
   updateLLMModel,
   applyLLMPreset,
+  applyCustomPreset as applyCustomPresetRequest,
   saveLLMConfig,
   reloadLLMConfig,
   saveRawYaml,
+  rollbackConfigVersion,
 } from '@/lib/api'
 
-type ConfigTab = 'pipeline' | 'utility' | 'raw'
+type ConfigTab = 'pipeline' | 'utility' | 'presets' | 'raw' | 'history'
 
 interface PendingChange {
   path: string
@@ -51,11 +53,13 @@ interface AgentConfigState {
   updateModelField: (path: string, field: string, value: string | number) => void
   commitPendingChange: (path: string) => Promise<void>
   applyPreset: (presetName: string) => Promise<void>
+  applyCustomPreset: (presetName: string) => Promise<void>
 
   // Actions - Persistence
   saveToYaml: () => Promise<void>
   reloadFromYaml: () => Promise<void>
-  saveRawYamlContent: (content: string) => Promise<void>
+  saveRawYamlContent: (content: string, message?: string) => Promise<void>
+  rollbackToVersion: (versionId: number) => Promise<void>
 }
 
 export const useAgentConfigStore = create<AgentConfigState>((set, get) => ({
@@ -202,6 +206,19 @@ export const useAgentConfigStore = create<AgentConfigState>((set, get) => ({
     }
   },
 
+  // Apply a preset authored in the dashboard
+  applyCustomPreset: async (presetName) => {
+    set({ isSaving: true, error: null })
+    try {
+      await applyCustomPresetRequest(presetName)
+      await get().loadConfig()
+      set({ isSaving: false, lastSaved: new Date().toISOString() })
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to apply preset'
+      set({ error: message, isSaving: false })
+    }
+  },
+
   // Save current config to YAML file
   saveToYaml: async () => {
     set({ isSaving: true, error: null })
@@ -230,10 +247,10 @@ export const useAgentConfigStore = create<AgentConfigState>((set, get) => ({
   },
 
   // Save raw YAML content
-  saveRawYamlContent: async (content) => {
+  saveRawYamlContent: async (content, message) => {
     set({ isSaving: true, error: null })
     try {
-      await saveRawYaml(content)
+      await saveRawYaml(content, message)
       set({
         rawYaml: content,
         isSaving: false,
@@ -246,4 +263,18 @@ export const useAgentConfigStore = create<AgentConfigState>((set, get) => ({
       set({ error: message, isSaving: false })
     }
   },
+
+  // Push a saved config version back to memOS
+  rollbackToVersion: async (versionId) => {
+    set({ isSaving: true, error: null, pendingChanges: new Map() })
+    try {
+      await rollbackConfigVersion(versionId)
+      set({ isSaving: false, lastSaved: new Date().toISOString() })
+      await get().loadConfig()
+      await get().loadRawYaml()
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to roll back config'
+      set({ error: message, isSaving: false })
+    }
+  },
 }))
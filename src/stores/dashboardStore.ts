@@ -1,5 +1,5 @@
 import { create } from 'zustand'
-import type { ServiceHealth, GPUStatus, ProcessInfo, LogEntry } from '@/lib/api'
+import type { ServiceHealth, GPUStatus, ProcessInfo, LogEntry, LiveMessage } from '@/lib/api'
 
 interface DashboardState {
   // Health state
@@ -23,6 +23,11 @@ interface DashboardState {
   sseConnected: boolean
   setSSEConnected: (connected: boolean) => void
 
+  // Live channel state; widgets only poll while it is down
+  liveConnected: boolean
+  setLiveConnected: (connected: boolean) => void
+  applyLiveMessage: (message: LiveMessage) => void
+
   // UI state
   logFilter: {
     source: string | null
@@ -31,6 +36,19 @@ interface DashboardState {
   setLogFilter: (filter: { source?: string | null; level?: string | null }) => void
 }
 
+// Applies a keyed delta, keeping existing entries in place and appending new ones
+function mergeByName<T extends { name: string }>(current: T[], upserts: T[], removed: string[]): T[] {
+  const updates = new Map(upserts.map((item) => [item.name, item]))
+  const merged = current
+    .filter((item) => !removed.includes(item.name))
+    .map((item) => {
+      const update = updates.get(item.name)
+      updates.delete(item.name)
+      return update ?? item
+    })
+  return [...merged, ...updates.values()]
+}
+
 export const useDashboardStore = create<DashboardState>((set) => ({
   // Health
   services: [],
@@ -56,6 +74,31 @@ export const useDashboardStore = create<DashboardState>((set) => ({
   sseConnected: false,
   setSSEConnected: (sseConnected) => set({ sseConnected }),
 
+  // Live channel
+  liveConnected: false,
+  setLiveConnected: (liveConnected) => set({ liveConnected }),
+  applyLiveMessage: (message) =>
+    set((state) => {
+      switch (message.topic) {
+        case 'health':
+          return {
+            services:
+              message.type === 'snapshot'
+                ? (message.data as ServiceHealth[])
+                : mergeByName(state.services, message.upserts as ServiceHealth[], message.removed),
+          }
+        case 'processes':
+          return {
+            processes: (message.type === 'snapshot'
+              ? (message.data as ProcessInfo[])
+              : mergeByName(state.processes, message.upserts as ProcessInfo[], message.removed)
+            ).sort((a, b) => b.cpu - a.cpu),
+          }
+        case 'gpu':
+          return message.type === 'snapshot' ? { gpuStatus: message.data as GPUStatus } : {}
+      }
+    }),
+
   // UI
   logFilter: { source: null, level: null },
   setLogFilter: (filter) =>